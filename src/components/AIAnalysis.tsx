@@ -1,6 +1,6 @@
 import { useState, useCallback, useMemo } from 'react';
 /// <reference types="vite/client" />
-import { ErrorPattern, LogEntry } from '../types';
+import { AnalysisResult, CountMode, ErrorPattern, LogEntry } from '../types';
 import {
   buildHealthContext,
   buildRootCauseContext,
@@ -9,6 +9,7 @@ import {
   buildRemediationContext,
   AnalysisStats,
 } from '../utils/analysisContext';
+import { SAMPLING_NOTE } from '../utils/sampling';
 
 interface AIAnalysisProps {
   patterns: ErrorPattern[];
@@ -19,25 +20,13 @@ interface AIAnalysisProps {
     warnings: number;
     timeRange: string;
   };
+  countMode?: CountMode;
+  results: Record<string, AnalysisResult>; // Per mode, kept by the dashboard with the session
+  onResult: (mode: string, result: AnalysisResult) => void;
 }
 
 type AnalysisMode = 'health' | 'rootcause' | 'incident' | 'api' | 'remediation';
 
-interface AnalysisSection {
-  title: string;
-  severity?: 'critical' | 'high' | 'medium' | 'low' | 'info';
-  content: string;
-  items?: string[];
-  kql?: string;
-  code?: string;
-}
-
-interface AnalysisResult {
-  score?: number;
-  summary: string;
-  sections: AnalysisSection[];
-}
-
 const MODES: { id: AnalysisMode; label: string; icon: string; description: string }[] = [
   { id: 'health', label: 'Health Overview', icon: '\u2665', description: 'System health score and severity trends' },
   { id: 'rootcause', label: 'Root Cause', icon: '\u2295', description: 'Error chain analysis and dependency failures' },
@@ -164,11 +153,10 @@ ${jsonSchema}`;
   }
 }
 
-export default function AIAnalysis({ patterns, logs, stats }: AIAnalysisProps) {
+export default function AIAnalysis({ patterns, logs, stats, countMode = 'rows', results, onResult }: AIAnalysisProps) {
   const apiKey = import.meta.env.VITE_ANTHROPIC_API_KEY || '';
   const [mode, setMode] = useState<AnalysisMode>('health');
   const [analyzing, setAnalyzing] = useState(false);
-  const [results, setResults] = useState<Record<string, AnalysisResult>>({});
   const [error, setError] = useState<string | null>(null);
 
   const analysisStats = useMemo<AnalysisStats>(() => ({
@@ -176,7 +164,8 @@ export default function AIAnalysis({ patterns, logs, stats }: AIAnalysisProps) {
     errors: stats.errors,
     warnings: stats.warnings,
     timeRange: stats.timeRange,
-  }), [stats]);
+    countMode,
+  }), [stats, countMode]);
 
   const analyze = useCallback(async () => {
     if (!apiKey) {
@@ -197,6 +186,7 @@ export default function AIAnalysis({ patterns, logs, stats }: AIAnalysisProps) {
         case 'api': context = buildAPIContext(logs, patterns, analysisStats); break;
         case 'remediation': context = buildRemediationContext(logs, patterns, analysisStats); break;
       }
+      if (countMode === 'events') context = `${SAMPLING_NOTE}\n\n${context}`;
 
       const prompt = buildPrompt(mode, context);
 
@@ -226,7 +216,7 @@ export default function AIAnalysis({ patterns, logs, stats }: AIAnalysisProps) {
       const jsonMatch = content.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
         const parsed = JSON.parse(jsonMatch[0]);
-        setResults(prev => ({ ...prev, [mode]: parsed }));
+        onResult(mode, parsed);
       } else {
         throw new Error('Failed to parse analysis response');
       }
@@ -235,7 +225,7 @@ export default function AIAnalysis({ patterns, logs, stats }: AIAnalysisProps) {
     } finally {
       setAnalyzing(false);
     }
-  }, [apiKey, mode, logs, patterns, analysisStats]);
+  }, [apiKey, mode, logs, patterns, analysisStats, countMode, onResult]);
 
   const currentResult = results[mode];
 
@@ -1,141 +1,17 @@
 import { useMemo } from 'react';
-import { LogEntry } from '../types';
+import { CountMode, LogEntry } from '../types';
+import { aggregateAPIEndpoints } from '../utils/apiEndpoints';
 
 interface APIErrorsProps {
   logs: LogEntry[];
   onViewDetails: (log: LogEntry) => void;
   onEndpointClick: (endpoint: string, logIds: number[]) => void;
+  countMode?: CountMode;
 }
 
-interface APIEndpoint {
-  endpoint: string;
-  method: string | null;
-  totalCount: number;
-  errorCount: number;
-  warningCount: number;
-  statusCodes: Map<string, number>;
-  firstSeen: Date;
-  lastSeen: Date;
-  sampleLogs: LogEntry[];
-  allLogIds: number[];
-}
-
-// Extract API endpoint from message
-function extractAPIEndpoint(message: string): { endpoint: string; method: string | null } | null {
-  // Match patterns like "GET /api/users", "POST /api/orders/123", "/api/health"
-  // Also match full URLs like "https://example.com/api/users"
-
-  const patterns = [
-    // Method + endpoint: "GET /api/users" or "POST https://example.com/api/users"
-    /\b(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s+(?:https?:\/\/[^/\s]+)?(\/api\/[^\s?#"'\]}]+)/i,
-    // Just endpoint with /api/
-    /(?:https?:\/\/[^/\s]+)?(\/api\/[^\s?#"'\]},]+)/i,
-    // URL in quotes or after common patterns
-    /["'](?:https?:\/\/[^/\s]+)?(\/api\/[^"'\s?#]+)["']/i,
-    // "endpoint": "/api/..."
-    /endpoint["']?\s*[:=]\s*["']?(\/api\/[^\s"',}]+)/i,
-    // url: "/api/..." or path: "/api/..."
-    /(?:url|path|uri)["']?\s*[:=]\s*["']?(?:https?:\/\/[^/\s]+)?(\/api\/[^\s"',}]+)/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match) {
-      // Normalize the endpoint - remove IDs/GUIDs
-      let endpoint = match[match.length - 1] || match[1];
-      let method: string | null = null;
-
-      // Check if we captured a method
-      if (match[1] && /^(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)$/i.test(match[1])) {
-        method = match[1].toUpperCase();
-        endpoint = match[2];
-      }
-
-      // Normalize: replace UUIDs, numeric IDs with placeholders
-      endpoint = endpoint
-        .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '{id}')
-        .replace(/\/\d+(?=\/|$)/g, '/{id}')
-        .replace(/\/$/, ''); // Remove trailing slash
-
-      return { endpoint, method };
-    }
-  }
-
-  return null;
-}
-
-// Extract status code from message
-function extractStatusCode(message: string): string | null {
-  // Match patterns like "status: 500", "statusCode: 404", "HTTP 500", "returned 404"
-  const patterns = [
-    /\bstatus(?:Code)?["']?\s*[:=]\s*["']?(\d{3})/i,
-    /\bHTTP\s*(\d{3})/i,
-    /\breturned?\s+(\d{3})/i,
-    /\b(\d{3})\s+(?:error|internal|not found|bad request|unauthorized|forbidden)/i,
-    /\bcode["']?\s*[:=]\s*["']?(\d{3})/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match) {
-      return match[1];
-    }
-  }
-
-  return null;
-}
-
-export default function APIErrors({ logs, onViewDetails, onEndpointClick }: APIErrorsProps) {
-  const apiEndpoints = useMemo(() => {
-    const endpoints = new Map<string, APIEndpoint>();
-
-    logs.forEach(log => {
-      const extracted = extractAPIEndpoint(log._message);
-      if (!extracted) return;
-
-      const key = `${extracted.method || 'ANY'} ${extracted.endpoint}`;
-      const statusCode = extractStatusCode(log._message);
-
-      if (!endpoints.has(key)) {
-        endpoints.set(key, {
-          endpoint: extracted.endpoint,
-          method: extracted.method,
-          totalCount: 0,
-          errorCount: 0,
-          warningCount: 0,
-          statusCodes: new Map(),
-          firstSeen: log._timestamp || new Date(),
-          lastSeen: log._timestamp || new Date(),
-          sampleLogs: [],
-          allLogIds: []
-        });
-      }
-
-      const ep = endpoints.get(key)!;
-      ep.totalCount++;
-      ep.allLogIds.push(log._id);
-
-      if (log._severity === 3) ep.errorCount++;
-      if (log._severity === 2) ep.warningCount++;
-
-      if (statusCode) {
-        ep.statusCodes.set(statusCode, (ep.statusCodes.get(statusCode) || 0) + 1);
-      }
-
-      if (log._timestamp) {
-        if (log._timestamp < ep.firstSeen) ep.firstSeen = log._timestamp;
-        if (log._timestamp > ep.lastSeen) ep.lastSeen = log._timestamp;
-      }
-
-      if (ep.sampleLogs.length < 5) {
-        ep.sampleLogs.push(log);
-      }
-    });
-
-    // Sort by error count (highest first)
-    return Array.from(endpoints.values())
-      .sort((a, b) => b.errorCount - a.errorCount || b.totalCount - a.totalCount);
-  }, [logs]);
+export default function APIErrors({ logs, onViewDetails, onEndpointClick, countMode = 'rows' }: APIErrorsProps) {
+  const apiEndpoints = useMemo(() => aggregateAPIEndpoints(logs, countMode), [logs, countMode]);
+  const estimated = countMode === 'events' ? ' (est.)' : '';
 
   const totalAPIErrors = apiEndpoints.reduce((sum, ep) => sum + ep.errorCount, 0);
   const totalAPIWarnings = apiEndpoints.reduce((sum, ep) => sum + ep.warningCount, 0);
@@ -145,7 +21,7 @@ export default function APIErrors({ logs, onViewDetails, onEndpointClick }: APIE
       <div className="bg-gray-900 rounded-lg border border-gray-800 p-8 text-center">
         <div className="text-gray-500">No API endpoint patterns found in logs</div>
         <p className="text-xs text-gray-600 mt-2">
-          Looking for patterns like "/api/users", "GET /api/orders", etc.
+          Looking for request URLs, or patterns like "/api/users", "GET /api/orders", etc. in messages
         </p>
       </div>
     );
@@ -162,17 +38,17 @@ export default function APIErrors({ logs, onViewDetails, onEndpointClick }: APIE
           <div className="text-2xl font-bold text-gray-100">{apiEndpoints.length}</div>
         </div>
         <div className="bg-gray-900 rounded-lg p-4 border border-gray-800">
-          <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">Total API Logs</div>
+          <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">{countMode === 'events' ? 'API Events (est.)' : 'Total API Logs'}</div>
           <div className="text-2xl font-bold text-blue-400">
             {apiEndpoints.reduce((sum, ep) => sum + ep.totalCount, 0).toLocaleString()}
           </div>
         </div>
         <div className="bg-gray-900 rounded-lg p-4 border border-gray-800">
-          <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">API Errors</div>
+          <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">API Errors{estimated}</div>
           <div className="text-2xl font-bold text-red-400">{totalAPIErrors.toLocaleString()}</div>
         </div>
         <div className="bg-gray-900 rounded-lg p-4 border border-gray-800">
-          <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">API Warnings</div>
+          <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">API Warnings{estimated}</div>
           <div className="text-2xl font-bold text-yellow-400">{totalAPIWarnings.toLocaleString()}</div>
         </div>
       </div>
@@ -293,6 +169,9 @@ export default function APIErrors({ logs, onViewDetails, onEndpointClick }: APIE
                         hour12: true
                       })}
                     </span>
+                    {ep.timedCount > 0 && (
+                      <span>Avg: {Math.round(ep.totalDuration / ep.timedCount).toLocaleString()} ms</span>
+                    )}
                   </div>
                 </div>
               </div>
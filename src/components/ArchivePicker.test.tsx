@@ -0,0 +1,36 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ArchivePicker from './ArchivePicker';
+
+// =============================================================================
+// ArchivePicker Component Tests
+// =============================================================================
+describe('ArchivePicker', () => {
+  const archive = new File(['zip'], 'exports.zip');
+  const items = [
+    { file: archive, entry: 'traces-1.csv', name: 'traces-1.csv', size: 2048 },
+    { file: archive, entry: 'traces-2.csv', name: 'traces-2.csv', size: 4096 },
+    { file: archive, entry: 'requests.csv', name: 'requests.csv', size: 512 },
+  ];
+
+  it('should load a single entry', () => {
+    const onLoad = vi.fn();
+    render(<ArchivePicker items={items} onLoad={onLoad} onClose={vi.fn()} />);
+
+    expect(screen.getByText('2.0 KB')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Load requests.csv'));
+    expect(onLoad).toHaveBeenCalledWith([items[2]]);
+  });
+
+  it('should merge the selected entries', () => {
+    const onLoad = vi.fn();
+    render(<ArchivePicker items={items} onLoad={onLoad} onClose={vi.fn()} />);
+
+    fireEvent.click(screen.getByLabelText('Select requests.csv'));
+    fireEvent.click(screen.getByText('Merge 2 files'));
+    expect(onLoad).toHaveBeenCalledWith([items[0], items[1]]);
+
+    fireEvent.click(screen.getByLabelText('Select traces-2.csv'));
+    expect(screen.getByText('Merge 1 files')).toBeDisabled();
+  });
+});
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { UploadItem } from '../utils/archive';
+
+interface ArchivePickerProps {
+  items: UploadItem[];
+  onLoad: (items: UploadItem[]) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function ArchivePicker({ items, onLoad, onClose }: ArchivePickerProps) {
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(items.map((_, i) => i)));
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const chosen = items.filter((_, i) => selected.has(i));
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-40" onClick={onClose} />
+
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-xl bg-gray-900 border border-gray-800 rounded-lg shadow-2xl z-50">
+        <div className="border-b border-gray-800 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-100">Choose Files</h2>
+            <p className="text-xs text-gray-500 mt-0.5">Load one file, or merge several into one timeline</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="text-gray-400 hover:text-gray-200 p-1 hover:bg-gray-800 rounded transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <ul className="p-6 space-y-1 max-h-[60vh] overflow-y-auto">
+          {items.map((item, i) => (
+            <li key={`${item.file.name}/${item.entry ?? ''}`} className="flex items-center gap-3 px-2 py-1.5 rounded hover:bg-gray-800/60">
+              <input
+                type="checkbox"
+                checked={selected.has(i)}
+                onChange={() => toggle(i)}
+                aria-label={`Select ${item.name}`}
+                className="accent-blue-500"
+              />
+              <span className="flex-1 min-w-0 truncate text-sm text-gray-200 font-mono" title={item.entry ? `${item.file.name} › ${item.entry}` : item.name}>
+                {item.name}
+              </span>
+              <span className="text-xs text-gray-500">{formatSize(item.size)}</span>
+              <button
+                onClick={() => onLoad([item])}
+                aria-label={`Load ${item.name}`}
+                className="px-2 py-0.5 text-xs text-blue-400 hover:text-blue-300 hover:bg-gray-800 rounded transition-colors"
+              >
+                Load
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="border-t border-gray-800 px-6 py-4 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-gray-400 hover:text-gray-200 hover:bg-gray-800 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onLoad(chosen)}
+            disabled={chosen.length < 2}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded transition-colors"
+          >
+            Merge {chosen.length} files
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,162 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ColumnMappingEditor from './ColumnMappingEditor';
+import { ColumnMapping, MappingProfile, ServerRoleRule } from '../types';
+import { DEFAULT_SERVER_ROLE_RULES } from '../utils/serverRoles';
+
+const COLUMNS = ['EventTime', 'type', 'Level', 'Text', 'operation_Id'];
+
+const MAPPING: ColumnMapping = { timestamp: '', severity: 'type', message: 'Text', operationId: 'operation_Id' };
+
+function renderEditor(overrides: Partial<React.ComponentProps<typeof ColumnMappingEditor>> = {}) {
+  const props = {
+    columns: COLUMNS,
+    mapping: MAPPING,
+    profiles: [] as MappingProfile[],
+    onApply: vi.fn(),
+    onSaveProfile: vi.fn(),
+    onDeleteProfile: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  render(<ColumnMappingEditor {...props} />);
+  return props;
+}
+
+// =============================================================================
+// ColumnMappingEditor Component Tests
+// =============================================================================
+describe('ColumnMappingEditor', () => {
+  it('should show the current mapping in each selector', () => {
+    renderEditor();
+
+    expect(screen.getByLabelText('Timestamp')).toHaveValue('');
+    expect(screen.getByLabelText('Severity')).toHaveValue('type');
+    expect(screen.getByLabelText('Message')).toHaveValue('Text');
+    expect(screen.getByLabelText('Operation ID')).toHaveValue('operation_Id');
+  });
+
+  it('should offer every file column plus none', () => {
+    renderEditor();
+
+    const options = Array.from((screen.getByLabelText('Timestamp') as HTMLSelectElement).options).map(o => o.value);
+    expect(options).toEqual(['', ...COLUMNS]);
+  });
+
+  it('should disable Apply until the mapping changes', () => {
+    const props = renderEditor();
+
+    const apply = screen.getByText('Apply');
+    expect(apply).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Timestamp'), { target: { value: 'EventTime' } });
+    fireEvent.change(screen.getByLabelText('Severity'), { target: { value: 'Level' } });
+    fireEvent.click(apply);
+
+    expect(props.onApply).toHaveBeenCalledWith({ ...MAPPING, timestamp: 'EventTime', severity: 'Level' });
+  });
+
+  it('should preview a sample value for the selected column', () => {
+    renderEditor({ sampleRow: { EventTime: '2024-01-15 10:00', type: 'trace', Level: 'Warning', Text: 'hello', operation_Id: 'op' } });
+
+    expect(screen.getByText('e.g. hello')).toBeInTheDocument();
+  });
+
+  it('should save the draft mapping under the entered profile name', () => {
+    const props = renderEditor();
+
+    const save = screen.getByText('Save & apply');
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Timestamp'), { target: { value: 'EventTime' } });
+    fireEvent.change(screen.getByPlaceholderText('Profile name'), { target: { value: '  Sitecore  ' } });
+    fireEvent.click(save);
+
+    expect(props.onSaveProfile).toHaveBeenCalledWith('Sitecore', { ...MAPPING, timestamp: 'EventTime' });
+  });
+
+  it('should apply a declared source timezone', () => {
+    const props = renderEditor();
+
+    fireEvent.change(screen.getByLabelText('Source timezone'), { target: { value: 'Europe/Amsterdam' } });
+    fireEvent.click(screen.getByText('Apply'));
+
+    expect(props.onApply).toHaveBeenCalledWith({ ...MAPPING, timeZone: 'Europe/Amsterdam' });
+  });
+
+  it('should reject an unknown timezone', () => {
+    renderEditor();
+
+    fireEvent.change(screen.getByLabelText('Source timezone'), { target: { value: 'Mars/Olympus' } });
+
+    expect(screen.getByText('Unknown timezone')).toBeInTheDocument();
+    expect(screen.getByText('Apply')).toBeDisabled();
+  });
+
+  it('should apply severity rules with a preview from the file values', () => {
+    const getValueCounts = vi.fn(() => new Map([['Notice', 3], ['Error', 1]]));
+    const props = renderEditor({ getValueCounts });
+
+    expect(getValueCounts).toHaveBeenCalledWith('type');
+    expect(screen.getByText('Info: 3')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('+ Add rule'));
+    fireEvent.change(screen.getByLabelText('Rule 1 value'), { target: { value: 'Notice' } });
+    fireEvent.change(screen.getByLabelText('Rule 1 level'), { target: { value: '2' } });
+    expect(screen.getByText('Warning: 3')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Apply'));
+    expect(props.onApply).toHaveBeenCalledWith({ ...MAPPING, severityRules: [{ match: 'exact', value: 'Notice', severity: 2 }] });
+  });
+
+  it('should block applying while a rule is incomplete', () => {
+    renderEditor();
+
+    fireEvent.click(screen.getByText('+ Add rule'));
+
+    expect(screen.getByText('Apply')).toBeDisabled();
+  });
+
+  it('should apply edited server role rules with a preview', () => {
+    const previewRoles = vi.fn((rules: ServerRoleRule[]) => rules.map(r => ({ role: r.role, color: r.color, count: 2 })));
+    const props = renderEditor({ previewRoles });
+
+    expect(screen.getByLabelText('Server role preview')).toHaveTextContent('CM: 2');
+
+    fireEvent.change(screen.getByLabelText('Role rule 1 column'), { target: { value: 'cloud_RoleName' } });
+    fireEvent.change(screen.getByLabelText('Role rule 1 role'), { target: { value: 'Author' } });
+    expect(screen.getByText('Author: 2')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Apply'));
+    const applied = vi.mocked(props.onApply).mock.calls[0][0];
+    expect(applied.serverRoleRules?.[0]).toEqual({ ...DEFAULT_SERVER_ROLE_RULES[0], source: 'cloud_RoleName', role: 'Author' });
+    expect(applied.serverRoleRules).toHaveLength(DEFAULT_SERVER_ROLE_RULES.length);
+  });
+
+  it('should block applying while a role rule is incomplete', () => {
+    renderEditor();
+
+    fireEvent.click(screen.getByText('+ Add role rule'));
+
+    expect(screen.getByText('Enter a pattern')).toBeInTheDocument();
+    expect(screen.getByText('Apply')).toBeDisabled();
+  });
+
+  it('should list saved profiles and delete them', () => {
+    const profile: MappingProfile = { name: 'Sitecore', columns: COLUMNS, mapping: MAPPING, updatedAt: 1 };
+    const props = renderEditor({ profiles: [profile], activeProfileName: 'Sitecore' });
+
+    expect(screen.getByText('Profile: Sitecore')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Delete profile Sitecore'));
+
+    expect(props.onDeleteProfile).toHaveBeenCalledWith('Sitecore');
+  });
+
+  it('should close from the close button', () => {
+    const props = renderEditor();
+
+    fireEvent.click(screen.getByLabelText('Close'));
+
+    expect(props.onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { useMemo, useState } from 'react';
+import { ColumnMapping, MappingProfile, ServerRoleRule, SeverityRule } from '../types';
+import { DEFAULT_TIME_ZONE, LOCAL_TIME_ZONE, isValidTimeZone } from '../utils/timestamps';
+import { validateSeverityRule } from '../utils/severityRules';
+import { DEFAULT_SERVER_ROLE_RULES, ServerRoleOption, validateServerRoleRule } from '../utils/serverRoles';
+import SeverityRulesEditor from './SeverityRulesEditor';
+import ServerRoleRulesEditor from './ServerRoleRulesEditor';
+
+interface ColumnMappingEditorProps {
+  columns: string[];
+  mapping: ColumnMapping;
+  sampleRow?: Record<string, string>;
+  getValueCounts?: (column: string) => Map<string, number>;
+  previewRoles?: (rules: ServerRoleRule[]) => ServerRoleOption[];
+  profiles: MappingProfile[];
+  activeProfileName?: string;
+  onApply: (mapping: ColumnMapping) => void;
+  onSaveProfile: (name: string, mapping: ColumnMapping) => void;
+  onDeleteProfile: (name: string) => void;
+  onClose: () => void;
+}
+
+const COMMON_TIME_ZONES = [
+  DEFAULT_TIME_ZONE, LOCAL_TIME_ZONE, 'Europe/London', 'Europe/Amsterdam', 'America/New_York',
+  'America/Chicago', 'America/Los_Angeles', 'Asia/Kolkata', 'Asia/Tokyo', 'Australia/Sydney'
+];
+
+const FIELDS: { key: 'timestamp' | 'severity' | 'message' | 'operationId'; label: string; hint: string }[] = [
+  { key: 'timestamp', label: 'Timestamp', hint: 'When the event happened' },
+  { key: 'severity', label: 'Severity', hint: 'severityLevel or a level name' },
+  { key: 'message', label: 'Message', hint: 'Text used for patterns and search' },
+  { key: 'operationId', label: 'Operation ID', hint: 'Correlates related entries' },
+];
+
+export default function ColumnMappingEditor({
+  columns,
+  mapping,
+  sampleRow,
+  getValueCounts,
+  previewRoles,
+  profiles,
+  activeProfileName,
+  onApply,
+  onSaveProfile,
+  onDeleteProfile,
+  onClose
+}: ColumnMappingEditorProps) {
+  const [draft, setDraft] = useState<ColumnMapping>(mapping);
+  const [profileName, setProfileName] = useState(activeProfileName || '');
+
+  const timeZone = draft.timeZone?.trim() || DEFAULT_TIME_ZONE;
+  const timeZoneValid = isValidTimeZone(timeZone);
+  const rules: SeverityRule[] = draft.severityRules ?? [];
+  const rulesValid = rules.every(rule => validateSeverityRule(rule) === null);
+  const roleRules = draft.serverRoleRules ?? DEFAULT_SERVER_ROLE_RULES;
+  const roleRulesValid = roleRules.every(rule => validateServerRoleRule(rule) === null);
+  const valid = timeZoneValid && rulesValid && roleRulesValid;
+  const severityValues = useMemo(
+    () => (draft.severity && getValueCounts ? getValueCounts(draft.severity) : undefined),
+    [draft.severity, getValueCounts]
+  );
+
+  // Mappings that never touched the zone keep it unset (UTC)
+  const result = draft.timeZone === undefined ? draft : { ...draft, timeZone };
+  const changed = FIELDS.some(f => draft[f.key] !== mapping[f.key]) ||
+    timeZone !== (mapping.timeZone ?? DEFAULT_TIME_ZONE) ||
+    JSON.stringify(rules) !== JSON.stringify(mapping.severityRules ?? []) ||
+    JSON.stringify(roleRules) !== JSON.stringify(mapping.serverRoleRules ?? DEFAULT_SERVER_ROLE_RULES);
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-40" onClick={onClose} />
+
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-xl bg-gray-900 border border-gray-800 rounded-lg shadow-2xl z-50">
+        <div className="border-b border-gray-800 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-100">Column Mapping</h2>
+            {activeProfileName && (
+              <p className="text-xs text-gray-500 mt-0.5">Profile: {activeProfileName}</p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="text-gray-400 hover:text-gray-200 p-1 hover:bg-gray-800 rounded transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          {FIELDS.map(field => {
+            const column = draft[field.key];
+            const sample = column && sampleRow ? sampleRow[column] : '';
+            return (
+              <div key={field.key}>
+                <label className="flex items-center justify-between gap-4">
+                  <span>
+                    <span className="block text-sm text-gray-200">{field.label}</span>
+                    <span className="block text-xs text-gray-500">{field.hint}</span>
+                  </span>
+                  <select
+                    aria-label={field.label}
+                    value={column}
+                    onChange={(e) => setDraft(d => ({ ...d, [field.key]: e.target.value }))}
+                    className="w-64 bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm text-gray-300"
+                  >
+                    <option value="">(none)</option>
+                    {columns.map(col => (
+                      <option key={col} value={col}>{col}</option>
+                    ))}
+                  </select>
+                </label>
+                {sample && (
+                  <div className="mt-1 text-right text-xs text-gray-500 font-mono truncate">e.g. {sample}</div>
+                )}
+              </div>
+            );
+          })}
+
+          <div>
+            <label className="flex items-center justify-between gap-4">
+              <span>
+                <span className="block text-sm text-gray-200">Source timezone</span>
+                <span className="block text-xs text-gray-500">For timestamps without an offset; "local" is this browser's zone</span>
+              </span>
+              <input
+                type="text"
+                aria-label="Source timezone"
+                list="mapping-time-zones"
+                value={draft.timeZone ?? DEFAULT_TIME_ZONE}
+                onChange={(e) => setDraft(d => ({ ...d, timeZone: e.target.value }))}
+                className={`w-64 bg-gray-800 border rounded px-2 py-1.5 text-sm text-gray-300 ${timeZoneValid ? 'border-gray-700' : 'border-red-700'}`}
+              />
+              <datalist id="mapping-time-zones">
+                {COMMON_TIME_ZONES.map(zone => (
+                  <option key={zone} value={zone} />
+                ))}
+              </datalist>
+            </label>
+            {!timeZoneValid && (
+              <div className="mt-1 text-right text-xs text-red-400">Unknown timezone</div>
+            )}
+          </div>
+
+          {draft.severity && (
+            <div className="border-t border-gray-800 pt-4">
+              <SeverityRulesEditor
+                rules={rules}
+                valueCounts={severityValues}
+                onChange={(severityRules) => setDraft(d => ({ ...d, severityRules }))}
+              />
+            </div>
+          )}
+
+          <div className="border-t border-gray-800 pt-4">
+            <ServerRoleRulesEditor
+              rules={roleRules}
+              columns={columns}
+              preview={previewRoles}
+              onChange={(serverRoleRules) => setDraft(d => ({ ...d, serverRoleRules }))}
+              onReset={draft.serverRoleRules ? () => setDraft(d => ({ ...d, serverRoleRules: undefined })) : undefined}
+            />
+          </div>
+
+          <div className="flex items-center justify-end gap-2 pt-2">
+            <button
+              onClick={() => onApply(result)}
+              disabled={!changed || !valid}
+              className="px-3 py-1.5 text-xs font-medium rounded bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white"
+            >
+              Apply
+            </button>
+          </div>
+
+          <div className="border-t border-gray-800 pt-4">
+            <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">Save as profile</div>
+            <p className="text-xs text-gray-500 mb-2">
+              Files with the same set of columns will use this mapping automatically.
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder="Profile name"
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                className="flex-1 bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => onSaveProfile(profileName.trim(), result)}
+                disabled={!profileName.trim() || !valid}
+                className="px-3 py-1.5 text-xs font-medium rounded bg-gray-700 hover:bg-gray-600 disabled:text-gray-500 text-gray-200"
+              >
+                Save &amp; apply
+              </button>
+            </div>
+          </div>
+
+          {profiles.length > 0 && (
+            <div className="border-t border-gray-800 pt-4">
+              <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">Saved profiles</div>
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {profiles.map(profile => (
+                  <li key={profile.name} className="flex items-center justify-between text-sm">
+                    <span className={profile.name === activeProfileName ? 'text-blue-400' : 'text-gray-300'}>
+                      {profile.name}
+                      <span className="ml-2 text-xs text-gray-500">{profile.columns.length} columns</span>
+                    </span>
+                    <button
+                      onClick={() => onDeleteProfile(profile.name)}
+                      aria-label={`Delete profile ${profile.name}`}
+                      className="text-xs text-gray-500 hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ConditionBuilder from './ConditionBuilder';
+import { FilterCondition, FilterGroup } from '../types';
+
+// =============================================================================
+// Helper: create a condition tree for tests
+// =============================================================================
+function makeCondition(overrides: Partial<FilterCondition> = {}): FilterCondition {
+  return { type: 'condition', column: 'cloud_RoleInstance', operator: 'equals', values: ['web-01'], negate: false, ...overrides };
+}
+
+function makeTree(): FilterGroup {
+  return {
+    type: 'group',
+    combinator: 'and',
+    negate: false,
+    children: [
+      makeCondition(),
+      { type: 'group', combinator: 'or', negate: true, children: [makeCondition({ column: '_message', operator: 'contains', values: ['ping'] })] },
+    ],
+  };
+}
+
+// =============================================================================
+// ConditionBuilder Component Tests
+// =============================================================================
+describe('ConditionBuilder', () => {
+  it('should render conditions and groups as chips joined by their combinator', () => {
+    render(<ConditionBuilder conditions={makeTree()} columns={[]} onChange={vi.fn()} />);
+
+    expect(screen.getByText('cloud_RoleInstance equals web-01')).toBeInTheDocument();
+    expect(screen.getByText('Message contains ping')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'and' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'not' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('Conditions (2):')).toBeInTheDocument();
+  });
+
+  it('should remove a chip and clear an emptied tree', () => {
+    const onChange = vi.fn();
+    render(<ConditionBuilder conditions={{ ...makeTree(), children: [makeCondition()] }} columns={[]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove cloud_RoleInstance equals web-01' }));
+    expect(onChange).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should add a negated in condition from the form', () => {
+    const onChange = vi.fn();
+    render(<ConditionBuilder conditions={undefined} columns={['customDimensions.Category']} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('+ Condition'));
+    fireEvent.click(screen.getByLabelText('NOT'));
+    fireEvent.change(screen.getByLabelText('Condition column'), { target: { value: 'customDimensions.Category' } });
+    fireEvent.change(screen.getByLabelText('Condition operator'), { target: { value: 'in' } });
+    fireEvent.change(screen.getByLabelText('Condition value'), { target: { value: 'Sitecore.Analytics, Sitecore.Jobs' } });
+    fireEvent.click(screen.getByText('Add'));
+
+    expect(onChange).toHaveBeenCalledWith({
+      type: 'group',
+      combinator: 'and',
+      negate: false,
+      children: [makeCondition({ column: 'customDimensions.Category', operator: 'in', values: ['Sitecore.Analytics', 'Sitecore.Jobs'], negate: true })],
+    });
+  });
+
+  it('should keep the form open with an error for invalid values', () => {
+    const onChange = vi.fn();
+    render(<ConditionBuilder conditions={undefined} columns={[]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('+ Condition'));
+    fireEvent.change(screen.getByLabelText('Condition operator'), { target: { value: 'regex' } });
+    fireEvent.change(screen.getByLabelText('Condition value'), { target: { value: '(' } });
+    fireEvent.keyDown(screen.getByLabelText('Condition value'), { key: 'Enter' });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid regular expression');
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
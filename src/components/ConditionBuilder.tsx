@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { ConditionOperator, FilterCondition, FilterGroup } from '../types';
+import {
+  CONDITION_OPERATORS,
+  MESSAGE_COLUMN,
+  NodePath,
+  TIMESTAMP_COLUMN,
+  addNode,
+  columnLabel,
+  countConditions,
+  createConditionGroup,
+  describeCondition,
+  removeNode,
+  updateGroup,
+  validateCondition
+} from '../utils/filterConditions';
+
+interface ConditionBuilderProps {
+  conditions: FilterGroup | undefined;
+  columns: string[];
+  onChange: (conditions: FilterGroup | undefined) => void;
+}
+
+interface Draft {
+  column: string;
+  operator: ConditionOperator;
+  value: string;
+  negate: boolean;
+}
+
+const EMPTY_DRAFT: Draft = { column: MESSAGE_COLUMN, operator: 'contains', value: '', negate: false };
+
+export default function ConditionBuilder({ conditions, columns, onChange }: ConditionBuilderProps) {
+  const [target, setTarget] = useState<NodePath | null>(null); // Group the form adds to
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const root = conditions ?? createConditionGroup();
+  const count = countConditions(conditions); // Nested groups included
+
+  // An emptied tree goes back to no conditions
+  const commit = (next: FilterGroup) => onChange(next.children.length > 0 ? next : undefined);
+
+  const openForm = (path: NodePath) => {
+    setTarget(path);
+    setDraft(EMPTY_DRAFT);
+    setDraftError(null);
+  };
+
+  const addCondition = () => {
+    if (!target) return;
+    const values = draft.operator === 'in'
+      ? draft.value.split(',').map(v => v.trim()).filter(Boolean)
+      : [draft.value.trim()];
+    const condition: FilterCondition = { type: 'condition', column: draft.column, operator: draft.operator, values, negate: draft.negate };
+    const error = validateCondition(condition);
+    if (error) {
+      setDraftError(error);
+      return;
+    }
+    commit(addNode(root, target, condition));
+    setTarget(null);
+  };
+
+  const addGroup = () => {
+    commit(addNode(root, [], createConditionGroup('or')));
+    openForm([root.children.length]);
+  };
+
+  const toggleCombinator = (path: NodePath) =>
+    commit(updateGroup(root, path, group => ({ ...group, combinator: group.combinator === 'and' ? 'or' : 'and' })));
+
+  const renderGroup = (group: FilterGroup, path: NodePath) => (
+    <>
+      {group.children.map((child, i) => {
+        const childPath = [...path, i];
+        const joiner = i > 0 && (
+          <button
+            onClick={() => toggleCombinator(path)}
+            title="Switch between AND and OR"
+            className="text-[10px] font-semibold text-gray-500 hover:text-gray-300 uppercase"
+          >
+            {group.combinator}
+          </button>
+        );
+
+        if (child.type === 'condition') {
+          const label = describeCondition(child);
+          return (
+            <span key={i} className="contents">
+              {joiner}
+              <span className={`flex items-center gap-1 text-xs px-2 py-1 rounded border font-mono ${
+                child.negate ? 'text-red-300 bg-red-900/20 border-red-800' : 'text-teal-300 bg-teal-900/20 border-teal-800'
+              }`}>
+                {label}
+                <button onClick={() => commit(removeNode(root, childPath))} aria-label={`Remove ${label}`} className="hover:text-white">✕</button>
+              </span>
+            </span>
+          );
+        }
+
+        return (
+          <span key={i} className="contents">
+            {joiner}
+            <span className="flex flex-wrap items-center gap-1 px-1.5 py-1 rounded border border-dashed border-gray-600">
+              <button
+                onClick={() => commit(updateGroup(root, childPath, g => ({ ...g, negate: !g.negate })))}
+                aria-pressed={child.negate}
+                title="Negate this group"
+                className={`text-[10px] font-semibold uppercase ${child.negate ? 'text-red-400' : 'text-gray-600 hover:text-gray-400'}`}
+              >
+                not
+              </button>
+              <span className="text-gray-500">(</span>
+              {renderGroup(child, childPath)}
+              <button onClick={() => openForm(childPath)} aria-label="Add condition to group" className="text-xs text-blue-400 hover:text-blue-300 px-1">+</button>
+              <span className="text-gray-500">)</span>
+              <button onClick={() => commit(removeNode(root, childPath))} aria-label="Remove group" className="text-xs text-gray-500 hover:text-gray-300">✕</button>
+            </span>
+          </span>
+        );
+      })}
+    </>
+  );
+
+  return (
+    <div className="basis-full flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-500">Conditions{count > 0 && ` (${count})`}:</span>
+      {renderGroup(root, [])}
+      <button onClick={() => openForm([])} className="text-xs text-blue-400 hover:text-blue-300 px-1">+ Condition</button>
+      <button onClick={addGroup} className="text-xs text-blue-400 hover:text-blue-300 px-1" title="Group conditions joined with OR">+ Group</button>
+
+      {target && (
+        <div className="basis-full flex flex-wrap items-center gap-2 bg-gray-800/50 border border-gray-700 rounded p-2">
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            <input type="checkbox" checked={draft.negate} onChange={(e) => setDraft({ ...draft, negate: e.target.checked })} />
+            NOT
+          </label>
+          <select
+            value={draft.column}
+            onChange={(e) => setDraft({ ...draft, column: e.target.value })}
+            aria-label="Condition column"
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 max-w-[220px]"
+          >
+            {[MESSAGE_COLUMN, TIMESTAMP_COLUMN, ...columns].map(col => (
+              <option key={col} value={col}>{columnLabel(col)}</option>
+            ))}
+          </select>
+          <select
+            value={draft.operator}
+            onChange={(e) => setDraft({ ...draft, operator: e.target.value as ConditionOperator })}
+            aria-label="Condition operator"
+            className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300"
+          >
+            {CONDITION_OPERATORS.map(op => (
+              <option key={op.value} value={op.value}>{op.label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={draft.value}
+            onChange={(e) => {
+              setDraft({ ...draft, value: e.target.value });
+              setDraftError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addCondition();
+              if (e.key === 'Escape') setTarget(null);
+            }}
+            aria-label="Condition value"
+            placeholder={draft.operator === 'in' ? 'a, b, c' : draft.operator === 'regex' ? 'time(out)?' : 'Value'}
+            className="flex-1 min-w-[160px] bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button onClick={addCondition} className="text-xs bg-blue-600 hover:bg-blue-500 text-white rounded px-2 py-1">Add</button>
+          <button onClick={() => setTarget(null)} className="text-xs text-gray-400 hover:text-gray-300 px-1">Cancel</button>
+          {draftError && <span role="alert" className="basis-full text-xs text-red-400">{draftError}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import DetailDrawer from './DetailDrawer';
 import { LogEntry } from '../types';
+import { highlightPattern, parseSearchQuery } from '../utils/searchIndex';
 
 // =============================================================================
 // Helper: create a LogEntry for tests
@@ -285,6 +286,92 @@ describe('DetailDrawer', () => {
     expect(screen.queryByText('Operation ID')).not.toBeInTheDocument();
   });
 
+  it('should show typed telemetry fields for request rows', () => {
+    const log = makeLog({
+      _id: 1,
+      _itemType: 'request',
+      _resultCode: '500',
+      _success: false,
+      _duration: 1234.56,
+      _url: 'https://shop.example.com/api/orders/5',
+    });
+
+    render(
+      <DetailDrawer
+        log={log}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Telemetry')).toBeInTheDocument();
+    expect(screen.getByText('request')).toBeInTheDocument();
+    expect(screen.getByText('500')).toBeInTheDocument();
+    expect(screen.getByText('No')).toBeInTheDocument();
+    expect(screen.getByText('1,234.6 ms')).toBeInTheDocument();
+    expect(screen.getByText('https://shop.example.com/api/orders/5')).toBeInTheDocument();
+  });
+
+  it('should show the HTTP method and IIS sub-status', () => {
+    const log = makeLog({ _id: 1, _itemType: 'request', _method: 'POST', _resultCode: '500', _subStatus: '19' });
+
+    render(
+      <DetailDrawer
+        log={log}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Method')).toBeInTheDocument();
+    expect(screen.getByText('POST')).toBeInTheDocument();
+    expect(screen.getByText('500.19')).toBeInTheDocument();
+  });
+
+  it('should show which file a merged row came from', () => {
+    render(
+      <DetailDrawer
+        log={makeLog({ _id: 1, _message: 'hello', _source: 'export-2.csv' })}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Source File')).toBeInTheDocument();
+    expect(screen.getByText('export-2.csv')).toBeInTheDocument();
+  });
+
+  it('should list flattened custom dimensions in their own section', () => {
+    render(
+      <DetailDrawer
+        log={makeLog({
+          _id: 1,
+          _raw: {
+            message: 'hello',
+            customDimensions: '{"ItemPath":"/sitecore/content/Home","InstanceName":"web-CD-01"}',
+            'customDimensions.ItemPath': '/sitecore/content/Home',
+            'customDimensions.InstanceName': 'web-CD-01',
+          },
+        })}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('customDimensions')).toBeInTheDocument();
+    expect(screen.getByText('ItemPath')).toBeInTheDocument();
+    expect(screen.getByText('web-CD-01')).toBeInTheDocument();
+    expect(screen.queryByText('customDimensions.ItemPath')).not.toBeInTheDocument();
+    expect(screen.queryByText(/"ItemPath"/)).not.toBeInTheDocument();
+  });
+
+  it('should not show the Telemetry section for plain trace rows', () => {
+    render(
+      <DetailDrawer
+        log={makeLog({ _id: 1, _message: 'hello' })}
+        onClose={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByText('Telemetry')).not.toBeInTheDocument();
+  });
+
   it('should call onOperationIdClick when "Show related logs" clicked', () => {
     const log = makeLog({
       _id: 1,
@@ -529,4 +616,23 @@ describe('DetailDrawer', () => {
     // Check for drawer structure
     expect(screen.getByText('Log Details').closest('div')).toHaveClass('flex', 'items-center', 'gap-3');
   });
+
+  it('should mark search terms in the message and fields', () => {
+    const log = makeLog({
+      _id: 1,
+      _message: 'SQL timeout on /api/orders',
+      _raw: { cloud_RoleName: 'orders-api' },
+    });
+
+    const { container } = render(
+      <DetailDrawer
+        log={log}
+        onClose={vi.fn()}
+        highlight={highlightPattern(parseSearchQuery('timeout orders -sql'))}
+      />
+    );
+
+    const marks = Array.from(container.querySelectorAll('mark'), m => m.textContent);
+    expect(marks).toEqual(['timeout', 'orders', 'orders']);
+  });
 });
@@ -1,13 +1,16 @@
 import { LogEntry } from '../types';
 import { getSeverityLabel, getSeverityColor } from '../utils/csvParser';
+import { findDynamicColumns } from '../utils/customDimensions';
+import HighlightedText from './HighlightedText';
 
 interface DetailDrawerProps {
   log: LogEntry | null;
   onClose: () => void;
   onOperationIdClick?: (operationId: string) => void;
+  highlight?: RegExp | null; // Search terms to mark in the message and fields
 }
 
-export default function DetailDrawer({ log, onClose, onOperationIdClick }: DetailDrawerProps) {
+export default function DetailDrawer({ log, onClose, onOperationIdClick, highlight = null }: DetailDrawerProps) {
   if (!log) return null;
 
   const formatValue = (value: unknown): string => {
@@ -40,8 +43,38 @@ export default function DetailDrawer({ log, onClose, onOperationIdClick }: Detai
     }
   };
 
+  // Typed fields of requests / dependencies / exceptions / pageViews rows
+  const telemetry: [string, string][] = ([
+    ['Type', log._itemType && log._itemType !== 'trace' ? log._itemType : undefined],
+    ['Method', log._method],
+    ['Result code', log._resultCode && log._subStatus && log._subStatus !== '0' ? `${log._resultCode}.${log._subStatus}` : log._resultCode],
+    ['Success', log._success === undefined ? undefined : log._success ? 'Yes' : 'No'],
+    ['Duration', log._duration === undefined ? undefined : `${log._duration.toLocaleString('en-US', { maximumFractionDigits: 1 })} ms`],
+    ['URL', log._url],
+    ['Target', log._target],
+    ['Dependency type', log._dependencyType],
+    ['Exception type', log._exceptionType],
+    ['Problem ID', log._problemId]
+  ] as [string, string | undefined][]).filter((entry): entry is [string, string] => !!entry[1]);
+
   // Organize entries into groups
-  const rawEntries = Object.entries(log._raw || {}).filter(([, v]) => v !== null && v !== undefined && v !== '');
+  const allEntries = Object.entries(log._raw || {}).filter(([, v]) => v !== null && v !== undefined && v !== '');
+
+  // Keys flattened from customDimensions / customMeasurements get their own
+  // section, which then stands in for the JSON column
+  const dimensionGroups = findDynamicColumns(allEntries.map(([key]) => key))
+    .map(column => ({
+      column,
+      entries: allEntries
+        .filter(([key]) => key.startsWith(`${column}.`))
+        .map(([key, value]) => [key.slice(column.length + 1), String(value)] as [string, string])
+    }))
+    .filter(group => group.entries.length > 0);
+  const grouped = new Set(dimensionGroups.map(g => g.column));
+  const rawEntries = allEntries.filter(([key]) => {
+    const dot = key.indexOf('.');
+    return !grouped.has(key) && !(dot > 0 && grouped.has(key.slice(0, dot)));
+  });
 
   return (
     <>
@@ -99,6 +132,14 @@ export default function DetailDrawer({ log, onClose, onOperationIdClick }: Detai
             </div>
           )}
 
+          {/* Source file, for merged datasets */}
+          {log._source && (
+            <div className="mb-6">
+              <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">Source File</div>
+              <div className="font-mono text-gray-200 text-sm">{log._source}</div>
+            </div>
+          )}
+
           {/* Operation ID */}
           {log._operationId && (
             <div className="mb-6">
@@ -123,12 +164,42 @@ export default function DetailDrawer({ log, onClose, onOperationIdClick }: Detai
               <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">Message</div>
               <div className="bg-gray-800 rounded-lg p-3 border border-gray-700">
                 <pre className="text-sm text-gray-200 whitespace-pre-wrap font-mono break-words">
-                  {log._message}
+                  <HighlightedText text={log._message} pattern={highlight} />
                 </pre>
               </div>
             </div>
           )}
 
+          {/* Telemetry */}
+          {telemetry.length > 0 && (
+            <div className="mb-6">
+              <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">Telemetry</div>
+              <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+                {telemetry.map(([label, value]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-gray-400">{label}</dt>
+                    <dd className="text-gray-200 font-mono break-all">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          )}
+
+          {/* Custom dimensions and measurements */}
+          {dimensionGroups.map(({ column, entries }) => (
+            <div key={column} className="mb-6">
+              <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">{column}</div>
+              <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+                {entries.map(([key, value]) => (
+                  <div key={key} className="contents">
+                    <dt className="text-gray-400">{key}</dt>
+                    <dd className="text-gray-200 font-mono break-all"><HighlightedText text={value} pattern={highlight} /></dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+          ))}
+
           {/* All Fields */}
           <div className="mb-4">
             <div className="text-xs text-gray-500 uppercase tracking-wider mb-3">All Fields</div>
@@ -142,12 +213,12 @@ export default function DetailDrawer({ log, onClose, onOperationIdClick }: Detai
                     <div className="flex items-start justify-between gap-4">
                       <span className="text-xs font-medium text-gray-400 flex-shrink-0">{key}</span>
                       {strValue.length < 80 && !hasJson ? (
-                        <span className="text-sm text-gray-200 font-mono text-right break-all">{strValue}</span>
+                        <span className="text-sm text-gray-200 font-mono text-right break-all"><HighlightedText text={strValue} pattern={highlight} /></span>
                       ) : null}
                     </div>
                     {(strValue.length >= 80 || hasJson) && (
                       <pre className="mt-2 bg-gray-800 rounded p-2 text-xs text-gray-300 font-mono overflow-x-auto whitespace-pre-wrap break-all">
-                        {hasJson ? formatJsonString(strValue) : strValue}
+                        <HighlightedText text={hasJson ? formatJsonString(strValue) : strValue} pattern={highlight} />
                       </pre>
                     )}
                   </div>
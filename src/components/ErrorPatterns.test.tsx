@@ -435,4 +435,23 @@ describe('ErrorPatterns', () => {
     expect(screen.getByText('Warning')).toBeInTheDocument();
     expect(screen.queryByText(/errors/)).not.toBeInTheDocument();
   });
+
+  it('should mark counts as estimates when counting events', () => {
+    const pattern = makePattern({ count: 250 });
+    const logs = pattern.ids.map(id => makeLog({ _id: id }));
+
+    render(
+      <ErrorPatterns
+        patterns={[pattern]}
+        logs={logs}
+        onPatternClick={vi.fn()}
+        onViewDetails={vi.fn()}
+        selectedPattern={null}
+        countMode="events"
+      />
+    );
+
+    expect(screen.getByText('Counts are estimated events')).toBeInTheDocument();
+    expect(screen.getByTitle('≈ 250 events from 5 rows')).toHaveTextContent('≈ 250');
+  });
 });
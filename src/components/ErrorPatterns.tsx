@@ -1,4 +1,4 @@
-import { ErrorPattern, LogEntry } from '../types';
+import { CountMode, ErrorPattern, LogEntry } from '../types';
 
 interface ErrorPatternsProps {
   patterns: ErrorPattern[];
@@ -6,9 +6,10 @@ interface ErrorPatternsProps {
   onPatternClick: (pattern: ErrorPattern) => void;
   onViewDetails: (log: LogEntry) => void;
   selectedPattern: ErrorPattern | null;
+  countMode?: CountMode;
 }
 
-export default function ErrorPatterns({ patterns, logs, onPatternClick, onViewDetails, selectedPattern }: ErrorPatternsProps) {
+export default function ErrorPatterns({ patterns, logs, onPatternClick, onViewDetails, selectedPattern, countMode = 'rows' }: ErrorPatternsProps) {
   // Create a map for quick log lookup
   const logMap = new Map(logs.map(l => [l._id, l]));
   if (patterns.length === 0) {
@@ -33,6 +34,9 @@ export default function ErrorPatterns({ patterns, logs, onPatternClick, onViewDe
               1 pattern selected - click to view in chart & grid
             </span>
           )}
+          {countMode === 'events' && (
+            <span className="text-xs text-amber-400">Counts are estimated events</span>
+          )}
           <span className="text-xs text-gray-500">
             {patterns.length} unique patterns
           </span>
@@ -89,8 +93,11 @@ export default function ErrorPatterns({ patterns, logs, onPatternClick, onViewDe
                     </p>
                   </div>
                   <div className="flex-shrink-0 flex items-center gap-3">
-                    <span className={`text-lg font-bold ${countColor}`}>
-                      {pattern.count.toLocaleString()}
+                    <span
+                      className={`text-lg font-bold ${countColor}`}
+                      title={countMode === 'events' ? `≈ ${pattern.count.toLocaleString()} events from ${pattern.ids.length.toLocaleString()} rows` : undefined}
+                    >
+                      {countMode === 'events' ? '≈ ' : ''}{pattern.count.toLocaleString()}
                     </span>
                   </div>
                 </div>
@@ -0,0 +1,55 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import ExceptionGroups from './ExceptionGroups';
+import { ExceptionGroup, LogEntry } from '../types';
+
+// =============================================================================
+// Helper: create an ExceptionGroup for tests
+// =============================================================================
+function makeGroup(overrides: Partial<ExceptionGroup> = {}): ExceptionGroup {
+  return {
+    fingerprint: 'System.NullReferenceException @ Contoso.Cart.CartService.GetCart',
+    type: 'System.NullReferenceException',
+    frames: ['Contoso.Cart.CartService.GetCart'],
+    messages: ['Object reference not set', 'Cart was null'],
+    count: 2,
+    firstSeen: new Date('2024-01-15T10:00:00Z'),
+    lastSeen: new Date('2024-01-15T11:00:00Z'),
+    ids: [1, 2],
+    ...overrides,
+  };
+}
+
+const log: LogEntry = { _id: 1, _timestamp: null, _severity: 3, _message: 'boom', _raw: {} };
+
+// =============================================================================
+// ExceptionGroups Component Tests
+// =============================================================================
+describe('ExceptionGroups', () => {
+  it('should show an empty state without groups', () => {
+    render(<ExceptionGroups groups={[]} logs={[]} onGroupClick={vi.fn()} onViewDetails={vi.fn()} selectedFingerprint={null} />);
+
+    expect(screen.getByText('No exceptions with stack traces found')).toBeInTheDocument();
+  });
+
+  it('should render type, throw site frames and message samples', () => {
+    render(<ExceptionGroups groups={[makeGroup()]} logs={[log]} onGroupClick={vi.fn()} onViewDetails={vi.fn()} selectedFingerprint={null} />);
+
+    expect(screen.getByText('System.NullReferenceException')).toBeInTheDocument();
+    expect(screen.getByText('at Contoso.Cart.CartService.GetCart')).toBeInTheDocument();
+    expect(screen.getByText(/\+1 other messages/)).toBeInTheDocument();
+  });
+
+  it('should report clicks on a group and on View Details', () => {
+    const onGroupClick = vi.fn();
+    const onViewDetails = vi.fn();
+    render(<ExceptionGroups groups={[makeGroup()]} logs={[log]} onGroupClick={onGroupClick} onViewDetails={onViewDetails} selectedFingerprint={null} />);
+
+    fireEvent.click(screen.getByText('System.NullReferenceException'));
+    expect(onGroupClick).toHaveBeenCalledWith(makeGroup());
+
+    fireEvent.click(screen.getByText('View Details'));
+    expect(onViewDetails).toHaveBeenCalledWith(log);
+    expect(onGroupClick).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,108 @@
+import { ExceptionGroup, LogEntry } from '../types';
+
+interface ExceptionGroupsProps {
+  groups: ExceptionGroup[];
+  logs: LogEntry[];
+  onGroupClick: (group: ExceptionGroup) => void;
+  onViewDetails: (log: LogEntry) => void;
+  selectedFingerprint: string | null;
+}
+
+const formatTime = (date: Date) => date.toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+  hour12: true
+});
+
+export default function ExceptionGroups({ groups, logs, onGroupClick, onViewDetails, selectedFingerprint }: ExceptionGroupsProps) {
+  const logMap = new Map(logs.map(l => [l._id, l]));
+  if (groups.length === 0) {
+    return (
+      <div className="bg-gray-900 rounded-lg border border-gray-800 p-8 text-center">
+        <div className="text-gray-500">No exceptions with stack traces found</div>
+      </div>
+    );
+  }
+
+  const maxCount = Math.max(...groups.map(g => g.count));
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-800 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-300">
+          Exceptions by Throw Site
+        </h3>
+        <span className="text-xs text-gray-500">
+          {groups.length} unique stacks
+        </span>
+      </div>
+
+      <div className="divide-y divide-gray-800 max-h-[600px] overflow-y-auto">
+        {groups.map(group => {
+          const barWidth = (group.count / maxCount) * 100;
+          const isSelected = selectedFingerprint === group.fingerprint;
+
+          return (
+            <div
+              key={group.fingerprint}
+              onClick={() => onGroupClick(group)}
+              className={`p-4 cursor-pointer transition-colors relative ${
+                isSelected ? 'bg-purple-900/30 hover:bg-purple-900/40' : 'hover:bg-gray-800/50'
+              }`}
+            >
+              <div
+                className={`absolute inset-y-0 left-0 ${isSelected ? 'bg-purple-900/30' : 'bg-red-900/20'}`}
+                style={{ width: `${barWidth}%` }}
+              />
+
+              <div className="relative">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-mono font-medium ${isSelected ? 'text-purple-200' : 'text-red-300'}`}>
+                      {group.type || 'Unknown exception'}
+                    </p>
+                    {group.frames.length > 0 && (
+                      <ol className="mt-1 text-xs font-mono text-gray-400 space-y-0.5">
+                        {group.frames.map((frame, i) => (
+                          <li key={i} className="truncate">at {frame}</li>
+                        ))}
+                      </ol>
+                    )}
+                    {group.messages.length > 0 && (
+                      <p className="mt-1 text-xs text-gray-500 truncate" title={group.messages.join('\n')}>
+                        {group.messages[0]}
+                        {group.messages.length > 1 && ` (+${group.messages.length - 1} other messages)`}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`flex-shrink-0 text-lg font-bold ${isSelected ? 'text-purple-400' : 'text-red-400'}`}>
+                    {group.count.toLocaleString()}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-4 text-xs text-gray-500">
+                    <span>First: {formatTime(group.firstSeen)}</span>
+                    <span>Last: {formatTime(group.lastSeen)}</span>
+                  </div>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      const sampleLog = logMap.get(group.ids[0]);
+                      if (sampleLog) onViewDetails(sampleLog);
+                    }}
+                    className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 text-gray-300 rounded transition-colors"
+                  >
+                    View Details
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
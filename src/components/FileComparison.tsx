@@ -1,12 +1,13 @@
-import { ComparisonResult } from '../types';
+import { ComparisonResult, CountMode } from '../types';
 
 interface FileComparisonProps {
   result: ComparisonResult;
   file1Name: string;
   file2Name: string;
+  countMode?: CountMode;
 }
 
-export default function FileComparison({ result, file1Name, file2Name }: FileComparisonProps) {
+export default function FileComparison({ result, file1Name, file2Name, countMode = 'rows' }: FileComparisonProps) {
   const { summary, file1Only, file2Only, bothFiles } = result;
 
   const errorDiff = summary.file2Errors - summary.file1Errors;
@@ -14,6 +15,10 @@ export default function FileComparison({ result, file1Name, file2Name }: FileCom
 
   return (
     <div className="space-y-6">
+      {countMode === 'events' && (
+        <div className="text-xs text-amber-400">Counts are estimated events, weighted by each row's sampling itemCount</div>
+      )}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-4 gap-4">
         <div className="bg-gray-900 rounded-lg p-4 border border-gray-800">
@@ -2,6 +2,7 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { describe, it, expect, vi } from 'vitest';
 import FilterBar from './FilterBar';
 import { FilterState, ErrorPattern } from '../types';
+import { ServerRoleOption } from '../utils/serverRoles';
 
 // =============================================================================
 // Helper: create a FilterState for tests
@@ -18,6 +19,13 @@ function makeFilterState(overrides: Partial<FilterState> = {}): FilterState {
   };
 }
 
+const ROLE_OPTIONS: ServerRoleOption[] = [
+  { role: 'CM', color: '#60a5fa', count: 10 },
+  { role: 'CD', color: '#4ade80', count: 20 },
+  { role: 'XP', color: '#c084fc', count: 5 },
+  { role: 'Other', color: '#9ca3af', count: 1 },
+];
+
 // =============================================================================
 // Helper: create an ErrorPattern for tests
 // =============================================================================
@@ -50,7 +58,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -59,7 +67,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -83,7 +93,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={onSeverityToggle}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -92,7 +102,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -105,7 +117,7 @@ describe('FilterBar', () => {
     expect(onSeverityToggle).toHaveBeenCalledTimes(1);
   });
 
-  it('should render server role buttons when hasCustomDimensions is true', () => {
+  it('should render a button for each role in the data', () => {
     const filters = makeFilterState();
 
     render(
@@ -115,7 +127,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={true}
+        roleOptions={ROLE_OPTIONS}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -124,7 +136,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -137,7 +151,7 @@ describe('FilterBar', () => {
     expect(screen.getByText('Server Role:')).toBeInTheDocument();
   });
 
-  it('should not render server role buttons when hasCustomDimensions is false', () => {
+  it('should not render server role buttons when the data has no roles', () => {
     const filters = makeFilterState();
 
     render(
@@ -147,7 +161,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -156,7 +170,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -178,7 +194,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={true}
+        roleOptions={ROLE_OPTIONS}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={onServerRoleToggle}
         columns={['_all']}
@@ -187,7 +203,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -210,7 +228,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -219,7 +237,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -240,7 +260,7 @@ describe('FilterBar', () => {
         onSearchInputChange={onSearchInputChange}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -249,7 +269,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -274,7 +296,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -283,7 +305,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -302,7 +326,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -311,7 +335,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -333,7 +359,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -342,7 +368,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -365,7 +393,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -374,7 +402,9 @@ describe('FilterBar', () => {
         selectedPattern={pattern}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -393,7 +423,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -402,7 +432,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -423,7 +455,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -432,7 +464,9 @@ describe('FilterBar', () => {
         selectedPattern={pattern}
         onClearPatternFilter={onClearPatternFilter}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -457,7 +491,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -466,7 +500,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={onClearFilters}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -488,7 +524,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -497,7 +533,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={1234}
       />
@@ -517,7 +555,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -526,7 +564,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={onExport}
         filteredCount={100}
       />
@@ -548,7 +588,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -557,7 +597,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -577,7 +619,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -586,13 +628,16 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv,.log,.gz,.zip"
         onFileInput={onFileInput}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
     );
 
     const fileInput = screen.getByText('Load new file').parentElement!.querySelector('input[type="file"]');
+    expect(fileInput).toHaveAttribute('accept', '.csv,.log,.gz,.zip');
     const file = new File(['content'], 'test.csv', { type: 'text/csv' });
     fireEvent.change(fileInput!, { target: { files: [file] } });
 
@@ -609,7 +654,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all', 'message', 'timestamp']}
@@ -618,7 +663,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -639,7 +686,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all', 'message', 'timestamp']}
@@ -648,7 +695,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -671,7 +720,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all', 'message', 'timestamp', 'severity']}
@@ -680,7 +729,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -702,7 +753,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={[3]}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={false}
+        roleOptions={[]}
         serverRoles={filters.serverRoles}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -711,7 +762,9 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
@@ -731,7 +784,7 @@ describe('FilterBar', () => {
         onSearchInputChange={vi.fn()}
         severities={filters.severities}
         onSeverityToggle={vi.fn()}
-        hasCustomDimensions={true}
+        roleOptions={ROLE_OPTIONS}
         serverRoles={['CM']}
         onServerRoleToggle={vi.fn()}
         columns={['_all']}
@@ -740,13 +793,89 @@ describe('FilterBar', () => {
         selectedPattern={null}
         onClearPatternFilter={vi.fn()}
         onClearFilters={vi.fn()}
+        fileAccept=".csv"
         onFileInput={vi.fn()}
+        onPaste={vi.fn()}
         onExport={vi.fn()}
         filteredCount={100}
       />
     );
 
     const cmButton = screen.getByText('CM');
-    expect(cmButton).toHaveClass('bg-blue-900/50', 'text-blue-400');
+    expect(cmButton).toHaveAttribute('aria-pressed', 'true');
+    expect(cmButton).toHaveStyle({ color: '#60a5fa' });
+    expect(screen.getByText('CD')).toHaveAttribute('aria-pressed', 'false');
+    expect(screen.getByText('CD')).toHaveClass('text-gray-600');
+  });
+
+  it('should load rows from the clipboard', () => {
+    const filters = makeFilterState();
+    const onPaste = vi.fn();
+
+    render(
+      <FilterBar
+        filters={filters}
+        searchInput=""
+        onSearchInputChange={vi.fn()}
+        severities={filters.severities}
+        onSeverityToggle={vi.fn()}
+        roleOptions={[]}
+        serverRoles={filters.serverRoles}
+        onServerRoleToggle={vi.fn()}
+        columns={['_all']}
+        onSearchColumnChange={vi.fn()}
+        onTimeWindowClear={vi.fn()}
+        selectedPattern={null}
+        onClearPatternFilter={vi.fn()}
+        onClearFilters={vi.fn()}
+        fileAccept=".csv"
+        onFileInput={vi.fn()}
+        onPaste={onPaste}
+        onExport={vi.fn()}
+        filteredCount={100}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Paste rows'));
+    expect(onPaste).toHaveBeenCalled();
+  });
+
+  it('should render active conditions as chips when conditions are editable', () => {
+    const filters = makeFilterState({
+      conditions: {
+        type: 'group',
+        combinator: 'and',
+        negate: false,
+        children: [{ type: 'condition', column: 'cloud_RoleInstance', operator: 'equals', values: ['web-01'], negate: false }],
+      },
+    });
+
+    render(
+      <FilterBar
+        filters={filters}
+        searchInput=""
+        onSearchInputChange={vi.fn()}
+        severities={filters.severities}
+        onSeverityToggle={vi.fn()}
+        roleOptions={[]}
+        serverRoles={filters.serverRoles}
+        onServerRoleToggle={vi.fn()}
+        columns={['cloud_RoleInstance']}
+        onSearchColumnChange={vi.fn()}
+        onConditionsChange={vi.fn()}
+        onTimeWindowClear={vi.fn()}
+        selectedPattern={null}
+        onClearPatternFilter={vi.fn()}
+        onClearFilters={vi.fn()}
+        fileAccept=".csv"
+        onFileInput={vi.fn()}
+        onPaste={vi.fn()}
+        onExport={vi.fn()}
+        filteredCount={100}
+      />
+    );
+
+    expect(screen.getByText('cloud_RoleInstance equals web-01')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Remove cloud_RoleInstance equals web-01' })).toBeInTheDocument();
   });
 });
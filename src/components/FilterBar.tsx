@@ -1,5 +1,7 @@
-import { FilterState, ErrorPattern } from '../types';
+import { FilterState, ErrorPattern, FilterGroup } from '../types';
 import { getSeverityLabel } from '../utils/csvParser';
+import { ServerRoleOption } from '../utils/serverRoles';
+import ConditionBuilder from './ConditionBuilder';
 
 interface FilterBarProps {
   filters: FilterState;
@@ -7,16 +9,19 @@ interface FilterBarProps {
   onSearchInputChange: (value: string) => void;
   severities: number[];
   onSeverityToggle: (severity: number) => void;
-  hasCustomDimensions: boolean;
+  roleOptions: ServerRoleOption[]; // Roles present in the data; none hides the role filter
   serverRoles: string[];
   onServerRoleToggle: (role: string) => void;
   columns: string[];
   onSearchColumnChange: (column: string) => void;
+  onConditionsChange?: (conditions: FilterGroup | undefined) => void; // Shows the condition builder
   onTimeWindowClear: () => void;
   selectedPattern: ErrorPattern | null;
   onClearPatternFilter: () => void;
   onClearFilters: () => void;
+  fileAccept: string; // Accept list of the file input, the same as the drop zone's
   onFileInput: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onPaste: () => void; // Load rows from the clipboard
   onExport: () => void;
   filteredCount: number;
 }
@@ -27,16 +32,19 @@ export default function FilterBar({
   onSearchInputChange,
   severities,
   onSeverityToggle,
-  hasCustomDimensions,
+  roleOptions,
   serverRoles,
   onServerRoleToggle,
   columns,
   onSearchColumnChange,
+  onConditionsChange,
   onTimeWindowClear,
   selectedPattern,
   onClearPatternFilter,
   onClearFilters,
+  fileAccept,
   onFileInput,
+  onPaste,
   onExport,
   filteredCount
 }: FilterBarProps) {
@@ -63,27 +71,26 @@ export default function FilterBar({
         ))}
       </div>
 
-      {hasCustomDimensions && (
+      {roleOptions.length > 0 && (
         <div className="flex items-center gap-1">
           <span className="text-xs text-gray-500 mr-2">Server Role:</span>
-          {[
-            { role: 'CM', label: 'CM', activeClass: 'bg-blue-900/50 text-blue-400 border border-blue-700' },
-            { role: 'CD', label: 'CD', activeClass: 'bg-green-900/50 text-green-400 border border-green-700' },
-            { role: 'XP', label: 'XP', activeClass: 'bg-purple-900/50 text-purple-400 border border-purple-700' },
-            { role: 'Other', label: 'Other', activeClass: 'bg-gray-700/50 text-gray-400 border border-gray-600' }
-          ].map(({ role, label, activeClass }) => (
-            <button
-              key={role}
-              onClick={() => onServerRoleToggle(role)}
-              className={`px-2 py-1 text-xs rounded font-medium transition-colors ${
-                serverRoles.includes(role)
-                  ? activeClass
-                  : 'bg-gray-800 text-gray-600 border border-gray-700'
-              }`}
-            >
-              {label}
-            </button>
-          ))}
+          {roleOptions.map(({ role, color, count }) => {
+            const active = serverRoles.includes(role);
+            return (
+              <button
+                key={role}
+                onClick={() => onServerRoleToggle(role)}
+                aria-pressed={active}
+                title={`${count.toLocaleString()} rows`}
+                className={`px-2 py-1 text-xs rounded font-medium transition-colors border ${
+                  active ? '' : 'bg-gray-800 text-gray-600 border-gray-700'
+                }`}
+                style={active ? { backgroundColor: `${color}20`, color, borderColor: `${color}60` } : undefined}
+              >
+                {role}
+              </button>
+            );
+          })}
         </div>
       )}
 
@@ -101,6 +108,7 @@ export default function FilterBar({
         <input
           type="text"
           placeholder="Search logs..."
+          title="All words must match, also inside longer words. Quote a phrase to match whole words, prefix a word with - to exclude it, end it with * to match by prefix."
           value={searchInput}
           onChange={(e) => onSearchInputChange(e.target.value)}
           className="flex-1 bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
@@ -131,8 +139,19 @@ export default function FilterBar({
 
       <label className="text-xs text-blue-400 hover:text-blue-300 cursor-pointer px-2 py-1">
         Load new file
-        <input type="file" accept=".csv" onChange={onFileInput} className="hidden" />
+        <input type="file" accept={fileAccept} onChange={onFileInput} className="hidden" />
       </label>
+      <button
+        onClick={onPaste}
+        className="text-xs text-blue-400 hover:text-blue-300 px-2 py-1"
+        title="Load rows copied from the portal results grid"
+      >
+        Paste rows
+      </button>
+
+      {onConditionsChange && (
+        <ConditionBuilder conditions={filters.conditions} columns={columns} onChange={onConditionsChange} />
+      )}
     </div>
   );
 }
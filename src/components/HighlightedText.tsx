@@ -0,0 +1,23 @@
+import { splitHighlights } from '../utils/searchIndex';
+
+interface HighlightedTextProps {
+  text: string;
+  pattern: RegExp | null; // From highlightPattern; null renders the text as is
+}
+
+export default function HighlightedText({ text, pattern }: HighlightedTextProps) {
+  if (!pattern) return <>{text}</>;
+  return (
+    <>
+      {splitHighlights(text, pattern).map((part, i) =>
+        part.match ? (
+          <mark key={i} className="bg-yellow-500/30 text-yellow-200 rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+}
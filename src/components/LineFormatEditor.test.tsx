@@ -0,0 +1,58 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import LineFormatEditor from './LineFormatEditor';
+
+// =============================================================================
+// LineFormatEditor Component Tests
+// =============================================================================
+describe('LineFormatEditor', () => {
+  const renderEditor = (overrides = {}) => {
+    const props = {
+      grammars: [{ name: 'Pipe', pattern: '^(?<level>\\w+)\\|(?<message>.*)$' }],
+      onSave: vi.fn(),
+      onDelete: vi.fn(),
+      onClose: vi.fn(),
+      ...overrides
+    };
+    render(<LineFormatEditor {...props} />);
+    return props;
+  };
+
+  it('should list custom and built-in formats', () => {
+    const { onDelete } = renderEditor();
+
+    expect(screen.getByText('Pipe')).toBeInTheDocument();
+    expect(screen.getByText('Sitecore')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Delete format Sitecore')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Delete format Pipe'));
+    expect(onDelete).toHaveBeenCalledWith('Pipe');
+  });
+
+  it('should preview sample lines with continuation', () => {
+    renderEditor();
+
+    fireEvent.click(screen.getByLabelText('Edit format Pipe'));
+    fireEvent.change(screen.getByLabelText('Sample lines'), {
+      target: { value: 'ERROR|Boom\n   at Shop.Run()\nINFO|Done' }
+    });
+
+    const preview = screen.getByLabelText('Format preview');
+    expect(within(preview).getByText('level')).toBeInTheDocument();
+    expect(within(preview).getByText('Done')).toBeInTheDocument();
+    expect(within(preview).getByText(/Boom\s+at Shop\.Run\(\)/)).toBeInTheDocument();
+  });
+
+  it('should validate before saving', () => {
+    const { onSave } = renderEditor({ grammars: [] });
+
+    fireEvent.change(screen.getByLabelText('Format name'), { target: { value: 'Mine' } });
+    fireEvent.change(screen.getByLabelText('Line pattern'), { target: { value: '^(?<text>.*)$' } });
+    expect(screen.getByText('The pattern needs a (?<message>...) group')).toBeInTheDocument();
+    expect(screen.getByText('Save format')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Line pattern'), { target: { value: '^(?<message>.*)$' } });
+    fireEvent.click(screen.getByText('Save format'));
+    expect(onSave).toHaveBeenCalledWith({ name: 'Mine', pattern: '^(?<message>.*)$' });
+  });
+});
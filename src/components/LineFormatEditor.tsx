@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react';
+import { LineGrammar } from '../types';
+import { BUILTIN_LINE_GRAMMARS, parseTextLogRows, validateLineGrammar } from '../utils/textLog';
+
+interface LineFormatEditorProps {
+  grammars: LineGrammar[]; // Custom formats; the built-in ones are listed read-only
+  onSave: (grammar: LineGrammar) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const SAMPLE_PLACEHOLDER = '2024-01-15 10:00:00 ERROR [Checkout] Payment failed\n   at Shop.Payments.Charge()';
+
+export default function LineFormatEditor({ grammars, onSave, onDelete, onClose }: LineFormatEditorProps) {
+  const [name, setName] = useState('');
+  const [pattern, setPattern] = useState('');
+  const [sample, setSample] = useState('');
+
+  const draft: LineGrammar = { name: name.trim(), pattern };
+  const problem = name || pattern ? validateLineGrammar(draft) : null;
+
+  const preview = useMemo(() => {
+    if (!sample.trim() || !pattern || validateLineGrammar({ name: 'preview', pattern }) !== null) return null;
+    try {
+      const { columns, rows } = parseTextLogRows(sample, [{ name: 'preview', pattern }]);
+      return { columns, rows: rows.slice(0, PREVIEW_ROWS), total: rows.length };
+    } catch {
+      return { columns: [], rows: [], total: 0 };
+    }
+  }, [sample, pattern]);
+
+  const handleSave = () => {
+    onSave(draft);
+    setName('');
+    setPattern('');
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-40" onClick={onClose} />
+
+      <div className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-full max-w-2xl bg-gray-900 border border-gray-800 rounded-lg shadow-2xl z-50">
+        <div className="border-b border-gray-800 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-100">Log Formats</h2>
+            <p className="text-xs text-gray-500 mt-0.5">Line formats for .txt and .log files</p>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="text-gray-400 hover:text-gray-200 p-1 hover:bg-gray-800 rounded transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          <p className="text-xs text-gray-500">
+            Each line matching a format starts an entry; other lines, such as stack traces, are added to the
+            previous entry's message. Named groups become columns. <code>date</code>, <code>time</code> and{' '}
+            <code>offset</code> are combined into the timestamp, with the date taken from the file name when the
+            line only has a time.
+          </p>
+
+          <div>
+            <div className="text-xs text-gray-500 uppercase tracking-wider mb-2">Formats</div>
+            <ul className="space-y-2">
+              {[...grammars, ...BUILTIN_LINE_GRAMMARS].map(grammar => (
+                <li key={grammar.name} className="text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-300">
+                      {grammar.name}
+                      {grammar.builtin && <span className="ml-2 text-xs text-gray-500">built-in</span>}
+                    </span>
+                    <span className="flex items-center gap-3">
+                      <button
+                        onClick={() => { setName(grammar.builtin ? `${grammar.name} (custom)` : grammar.name); setPattern(grammar.pattern); }}
+                        aria-label={`Edit format ${grammar.name}`}
+                        className="text-xs text-blue-400 hover:text-blue-300"
+                      >
+                        {grammar.builtin ? 'Copy' : 'Edit'}
+                      </button>
+                      {!grammar.builtin && (
+                        <button
+                          onClick={() => onDelete(grammar.name)}
+                          aria-label={`Delete format ${grammar.name}`}
+                          className="text-xs text-gray-500 hover:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono truncate" title={grammar.pattern}>{grammar.pattern}</div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="border-t border-gray-800 pt-4 space-y-2">
+            <div className="text-xs text-gray-500 uppercase tracking-wider">Custom format</div>
+            <input
+              type="text"
+              aria-label="Format name"
+              placeholder="Format name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              aria-label="Line pattern"
+              placeholder="^(?<date>\S+) (?<time>\S+) (?<level>\w+) (?<message>.*)$"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-sm text-gray-100 placeholder-gray-500 font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            {problem && <div className="text-xs text-red-400">{problem}</div>}
+            <textarea
+              aria-label="Sample lines"
+              placeholder={SAMPLE_PLACEHOLDER}
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              rows={4}
+              className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-1.5 text-xs text-gray-100 placeholder-gray-500 font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+
+            {preview && (
+              preview.total === 0 ? (
+                <div className="text-xs text-yellow-500">No sample lines match this pattern</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs font-mono" aria-label="Format preview">
+                    <thead>
+                      <tr className="text-gray-500">
+                        {preview.columns.map(col => <th key={col} className="text-left font-normal pr-3">{col}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map((row, i) => (
+                        <tr key={i} className="text-gray-300 align-top">
+                          {preview.columns.map(col => (
+                            <td key={col} className="pr-3 whitespace-pre-wrap">{row[col]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {preview.total > preview.rows.length && (
+                    <div className="mt-1 text-xs text-gray-500">and {preview.total - preview.rows.length} more entries</div>
+                  )}
+                </div>
+              )
+            )}
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleSave}
+                disabled={!name || !pattern || problem !== null}
+                className="px-3 py-1.5 text-xs font-medium rounded bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white"
+              >
+                Save format
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -10,7 +10,9 @@ import {
   Line,
   ReferenceArea
 } from 'recharts';
-import { ChartDataPoint, TimeWindow, LogEntry } from '../types';
+import { ChartDataPoint, TimeWindow, LogEntry, CountMode } from '../types';
+import { getTimestampMs } from '../utils/columnarLogs';
+import { logWeight } from '../utils/sampling';
 
 interface LogChartProps {
   logs: LogEntry[];
@@ -18,6 +20,7 @@ interface LogChartProps {
   patternIds?: number[] | null;
   onBarClick: (window: TimeWindow) => void;
   selectedTimeWindow?: TimeWindow | null;
+  countMode?: CountMode; // Bar heights in rows or estimated events
 }
 
 type TimeGranularity = '1m' | '5m' | '15m' | '30m' | '1h' | '6h' | '1d';
@@ -42,7 +45,7 @@ const TIMEZONE_OPTIONS: { value: TimezoneOption; label: string; iana: string | u
   { value: 'UTC', label: 'UTC', iana: 'UTC' },
 ];
 
-export default function LogChart({ logs, allLogs, patternIds, onBarClick, selectedTimeWindow }: LogChartProps) {
+export default function LogChart({ logs, allLogs, patternIds, onBarClick, selectedTimeWindow, countMode = 'rows' }: LogChartProps) {
   const timelineLogs = allLogs || logs;
   const [selecting, setSelecting] = useState(false);
   const [selectionStart, setSelectionStart] = useState<string | null>(null);
@@ -64,13 +67,11 @@ export default function LogChart({ logs, allLogs, patternIds, onBarClick, select
   // Create chart data: buckets from timelineLogs (all logs) for consistent x-axis,
   // counts from logs (filtered logs) for bar heights
   const chartData = useMemo(() => {
-    const timelineLogsWithTime = timelineLogs.filter(l => l._timestamp);
-    if (timelineLogsWithTime.length === 0) return [];
-
     // First, create all buckets from timelineLogs (ensures consistent x-axis)
     const buckets = new Map<number, ChartDataPoint>();
-    timelineLogsWithTime.forEach(log => {
-      const ts = log._timestamp!.getTime();
+    timelineLogs.forEach(log => {
+      const ts = getTimestampMs(log);
+      if (isNaN(ts)) return;
       const bucketTime = Math.floor(ts / bucketSize) * bucketSize;
 
       if (!buckets.has(bucketTime)) {
@@ -88,23 +89,26 @@ export default function LogChart({ logs, allLogs, patternIds, onBarClick, select
       }
     });
 
+    if (buckets.size === 0) return [];
+
     // Then, fill counts from filtered logs
-    const filteredLogsWithTime = logs.filter(l => l._timestamp);
-    filteredLogsWithTime.forEach(log => {
-      const ts = log._timestamp!.getTime();
+    logs.forEach(log => {
+      const ts = getTimestampMs(log);
+      if (isNaN(ts)) return;
       const bucketTime = Math.floor(ts / bucketSize) * bucketSize;
 
       const bucket = buckets.get(bucketTime);
       if (bucket) {
-        bucket.total++;
-        if (log._severity === 4) bucket.critical++;
-        else if (log._severity === 3) bucket.errors++;
-        else if (log._severity === 2) bucket.warnings++;
-        else if (log._severity === 1) bucket.info++;
-        else bucket.verbose++;
+        const weight = logWeight(log, countMode);
+        bucket.total += weight;
+        if (log._severity === 4) bucket.critical += weight;
+        else if (log._severity === 3) bucket.errors += weight;
+        else if (log._severity === 2) bucket.warnings += weight;
+        else if (log._severity === 1) bucket.info += weight;
+        else bucket.verbose += weight;
 
         if (highlightedIds.has(log._id)) {
-          bucket.highlighted = (bucket.highlighted || 0) + 1;
+          bucket.highlighted = (bucket.highlighted || 0) + weight;
         }
       }
     });
@@ -145,7 +149,7 @@ export default function LogChart({ logs, allLogs, patternIds, onBarClick, select
         time: label
       };
     });
-  }, [logs, timelineLogs, bucketSize, highlightedIds, tzIana, granularity]);
+  }, [logs, timelineLogs, bucketSize, highlightedIds, tzIana, granularity, countMode]);
 
   // Compute smart tick interval: aim for ~8-12 visible labels
   const tickInterval = useMemo(() => {
@@ -258,7 +262,7 @@ export default function LogChart({ logs, allLogs, patternIds, onBarClick, select
             </div>
           )}
           <div className="border-t border-gray-700 pt-1 mt-1 flex justify-between gap-4">
-            <span className="text-gray-300">Total</span>
+            <span className="text-gray-300">{countMode === 'events' ? 'Est. events' : 'Total'}</span>
             <span className="text-gray-300 font-mono font-medium">{point.total}</span>
           </div>
         </div>
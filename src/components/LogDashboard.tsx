@@ -1,37 +1,113 @@
-import { useState, useMemo, useCallback, useEffect, lazy, Suspense } from 'react';
-import { LogEntry, TimeWindow, FilterState, ErrorPattern, LogFile, ComparisonResult } from '../types';
-import { extractErrorPatterns, compareFiles, calculateFileStats } from '../utils/csvParser';
+import { useState, useMemo, useCallback, useEffect, useRef, lazy, Suspense } from 'react';
+import { LogEntry, LogSummary, TimeWindow, FilterState, ErrorPattern, LogFile, ComparisonResult, ColumnarLogs, ColumnMapping, MappingProfile, LogItemType, ExceptionGroup, LineGrammar, DedupKey, ServerRoleRule, CountMode, AnalysisResult, SessionState, SessionSummary } from '../types';
+import { compareFiles } from '../utils/csvParser';
+import { isJSONFile } from '../utils/jsonParser';
+import { hydrateLogs, getRawValue, countColumnValues, loadRawRows } from '../utils/columnarLogs';
+import { remapColumnar } from '../utils/logPipeline';
+import { loadMappingProfiles, saveMappingProfile, deleteMappingProfile } from '../utils/mappingProfiles';
+import { extractExceptionGroups } from '../utils/stackTrace';
+import { DEDUP_KEY_LABELS, loadDedupKey, mergeColumnar, saveDedupKey } from '../utils/mergeLogs';
+import { isTextLogFile, loadLineGrammars, saveLineGrammar, deleteLineGrammar } from '../utils/textLog';
+import { UploadItem, expandUploads, isGzipFile, isZipFile } from '../utils/archive';
+import { createPastedFile } from '../utils/clipboard';
+import { listSummaryRoles, previewServerRoles } from '../utils/serverRoles';
+import { countLogs, isSampled } from '../utils/sampling';
+import { summarizeLogs, summaryPatterns, summaryStats } from '../utils/logSummary';
+import { createFilterIndex, filterRows, toFilterQuery } from '../utils/filterIndex';
+import { highlightPattern, parseSearchQuery } from '../utils/searchIndex';
+import { exportRows, loadLowMemoryMode, saveLowMemoryMode, supportsLowMemory } from '../utils/rowSource';
+import { SessionQuotaError, deleteSession, estimateStorage, listSessions, loadSession, saveSession, saveSessionState } from '../utils/sessions';
 import LogChart from './LogChart';
 import LogGrid from './LogGrid';
 import DetailDrawer from './DetailDrawer';
 import ErrorPatterns from './ErrorPatterns';
+import ExceptionGroups from './ExceptionGroups';
 import APIErrors from './APIErrors';
 import FilterBar from './FilterBar';
+import ColumnMappingEditor from './ColumnMappingEditor';
+import LineFormatEditor from './LineFormatEditor';
+import ArchivePicker from './ArchivePicker';
+import RecentSessions from './RecentSessions';
+import QueryConsole from './QueryConsole';
 
 const FileComparison = lazy(() => import('./FileComparison'));
 const AIAnalysis = lazy(() => import('./AIAnalysis'));
 
 type ViewMode = 'single' | 'compare';
-type TabMode = 'grid' | 'patterns' | 'api-errors' | 'comparison' | 'ai';
+type TabMode = 'grid' | 'patterns' | 'exceptions' | 'api-errors' | 'query' | 'comparison' | 'ai';
 
 const MAX_RECOMMENDED_SIZE = 100 * 1024 * 1024; // 100MB
+const TABLE_LABELS: Record<LogItemType, string> = {
+  trace: 'traces',
+  request: 'requests',
+  dependency: 'dependencies',
+  exception: 'exceptions',
+  pageView: 'pageViews'
+};
+
+const FILE_ACCEPT = '.csv,text/csv,.json,application/json,.txt,.log,text/plain,.gz,application/gzip,.zip,application/zip';
 const formatFileSize = (bytes: number) => {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
 
+interface WorkerResult {
+  columnar: ColumnarLogs;
+  columns: string[];
+  detectedMapping: ColumnMapping;
+  profileName?: string;
+  warnings: string[];
+  lineFormat?: string;
+  summary: LogSummary;
+}
+
+// Matching rows of the current file, as positions into its logs
+interface FilterResult {
+  data: ColumnarLogs;
+  queryId: number;
+  chartRows: number[];
+  gridRows: number[];
+  complete: boolean; // Later chunks are still on their way while false
+}
+
+// Raised when the user cancels a parse; the previous file stays loaded
+class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing cancelled');
+  }
+}
+
 export default function LogDashboard() {
   const [files, setFiles] = useState<LogFile[]>([]);
   const [fileSizes, setFileSizes] = useState<number[]>([]);
   const [selectedLog, setSelectedLog] = useState<LogEntry | null>(null);
   const [loading, setLoading] = useState(false);
   const [parseProgress, setParseProgress] = useState(0);
+  const [parsedBytes, setParsedBytes] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [warning, setWarning] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('single');
   const [activeTab, setActiveTab] = useState<TabMode>('grid');
   const [selectedPattern, setSelectedPattern] = useState<ErrorPattern | null>(null);
+  const cancelParseRef = useRef<(() => void) | null>(null);
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [showMappingEditor, setShowMappingEditor] = useState(false);
+  const [grammars, setGrammars] = useState<LineGrammar[]>(() => loadLineGrammars());
+  const [showFormatEditor, setShowFormatEditor] = useState(false);
+  const [dedupKey, setDedupKey] = useState<DedupKey>(() => loadDedupKey());
+  const [lowMemory, setLowMemory] = useState(() => loadLowMemoryMode());
+  const [fileProgress, setFileProgress] = useState<{ current: number; total: number } | null>(null);
+  const [pendingUploads, setPendingUploads] = useState<{ items: UploadItem[]; slot: 0 | 1; append: boolean } | null>(null);
+  const [preferredCountMode, setPreferredCountMode] = useState<CountMode>('events');
+  const [aiResults, setAiResults] = useState<Record<string, AnalysisResult>>({});
+  const [query, setQuery] = useState('');
+  const [ranQuery, setRanQuery] = useState<string | null>(null);
+  const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const savedFilesRef = useRef<LogFile[] | null>(null); // Files already in the session store
+  const restoredRolesRef = useRef<string[] | null>(null); // Role filter of a reopened session
 
   const [searchInput, setSearchInput] = useState('');
   const [filters, setFilters] = useState<FilterState>({
@@ -40,7 +116,7 @@ export default function LogDashboard() {
     searchText: '',
     searchColumn: '_all',
     patternIds: null,
-    serverRoles: ['CM', 'CD', 'XP', 'Other']
+    serverRoles: []
   });
 
   // Debounce search input
@@ -54,64 +130,169 @@ export default function LogDashboard() {
   // Current file (first file for single mode)
   const currentFile = files[0] || null;
   const compareFile = files[1] || null;
+  const partialFile = files.find(file => file.partial) ?? null; // Still parsing
   const logs = useMemo(() => currentFile?.logs || [], [currentFile]);
   const columns = useMemo(() => currentFile?.columns || [], [currentFile]);
+  // Counted while parsing; older sessions are summarized here
+  const summary = useMemo(() => currentFile?.summary ?? summarizeLogs(logs), [currentFile, logs]);
+
+  // Parse one file in a worker. Cancelling terminates the worker and rejects
+  // with ParseCancelledError.
+  // With onPartial, snapshots of the rows parsed so far arrive while it runs.
+  const parseInWorker = useCallback((upload: UploadItem, slot: 0 | 1, lowMemoryLoad = false, onPartial?: (result: WorkerResult) => void) => {
+    const worker = new Worker(new URL('../workers/csvWorker.ts', import.meta.url), { type: 'module' });
+
+    return new Promise<WorkerResult>((resolve, reject) => {
+      cancelParseRef.current = () => {
+        worker.terminate();
+        reject(new ParseCancelledError());
+      };
+
+      worker.onmessage = (e) => {
+        const { type, percent, bytesRead, data, message } = e.data;
 
-  const handleFileUpload = useCallback(async (file: File, slot: 0 | 1 = 0) => {
+        if (type === 'progress') {
+          setParseProgress(percent);
+          setParsedBytes(bytesRead);
+        } else if (type === 'partial') {
+          onPartial?.(data);
+        } else if (type === 'complete') {
+          worker.terminate();
+          resolve(data);
+        } else if (type === 'error') {
+          worker.terminate();
+          reject(new Error(message));
+        }
+      };
+
+      worker.onerror = (error) => {
+        worker.terminate();
+        reject(error);
+      };
+
+      // Post the file to the worker
+      worker.postMessage({ type: 'parse', file: upload.file, entry: upload.entry, fileIndex: slot, profiles, grammars, lowMemory: lowMemoryLoad, partials: !!onPartial });
+    });
+  }, [profiles, grammars]);
+
+  // Several files (or files added to a merged slot) are parsed one by one and
+  // merged into a single timeline with duplicate rows removed
+  const handleFilesUpload = useCallback(async (uploads: UploadItem[], slot: 0 | 1 = 0, append = false) => {
+    // One parse at a time; file buttons stay clickable over partial data
+    if (uploads.length === 0 || cancelParseRef.current) return;
     setLoading(true);
     setParseProgress(0);
+    setParsedBytes(0);
     setError(null);
     setWarning(null);
 
+    // Low-memory mode reads rows back from the file, so it needs a single
+    // plain CSV that is not merged into another file
+    const lowMemoryLoad = lowMemory && uploads.length === 1 && !append && supportsLowMemory(uploads[0].file, uploads[0].entry);
+
     // Check file size
-    if (file.size > MAX_RECOMMENDED_SIZE) {
-      setWarning(`Large file (${formatFileSize(file.size)}). Performance may be affected. Consider filtering the data before export.`);
+    const totalSize = uploads.reduce((sum, f) => sum + f.size, 0);
+    if (lowMemory && !lowMemoryLoad) {
+      setWarning('Low-memory mode only applies to a single uncompressed CSV file; this load keeps every row in memory.');
+    } else if (totalSize > MAX_RECOMMENDED_SIZE && !lowMemoryLoad) {
+      setWarning(`Large file (${formatFileSize(totalSize)}). Performance may be affected. Consider filtering the data before export, or turn on low-memory mode for CSV files.`);
     }
 
-    // Track file size
-    setFileSizes(prev => {
-      const updated = [...prev];
-      updated[slot] = file.size;
-      return updated;
-    });
+    // Reset filters when loading new file
+    const resetView = () => {
+      if (slot !== 0) return;
+      setFilters({ timeWindow: null, severities: [0, 1, 2, 3, 4], searchText: '', searchColumn: '_all', patternIds: null, serverRoles: [] });
+      setSearchInput('');
+      setSelectedPattern(null);
+      setSelectedLog(null);
+      setAiResults({});
+    };
+
+    // A single file fills in the dashboard as it parses. Filters set on the
+    // partial data carry over to the finished file; cancelling brings back
+    // the previous file and its filters.
+    const previous = { files, state: sessionStateRef.current };
+    let partialShown = false;
+    const showPartial = (result: WorkerResult) => {
+      const partialLogs = hydrateLogs(result.columnar);
+      const partialFile: LogFile = {
+        id: `partial-${slot}`,
+        name: uploads[0].name,
+        logs: partialLogs,
+        columns: result.columnar.locations?.columns ?? result.columnar.columns,
+        mapping: result.detectedMapping,
+        stats: summaryStats(result.summary),
+        columnar: result.columnar,
+        profileName: result.profileName,
+        warnings: result.warnings,
+        lineFormat: result.lineFormat,
+        rowSource: result.columnar.locations ? uploads[0].file : undefined,
+        partial: true,
+        summary: result.summary
+      };
+      setFiles(prev => {
+        const updated = [...prev];
+        updated[slot] = partialFile;
+        return updated.filter(Boolean);
+      });
+      if (!partialShown) resetView();
+      partialShown = true;
+    };
+    const progressive = uploads.length === 1 && !append;
 
     try {
-      // Use Web Worker for parsing
-      const worker = new Worker(new URL('../workers/csvWorker.ts', import.meta.url), { type: 'module' });
-
-      const result = await new Promise<{ logs: LogEntry[], columns: string[], detectedMapping: any }>((resolve, reject) => {
-        worker.onmessage = (e) => {
-          const { type, percent, data, message } = e.data;
-
-          if (type === 'progress') {
-            setParseProgress(percent);
-          } else if (type === 'complete') {
-            worker.terminate();
-            resolve(data);
-          } else if (type === 'error') {
-            worker.terminate();
-            reject(new Error(message));
-          }
-        };
+      const results: WorkerResult[] = [];
+      for (let i = 0; i < uploads.length; i++) {
+        setFileProgress(uploads.length > 1 ? { current: i + 1, total: uploads.length } : null);
+        setParseProgress(0);
+        setParsedBytes(0);
+        results.push(await parseInWorker(uploads[i], slot, lowMemoryLoad, progressive ? showPartial : undefined));
+      }
 
-        worker.onerror = (error) => {
-          worker.terminate();
-          reject(error);
-        };
+      const existing = append ? files[slot] : undefined;
+      const merging = results.length > 1 || !!existing?.columnar;
+      const first = existing?.columnar
+        ? { detectedMapping: existing.mapping, profileName: existing.profileName, lineFormat: existing.lineFormat }
+        : results[0];
 
-        // Post the file to the worker
-        worker.postMessage({ type: 'parse', file, fileIndex: slot });
-      });
+      let columnar = results[0].columnar;
+      let sources: LogFile['sources'];
+      let duplicatesRemoved: number | undefined;
+      if (merging) {
+        const parts = results.map((result, i) => ({ name: uploads[i].name, data: result.columnar }));
+        if (existing?.columnar) parts.unshift({ name: existing.name, data: existing.columnar });
+        const merged = mergeColumnar(parts, dedupKey, slot);
+        columnar = merged.data;
+        sources = merged.sources;
+        duplicatesRemoved = merged.duplicates;
+      }
 
-      const stats = calculateFileStats(result.logs);
+      const parsedLogs = hydrateLogs(columnar);
+      // Merging drops duplicates, so the per-file summaries no longer add up
+      const summary = merging ? summarizeLogs(parsedLogs) : results[0].summary;
+
+      // Track file size
+      setFileSizes(prev => {
+        const updated = [...prev];
+        updated[slot] = totalSize + (existing ? prev[slot] || 0 : 0);
+        return updated;
+      });
 
       const newFile: LogFile = {
         id: `file-${Date.now()}`,
-        name: file.name,
-        logs: result.logs,
-        columns: result.columns,
-        mapping: result.detectedMapping,
-        stats
+        name: merging ? `${sources?.length ?? results.length} files merged` : uploads[0].name,
+        logs: parsedLogs,
+        columns: columnar.locations?.columns ?? columnar.columns,
+        mapping: first.detectedMapping,
+        stats: summaryStats(summary),
+        columnar,
+        profileName: first.profileName,
+        warnings: results.flatMap(r => r.warnings),
+        lineFormat: first.lineFormat,
+        sources,
+        duplicatesRemoved,
+        rowSource: columnar.locations ? uploads[0].file : undefined,
+        summary
       };
 
       setFiles(prev => {
@@ -119,134 +300,373 @@ export default function LogDashboard() {
         updated[slot] = newFile;
         return updated.filter(Boolean);
       });
+      // A fresh baseline starts a new session; comparison and added files join it
+      if (!sessionIdRef.current || (slot === 0 && !append)) {
+        sessionIdRef.current = newFile.id;
+      }
 
-      if (!result.detectedMapping.timestamp) {
+      if (!first.detectedMapping.timestamp) {
         setError('Could not auto-detect timestamp column.');
       }
+      // Per-file warnings name their file once several are merged
+      const warnings = results.flatMap((r, i) => r.warnings.map(w => (merging ? `${uploads[i].name}: ${w}` : w)));
+      if (warnings.length > 0) {
+        setWarning(prev => [prev, ...warnings].filter(Boolean).join(' '));
+      }
 
-      // Reset filters when loading new file
-      if (slot === 0) {
-        setFilters({ timeWindow: null, severities: [0, 1, 2, 3, 4], searchText: '', searchColumn: '_all', patternIds: null, serverRoles: ['CM', 'CD', 'XP', 'Other'] });
-        setSearchInput('');
-        setSelectedPattern(null);
+      if (!partialShown) resetView();
+    } catch (err) {
+      if (partialShown) {
+        const { filters: previousFilters } = previous.state;
+        restoredRolesRef.current = previousFilters.serverRoles;
+        setFiles(previous.files);
+        setFilters(previousFilters);
+        setSearchInput(previousFilters.searchText);
+        setSelectedPattern(previous.state.selectedPattern);
+        setAiResults(previous.state.aiResults);
         setSelectedLog(null);
       }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to parse CSV');
+      if (err instanceof ParseCancelledError) {
+        setWarning(null);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to parse file');
+      }
     } finally {
+      cancelParseRef.current = null;
       setLoading(false);
       setParseProgress(0);
+      setParsedBytes(0);
+      setFileProgress(null);
     }
+  }, [parseInWorker, files, dedupKey, lowMemory]);
+
+  const handleCancelParse = useCallback(() => {
+    cancelParseRef.current?.();
   }, []);
 
-  const handleFileInput = useCallback((event: React.ChangeEvent<HTMLInputElement>, slot: 0 | 1 = 0) => {
-    const file = event.target.files?.[0];
-    if (file) handleFileUpload(file, slot);
+  // Stop an in-flight parse if the dashboard unmounts
+  useEffect(() => () => cancelParseRef.current?.(), []);
+
+  // Zips holding several log files open a picker to load one or merge a
+  // selection; everything else is parsed straight away
+  const handleFilesChosen = useCallback(async (chosen: File[], slot: 0 | 1 = 0, append = false) => {
+    if (chosen.length === 0) return;
+    try {
+      const items = await expandUploads(chosen);
+      if (items.length > 1 && chosen.some(isZipFile)) {
+        setPendingUploads({ items, slot, append });
+      } else {
+        handleFilesUpload(items, slot, append);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open archive');
+    }
+  }, [handleFilesUpload]);
+
+  const handleFileInput = useCallback((event: React.ChangeEvent<HTMLInputElement>, slot: 0 | 1 = 0, append = false) => {
+    handleFilesChosen(Array.from(event.target.files || []), slot, append);
     event.target.value = '';
-  }, [handleFileUpload]);
+  }, [handleFilesChosen]);
 
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
-    const file = event.dataTransfer.files[0];
-    if (file && (file.name.endsWith('.csv') || file.type === 'text/csv')) {
-      handleFileUpload(file, 0);
+    const dropped = Array.from(event.dataTransfer.files).filter(file =>
+      file.name.endsWith('.csv') || file.type === 'text/csv' || isJSONFile(file) || isTextLogFile(file) || isGzipFile(file) || isZipFile(file)
+    );
+    handleFilesChosen(dropped, 0);
+  }, [handleFilesChosen]);
+
+  const handlePickUploads = useCallback((items: UploadItem[]) => {
+    if (!pendingUploads) return;
+    setPendingUploads(null);
+    handleFilesUpload(items, pendingUploads.slot, pendingUploads.append);
+  }, [pendingUploads, handleFilesUpload]);
+
+  const handlePastedText = useCallback((text: string) => {
+    const file = createPastedFile(text);
+    if (!file) {
+      setError('The clipboard does not hold rows with a header row (TSV, CSV or JSON)');
+      return;
     }
-  }, [handleFileUpload]);
+    handleFilesUpload([{ file, name: file.name, size: file.size }], 0);
+  }, [handleFilesUpload]);
+
+  // Ctrl+V on the empty dashboard loads copied rows; pastes into form fields
+  // are left alone
+  useEffect(() => {
+    if (files.length > 0 || loading) return;
+    const onPaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const text = event.clipboardData?.getData('text/plain');
+      if (!text) return;
+      event.preventDefault();
+      handlePastedText(text);
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, [files.length, loading, handlePastedText]);
+
+  const handlePasteButton = useCallback(async () => {
+    try {
+      handlePastedText(await navigator.clipboard.readText());
+    } catch {
+      setError('Clipboard access was denied');
+    }
+  }, [handlePastedText]);
+
+  const handleDedupKeyChange = useCallback((key: DedupKey) => {
+    setDedupKey(key);
+    saveDedupKey(key);
+  }, []);
+
+  const handleLowMemoryChange = useCallback((enabled: boolean) => {
+    setLowMemory(enabled);
+    saveLowMemoryMode(enabled);
+  }, []);
+
+  // Sessions: the loaded files and the investigation state are kept in
+  // IndexedDB, so a refresh or a later visit reopens them without re-parsing
+  const sessionState = useMemo<SessionState>(
+    () => ({ filters, selectedPattern, aiResults, fileSizes }),
+    [filters, selectedPattern, aiResults, fileSizes]
+  );
+  const sessionStateRef = useRef(sessionState);
+  sessionStateRef.current = sessionState;
+
+  const refreshSessions = useCallback(async () => {
+    setRecentSessions(await listSessions().catch(() => []));
+    setStorageEstimate(await estimateStorage().catch(() => null));
+  }, []);
+
+  useEffect(() => {
+    const id = sessionIdRef.current;
+    if (!id || files.length === 0 || files === savedFilesRef.current) return;
+    // Low-memory files depend on the original file, which is not kept, and
+    // partial files are saved once they finish loading
+    if (files.some(file => file.rowSource || file.partial)) return;
+    savedFilesRef.current = files;
+    saveSession(id, files, sessionStateRef.current).catch(err => {
+      // Browsers without IndexedDB (some private modes) simply keep nothing
+      if (err instanceof SessionQuotaError) setWarning(err.message);
+    });
+  }, [files]);
+
+  useEffect(() => {
+    const id = sessionIdRef.current;
+    // Filters set on partial data would land in the previous session
+    if (!id || files.length === 0 || files.some(file => file.partial)) return;
+    const timer = setTimeout(() => {
+      saveSessionState(id, sessionState).catch(() => undefined);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [sessionState, files]);
+
+  useEffect(() => {
+    if (files.length > 0) return;
+    sessionIdRef.current = null;
+    savedFilesRef.current = null;
+    refreshSessions();
+  }, [files.length, refreshSessions]);
+
+  const handleOpenSession = useCallback(async (id: string) => {
+    setLoading(true);
+    setError(null);
+    setWarning(null);
+    try {
+      const session = await loadSession(id);
+      if (!session) {
+        setError('This session is no longer stored');
+        refreshSessions();
+        return;
+      }
+      const { files: restored, state } = session;
+      sessionIdRef.current = id;
+      savedFilesRef.current = restored;
+      restoredRolesRef.current = state.filters.serverRoles;
+      setFiles(restored);
+      setFileSizes(state.fileSizes);
+      setFilters(state.filters);
+      setSearchInput(state.filters.searchText);
+      setSelectedPattern(state.selectedPattern);
+      setAiResults(state.aiResults);
+      setSelectedLog(null);
+      setViewMode(restored.length > 1 ? 'compare' : 'single');
+      setActiveTab(restored.length > 1 ? 'comparison' : 'grid');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open session');
+    } finally {
+      setLoading(false);
+    }
+  }, [refreshSessions]);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete session');
+    }
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const handleAIResult = useCallback((mode: string, result: AnalysisResult) => {
+    setAiResults(prev => ({ ...prev, [mode]: result }));
+  }, []);
 
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
   }, []);
 
-  // Check if any logs have pre-computed server roles
-  const hasCustomDimensions = useMemo(() => {
-    return logs.some(l => l._serverRole !== undefined);
-  }, [logs]);
+  // Roles the rows actually carry under the current rules
+  const roleOptions = useMemo(
+    () => listSummaryRoles(summary, currentFile?.mapping.serverRoleRules),
+    [summary, currentFile]
+  );
+  const roleFilterActive = roleOptions.some(o => !filters.serverRoles.includes(o.role));
 
-  // Filter logs
-  const filteredLogs = useMemo(() => {
-    return logs.filter(log => {
-      if (!filters.severities.includes(log._severity)) return false;
+  // Every role starts shown whenever the set of roles changes, except in a
+  // reopened session, which keeps its own role filter. While a file is still
+  // parsing, only roles first seen in the newer rows are added.
+  const partialLoad = !!currentFile?.partial;
+  const seenRolesRef = useRef<{ roles: string[]; partial: boolean }>({ roles: [], partial: false });
+  useEffect(() => {
+    const roles = roleOptions.map(o => o.role);
+    const seen = seenRolesRef.current;
+    seenRolesRef.current = { roles, partial: partialLoad };
+    const restored = restoredRolesRef.current;
+    restoredRolesRef.current = null;
+    if (restored) {
+      setFilters(f => ({ ...f, serverRoles: restored }));
+    } else if (seen.partial) {
+      const added = roles.filter(role => !seen.roles.includes(role));
+      if (added.length > 0) setFilters(f => ({ ...f, serverRoles: [...f.serverRoles, ...added] }));
+    } else {
+      setFilters(f => ({ ...f, serverRoles: roles }));
+    }
+  }, [roleOptions, partialLoad]);
 
-      if (filters.timeWindow && log._timestamp) {
-        const ts = log._timestamp.getTime();
-        if (ts < filters.timeWindow.start || ts >= filters.timeWindow.end) return false;
-      }
+  // Filtering runs in a worker holding indexes over the current file. Matches
+  // arrive in chunks and replace the previous result once the first chunk of
+  // a new query lands; without workers the same engine runs in place. Partial
+  // snapshots are filtered in place too, so the worker is given the file once.
+  const columnar = currentFile?.columnar;
+  const filterQuery = useMemo(() => toFilterQuery(filters, roleFilterActive), [filters, roleFilterActive]);
+  const [filterMatches, setFilterMatches] = useState<FilterResult | null>(null);
+  const filterWorkerRef = useRef<Worker | null>(null);
+  const filterQueryIdRef = useRef(0);
 
-      if (filters.patternIds && !filters.patternIds.includes(log._id)) return false;
+  useEffect(() => {
+    if (!columnar || partialLoad || typeof Worker === 'undefined') return;
+    const worker = new Worker(new URL('../workers/filterWorker.ts', import.meta.url), { type: 'module' });
+    filterWorkerRef.current = worker;
 
-      // Server role filter (only apply if custom dimensions exist)
-      if (hasCustomDimensions && filters.serverRoles.length < 4) {
-        const role = log._serverRole;
-        if (role && !filters.serverRoles.includes(role)) return false;
+    worker.onmessage = (e) => {
+      const { type, queryId, chartRows, gridRows, done, message } = e.data;
+      if (type === 'error') {
+        setError(message);
+        // A failed query ends with the rows it has matched so far
+        if (queryId === filterQueryIdRef.current) setFilterMatches(prev => (prev ? { ...prev, complete: true } : prev));
+        return;
       }
+      if (queryId !== filterQueryIdRef.current) return;
+      setFilterMatches(prev => {
+        const fresh = !prev || prev.data !== columnar || prev.queryId !== queryId;
+        return {
+          data: columnar,
+          queryId,
+          chartRows: fresh ? Array.from(chartRows as Uint32Array) : prev.chartRows.concat(Array.from(chartRows as Uint32Array)),
+          gridRows: fresh ? Array.from(gridRows as Uint32Array) : prev.gridRows.concat(Array.from(gridRows as Uint32Array)),
+          complete: done
+        };
+      });
+    };
 
-      if (filters.searchText) {
-        const search = filters.searchText.toLowerCase();
-        if (filters.searchColumn === '_all') {
-          const allText = Object.values(log._raw).join(' ').toLowerCase();
-          if (!allText.includes(search)) return false;
-        } else {
-          const value = String(log._raw[filters.searchColumn] || '').toLowerCase();
-          if (!value.includes(search)) return false;
-        }
-      }
+    // The file is copied to the worker; the dashboard keeps its own arrays
+    worker.postMessage({ type: 'load', data: columnar });
+    return () => {
+      worker.terminate();
+      filterWorkerRef.current = null;
+    };
+  }, [columnar, partialLoad]);
 
-      return true;
-    });
-  }, [logs, filters, hasCustomDimensions]);
-
-  // Filtered logs for chart (all filters except time window to preserve timeline context)
-  const chartFilteredLogs = useMemo(() => {
-    return logs.filter(log => {
-      if (!filters.severities.includes(log._severity)) return false;
-      if (filters.patternIds && !filters.patternIds.includes(log._id)) return false;
-
-      // Server role filter
-      if (hasCustomDimensions && filters.serverRoles.length < 4) {
-        const role = log._serverRole;
-        if (role && !filters.serverRoles.includes(role)) return false;
-      }
+  const fallbackIndex = useMemo(
+    () => (columnar && (partialLoad || typeof Worker === 'undefined') ? createFilterIndex(columnar) : null),
+    [columnar, partialLoad]
+  );
 
-      // Search filter
-      if (filters.searchText) {
-        const search = filters.searchText.toLowerCase();
-        if (filters.searchColumn === '_all') {
-          const allText = Object.values(log._raw).join(' ').toLowerCase();
-          if (!allText.includes(search)) return false;
-        } else {
-          const value = String(log._raw[filters.searchColumn] || '').toLowerCase();
-          if (!value.includes(search)) return false;
-        }
-      }
+  useEffect(() => {
+    if (!columnar) return;
+    const queryId = ++filterQueryIdRef.current;
+    if (fallbackIndex) {
+      const { chartRows, gridRows } = filterRows(fallbackIndex, filterQuery);
+      setFilterMatches({ data: columnar, queryId, chartRows: Array.from(chartRows), gridRows: Array.from(gridRows), complete: true });
+    } else {
+      filterWorkerRef.current?.postMessage({ type: 'query', queryId, query: filterQuery });
+    }
+  }, [columnar, filterQuery, fallbackIndex]);
 
-      return true;
+  // Low-memory files read full rows back from disk for the grid and drawer.
+  // The counter re-renders the drawer once its row has been read.
+  const rowSource = currentFile?.rowSource;
+  const [, setRowsRead] = useState(0);
+  const loadRows = useMemo(() => {
+    if (!rowSource) return undefined;
+    return (entries: LogEntry[]) => loadRawRows(entries, rowSource).catch(() => {
+      setError(`Could not read rows back from ${rowSource.name}; load the file again`);
     });
-  }, [logs, filters.severities, filters.patternIds, filters.serverRoles, filters.searchText, filters.searchColumn, hasCustomDimensions]);
+  }, [rowSource]);
 
-  const errorPatterns = useMemo(() => extractErrorPatterns(logs), [logs]);
+  useEffect(() => {
+    if (!selectedLog || !loadRows) return;
+    let cancelled = false;
+    loadRows([selectedLog]).then(() => {
+      if (!cancelled) setRowsRead(n => n + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedLog, loadRows]);
+
+  const searchHighlight = useMemo(() => highlightPattern(parseSearchQuery(filters.searchText)), [filters.searchText]);
+
+  // Results for another file are never shown
+  const currentMatches = filterMatches && filterMatches.data === columnar ? filterMatches : null;
+  const filtering = !currentMatches?.complete;
+  const filteredLogs = useMemo(
+    () => currentMatches?.gridRows.map(row => logs[row]) ?? [],
+    [currentMatches, logs]
+  );
+  const chartFilteredLogs = useMemo(
+    () => currentMatches?.chartRows.map(row => logs[row]) ?? [],
+    [currentMatches, logs]
+  );
+
+  // Sampled exports count estimated events unless raw rows are asked for
+  const sampled = useMemo(
+    () => summary.sampled || (!!compareFile && (compareFile.summary?.sampled ?? isSampled(compareFile.logs))),
+    [summary, compareFile]
+  );
+  const countMode: CountMode = sampled ? preferredCountMode : 'rows';
+  const estimated = countMode === 'events';
+
+  const errorPatterns = useMemo(() => summaryPatterns(summary, countMode), [summary, countMode]);
+  const exceptionGroups = useMemo(() => extractExceptionGroups(logs), [logs]);
+  // A group is selected while the log filter is its own id list
+  const selectedExceptionFingerprint = exceptionGroups.find(g => g.ids === filters.patternIds)?.fingerprint ?? null;
 
   // Comparison result
   const comparisonResult = useMemo<ComparisonResult | null>(() => {
     if (!currentFile || !compareFile) return null;
-    return compareFiles(currentFile.logs, compareFile.logs);
-  }, [currentFile, compareFile]);
+    return compareFiles(currentFile.logs, compareFile.logs, countMode);
+  }, [currentFile, compareFile, countMode]);
 
   const stats = useMemo(() => {
-    const critical = logs.filter(l => l._severity === 4).length;
-    const errors = logs.filter(l => l._severity === 3).length;
-    const warnings = logs.filter(l => l._severity === 2).length;
-    const withTime = logs.filter(l => l._timestamp);
-
-    let timeRange = '';
-    if (withTime.length > 0) {
-      const sorted = [...withTime].sort((a, b) => a._timestamp!.getTime() - b._timestamp!.getTime());
-      const start = sorted[0]._timestamp!;
-      const end = sorted[sorted.length - 1]._timestamp!;
-      timeRange = `${start.toLocaleDateString()} ${start.toLocaleTimeString()} - ${end.toLocaleTimeString()}`;
-    }
+    const severities = countMode === 'events' ? summary.severityEvents : summary.severityRows;
+    const { total, timeStart: start, timeEnd: end } = summaryStats(summary, countMode);
+    const timeRange = start && end ? `${start.toLocaleDateString()} ${start.toLocaleTimeString()} - ${end.toLocaleTimeString()}` : '';
 
-    return { total: logs.length, critical, errors, warnings, timeRange, filtered: filteredLogs.length };
-  }, [logs, filteredLogs]);
+    return { total, critical: severities[4], errors: severities[3], warnings: severities[2], timeRange, filtered: countLogs(filteredLogs, countMode) };
+  }, [summary, filteredLogs, countMode]);
 
   const handleBarClick = useCallback((window: TimeWindow) => {
     setFilters(f => ({ ...f, timeWindow: window, patternIds: null }));
@@ -260,12 +680,24 @@ export default function LogDashboard() {
     setActiveTab('grid');
   }, []);
 
+  const handleExceptionGroupClick = useCallback((group: ExceptionGroup) => {
+    setFilters(f => ({ ...f, patternIds: group.ids, timeWindow: null }));
+    setSelectedPattern(null);
+    setActiveTab('grid');
+  }, []);
+
   const handleEndpointClick = useCallback((_endpoint: string, logIds: number[]) => {
     setFilters(f => ({ ...f, patternIds: logIds, timeWindow: null }));
     setSelectedPattern(null);
     setActiveTab('grid');
   }, []);
 
+  const handleQueryRows = useCallback((ids: number[]) => {
+    setFilters(f => ({ ...f, patternIds: ids, timeWindow: null }));
+    setSelectedPattern(null);
+    setActiveTab('grid');
+  }, []);
+
   const handleOperationIdClick = useCallback((operationId: string) => {
     const matchingIds = logs
       .filter(l => l._operationId === operationId)
@@ -295,10 +727,10 @@ export default function LogDashboard() {
   }, []);
 
   const clearFilters = useCallback(() => {
-    setFilters({ timeWindow: null, severities: [0, 1, 2, 3, 4], searchText: '', searchColumn: '_all', patternIds: null, serverRoles: ['CM', 'CD', 'XP', 'Other'] });
+    setFilters({ timeWindow: null, severities: [0, 1, 2, 3, 4], searchText: '', searchColumn: '_all', patternIds: null, serverRoles: roleOptions.map(o => o.role) });
     setSearchInput('');
     setSelectedPattern(null);
-  }, []);
+  }, [roleOptions]);
 
   const clearPatternFilter = useCallback(() => {
     setFilters(f => ({ ...f, patternIds: null }));
@@ -308,28 +740,34 @@ export default function LogDashboard() {
   const handleExport = useCallback(() => {
     if (filteredLogs.length === 0) return;
 
-    // Use the original CSV columns
-    const headers = columns.join(',');
-    const rows = filteredLogs.map(log => {
-      return columns.map(col => {
-        const value = String(log._raw[col] || '');
-        // Escape CSV values that contain commas, quotes, or newlines
-        if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-          return `"${value.replace(/"/g, '""')}"`;
-        }
-        return value;
-      }).join(',');
-    });
+    let blob: Blob;
+    if (rowSource && columnar?.locations && currentMatches) {
+      // Low-memory rows are copied from the file as they are
+      blob = exportRows(rowSource, columnar.locations, currentMatches.gridRows);
+    } else {
+      // Use the original CSV columns
+      const headers = columns.join(',');
+      const rows = filteredLogs.map(log => {
+        return columns.map(col => {
+          const value = getRawValue(log, col);
+          // Escape CSV values that contain commas, quotes, or newlines
+          if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+            return `"${value.replace(/"/g, '""')}"`;
+          }
+          return value;
+        }).join(',');
+      });
 
-    const csv = [headers, ...rows].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+      const csv = [headers, ...rows].join('\n');
+      blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    }
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
     link.download = `filtered-${currentFile?.name || 'logs'}.csv`;
     link.click();
     URL.revokeObjectURL(url);
-  }, [filteredLogs, columns, currentFile]);
+  }, [filteredLogs, columns, currentFile, rowSource, columnar, currentMatches]);
 
   const removeFile = useCallback((index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
@@ -338,6 +776,59 @@ export default function LogDashboard() {
     }
   }, [clearFilters]);
 
+  // Distinct values of a column, for the severity rule preview
+  const getValueCounts = useCallback((column: string) => (
+    currentFile?.columnar ? countColumnValues(currentFile.columnar, column) : new Map<string, number>()
+  ), [currentFile]);
+
+  const previewRoles = useMemo(() => {
+    const data = currentFile?.columnar;
+    return data ? (rules: ServerRoleRule[]) => previewServerRoles(data, rules) : undefined;
+  }, [currentFile]);
+
+  // Re-derive the current file's entries under a new mapping, from memory
+  const applyMapping = useCallback((mapping: ColumnMapping, profileName?: string) => {
+    if (!currentFile?.columnar) return;
+
+    const { data: columnar, warnings, summary: remappedSummary } = remapColumnar(currentFile.columnar, mapping);
+    const remappedLogs = hydrateLogs(columnar);
+    const updatedFile: LogFile = {
+      ...currentFile,
+      logs: remappedLogs,
+      mapping,
+      stats: summaryStats(remappedSummary),
+      columnar,
+      profileName,
+      warnings,
+      summary: remappedSummary
+    };
+
+    setFiles(prev => [updatedFile, ...prev.slice(1)]);
+    setError(mapping.timestamp ? null : 'Could not auto-detect timestamp column.');
+    setWarning(warnings.length > 0 ? warnings.join(' ') : null);
+    setFilters(f => ({ ...f, patternIds: null, timeWindow: null }));
+    setSelectedPattern(null);
+    setSelectedLog(null);
+    setShowMappingEditor(false);
+  }, [currentFile]);
+
+  const handleSaveProfile = useCallback((name: string, mapping: ColumnMapping) => {
+    setProfiles(saveMappingProfile({ name, columns, mapping, updatedAt: Date.now() }));
+    applyMapping(mapping, name);
+  }, [columns, applyMapping]);
+
+  const handleDeleteProfile = useCallback((name: string) => {
+    setProfiles(deleteMappingProfile(name));
+  }, []);
+
+  const handleSaveGrammar = useCallback((grammar: LineGrammar) => {
+    setGrammars(saveLineGrammar(grammar));
+  }, []);
+
+  const handleDeleteGrammar = useCallback((name: string) => {
+    setGrammars(deleteLineGrammar(name));
+  }, []);
+
   return (
     <div className="min-h-screen bg-gray-950 text-gray-100">
       {/* Header */}
@@ -369,7 +860,46 @@ export default function LogDashboard() {
               <div className="text-sm text-gray-400">
                 <span className="font-mono">{currentFile.name}</span>
                 <span className="mx-2">•</span>
-                <span>{stats.total.toLocaleString()} entries</span>
+                <span>{estimated ? `≈ ${stats.total.toLocaleString()} events` : `${stats.total.toLocaleString()} entries`}</span>
+                {currentFile.mapping.tableKind && currentFile.mapping.tableKind !== 'trace' && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 text-xs text-gray-300">
+                    {TABLE_LABELS[currentFile.mapping.tableKind]}
+                  </span>
+                )}
+                {currentFile.sources && (
+                  <span
+                    className="ml-2 px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 text-xs text-gray-300"
+                    title={currentFile.sources.map(s => `${s.name}: ${s.rows.toLocaleString()} rows`).join('\n')}
+                  >
+                    {currentFile.duplicatesRemoved
+                      ? `${currentFile.duplicatesRemoved.toLocaleString()} duplicates removed`
+                      : 'no duplicates'}
+                  </span>
+                )}
+                {viewMode === 'single' && !loading && (
+                  <label className="ml-3 text-xs text-blue-400 hover:text-blue-300 cursor-pointer" title="Merge more files into this timeline">
+                    Add files
+                    <input type="file" multiple accept={FILE_ACCEPT} onChange={(e) => handleFileInput(e, 0, true)} className="hidden" />
+                  </label>
+                )}
+                {currentFile.lineFormat && (
+                  <button
+                    onClick={() => setShowFormatEditor(true)}
+                    className="ml-2 px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 text-xs text-gray-300 hover:border-gray-600"
+                    title="Edit log formats"
+                  >
+                    {currentFile.lineFormat} log
+                  </button>
+                )}
+                {currentFile.columnar && !currentFile.rowSource && !currentFile.partial && (
+                  <button
+                    onClick={() => setShowMappingEditor(true)}
+                    className="ml-3 text-xs text-blue-400 hover:text-blue-300"
+                    title={currentFile.profileName ? `Mapping profile: ${currentFile.profileName}` : 'Edit column mapping'}
+                  >
+                    Columns{currentFile.profileName ? ` (${currentFile.profileName})` : ''}
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -388,24 +918,100 @@ export default function LogDashboard() {
             <svg className="mx-auto h-16 w-16 text-gray-600 mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 13h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
             </svg>
-            <p className="text-lg text-gray-300 mb-2">Drop your CSV file here</p>
-            <p className="text-sm text-gray-500">or click to browse</p>
-            <input id="file-input-0" type="file" accept=".csv,text/csv" onChange={(e) => handleFileInput(e, 0)} className="hidden" />
+            <p className="text-lg text-gray-300 mb-2">Drop your CSV, JSON or log files here</p>
+            <p className="text-sm text-gray-500">or click to browse (CSV export, App Insights query JSON, or Sitecore and other text logs)</p>
+            <p className="text-sm text-gray-500">Several files are merged into one timeline; .gz and .zip exports are unpacked as they load</p>
+            <p className="text-sm text-gray-500">You can also paste rows copied from the portal results grid (Ctrl+V)</p>
+            <div className="mt-3 flex items-center justify-center gap-4 text-xs" onClick={(e) => e.stopPropagation()}>
+              <label className="flex items-center gap-2 text-gray-500">
+                Duplicate rows
+                <select
+                  value={dedupKey}
+                  onChange={(e) => handleDedupKeyChange(e.target.value as DedupKey)}
+                  className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-gray-300"
+                >
+                  {Object.entries(DEDUP_KEY_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{key === 'none' ? label : `Match on ${label}`}</option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className="flex items-center gap-2 text-gray-500"
+                title="For very large CSV files: keep only timestamp, severity, message pattern, role and operation ID in memory, and read full rows back from the file when shown"
+              >
+                <input
+                  type="checkbox"
+                  checked={lowMemory}
+                  onChange={(e) => handleLowMemoryChange(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                Low-memory mode
+              </label>
+              <button
+                onClick={() => setShowFormatEditor(true)}
+                className="text-blue-400 hover:text-blue-300"
+              >
+                Log formats
+              </button>
+            </div>
+            <input id="file-input-0" type="file" multiple accept={FILE_ACCEPT} onChange={(e) => handleFileInput(e, 0)} className="hidden" />
           </div>
         )}
 
-        {loading && (
+        {files.length === 0 && !loading && (
+          <RecentSessions
+            sessions={recentSessions}
+            storage={storageEstimate}
+            onOpen={handleOpenSession}
+            onDelete={handleDeleteSession}
+          />
+        )}
+
+        {loading && partialFile && (
+          <div role="status" className="bg-blue-900/20 border border-blue-800 rounded-lg px-4 py-2 mb-4 flex items-center gap-3 text-sm">
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-400 border-t-transparent"></div>
+            <span className="px-1.5 py-0.5 rounded bg-blue-900/60 text-xs font-medium text-blue-200">Partial data</span>
+            <span className="text-gray-400">
+              Showing the {partialFile.logs.length.toLocaleString()} rows parsed so far{parseProgress > 0 ? ` (${parseProgress}%)` : ''}; the chart, stats and patterns update as the rest loads
+            </span>
+            <button
+              onClick={handleCancelParse}
+              className="ml-auto px-3 py-1 text-xs text-gray-300 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {loading && !partialFile && (
           <div className="flex items-center justify-center py-20">
             <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent"></div>
             <span className="ml-3 text-gray-400">
-              Parsing CSV...{parseProgress > 0 ? ` ${parseProgress}%` : ''}
+              Parsing {fileProgress ? `file ${fileProgress.current} of ${fileProgress.total}` : 'file'}...{parseProgress > 0 ? ` ${parseProgress}%` : ''}
+              {parsedBytes > 0 && (
+                <span className="ml-2 text-xs text-gray-500">({formatFileSize(parsedBytes)} read)</span>
+              )}
             </span>
+            <button
+              onClick={handleCancelParse}
+              className="ml-4 px-3 py-1 text-xs text-gray-300 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
         {error && (
-          <div className="bg-red-900/20 border border-red-800 rounded-lg p-4 mb-4">
+          <div className="bg-red-900/20 border border-red-800 rounded-lg p-4 mb-4 flex items-center justify-between">
             <p className="text-red-400">{error}</p>
+            {currentFile?.columnar && !currentFile.rowSource && !currentFile.mapping.timestamp && (
+              <button
+                onClick={() => setShowMappingEditor(true)}
+                className="text-xs text-red-300 hover:text-red-200 px-2 py-1 border border-red-800 rounded"
+              >
+                Fix column mapping
+              </button>
+            )}
           </div>
         )}
 
@@ -439,7 +1045,7 @@ export default function LogDashboard() {
                       <div className="flex items-center gap-2">
                         <label className="text-xs text-blue-400 hover:text-blue-300 cursor-pointer">
                           Replace
-                          <input type="file" accept=".csv" onChange={(e) => handleFileInput(e, slot as 0 | 1)} className="hidden" />
+                          <input type="file" accept={FILE_ACCEPT} onChange={(e) => handleFileInput(e, slot as 0 | 1)} className="hidden" />
                         </label>
                         <button onClick={() => removeFile(slot)} className="text-gray-500 hover:text-gray-300">✕</button>
                       </div>
@@ -450,7 +1056,7 @@ export default function LogDashboard() {
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                       </svg>
                       Add {slot === 0 ? 'baseline' : 'comparison'} file
-                      <input type="file" accept=".csv" onChange={(e) => handleFileInput(e, slot as 0 | 1)} className="hidden" />
+                      <input type="file" accept={FILE_ACCEPT} onChange={(e) => handleFileInput(e, slot as 0 | 1)} className="hidden" />
                     </label>
                   )}
                 </div>
@@ -460,28 +1066,51 @@ export default function LogDashboard() {
         )}
 
         {/* Dashboard */}
-        {files.length > 0 && !loading && (
+        {files.length > 0 && (!loading || partialFile) && (
           <>
+            {/* Sampling */}
+            {sampled && (
+              <div className="flex items-center gap-3 mb-2 text-xs">
+                <span className={estimated ? 'text-amber-400' : 'text-gray-500'}>
+                  {estimated
+                    ? 'Sampled data: counts are estimated events (rows weighted by itemCount)'
+                    : 'Sampled data: counts are raw rows and under-report events'}
+                </span>
+                <div className="flex bg-gray-800 rounded p-0.5" role="group" aria-label="Count mode">
+                  {(['rows', 'events'] as CountMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setPreferredCountMode(mode)}
+                      aria-pressed={countMode === mode}
+                      className={`px-2 py-0.5 rounded ${countMode === mode ? 'bg-gray-700 text-white' : 'text-gray-400'}`}
+                    >
+                      {mode === 'rows' ? 'Raw rows' : 'Estimated events'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Stats Bar */}
             <div className="grid grid-cols-7 gap-3 mb-4">
               <div className="bg-gray-900 rounded-lg p-3 border border-gray-800">
-                <div className="text-xs text-gray-500 uppercase tracking-wider">Total</div>
+                <div className="text-xs text-gray-500 uppercase tracking-wider">{estimated ? 'Total (est.)' : 'Total'}</div>
                 <div className="text-xl font-bold text-gray-100">{stats.total.toLocaleString()}</div>
               </div>
               <div className="bg-gray-900 rounded-lg p-3 border border-gray-800">
-                <div className="text-xs text-gray-500 uppercase tracking-wider">Filtered</div>
+                <div className="text-xs text-gray-500 uppercase tracking-wider">{estimated ? 'Filtered (est.)' : 'Filtered'}</div>
                 <div className="text-xl font-bold text-blue-400">{stats.filtered.toLocaleString()}</div>
               </div>
               <div className="bg-gray-900 rounded-lg p-3 border border-gray-800">
-                <div className="text-xs text-gray-500 uppercase tracking-wider">Critical</div>
+                <div className="text-xs text-gray-500 uppercase tracking-wider">{estimated ? 'Critical (est.)' : 'Critical'}</div>
                 <div className="text-xl font-bold text-orange-400">{stats.critical.toLocaleString()}</div>
               </div>
               <div className="bg-gray-900 rounded-lg p-3 border border-gray-800">
-                <div className="text-xs text-gray-500 uppercase tracking-wider">Errors</div>
+                <div className="text-xs text-gray-500 uppercase tracking-wider">{estimated ? 'Errors (est.)' : 'Errors'}</div>
                 <div className="text-xl font-bold text-red-400">{stats.errors.toLocaleString()}</div>
               </div>
               <div className="bg-gray-900 rounded-lg p-3 border border-gray-800">
-                <div className="text-xs text-gray-500 uppercase tracking-wider">Warnings</div>
+                <div className="text-xs text-gray-500 uppercase tracking-wider">{estimated ? 'Warnings (est.)' : 'Warnings'}</div>
                 <div className="text-xl font-bold text-yellow-400">{stats.warnings.toLocaleString()}</div>
               </div>
               <div className="bg-gray-900 rounded-lg p-3 border border-gray-800">
@@ -507,7 +1136,7 @@ export default function LogDashboard() {
                     </div>
                   )}
                 </div>
-                <LogChart logs={chartFilteredLogs} allLogs={logs} patternIds={filters.patternIds} onBarClick={handleBarClick} selectedTimeWindow={filters.timeWindow} />
+                <LogChart logs={chartFilteredLogs} allLogs={logs} patternIds={filters.patternIds} onBarClick={handleBarClick} selectedTimeWindow={filters.timeWindow} countMode={countMode} />
               </div>
             )}
 
@@ -519,16 +1148,19 @@ export default function LogDashboard() {
                 onSearchInputChange={setSearchInput}
                 severities={filters.severities}
                 onSeverityToggle={handleSeverityToggle}
-                hasCustomDimensions={hasCustomDimensions}
+                roleOptions={roleOptions}
                 serverRoles={filters.serverRoles}
                 onServerRoleToggle={handleServerRoleToggle}
-                columns={columns}
+                columns={rowSource ? [] : columns}
                 onSearchColumnChange={(column) => setFilters(f => ({ ...f, searchColumn: column }))}
+                onConditionsChange={(conditions) => setFilters(f => ({ ...f, conditions }))}
                 onTimeWindowClear={() => setFilters(f => ({ ...f, timeWindow: null }))}
                 selectedPattern={selectedPattern}
                 onClearPatternFilter={clearPatternFilter}
                 onClearFilters={clearFilters}
+                fileAccept={FILE_ACCEPT}
                 onFileInput={(e) => handleFileInput(e, 0)}
+                onPaste={handlePasteButton}
                 onExport={handleExport}
                 filteredCount={filteredLogs.length}
               />
@@ -542,7 +1174,7 @@ export default function LogDashboard() {
                   activeTab === 'grid' ? 'bg-gray-900 text-gray-100 border border-gray-800 border-b-0' : 'text-gray-500 hover:text-gray-300'
                 }`}
               >
-                Log Entries ({filteredLogs.length.toLocaleString()})
+                Log Entries ({filteredLogs.length.toLocaleString()}{filtering && '…'})
               </button>
               <button
                 onClick={() => setActiveTab('patterns')}
@@ -552,6 +1184,16 @@ export default function LogDashboard() {
               >
                 Patterns ({errorPatterns.length})
               </button>
+              {exceptionGroups.length > 0 && (
+                <button
+                  onClick={() => setActiveTab('exceptions')}
+                  className={`px-4 py-2 text-sm font-medium rounded-t-lg ${
+                    activeTab === 'exceptions' ? 'bg-gray-900 text-gray-100 border border-gray-800 border-b-0' : 'text-gray-500 hover:text-gray-300'
+                  }`}
+                >
+                  Exceptions ({exceptionGroups.length})
+                </button>
+              )}
               <button
                 onClick={() => setActiveTab('api-errors')}
                 className={`px-4 py-2 text-sm font-medium rounded-t-lg flex items-center gap-1.5 ${
@@ -563,6 +1205,14 @@ export default function LogDashboard() {
                 </svg>
                 API Errors
               </button>
+              <button
+                onClick={() => setActiveTab('query')}
+                className={`px-4 py-2 text-sm font-medium rounded-t-lg ${
+                  activeTab === 'query' ? 'bg-gray-900 text-gray-100 border border-gray-800 border-b-0' : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                Query
+              </button>
               {viewMode === 'compare' && (
                 <button
                   onClick={() => setActiveTab('comparison')}
@@ -588,7 +1238,7 @@ export default function LogDashboard() {
 
             {/* Content */}
             {activeTab === 'grid' && (
-              <LogGrid logs={filteredLogs} columns={columns} onRowClick={setSelectedLog} />
+              <LogGrid logs={filteredLogs} columns={columns} onRowClick={setSelectedLog} highlight={searchHighlight} loadRows={loadRows} />
             )}
             {activeTab === 'patterns' && (
               <ErrorPatterns
@@ -597,6 +1247,16 @@ export default function LogDashboard() {
                 onPatternClick={handlePatternClick}
                 onViewDetails={setSelectedLog}
                 selectedPattern={selectedPattern}
+                countMode={countMode}
+              />
+            )}
+            {activeTab === 'exceptions' && (
+              <ExceptionGroups
+                groups={exceptionGroups}
+                logs={logs}
+                onGroupClick={handleExceptionGroupClick}
+                onViewDetails={setSelectedLog}
+                selectedFingerprint={selectedExceptionFingerprint}
               />
             )}
             {activeTab === 'api-errors' && (
@@ -604,6 +1264,18 @@ export default function LogDashboard() {
                 logs={logs}
                 onViewDetails={setSelectedLog}
                 onEndpointClick={handleEndpointClick}
+                countMode={countMode}
+              />
+            )}
+            {activeTab === 'query' && (
+              <QueryConsole
+                logs={logs}
+                columns={rowSource ? [] : columns}
+                query={query}
+                onQueryChange={setQuery}
+                ranQuery={ranQuery}
+                onRun={setRanQuery}
+                onFilterRows={handleQueryRows}
               />
             )}
             {activeTab === 'comparison' && comparisonResult && (
@@ -612,6 +1284,7 @@ export default function LogDashboard() {
                   result={comparisonResult}
                   file1Name={currentFile?.name || 'File 1'}
                   file2Name={compareFile?.name || 'File 2'}
+                  countMode={countMode}
                 />
               </Suspense>
             )}
@@ -626,13 +1299,47 @@ export default function LogDashboard() {
                   patterns={errorPatterns}
                   logs={logs}
                   stats={stats}
+                  countMode={countMode}
+                  results={aiResults}
+                  onResult={handleAIResult}
                 />
               </Suspense>
             )}
 
-            <DetailDrawer log={selectedLog} onClose={() => setSelectedLog(null)} onOperationIdClick={handleOperationIdClick} />
+            {showMappingEditor && currentFile && (
+              <ColumnMappingEditor
+                columns={columns}
+                mapping={currentFile.mapping}
+                sampleRow={logs[0]?._raw}
+                getValueCounts={getValueCounts}
+                previewRoles={previewRoles}
+                profiles={profiles}
+                activeProfileName={currentFile.profileName}
+                onApply={(mapping) => applyMapping(mapping)}
+                onSaveProfile={handleSaveProfile}
+                onDeleteProfile={handleDeleteProfile}
+                onClose={() => setShowMappingEditor(false)}
+              />
+            )}
+
+            <DetailDrawer log={selectedLog} onClose={() => setSelectedLog(null)} onOperationIdClick={handleOperationIdClick} highlight={searchHighlight} />
           </>
         )}
+        {showFormatEditor && (
+          <LineFormatEditor
+            grammars={grammars}
+            onSave={handleSaveGrammar}
+            onDelete={handleDeleteGrammar}
+            onClose={() => setShowFormatEditor(false)}
+          />
+        )}
+        {pendingUploads && (
+          <ArchivePicker
+            items={pendingUploads.items}
+            onLoad={handlePickUploads}
+            onClose={() => setPendingUploads(null)}
+          />
+        )}
       </main>
     </div>
   );
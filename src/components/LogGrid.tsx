@@ -1,7 +1,10 @@
 import { AgGridReact } from 'ag-grid-react';
-import { ColDef, GridReadyEvent, RowClickedEvent } from 'ag-grid-community';
-import { useMemo, useRef, useCallback } from 'react';
+import { ColDef, GridReadyEvent, ICellRendererParams, ModelUpdatedEvent, RowClickedEvent, ViewportChangedEvent } from 'ag-grid-community';
+import { useMemo, useRef, useCallback, useState } from 'react';
 import { LogEntry } from '../types';
+import { getRawValue } from '../utils/columnarLogs';
+import { isMeasurementColumn, measurementValue, virtualColumns } from '../utils/customDimensions';
+import HighlightedText from './HighlightedText';
 import 'ag-grid-community/styles/ag-grid.css';
 import 'ag-grid-community/styles/ag-theme-alpine.css';
 
@@ -9,20 +12,24 @@ interface LogGridProps {
   logs: LogEntry[];
   columns: string[];
   onRowClick: (log: LogEntry) => void;
+  highlight?: RegExp | null; // Search terms to mark in text cells
+  loadRows?: (logs: LogEntry[]) => Promise<void>; // Low-memory mode: reads the rows in view back from the file
 }
 
-// Try to parse and format customDimensions JSON
-function formatCustomDimensions(value: string | undefined): string {
-  if (!value) return '';
-  try {
-    const parsed = JSON.parse(value);
-    const keys = Object.keys(parsed);
-    if (keys.length === 0) return '';
-    const highlights = keys.slice(0, 3).map(k => `${k}: ${String(parsed[k]).substring(0, 30)}`);
-    return highlights.join(' | ') + (keys.length > 3 ? ` (+${keys.length - 3})` : '');
-  } catch {
-    return value.substring(0, 100);
+// Non-empty flattened customDimensions keys of one row
+function dimensionEntries(log: LogEntry, column: string, keys: string[]): [string, string][] {
+  const entries: [string, string][] = [];
+  for (const key of keys) {
+    const value = getRawValue(log, key);
+    if (value) entries.push([key.slice(column.length + 1), value]);
   }
+  return entries;
+}
+
+function formatCustomDimensions(entries: [string, string][]): string {
+  if (entries.length === 0) return '';
+  const highlights = entries.slice(0, 3).map(([k, v]) => `${k}: ${v.substring(0, 30)}`);
+  return highlights.join(' | ') + (entries.length > 3 ? ` (+${entries.length - 3})` : '');
 }
 
 // Find column by multiple possible names
@@ -38,10 +45,22 @@ function findColumn(columns: string[], names: string[]): string | undefined {
   return undefined;
 }
 
-export default function LogGrid({ logs, columns, onRowClick }: LogGridProps) {
+export default function LogGrid({ logs, columns, onRowClick, highlight = null, loadRows }: LogGridProps) {
   const gridRef = useRef<AgGridReact>(null);
+  const [chosenColumns, setChosenColumns] = useState<string[]>([]);
+  const [showChooser, setShowChooser] = useState(false);
+  // Choices survive loading a file that still has the column
+  const shownColumns = useMemo(() => chosenColumns.filter(c => columns.includes(c)), [chosenColumns, columns]);
+
+  const toggleColumn = (column: string) => {
+    setChosenColumns(prev => (prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]));
+  };
 
   const columnDefs = useMemo<ColDef[]>(() => {
+    const renderText = highlight
+      ? (params: ICellRendererParams) => <HighlightedText text={String(params.valueFormatted ?? params.value ?? '')} pattern={highlight} />
+      : undefined;
+
     // Priority columns: Timestamp, Message, Custom Dimensions (row coloring shows severity)
     const cols: ColDef[] = [
       {
@@ -70,6 +89,7 @@ export default function LogGrid({ logs, columns, onRowClick }: LogGridProps) {
         flex: 1,
         minWidth: 400,
         cellStyle: { fontSize: '12px' },
+        cellRenderer: renderText,
         tooltipField: '_message'
       }
     ];
@@ -77,25 +97,48 @@ export default function LogGrid({ logs, columns, onRowClick }: LogGridProps) {
     // Find and add Custom Dimensions column
     const customDimCol = findColumn(columns, ['customDimensions', 'customdimensions', 'custom_dimensions']);
     if (customDimCol) {
+      // Summarised from the keys flattened at ingestion; values that were not
+      // a JSON object show as they are
+      const keys = virtualColumns(columns, customDimCol);
       cols.push({
-        field: `_raw.${customDimCol}`,
+        colId: customDimCol,
         headerName: 'Custom Dimensions',
         width: 350,
-        valueGetter: (params) => params.data?._raw?.[customDimCol],
-        valueFormatter: (params) => formatCustomDimensions(params.value),
+        valueGetter: (params) => {
+          if (!params.data) return undefined;
+          const entries = dimensionEntries(params.data, customDimCol, keys);
+          return entries.length > 0 ? formatCustomDimensions(entries) : getRawValue(params.data, customDimCol).substring(0, 100);
+        },
         cellStyle: { fontSize: '11px', color: '#9ca3af' },
+        cellRenderer: renderText,
         tooltipValueGetter: (params) => {
-          try {
-            return JSON.stringify(JSON.parse(params.value || '{}'), null, 2);
-          } catch {
-            return params.value;
-          }
+          if (!params.data) return undefined;
+          const entries = dimensionEntries(params.data, customDimCol, keys);
+          return entries.length > 0 ? entries.map(([k, v]) => `${k}: ${v}`).join('\n') : params.value;
         }
       });
     }
 
+    // Columns picked in the chooser; customMeasurements keys are numeric
+    shownColumns.forEach(column => {
+      const numeric = isMeasurementColumn(column, columns);
+      cols.push({
+        colId: column,
+        headerName: column,
+        width: 180,
+        valueGetter: (params) => {
+          if (!params.data) return undefined;
+          const value = getRawValue(params.data, column);
+          return numeric ? measurementValue(value) : value;
+        },
+        ...(numeric ? { type: 'numericColumn', filter: 'agNumberColumnFilter' } : { cellRenderer: renderText }),
+        cellStyle: { fontSize: '12px' },
+        tooltipValueGetter: (params) => params.value
+      });
+    });
+
     return cols;
-  }, [columns]);
+  }, [columns, shownColumns, highlight]);
 
   const defaultColDef = useMemo<ColDef>(() => ({
     resizable: true,
@@ -115,6 +158,21 @@ export default function LogGrid({ logs, columns, onRowClick }: LogGridProps) {
     }
   }, [onRowClick]);
 
+  // Rows in view are read back after each scroll, sort or filter, then redrawn
+  const loadVisibleRows = useCallback((event: ViewportChangedEvent | ModelUpdatedEvent) => {
+    if (!loadRows) return;
+    const { api } = event;
+    const visible: LogEntry[] = [];
+    for (let i = api.getFirstDisplayedRowIndex(); i <= api.getLastDisplayedRowIndex(); i++) {
+      const data = api.getDisplayedRowAtIndex(i)?.data;
+      if (data) visible.push(data);
+    }
+    if (visible.length === 0) return;
+    loadRows(visible).then(() => {
+      if (!api.isDestroyed()) api.refreshCells({ force: true });
+    });
+  }, [loadRows]);
+
   const getRowStyle = useCallback((params: { data?: LogEntry }) => {
     const severity = params.data?._severity;
     if (severity === 3) return { backgroundColor: 'rgba(127, 29, 29, 0.15)' };
@@ -124,6 +182,34 @@ export default function LogGrid({ logs, columns, onRowClick }: LogGridProps) {
 
   return (
     <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="relative flex justify-end border-b border-gray-800 px-3 py-1.5">
+        <button
+          onClick={() => setShowChooser(v => !v)}
+          aria-expanded={showChooser}
+          className="text-xs text-blue-400 hover:text-blue-300 px-2 py-0.5"
+        >
+          Columns{shownColumns.length > 0 ? ` (${shownColumns.length})` : ''}
+        </button>
+        {showChooser && (
+          <div
+            role="group"
+            aria-label="Grid columns"
+            className="absolute right-3 top-full mt-1 w-72 max-h-80 overflow-y-auto bg-gray-900 border border-gray-700 rounded shadow-xl z-30 p-2"
+          >
+            {columns.map(column => (
+              <label key={column} className="flex items-center gap-2 px-2 py-1 text-xs text-gray-300 hover:bg-gray-800 rounded cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={shownColumns.includes(column)}
+                  onChange={() => toggleColumn(column)}
+                  className="accent-blue-500"
+                />
+                <span className="truncate font-mono" title={column}>{column}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
       <div
         className="ag-theme-alpine-dark"
         style={{ height: 'calc(100vh - 500px)', minHeight: 400, width: '100%' }}
@@ -135,6 +221,8 @@ export default function LogGrid({ logs, columns, onRowClick }: LogGridProps) {
           defaultColDef={defaultColDef}
           onGridReady={onGridReady}
           onRowClicked={onRowClicked}
+          onViewportChanged={loadVisibleRows}
+          onModelUpdated={loadVisibleRows}
           rowSelection="single"
           animateRows={false}
           enableCellTextSelection={true}
@@ -0,0 +1,74 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import QueryConsole from './QueryConsole';
+import { LogEntry } from '../types';
+
+// =============================================================================
+// Helper: create a LogEntry for tests
+// =============================================================================
+function makeLog(overrides: Partial<LogEntry> & { _id: number }): LogEntry {
+  return {
+    _timestamp: null,
+    _severity: 1,
+    _message: '',
+    _raw: {},
+    ...overrides,
+  };
+}
+
+const LOGS = [
+  makeLog({ _id: 7, _severity: 3, _message: 'Timeout', _raw: { site: 'web' } }),
+  makeLog({ _id: 8, _severity: 3, _message: 'Timeout', _raw: { site: 'api' } }),
+  makeLog({ _id: 9, _severity: 1, _message: 'Started', _raw: { site: 'web' } }),
+];
+
+function renderConsole(ranQuery: string | null, overrides: Partial<Parameters<typeof QueryConsole>[0]> = {}) {
+  const props = {
+    logs: LOGS,
+    columns: ['site'],
+    query: ranQuery ?? '',
+    onQueryChange: vi.fn(),
+    ranQuery,
+    onRun: vi.fn(),
+    onFilterRows: vi.fn(),
+    ...overrides,
+  };
+  render(<QueryConsole {...props} />);
+  return props;
+}
+
+// =============================================================================
+// QueryConsole Component Tests
+// =============================================================================
+describe('QueryConsole', () => {
+  it('should show the result table of the last query run', () => {
+    renderConsole('summarize count() by site | order by site asc');
+
+    expect(screen.getByText('2 rows')).toBeInTheDocument();
+    expect(screen.getByRole('columnheader', { name: 'count_' })).toBeInTheDocument();
+    expect(screen.getByRole('cell', { name: 'api' })).toBeInTheDocument();
+  });
+
+  it('should filter the grid to the log rows behind a result row', () => {
+    const { onFilterRows } = renderConsole('where severityLevel == 3 | summarize count() by message');
+
+    fireEvent.click(screen.getByRole('cell', { name: 'Timeout' }));
+    expect(onFilterRows).toHaveBeenCalledWith([7, 8]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show 2 log rows in grid' }));
+    expect(onFilterRows).toHaveBeenLastCalledWith([7, 8]);
+  });
+
+  it('should run on Ctrl+Enter', () => {
+    const { onRun } = renderConsole(null, { query: 'count' });
+
+    fireEvent.keyDown(screen.getByLabelText('KQL query'), { key: 'Enter', ctrlKey: true });
+    expect(onRun).toHaveBeenCalledWith('count');
+  });
+
+  it('should show query errors', () => {
+    renderConsole('where nope == 1');
+
+    expect(screen.getByRole('alert')).toHaveTextContent("Unknown column 'nope'");
+  });
+});
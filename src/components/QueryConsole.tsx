@@ -0,0 +1,221 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { LogEntry, QueryResult } from '../types';
+import { QueryChart, QueryError, formatQueryValue, runQuery, toChart } from '../utils/kql';
+
+interface QueryConsoleProps {
+  logs: LogEntry[];
+  columns: string[]; // The file's own columns, queryable next to the derived fields
+  query: string;
+  onQueryChange: (query: string) => void;
+  ranQuery: string | null; // Last query run; results follow the loaded rows
+  onRun: (query: string) => void;
+  onFilterRows: (ids: number[]) => void;
+}
+
+// Rows rendered in the results table
+const DISPLAY_ROWS = 500;
+
+const SERIES_COLORS = ['#60a5fa', '#f87171', '#fbbf24', '#34d399', '#a78bfa', '#f472b6', '#22d3ee', '#fb923c', '#a3e635', '#9ca3af'];
+
+const EXAMPLES = [
+  'where severityLevel >= 3\n| summarize count() by bin(timestamp, 5m), serverRole\n| render timechart',
+  'where message has "timeout"\n| project timestamp, message, operation_Id\n| take 100',
+  'summarize events = sum(itemCount), first = min(timestamp) by severityLevel\n| order by severityLevel desc',
+  'extend hour = hourofday(timestamp)\n| summarize count() by hour\n| order by hour asc\n| render barchart'
+];
+
+function ResultChart({ chart }: { chart: QueryChart }) {
+  const label = (x: number | string) => (typeof x === 'number' ? new Date(x).toLocaleString() : x);
+  const series = chart.series.map((name, i) => {
+    const color = SERIES_COLORS[i % SERIES_COLORS.length];
+    const value = (point: QueryChart['points'][number]) => point.values[name] ?? 0;
+    return chart.time
+      ? <Line key={name} name={name} dataKey={value} stroke={color} dot={false} isAnimationActive={false} />
+      : <Bar key={name} name={name} dataKey={value} fill={color} isAnimationActive={false} />;
+  });
+  const axes = (
+    <>
+      <CartesianGrid stroke="#1f2937" />
+      <XAxis
+        dataKey="x"
+        type={chart.time ? 'number' : 'category'}
+        scale={chart.time ? 'time' : 'auto'}
+        domain={chart.time ? ['dataMin', 'dataMax'] : undefined}
+        tickFormatter={(x: number | string) => (typeof x === 'number' ? new Date(x).toLocaleTimeString() : x)}
+        stroke="#6b7280"
+        fontSize={11}
+      />
+      <YAxis stroke="#6b7280" fontSize={11} />
+      <Tooltip labelFormatter={label} contentStyle={{ background: '#1f2937', border: '1px solid #374151', fontSize: 12 }} />
+      {chart.series.length > 1 && <Legend wrapperStyle={{ fontSize: 12 }} />}
+    </>
+  );
+
+  return (
+    <div style={{ width: '100%', height: 300 }}>
+      <ResponsiveContainer>
+        {chart.time ? (
+          <LineChart data={chart.points}>{axes}{series}</LineChart>
+        ) : (
+          <BarChart data={chart.points}>{axes}{series}</BarChart>
+        )}
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default function QueryConsole({ logs, columns, query, onQueryChange, ranQuery, onRun, onFilterRows }: QueryConsoleProps) {
+  const [view, setView] = useState<'table' | 'chart' | null>(null); // null follows render
+
+  const outcome = useMemo((): { result: QueryResult | null; error: string | null } => {
+    if (!ranQuery?.trim()) return { result: null, error: null };
+    try {
+      return { result: runQuery(ranQuery, logs, columns), error: null };
+    } catch (err) {
+      if (err instanceof QueryError) return { result: null, error: err.message };
+      throw err;
+    }
+  }, [ranQuery, logs, columns]);
+  const { result, error } = outcome;
+  const chart = useMemo(() => (result ? toChart(result) : null), [result]);
+  const shownView = chart ? view ?? (result?.render === 'table' ? 'table' : 'chart') : 'table';
+
+  const run = () => {
+    setView(null);
+    onRun(query);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-900 rounded-lg border border-gray-800 p-4">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-300">KQL Query</h3>
+          <span className="text-xs text-gray-500">Runs locally over the loaded rows · Ctrl+Enter to run</span>
+        </div>
+        <textarea
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              run();
+            }
+          }}
+          rows={5}
+          spellCheck={false}
+          aria-label="KQL query"
+          placeholder="where severityLevel >= 3 | summarize count() by bin(timestamp, 5m)"
+          className="w-full bg-gray-950 border border-gray-700 rounded-lg p-3 text-sm font-mono text-gray-200 placeholder-gray-600 focus:outline-none focus:border-blue-500"
+        />
+        <div className="flex items-center justify-between mt-2 gap-4">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="text-xs text-gray-500">Examples:</span>
+            {EXAMPLES.map(example => (
+              <button
+                key={example}
+                onClick={() => onQueryChange(example)}
+                title={example}
+                className="px-2 py-0.5 text-xs font-mono bg-gray-800 text-gray-400 hover:text-gray-200 rounded truncate max-w-[220px]"
+              >
+                {example.split('\n')[0]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={run}
+            disabled={!query.trim()}
+            className="px-4 py-1.5 text-sm font-medium bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg flex-shrink-0"
+          >
+            Run
+          </button>
+        </div>
+        <p className="text-xs text-gray-600 mt-2">
+          Operators: where, project, project-away, extend, summarize … by, top, order by, take, distinct, count, render.
+          Columns: timestamp, severityLevel, message, itemCount, itemType, operation_Id, serverRole, duration, resultCode, url and the file's own columns.
+        </p>
+      </div>
+
+      {error && (
+        <div role="alert" className="bg-red-900/30 border border-red-800 rounded-lg p-3 text-sm text-red-300 font-mono">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-800 flex items-center justify-between gap-4">
+            <div className="text-sm text-gray-300">
+              {result.total.toLocaleString()} {result.total === 1 ? 'row' : 'rows'}
+              {result.total > Math.min(result.rows.length, DISPLAY_ROWS) && shownView === 'table' && (
+                <span className="text-xs text-gray-500 ml-2">showing the first {Math.min(result.rows.length, DISPLAY_ROWS).toLocaleString()}</span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {chart && (
+                <div className="flex gap-0.5 bg-gray-800 rounded p-0.5">
+                  {(['table', 'chart'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-2 py-0.5 text-xs rounded capitalize ${shownView === option ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-gray-200'}`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <button
+                onClick={() => onFilterRows(result.ids)}
+                disabled={result.ids.length === 0}
+                className="px-3 py-1 text-xs bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 rounded"
+              >
+                Show {result.ids.length.toLocaleString()} log rows in grid
+              </button>
+            </div>
+          </div>
+
+          {shownView === 'chart' && chart ? (
+            <div className="p-4">
+              <ResultChart chart={chart} />
+            </div>
+          ) : (
+            <div className="max-h-[500px] overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-800/50 sticky top-0">
+                  <tr>
+                    {result.columns.map(column => (
+                      <th key={column.name} className={`px-3 py-2 font-medium text-gray-400 whitespace-nowrap ${column.type === 'number' ? 'text-right' : 'text-left'}`}>
+                        {column.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {result.rows.slice(0, DISPLAY_ROWS).map((row, i) => (
+                    <tr
+                      key={i}
+                      onClick={() => result.rowIds[i].length > 0 && onFilterRows(result.rowIds[i])}
+                      title={result.rowIds[i].length > 0 ? `Show ${result.rowIds[i].length.toLocaleString()} log rows in the grid` : undefined}
+                      className="hover:bg-gray-800/50 cursor-pointer"
+                    >
+                      {row.map((value, c) => (
+                        <td
+                          key={c}
+                          className={`px-3 py-1.5 font-mono max-w-[480px] truncate ${value === null ? 'text-gray-600' : 'text-gray-300'} ${result.columns[c].type === 'number' ? 'text-right' : ''}`}
+                        >
+                          {formatQueryValue(value)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.columns.length === 0 && <div className="p-4 text-sm text-gray-500">No columns</div>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
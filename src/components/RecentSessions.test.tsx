@@ -0,0 +1,39 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import RecentSessions from './RecentSessions';
+import { SessionSummary } from '../types';
+
+const SESSIONS: SessionSummary[] = [
+  { id: 's2', name: 'traces.csv', savedAt: Date.UTC(2024, 0, 15), rows: 120000, bytes: 5 * 1024 * 1024, fileNames: ['traces.csv'] },
+  { id: 's1', name: 'before.csv vs after.csv', savedAt: Date.UTC(2024, 0, 14), rows: 800, bytes: 1024 * 1024, fileNames: ['before.csv', 'after.csv'] },
+];
+
+// =============================================================================
+// RecentSessions Component Tests
+// =============================================================================
+describe('RecentSessions', () => {
+  it('should list sessions with their size and storage use', () => {
+    render(<RecentSessions sessions={SESSIONS} storage={{ usage: 6 * 1024 * 1024, quota: 100 * 1024 * 1024 }} onOpen={vi.fn()} onDelete={vi.fn()} />);
+
+    expect(screen.getByText('traces.csv')).toBeInTheDocument();
+    expect(screen.getByText(/120,000 rows • 5.0 MB/)).toBeInTheDocument();
+    expect(screen.getByText('6.0 MB of 100.0 MB used')).toBeInTheDocument();
+  });
+
+  it('should open and delete sessions', () => {
+    const onOpen = vi.fn();
+    const onDelete = vi.fn();
+    render(<RecentSessions sessions={SESSIONS} onOpen={onOpen} onDelete={onDelete} />);
+
+    fireEvent.click(screen.getByText('before.csv vs after.csv'));
+    fireEvent.click(screen.getByLabelText('Delete session traces.csv'));
+
+    expect(onOpen).toHaveBeenCalledWith('s1');
+    expect(onDelete).toHaveBeenCalledWith('s2');
+  });
+
+  it('should render nothing without saved sessions', () => {
+    const { container } = render(<RecentSessions sessions={[]} onOpen={vi.fn()} onDelete={vi.fn()} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
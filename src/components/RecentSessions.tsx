@@ -0,0 +1,50 @@
+import { SessionSummary } from '../types';
+
+interface RecentSessionsProps {
+  sessions: SessionSummary[];
+  storage?: { usage: number; quota: number } | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export default function RecentSessions({ sessions, storage, onOpen, onDelete }: RecentSessionsProps) {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="mt-6 bg-gray-900 rounded-lg border border-gray-800">
+      <div className="px-4 py-3 border-b border-gray-800 flex items-center justify-between">
+        <h2 className="text-sm font-medium text-gray-300">Recent sessions</h2>
+        {storage && (
+          <span className="text-xs text-gray-500" title="Browser storage used by this site">
+            {formatMB(storage.usage)} of {formatMB(storage.quota)} used
+          </span>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-800">
+        {sessions.map(session => (
+          <li key={session.id} className="px-4 py-2 flex items-center gap-3">
+            <button
+              onClick={() => onOpen(session.id)}
+              className="flex-1 min-w-0 text-left group"
+              title={session.fileNames.join('\n')}
+            >
+              <div className="text-sm text-gray-200 font-mono truncate group-hover:text-blue-400">{session.name}</div>
+              <div className="text-xs text-gray-500">
+                {session.rows.toLocaleString()} rows • {formatMB(session.bytes)} • saved {new Date(session.savedAt).toLocaleString()}
+              </div>
+            </button>
+            <button
+              onClick={() => onDelete(session.id)}
+              aria-label={`Delete session ${session.name}`}
+              className="text-xs text-gray-500 hover:text-red-400"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
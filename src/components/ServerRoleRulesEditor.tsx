@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { ServerRoleRule } from '../types';
+import { ServerRoleOption, validateServerRoleRule } from '../utils/serverRoles';
+
+interface ServerRoleRulesEditorProps {
+  rules: ServerRoleRule[];
+  columns: string[]; // Suggested sources
+  preview?: (rules: ServerRoleRule[]) => ServerRoleOption[]; // Rows per role under the draft rules
+  onChange: (rules: ServerRoleRule[]) => void;
+  onReset?: () => void; // Shown while the rules differ from the defaults
+}
+
+export default function ServerRoleRulesEditor({ rules, columns, preview, onChange, onReset }: ServerRoleRulesEditorProps) {
+  const valid = rules.every(rule => validateServerRoleRule(rule) === null);
+  const roles = useMemo(() => (preview && valid ? preview(rules) : null), [preview, rules, valid]);
+
+  const updateRule = (index: number, patch: Partial<ServerRoleRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">Server role rules</div>
+      <p className="text-xs text-gray-500 mb-2">
+        Checked top to bottom; the first pattern matching its column's value (ignoring case) sets the role.
+        Columns can be customDimensions keys, e.g. customDimensions.InstanceName or cloud_RoleName.
+      </p>
+
+      {rules.length > 0 && (
+        <ul className="space-y-2 mb-2">
+          {rules.map((rule, index) => {
+            const problem = validateServerRoleRule(rule);
+            return (
+              <li key={index}>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    aria-label={`Role rule ${index + 1} column`}
+                    list="server-role-columns"
+                    placeholder="cloud_RoleName"
+                    value={rule.source}
+                    onChange={(e) => updateRule(index, { source: e.target.value })}
+                    className="w-44 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-100 font-mono"
+                  />
+                  <input
+                    type="text"
+                    aria-label={`Role rule ${index + 1} pattern`}
+                    placeholder="-(CM|Auth)"
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                    className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-100 font-mono"
+                  />
+                  <span className="text-gray-500 text-xs">→</span>
+                  <input
+                    type="text"
+                    aria-label={`Role rule ${index + 1} role`}
+                    placeholder="CM"
+                    value={rule.role}
+                    onChange={(e) => updateRule(index, { role: e.target.value })}
+                    className="w-20 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-100"
+                  />
+                  <input
+                    type="color"
+                    aria-label={`Role rule ${index + 1} colour`}
+                    value={rule.color}
+                    onChange={(e) => updateRule(index, { color: e.target.value })}
+                    className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer"
+                  />
+
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move role rule ${index + 1} up`}
+                    className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                    aria-label={`Remove role rule ${index + 1}`}
+                    className="text-xs text-gray-500 hover:text-red-400"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {problem && <div className="mt-0.5 text-xs text-red-400">{problem}</div>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <datalist id="server-role-columns">
+        {columns.map(column => (
+          <option key={column} value={column} />
+        ))}
+      </datalist>
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => onChange([...rules, { source: rules[rules.length - 1]?.source ?? '', pattern: '', role: '', color: '#f472b6' }])}
+          className="text-xs text-blue-400 hover:text-blue-300"
+        >
+          + Add role rule
+        </button>
+        {onReset && (
+          <button onClick={onReset} className="text-xs text-gray-500 hover:text-gray-300">
+            Reset to defaults
+          </button>
+        )}
+      </div>
+
+      {roles && (
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-xs" aria-label="Server role preview">
+          {roles.length === 0 && <span className="text-yellow-500">No rows match these rules</span>}
+          {roles.map(({ role, color, count }) => (
+            <span key={role} style={{ color }}>
+              {role}: {count.toLocaleString()}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import SeverityRulesEditor from './SeverityRulesEditor';
+import { SeverityRule } from '../types';
+
+// =============================================================================
+// SeverityRulesEditor Component Tests
+// =============================================================================
+describe('SeverityRulesEditor', () => {
+  it('should add an exact rule', () => {
+    const onChange = vi.fn();
+    render(<SeverityRulesEditor rules={[]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByText('+ Add rule'));
+
+    expect(onChange).toHaveBeenCalledWith([{ match: 'exact', value: '', severity: 1 }]);
+  });
+
+  it('should edit range bounds and level', () => {
+    const onChange = vi.fn();
+    const rules: SeverityRule[] = [{ match: 'range', value: '', min: 40, severity: 3 }];
+    render(<SeverityRulesEditor rules={rules} onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Rule 1 maximum'), { target: { value: '49' } });
+    expect(onChange).toHaveBeenLastCalledWith([{ ...rules[0], max: 49 }]);
+
+    fireEvent.change(screen.getByLabelText('Rule 1 level'), { target: { value: '4' } });
+    expect(onChange).toHaveBeenLastCalledWith([{ ...rules[0], severity: 4 }]);
+  });
+
+  it('should show validation problems', () => {
+    render(<SeverityRulesEditor rules={[{ match: 'regex', value: '(', severity: 1 }]} onChange={vi.fn()} />);
+
+    expect(screen.getByText('Invalid regular expression')).toBeInTheDocument();
+  });
+
+  it('should preview counts per level with the current rules', () => {
+    render(
+      <SeverityRulesEditor
+        rules={[{ match: 'exact', value: 'Notice', severity: 2 }]}
+        valueCounts={new Map([['Notice', 7], ['Error', 2], ['Odd', 1]])}
+        onChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Warning: 7')).toBeInTheDocument();
+    expect(screen.getByText('Error: 2')).toBeInTheDocument();
+    expect(screen.getByText(/Unrecognized, shown as Info:\s+Odd \(1\)/)).toBeInTheDocument();
+  });
+
+  it('should remove and reorder rules', () => {
+    const onChange = vi.fn();
+    const rules: SeverityRule[] = [
+      { match: 'exact', value: 'a', severity: 1 },
+      { match: 'exact', value: 'b', severity: 2 },
+    ];
+    render(<SeverityRulesEditor rules={rules} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText('Move rule 2 up'));
+    expect(onChange).toHaveBeenLastCalledWith([rules[1], rules[0]]);
+
+    fireEvent.click(screen.getByLabelText('Remove rule 1'));
+    expect(onChange).toHaveBeenLastCalledWith([rules[1]]);
+  });
+});
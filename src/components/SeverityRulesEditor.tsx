@@ -0,0 +1,159 @@
+import { useMemo } from 'react';
+import { SeverityRule } from '../types';
+import { getSeverityLabel, getSeverityColor } from '../utils/csvParser';
+import { SEVERITY_LEVELS, previewSeverities, validateSeverityRule } from '../utils/severityRules';
+
+interface SeverityRulesEditorProps {
+  rules: SeverityRule[];
+  valueCounts?: Map<string, number>; // Distinct severity column values, for the preview
+  onChange: (rules: SeverityRule[]) => void;
+}
+
+const MATCH_LABELS: Record<SeverityRule['match'], string> = {
+  exact: 'Equals',
+  regex: 'Regex',
+  range: 'Range'
+};
+
+const parseBound = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const num = Number(value);
+  return isNaN(num) ? undefined : num;
+};
+
+export default function SeverityRulesEditor({ rules, valueCounts, onChange }: SeverityRulesEditorProps) {
+  const preview = useMemo(
+    () => (valueCounts ? previewSeverities(valueCounts, rules) : null),
+    [valueCounts, rules]
+  );
+
+  const updateRule = (index: number, patch: Partial<SeverityRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="text-xs text-gray-500 uppercase tracking-wider mb-1">Severity rules</div>
+      <p className="text-xs text-gray-500 mb-2">
+        Checked top to bottom before the built-in level names (Error, Warning, Fatal, ...).
+      </p>
+
+      {rules.length > 0 && (
+        <ul className="space-y-2 mb-2">
+          {rules.map((rule, index) => {
+            const problem = validateSeverityRule(rule);
+            return (
+              <li key={index}>
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label={`Rule ${index + 1} match`}
+                    value={rule.match}
+                    onChange={(e) => updateRule(index, { match: e.target.value as SeverityRule['match'] })}
+                    className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300"
+                  >
+                    {Object.entries(MATCH_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+
+                  {rule.match === 'range' ? (
+                    <div className="flex-1 flex items-center gap-1">
+                      <input
+                        type="number"
+                        aria-label={`Rule ${index + 1} minimum`}
+                        placeholder="min"
+                        value={rule.min ?? ''}
+                        onChange={(e) => updateRule(index, { min: parseBound(e.target.value) })}
+                        className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-100"
+                      />
+                      <span className="text-gray-500 text-xs">to</span>
+                      <input
+                        type="number"
+                        aria-label={`Rule ${index + 1} maximum`}
+                        placeholder="max"
+                        value={rule.max ?? ''}
+                        onChange={(e) => updateRule(index, { max: parseBound(e.target.value) })}
+                        className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-100"
+                      />
+                    </div>
+                  ) : (
+                    <input
+                      type="text"
+                      aria-label={`Rule ${index + 1} value`}
+                      placeholder={rule.match === 'regex' ? '^(fatal|emerg)' : 'Notice'}
+                      value={rule.value}
+                      onChange={(e) => updateRule(index, { value: e.target.value })}
+                      className="flex-1 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-100 font-mono"
+                    />
+                  )}
+
+                  <span className="text-gray-500 text-xs">→</span>
+                  <select
+                    aria-label={`Rule ${index + 1} level`}
+                    value={rule.severity}
+                    onChange={(e) => updateRule(index, { severity: Number(e.target.value) })}
+                    className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300"
+                  >
+                    {SEVERITY_LEVELS.map(level => (
+                      <option key={level} value={level}>{getSeverityLabel(level)}</option>
+                    ))}
+                  </select>
+
+                  <button
+                    onClick={() => moveRule(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move rule ${index + 1} up`}
+                    className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                    aria-label={`Remove rule ${index + 1}`}
+                    className="text-xs text-gray-500 hover:text-red-400"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {problem && <div className="mt-0.5 text-xs text-red-400">{problem}</div>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <button
+        onClick={() => onChange([...rules, { match: 'exact', value: '', severity: 1 }])}
+        className="text-xs text-blue-400 hover:text-blue-300"
+      >
+        + Add rule
+      </button>
+
+      {preview && (
+        <div className="mt-3">
+          <div className="flex items-center gap-3 text-xs" aria-label="Severity preview">
+            {SEVERITY_LEVELS.map(level => (
+              <span key={level} style={{ color: getSeverityColor(level) }}>
+                {getSeverityLabel(level)}: {preview.counts[level].toLocaleString()}
+              </span>
+            ))}
+          </div>
+          {preview.unrecognized.length > 0 && (
+            <p className="mt-1 text-xs text-yellow-500">
+              Unrecognized, shown as Info:{' '}
+              {preview.unrecognized.slice(0, 5).map(u => `${u.value} (${u.count.toLocaleString()})`).join(', ')}
+              {preview.unrecognized.length > 5 && ` and ${preview.unrecognized.length - 5} more`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,6 @@
+// App Insights telemetry item types (the itemType column / source table)
+export type LogItemType = 'trace' | 'request' | 'dependency' | 'exception' | 'pageView';
+
 export interface LogEntry {
   _id: number;
   _timestamp: Date | null;
@@ -5,8 +8,40 @@ export interface LogEntry {
   _message: string;
   _raw: Record<string, string>;
   _fileIndex?: number; // For comparison mode
-  _serverRole?: string; // Pre-computed server role from customDimensions
+  _serverRole?: string; // Pre-computed from the mapping's server role rules
   _operationId?: string; // Operation ID for correlation
+  _itemType?: LogItemType;
+  _duration?: number; // Milliseconds (requests, dependencies, pageViews)
+  _resultCode?: string; // requests, dependencies
+  _success?: boolean; // requests, dependencies
+  _url?: string; // requests, pageViews
+  _method?: string; // requests (HTTP server logs)
+  _subStatus?: string; // requests (IIS sub-status, e.g. the 19 in 500.19)
+  _target?: string; // dependencies
+  _dependencyType?: string; // dependencies (HTTP, SQL, Azure blob, ...)
+  _exceptionType?: string; // exceptions
+  _problemId?: string; // exceptions
+  _source?: string; // File the row came from, when several files were merged
+  _itemCount?: number; // Events this row stands for under App Insights sampling
+}
+
+// How rows are counted: one each, or weighted by their sampling itemCount
+export type CountMode = 'rows' | 'events';
+
+// Structured reply of one AI analysis mode
+export interface AnalysisSection {
+  title: string;
+  severity?: 'critical' | 'high' | 'medium' | 'low' | 'info';
+  content: string;
+  items?: string[];
+  kql?: string;
+  code?: string;
+}
+
+export interface AnalysisResult {
+  score?: number;
+  summary: string;
+  sections: AnalysisSection[];
 }
 
 export interface ChartDataPoint {
@@ -31,12 +66,154 @@ export interface ColumnMapping {
   severity: string;
   message: string;
   operationId: string;
+  tableKind?: LogItemType; // Source table detected from the header set
+  // Typed columns for non-trace tables; only detected for the matching kind
+  name?: string;
+  duration?: string;
+  resultCode?: string;
+  success?: string;
+  url?: string;
+  method?: string;
+  subStatus?: string;
+  target?: string;
+  dependencyType?: string;
+  exceptionType?: string;
+  problemId?: string;
+  itemType?: string; // Per-row itemType column in union exports
+  itemCount?: string; // Sampling weight (App Insights itemCount)
+  timeZone?: string; // Source zone for timestamps without an offset (default UTC)
+  severityRules?: SeverityRule[]; // Checked in order before the built-in level names
+  serverRoleRules?: ServerRoleRule[]; // Default: the Sitecore InstanceName rules
+}
+
+// Maps raw severity values to levels 0-4. Exact matches ignore case; ranges
+// are inclusive and apply to numeric values only.
+export interface SeverityRule {
+  match: 'exact' | 'regex' | 'range';
+  value: string; // Text for exact, pattern source for regex
+  min?: number;
+  max?: number;
+  severity: number;
+}
+
+// Assigns a server role from a column value. Sources are column names matched
+// ignoring case, including flattened keys like customDimensions.InstanceName.
+export interface ServerRoleRule {
+  source: string;
+  pattern: string; // Regex, ignoring case
+  role: string;
+  color: string; // #rrggbb, for the role's filter button
+}
+
+// Line format for plain-text logs. Named groups in the pattern become columns;
+// lines that do not match continue the previous entry (e.g. stack traces).
+export interface LineGrammar {
+  name: string;
+  pattern: string; // Regex source; needs a `message` group
+  builtin?: boolean;
+}
+
+// Saved column mapping, picked automatically for files with the same header set
+export interface MappingProfile {
+  name: string;
+  columns: string[];
+  mapping: ColumnMapping;
+  updatedAt: number;
 }
 
 export interface ParsedData {
   logs: LogEntry[];
   columns: string[];
   detectedMapping: ColumnMapping;
+  warnings?: string[];
+  summary: LogSummary;
+}
+
+// Tallies behind one ErrorPattern, in rows and in estimated events
+export interface PatternSummary {
+  normalized: string;
+  message: string; // Newest row's message
+  sampleId: number; // That row's id
+  firstSeen: number; // ms; NaN when no row has a timestamp
+  lastSeen: number;
+  ids: number[];
+  rows: number;
+  events: number;
+  errorRows: number;
+  errorEvents: number;
+  warningRows: number;
+  warningEvents: number;
+}
+
+// Counts gathered in the same pass that ingests a file, so the dashboard
+// does not walk every row for its stats, role list and patterns
+export interface LogSummary {
+  rows: number;
+  events: number; // Rows weighted by itemCount
+  sampled: boolean; // Some row stands for more than one event
+  severityRows: number[]; // Indexed by severity 0-4
+  severityEvents: number[];
+  timeStart: number; // ms; NaN when no row has a timestamp
+  timeEnd: number;
+  roles: { role: string; rows: number; events: number }[];
+  patterns: PatternSummary[]; // Warnings and above; the busiest by rows and by events
+}
+
+// UTF-8 encoded string pool: string i is bytes[offsets[i]..offsets[i + 1])
+export interface StringTable {
+  bytes: Uint8Array;
+  offsets: Uint32Array;
+}
+
+// Compact, transferable form of parsed logs sent from the parsing worker.
+// Row r of every array describes the same entry; string fields hold indexes
+// into `strings`, where index 0 is always the empty string.
+export interface ColumnarLogs {
+  count: number;
+  columns: string[];
+  fileIndex?: number;
+  ids: Uint32Array;
+  timestamps: Float64Array; // epoch ms, NaN when missing
+  severities: Uint8Array;
+  messages: Uint32Array;
+  serverRoles: Uint32Array;
+  operationIds: Uint32Array;
+  itemTypes: Uint8Array; // index into ITEM_TYPES + 1, 0 when unknown
+  durations: Float64Array; // NaN when missing
+  successes: Int8Array; // -1 unknown, 0 false, 1 true
+  itemCounts: Uint32Array; // 0 when the row has no itemCount
+  resultCodes: Uint32Array;
+  urls: Uint32Array;
+  methods: Uint32Array;
+  subStatuses: Uint32Array;
+  targets: Uint32Array;
+  dependencyTypes: Uint32Array;
+  exceptionTypes: Uint32Array;
+  problemIds: Uint32Array;
+  sources: Uint32Array;
+  cells: Uint32Array; // row-major, count * columns.length
+  strings: StringTable;
+  search?: SearchIndex; // Missing in sessions saved before the index existed
+  locations?: RowLocations; // Low-memory mode: cells are not kept and rows are re-read from the file
+}
+
+// Where each row of a low-memory file sits in the original CSV. `columns`
+// stays empty on the ColumnarLogs; these are the columns rows read back with.
+export interface RowLocations {
+  header: string[]; // The file's header row
+  columns: string[]; // Header plus flattened customDimensions keys
+  delimiter: string;
+  messageColumn?: string; // Holds the full message; only its pattern is kept in memory
+  offsets: Float64Array; // Byte offset of each row's record
+  lengths: Uint32Array; // Byte length, without the line break
+}
+
+// Inverted token index over a columnar file's cells: terms are sorted and the
+// rows holding terms[i] are rows[offsets[i]..offsets[i + 1]), ascending
+export interface SearchIndex {
+  terms: StringTable;
+  offsets: Uint32Array;
+  rows: Uint32Array;
 }
 
 export interface FilterState {
@@ -45,9 +222,30 @@ export interface FilterState {
   searchText: string;
   searchColumn: string;
   patternIds: number[] | null; // Filter to specific log IDs from pattern
-  serverRoles: string[]; // Filter by server role: CM, CD, XP, Other
+  serverRoles: string[]; // Roles shown; every role in the data when unfiltered
+  conditions?: FilterGroup; // Structured conditions, on top of the filters above
 }
 
+// Comparisons read numbers, or dates when the value is not a number
+export type ConditionOperator = 'equals' | 'contains' | 'regex' | 'in' | '>' | '>=' | '<' | '<=';
+
+export interface FilterCondition {
+  type: 'condition';
+  column: string; // A file column, or _message / _timestamp for the parsed fields
+  operator: ConditionOperator;
+  values: string[]; // One value, or the list of an in condition
+  negate: boolean;
+}
+
+export interface FilterGroup {
+  type: 'group';
+  combinator: 'and' | 'or';
+  negate: boolean;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
 export interface ErrorPattern {
   message: string;
   count: number;
@@ -60,6 +258,50 @@ export interface ErrorPattern {
   warningCount: number;
 }
 
+// Cell of a query console result; timespans are numbers of milliseconds
+export type QueryValue = string | number | boolean | Date | null;
+
+export interface QueryColumn {
+  name: string;
+  type: 'string' | 'number' | 'bool' | 'datetime';
+}
+
+// View asked for with the render operator
+export type QueryRender = 'table' | 'timechart' | 'barchart';
+
+export interface QueryResult {
+  columns: QueryColumn[];
+  rows: QueryValue[][]; // Capped; total counts every row
+  rowIds: number[][]; // Log ids behind each shown row
+  ids: number[]; // Log ids behind every row of the result
+  total: number;
+  render: QueryRender;
+}
+
+export interface StackFrame {
+  method: string; // Namespace.Type.Method, without parameters
+  assembly?: string;
+  fileName?: string;
+  line?: number;
+}
+
+export interface ParsedException {
+  type: string;
+  message: string;
+  frames: StackFrame[]; // Throw site first (innermost exception's frames lead)
+}
+
+export interface ExceptionGroup {
+  fingerprint: string;
+  type: string;
+  frames: string[]; // Normalized top in-app frames the fingerprint is built from
+  messages: string[]; // Distinct sample messages
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  ids: number[];
+}
+
 export interface LogFile {
   id: string;
   name: string;
@@ -67,8 +309,40 @@ export interface LogFile {
   columns: string[];
   mapping: ColumnMapping;
   stats: FileStats;
+  columnar?: ColumnarLogs; // Kept so the mapping can be re-applied without re-reading the file
+  profileName?: string; // Mapping profile applied at load time
+  warnings?: string[]; // Ingestion warnings, e.g. mixed timestamp formats
+  lineFormat?: string; // Line grammar a text log was read with
+  sources?: { name: string; rows: number }[]; // Files merged into this one, rows kept from each
+  duplicatesRemoved?: number;
+  rowSource?: File; // Original file of a low-memory load, read by byte range
+  partial?: boolean; // Rows parsed so far while the rest of the file loads
+  summary?: LogSummary; // Missing in sessions saved before summaries existed
+}
+
+// Investigation state saved alongside a session's parsed files
+export interface SessionState {
+  filters: FilterState;
+  selectedPattern: ErrorPattern | null;
+  aiResults: Record<string, AnalysisResult>;
+  fileSizes: number[]; // Bytes read per slot, for the stats bar
+}
+
+// One saved session in the recent list
+export interface SessionSummary {
+  id: string;
+  name: string;
+  savedAt: number;
+  rows: number;
+  bytes: number; // Size of the stored parsed data
+  fileNames: string[];
 }
 
+// How duplicate rows are recognised when merging files: the itemId column,
+// timestamp + message + operation ID, or not at all. 'auto' uses itemId when
+// every file has one.
+export type DedupKey = 'auto' | 'itemId' | 'content' | 'none';
+
 export interface FileStats {
   total: number;
   errors: number;
@@ -1,5 +1,7 @@
-import { LogEntry, ErrorPattern } from '../types';
+import { LogEntry, ErrorPattern, CountMode } from '../types';
 import { getSeverityLabel } from './csvParser';
+import { extractAPICall } from './apiEndpoints';
+import { countLogs, logWeight } from './sampling';
 
 export interface AnalysisStats {
   total: number;
@@ -8,66 +10,7 @@ export interface AnalysisStats {
   critical?: number;
   timeRange: string;
   filtered?: number;
-}
-
-// Extract API endpoint from log message (copied from APIErrors.tsx)
-function extractAPIEndpoint(message: string): { endpoint: string; method: string | null } | null {
-  const patterns = [
-    // Method + endpoint: "GET /api/users" or "POST https://example.com/api/users"
-    /\b(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s+(?:https?:\/\/[^/\s]+)?(\/api\/[^\s?#"'\]}]+)/i,
-    // Just endpoint with /api/
-    /(?:https?:\/\/[^/\s]+)?(\/api\/[^\s?#"'\]},]+)/i,
-    // URL in quotes or after common patterns
-    /["'](?:https?:\/\/[^/\s]+)?(\/api\/[^"'\s?#]+)["']/i,
-    // "endpoint": "/api/..."
-    /endpoint["']?\s*[:=]\s*["']?(\/api\/[^\s"',}]+)/i,
-    // url: "/api/..." or path: "/api/..."
-    /(?:url|path|uri)["']?\s*[:=]\s*["']?(?:https?:\/\/[^/\s]+)?(\/api\/[^\s"',}]+)/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match) {
-      let endpoint = match[match.length - 1] || match[1];
-      let method: string | null = null;
-
-      // Check if we captured a method
-      if (match[1] && /^(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)$/i.test(match[1])) {
-        method = match[1].toUpperCase();
-        endpoint = match[2];
-      }
-
-      // Normalize: replace UUIDs, numeric IDs with placeholders
-      endpoint = endpoint
-        .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '{id}')
-        .replace(/\/\d+(?=\/|$)/g, '/{id}')
-        .replace(/\/$/, ''); // Remove trailing slash
-
-      return { endpoint, method };
-    }
-  }
-
-  return null;
-}
-
-// Extract status code from message (copied from APIErrors.tsx)
-function extractStatusCode(message: string): string | null {
-  const patterns = [
-    /\bstatus(?:Code)?["']?\s*[:=]\s*["']?(\d{3})/i,
-    /\bHTTP\s*(\d{3})/i,
-    /\breturned?\s+(\d{3})/i,
-    /\b(\d{3})\s+(?:error|internal|not found|bad request|unauthorized|forbidden)/i,
-    /\bcode["']?\s*[:=]\s*["']?(\d{3})/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = message.match(pattern);
-    if (match) {
-      return match[1];
-    }
-  }
-
-  return null;
+  countMode?: CountMode; // Per-row counts below follow it too
 }
 
 /**
@@ -80,7 +23,7 @@ export function buildHealthContext(logs: LogEntry[], patterns: ErrorPattern[], s
 
   // Severity distribution
   const sevCounts = [0, 0, 0, 0, 0];
-  logs.forEach(l => { if (l._severity >= 0 && l._severity <= 4) sevCounts[l._severity]++; });
+  logs.forEach(l => { if (l._severity >= 0 && l._severity <= 4) sevCounts[l._severity] += logWeight(l, stats.countMode); });
 
   // Server role distribution
   const roles = new Map<string, { total: number; errors: number; warnings: number }>();
@@ -88,9 +31,10 @@ export function buildHealthContext(logs: LogEntry[], patterns: ErrorPattern[], s
     const role = l._serverRole || 'Unknown';
     if (!roles.has(role)) roles.set(role, { total: 0, errors: 0, warnings: 0 });
     const r = roles.get(role)!;
-    r.total++;
-    if (l._severity === 3) r.errors++;
-    if (l._severity === 2) r.warnings++;
+    const weight = logWeight(l, stats.countMode);
+    r.total += weight;
+    if (l._severity === 3) r.errors += weight;
+    if (l._severity === 2) r.warnings += weight;
   });
 
   // Time distribution - divide into 6 buckets to show trends
@@ -110,9 +54,9 @@ export function buildHealthContext(logs: LogEntry[], patterns: ErrorPattern[], s
       });
       buckets.push({
         time: new Date(bStart).toISOString().substring(11, 16),
-        errors: inBucket.filter(l => l._severity >= 3).length,
-        warnings: inBucket.filter(l => l._severity === 2).length,
-        total: inBucket.length
+        errors: countLogs(inBucket, stats.countMode, l => l._severity >= 3),
+        warnings: countLogs(inBucket, stats.countMode, l => l._severity === 2),
+        total: countLogs(inBucket, stats.countMode)
       });
     }
     timeDistribution = buckets.map(b => `  ${b.time}: ${b.total} total, ${b.errors} errors, ${b.warnings} warnings`).join('\n');
@@ -254,10 +198,10 @@ export function buildIncidentContext(logs: LogEntry[], patterns: ErrorPattern[],
     if (inBucket.length > 0) {
       buckets.push({
         time: new Date(t).toISOString().replace('T', ' ').substring(0, 19),
-        total: inBucket.length,
-        errors: inBucket.filter(l => l._severity === 3).length,
-        warnings: inBucket.filter(l => l._severity === 2).length,
-        critical: inBucket.filter(l => l._severity === 4).length,
+        total: countLogs(inBucket, stats.countMode),
+        errors: countLogs(inBucket, stats.countMode, l => l._severity === 3),
+        warnings: countLogs(inBucket, stats.countMode, l => l._severity === 2),
+        critical: countLogs(inBucket, stats.countMode, l => l._severity === 4),
       });
     }
   }
@@ -324,10 +268,10 @@ export function buildAPIContext(logs: LogEntry[], _patterns: ErrorPattern[], sta
   const endpoints = new Map<string, EndpointData>();
 
   logs.forEach(l => {
-    const extracted = extractAPIEndpoint(l._message);
-    if (!extracted) return;
+    const call = extractAPICall(l);
+    if (!call) return;
 
-    const { endpoint, method } = extracted;
+    const { endpoint, method, statusCode } = call;
     const key = `${method || 'ANY'} ${endpoint}`;
 
     if (!endpoints.has(key)) {
@@ -343,13 +287,13 @@ export function buildAPIContext(logs: LogEntry[], _patterns: ErrorPattern[], sta
     }
 
     const ep = endpoints.get(key)!;
-    ep.total++;
-    if (l._severity === 3) ep.errors++;
-    if (l._severity === 2) ep.warnings++;
+    const weight = logWeight(l, stats.countMode);
+    ep.total += weight;
+    if (l._severity === 3) ep.errors += weight;
+    if (l._severity === 2) ep.warnings += weight;
 
-    const statusCode = extractStatusCode(l._message);
     if (statusCode) {
-      ep.statusCodes.set(statusCode, (ep.statusCodes.get(statusCode) || 0) + 1);
+      ep.statusCodes.set(statusCode, (ep.statusCodes.get(statusCode) || 0) + weight);
     }
 
     if (ep.sampleMessages.length < 3) {
@@ -361,7 +305,7 @@ export function buildAPIContext(logs: LogEntry[], _patterns: ErrorPattern[], sta
 
   if (sorted.length === 0) {
     return `## API Health Report
-No API endpoints (matching /api/ pattern) were detected in the logs.
+No API endpoints (request URLs or /api/ paths in messages) were detected in the logs.
 
 Total logs analyzed: ${stats.total}`;
   }
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateAPIEndpoints, extractAPICall } from './apiEndpoints';
+import { LogEntry } from '../types';
+
+// =============================================================================
+// Helper: create a LogEntry for tests
+// =============================================================================
+function makeLog(overrides: Partial<LogEntry> = {}): LogEntry {
+  return {
+    _id: 0,
+    _timestamp: new Date('2024-01-15T10:00:00Z'),
+    _severity: 1,
+    _message: '',
+    _raw: {},
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// extractAPICall
+// =============================================================================
+describe('extractAPICall', () => {
+  it('should use the structured fields of request rows', () => {
+    const call = extractAPICall(makeLog({
+      _itemType: 'request',
+      _method: 'post',
+      _url: '/api/orders/42/lines',
+      _resultCode: '500',
+      _subStatus: '19',
+      _message: 'unrelated text'
+    }));
+
+    expect(call).toEqual({ endpoint: '/api/orders/{id}/lines', method: 'POST', statusCode: '500.19' });
+  });
+
+  it('should take the path from full URLs and the method from the request name', () => {
+    const call = extractAPICall(makeLog({
+      _itemType: 'request',
+      _url: 'https://shop.example.com/checkout/?step=2',
+      _resultCode: '200',
+      _message: 'GET Checkout/Index returned 200 in 31 ms'
+    }));
+
+    expect(call).toEqual({ endpoint: '/checkout', method: 'GET', statusCode: '200' });
+  });
+
+  it('should skip static file requests', () => {
+    expect(extractAPICall(makeLog({ _itemType: 'request', _url: '/styles/site.css', _resultCode: '404' }))).toBeNull();
+  });
+
+  it('should fall back to the message text', () => {
+    const call = extractAPICall(makeLog({ _message: 'Calling GET /api/users/7 failed: HTTP 503' }));
+    expect(call).toEqual({ endpoint: '/api/users/{id}', method: 'GET', statusCode: '503' });
+
+    expect(extractAPICall(makeLog({ _message: 'Cache warmed' }))).toBeNull();
+  });
+
+  it('should not treat page view URLs as API calls', () => {
+    expect(extractAPICall(makeLog({ _itemType: 'pageView', _url: '/home', _message: 'Page view Home /home' }))).toBeNull();
+  });
+});
+
+// =============================================================================
+// aggregateAPIEndpoints
+// =============================================================================
+describe('aggregateAPIEndpoints', () => {
+  it('should group by method and endpoint with status codes and durations', () => {
+    const logs = [
+      makeLog({ _id: 0, _itemType: 'request', _method: 'GET', _url: '/api/orders/1', _resultCode: '200', _duration: 10 }),
+      makeLog({ _id: 1, _itemType: 'request', _method: 'GET', _url: '/api/orders/2', _resultCode: '500', _duration: 30, _severity: 3 }),
+      makeLog({ _id: 2, _message: 'POST /api/orders returned 400', _severity: 2 }),
+    ];
+
+    const endpoints = aggregateAPIEndpoints(logs);
+
+    expect(endpoints.map(ep => `${ep.method} ${ep.endpoint}`)).toEqual(['GET /api/orders/{id}', 'POST /api/orders']);
+    expect(endpoints[0].errorCount).toBe(1);
+    expect(endpoints[0].totalDuration / endpoints[0].timedCount).toBe(20);
+    expect(Object.fromEntries(endpoints[0].statusCodes)).toEqual({ '200': 1, '500': 1 });
+    expect(endpoints[1].warningCount).toBe(1);
+    expect(endpoints[1].timedCount).toBe(0);
+  });
+
+  it('should weight sampled requests when counting estimated events', () => {
+    const logs = [
+      makeLog({ _id: 0, _itemType: 'request', _url: '/api/orders', _resultCode: '200', _duration: 10, _itemCount: 3 }),
+      makeLog({ _id: 1, _itemType: 'request', _url: '/api/orders', _resultCode: '500', _duration: 50, _severity: 3 }),
+    ];
+
+    const [endpoint] = aggregateAPIEndpoints(logs, 'events');
+
+    expect(endpoint.totalCount).toBe(4);
+    expect(endpoint.errorCount).toBe(1);
+    expect(Object.fromEntries(endpoint.statusCodes)).toEqual({ '200': 3, '500': 1 });
+    expect(endpoint.totalDuration / endpoint.timedCount).toBe(20);
+    expect(endpoint.allLogIds).toEqual([0, 1]);
+  });
+});
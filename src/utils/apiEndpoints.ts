@@ -0,0 +1,181 @@
+import { CountMode, LogEntry } from '../types';
+import { logWeight } from './sampling';
+
+export interface APICall {
+  endpoint: string;
+  method: string | null;
+  statusCode: string | null;
+}
+
+export interface APIEndpoint {
+  endpoint: string;
+  method: string | null;
+  totalCount: number; // Rows, or estimated events (see CountMode)
+  errorCount: number;
+  warningCount: number;
+  statusCodes: Map<string, number>;
+  totalDuration: number; // Sum over timedCount rows, ms
+  timedCount: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  sampleLogs: LogEntry[];
+  allLogIds: number[];
+}
+
+const METHOD = /^(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)$/i;
+const LEADING_METHOD = /^(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s/i;
+
+// Server logs list every asset request; these never belong in an API view
+const STATIC_FILE = /\.(css|js|map|png|jpe?g|gif|svg|ico|webp|woff2?|ttf|eot)$/i;
+
+// Normalize: replace UUIDs, numeric IDs with placeholders
+function normalizeEndpoint(endpoint: string): string {
+  return endpoint
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '{id}')
+    .replace(/\/\d+(?=\/|$)/g, '/{id}')
+    .replace(/(.)\/$/, '$1'); // Remove trailing slash
+}
+
+// Extract API endpoint from message
+function extractAPIEndpoint(message: string): { endpoint: string; method: string | null } | null {
+  // Match patterns like "GET /api/users", "POST /api/orders/123", "/api/health"
+  // Also match full URLs like "https://example.com/api/users"
+
+  const patterns = [
+    // Method + endpoint: "GET /api/users" or "POST https://example.com/api/users"
+    /\b(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\s+(?:https?:\/\/[^/\s]+)?(\/api\/[^\s?#"'\]}]+)/i,
+    // Just endpoint with /api/
+    /(?:https?:\/\/[^/\s]+)?(\/api\/[^\s?#"'\]},]+)/i,
+    // URL in quotes or after common patterns
+    /["'](?:https?:\/\/[^/\s]+)?(\/api\/[^"'\s?#]+)["']/i,
+    // "endpoint": "/api/..."
+    /endpoint["']?\s*[:=]\s*["']?(\/api\/[^\s"',}]+)/i,
+    // url: "/api/..." or path: "/api/..."
+    /(?:url|path|uri)["']?\s*[:=]\s*["']?(?:https?:\/\/[^/\s]+)?(\/api\/[^\s"',}]+)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = message.match(pattern);
+    if (match) {
+      let endpoint = match[match.length - 1] || match[1];
+      let method: string | null = null;
+
+      // Check if we captured a method
+      if (match[1] && METHOD.test(match[1])) {
+        method = match[1].toUpperCase();
+        endpoint = match[2];
+      }
+
+      return { endpoint: normalizeEndpoint(endpoint), method };
+    }
+  }
+
+  return null;
+}
+
+// Extract status code from message
+function extractStatusCode(message: string): string | null {
+  // Match patterns like "status: 500", "statusCode: 404", "HTTP 500", "returned 404"
+  const patterns = [
+    /\bstatus(?:Code)?["']?\s*[:=]\s*["']?(\d{3})/i,
+    /\bHTTP\s*(\d{3})/i,
+    /\breturned?\s+(\d{3})/i,
+    /\b(\d{3})\s+(?:error|internal|not found|bad request|unauthorized|forbidden)/i,
+    /\bcode["']?\s*[:=]\s*["']?(\d{3})/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = message.match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+
+  return null;
+}
+
+// Path of a URL or uri-stem, without scheme, host and query
+function urlPath(url: string): string {
+  const match = /^(?:[a-z][\w+.-]*:\/\/[^/?#]*)?([^?#]*)/i.exec(url.trim());
+  return match?.[1] || '/';
+}
+
+// Request rows (App Insights requests, IIS and App Service HTTP logs) carry
+// the URL, method and status as fields; other rows fall back to finding them
+// in the message text
+export function extractAPICall(log: LogEntry): APICall | null {
+  if (log._url && (!log._itemType || log._itemType === 'request')) {
+    const path = urlPath(log._url);
+    if (STATIC_FILE.test(path)) return null;
+
+    const method = log._method || LEADING_METHOD.exec(log._message)?.[1] || null;
+    const subStatus = log._subStatus && log._subStatus !== '0' ? `.${log._subStatus}` : '';
+    return {
+      endpoint: normalizeEndpoint(path),
+      method: method ? method.toUpperCase() : null,
+      statusCode: log._resultCode ? `${log._resultCode}${subStatus}` : extractStatusCode(log._message)
+    };
+  }
+
+  const extracted = extractAPIEndpoint(log._message);
+  if (!extracted) return null;
+  return { ...extracted, statusCode: extractStatusCode(log._message) };
+}
+
+// Endpoints sorted by error count, then by volume
+export function aggregateAPIEndpoints(logs: LogEntry[], mode: CountMode = 'rows'): APIEndpoint[] {
+  const endpoints = new Map<string, APIEndpoint>();
+
+  logs.forEach(log => {
+    const call = extractAPICall(log);
+    if (!call) return;
+
+    const key = `${call.method || 'ANY'} ${call.endpoint}`;
+    let ep = endpoints.get(key);
+    if (!ep) {
+      ep = {
+        endpoint: call.endpoint,
+        method: call.method,
+        totalCount: 0,
+        errorCount: 0,
+        warningCount: 0,
+        statusCodes: new Map(),
+        totalDuration: 0,
+        timedCount: 0,
+        firstSeen: log._timestamp || new Date(),
+        lastSeen: log._timestamp || new Date(),
+        sampleLogs: [],
+        allLogIds: []
+      };
+      endpoints.set(key, ep);
+    }
+
+    const weight = logWeight(log, mode);
+    ep.totalCount += weight;
+    ep.allLogIds.push(log._id);
+
+    if (log._severity === 3) ep.errorCount += weight;
+    if (log._severity === 2) ep.warningCount += weight;
+
+    if (call.statusCode) {
+      ep.statusCodes.set(call.statusCode, (ep.statusCodes.get(call.statusCode) || 0) + weight);
+    }
+
+    if (log._duration !== undefined) {
+      ep.totalDuration += log._duration * weight;
+      ep.timedCount += weight;
+    }
+
+    if (log._timestamp) {
+      if (log._timestamp < ep.firstSeen) ep.firstSeen = log._timestamp;
+      if (log._timestamp > ep.lastSeen) ep.lastSeen = log._timestamp;
+    }
+
+    if (ep.sampleLogs.length < 5) {
+      ep.sampleLogs.push(log);
+    }
+  });
+
+  return Array.from(endpoints.values())
+    .sort((a, b) => b.errorCount - a.errorCount || b.totalCount - a.totalCount);
+}
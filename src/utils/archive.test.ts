@@ -0,0 +1,142 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { expandUploads, listZipEntries, openInput } from './archive';
+
+const CSV = 'timestamp,message\n2024-01-15T10:00:00Z,Started\n2024-01-15T10:01:00Z,Stopped\n';
+
+async function compress(data: Uint8Array<ArrayBuffer>, format: CompressionFormat): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// =============================================================================
+// Helper: build a zip archive (stored or deflated entries, CRCs left at zero)
+// =============================================================================
+async function makeZip(entries: { name: string; text: string; deflate?: boolean }[]): Promise<Uint8Array<ArrayBuffer>> {
+  const encoder = new TextEncoder();
+  const local: Uint8Array<ArrayBuffer>[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const raw = encoder.encode(entry.text);
+    const data = entry.deflate ? await compress(raw, 'deflate-raw') : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(8, method, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, raw.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, data);
+
+    const record = new DataView(new ArrayBuffer(46));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(10, method, true);
+    record.setUint32(20, data.length, true);
+    record.setUint32(24, raw.length, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true);
+    central.push(new Uint8Array(record.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Uint8Array(await new Blob([...local, ...central, new Uint8Array(end.buffer)]).arrayBuffer());
+}
+
+async function readAll(file: File, entry?: string) {
+  const source = await openInput(file, entry);
+  let consumed = 0;
+  const text = await new Response(source.stream(bytes => { consumed += bytes; })).text();
+  return { source, text, consumed };
+}
+
+// =============================================================================
+// openInput
+// =============================================================================
+describe('openInput', () => {
+  it('should pass plain files through', async () => {
+    const { source, text, consumed } = await readAll(new File([CSV], 'export.csv'));
+
+    expect(source.name).toBe('export.csv');
+    expect(text).toBe(CSV);
+    expect(consumed).toBe(CSV.length);
+  });
+
+  it('should decompress gzip files and count compressed bytes', async () => {
+    const gz = await compress(new TextEncoder().encode(CSV.repeat(50)), 'gzip');
+    const { source, text, consumed } = await readAll(new File([gz], 'export.csv.gz'));
+
+    expect(source.name).toBe('export.csv');
+    expect(text).toBe(CSV.repeat(50));
+    expect(consumed).toBe(gz.length);
+    expect(source.size).toBe(gz.length);
+  });
+
+  it('should read stored and deflated zip entries', async () => {
+    const zip = await makeZip([
+      { name: 'exports/traces.csv', text: CSV },
+      { name: 'exports/requests.json', text: '{"tables":[]}', deflate: true },
+    ]);
+    const file = new File([zip], 'exports.zip');
+
+    const traces = await readAll(file, 'exports/traces.csv');
+    expect(traces.source.name).toBe('traces.csv');
+    expect(traces.text).toBe(CSV);
+
+    const requests = await readAll(file, 'exports/requests.json');
+    expect(requests.text).toBe('{"tables":[]}');
+    expect(requests.consumed).toBe(requests.source.size);
+  });
+
+  it('should open a zip with a single log file without naming it', async () => {
+    const zip = await makeZip([{ name: 'traces.csv', text: CSV, deflate: true }]);
+    expect((await readAll(new File([zip], 'one.zip'))).text).toBe(CSV);
+  });
+
+  it('should reject archives it cannot read', async () => {
+    const zip = await makeZip([{ name: 'a.csv', text: CSV }, { name: 'b.csv', text: CSV }]);
+
+    await expect(openInput(new File([zip], 'two.zip'))).rejects.toThrow('contains 2 log files');
+    await expect(openInput(new File([zip], 'two.zip'), 'c.csv')).rejects.toThrow('c.csv was not found');
+    await expect(listZipEntries(new File([CSV], 'fake.zip'))).rejects.toThrow('not a valid zip archive');
+  });
+});
+
+// =============================================================================
+// expandUploads
+// =============================================================================
+describe('expandUploads', () => {
+  it('should list log files inside zips next to plain files', async () => {
+    const zip = await makeZip([
+      { name: 'logs/', text: '' },
+      { name: 'logs/log.20240115.txt', text: '4812 10:00:00 INFO Started' },
+      { name: '__MACOSX/logs/._log.20240115.txt', text: '' },
+      { name: 'logs/readme.md', text: '# notes' },
+      { name: 'logs/traces.csv', text: CSV, deflate: true },
+    ]);
+    const plain = new File([CSV], 'extra.csv');
+
+    const items = await expandUploads([new File([zip], 'logs.zip'), plain]);
+
+    expect(items.map(i => i.name)).toEqual(['logs/log.20240115.txt', 'logs/traces.csv', 'extra.csv']);
+    expect(items[1].entry).toBe('logs/traces.csv');
+    expect(items[2]).toEqual({ file: plain, name: 'extra.csv', size: plain.size });
+  });
+
+  it('should reject zips without log files', async () => {
+    const zip = await makeZip([{ name: 'readme.md', text: '# notes' }]);
+    await expect(expandUploads([new File([zip], 'docs.zip')])).rejects.toThrow('docs.zip contains no CSV, JSON or log files');
+  });
+});
@@ -0,0 +1,191 @@
+// Compressed inputs: gzip files and zip archives, decompressed as streams
+// with the platform DecompressionStream. Zip entries are located through the
+// archive's central directory, so only the chosen entry's bytes are read.
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 stored, 8 deflate
+  compressedSize: number;
+  size: number;
+  offset: number; // Local header position
+}
+
+// A readable input after unwrapping any compression
+export interface InputSource {
+  name: string; // Name of the data inside, e.g. export.csv for export.csv.gz
+  size: number; // Bytes read from the file, which progress is measured against
+  stream(onBytes: (bytes: number) => void): ReadableStream<Uint8Array>; // Decompressed data; onBytes counts compressed bytes read
+}
+
+// One file to parse: a plain or gzip file, or an entry inside a zip
+export interface UploadItem {
+  file: File;
+  entry?: string;
+  name: string;
+  size: number; // Compressed size for archive entries
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+// Entry names worth offering from an archive
+const DATA_FILE = /\.(csv|json|txt|log)(\.\d+)?$/i;
+
+export function isGzipFile(file: { name: string; type?: string }): boolean {
+  return file.name.toLowerCase().endsWith('.gz') || file.type === 'application/gzip' || file.type === 'application/x-gzip';
+}
+
+export function isZipFile(file: { name: string; type?: string }): boolean {
+  return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip' || file.type === 'application/x-zip-compressed';
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+export async function listZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, blob.size - EOCD_SIZE - MAX_COMMENT);
+  const tail = await readBytes(blob, tailStart, blob.size);
+
+  let eocd = -1;
+  for (let i = tail.byteLength - EOCD_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('File is not a valid zip archive');
+
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (directoryOffset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let pos = 0;
+  while (pos + 46 <= directory.byteLength && directory.getUint32(pos, true) === CENTRAL_SIGNATURE) {
+    const flags = directory.getUint16(pos + 8, true);
+    const nameLength = directory.getUint16(pos + 28, true);
+    const extraLength = directory.getUint16(pos + 30, true);
+    const commentLength = directory.getUint16(pos + 32, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength));
+    const entry: ZipEntry = {
+      name,
+      method: directory.getUint16(pos + 10, true),
+      compressedSize: directory.getUint32(pos + 20, true),
+      size: directory.getUint32(pos + 24, true),
+      offset: directory.getUint32(pos + 42, true)
+    };
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // Directory
+    if (flags & 1) throw new Error(`${name} is encrypted`);
+    if (entry.compressedSize === 0xffffffff || entry.offset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+// Log files in an archive, skipping macOS resource forks
+export function dataEntries(entries: ZipEntry[]): ZipEntry[] {
+  return entries.filter(e => DATA_FILE.test(e.name) && !e.name.startsWith('__MACOSX/'));
+}
+
+function countBytes(onBytes: (bytes: number) => void): TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>> {
+  return new TransformStream({
+    transform(chunk, controller) {
+      onBytes(chunk.byteLength);
+      controller.enqueue(chunk);
+    }
+  });
+}
+
+async function openZipEntry(file: File, entryName?: string): Promise<InputSource> {
+  const entries = dataEntries(await listZipEntries(file));
+  const entry = entryName === undefined
+    ? (entries.length === 1 ? entries[0] : undefined)
+    : entries.find(e => e.name === entryName);
+  if (!entry) {
+    throw new Error(entryName === undefined
+      ? `${file.name} contains ${entries.length} log files; choose one to load`
+      : `${entryName} was not found in ${file.name}`);
+  }
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new Error(`${entry.name} uses an unsupported compression method`);
+  }
+
+  const header = await readBytes(file, entry.offset, entry.offset + 30);
+  if (header.getUint32(0, true) !== LOCAL_SIGNATURE) throw new Error(`${entry.name} is damaged`);
+  const dataStart = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize);
+
+  return {
+    name: entry.name.split('/').pop() || entry.name,
+    size: entry.compressedSize,
+    stream(onBytes) {
+      const raw = data.stream().pipeThrough(countBytes(onBytes));
+      return entry.method === 8 ? raw.pipeThrough(new DecompressionStream('deflate-raw')) : raw;
+    }
+  };
+}
+
+// `entry` picks a file inside a zip; archives with a single log file open it
+// directly
+export async function openInput(file: File, entry?: string): Promise<InputSource> {
+  if (isZipFile(file)) return openZipEntry(file, entry);
+
+  if (isGzipFile(file)) {
+    return {
+      name: file.name.replace(/\.gz$/i, ''),
+      size: file.size,
+      stream: onBytes => file.stream().pipeThrough(countBytes(onBytes)).pipeThrough(new DecompressionStream('gzip'))
+    };
+  }
+
+  return {
+    name: file.name,
+    size: file.size,
+    stream: onBytes => file.stream().pipeThrough(countBytes(onBytes))
+  };
+}
+
+// Decodes a source as UTF-8 text chunks, each with the bytes read so far.
+// A leading BOM is kept: the parsers strip it themselves, and low-memory mode
+// needs it to count the 3 bytes it takes in the file.
+export async function readSourceText(source: InputSource, onText: (text: string, bytesRead: number) => void): Promise<void> {
+  let bytesRead = 0;
+  const reader = source.stream(bytes => { bytesRead += bytes; }).getReader();
+  const decoder = new TextDecoder('utf-8', { ignoreBOM: true });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    onText(decoder.decode(value, { stream: true }), bytesRead);
+  }
+
+  const rest = decoder.decode();
+  if (rest) onText(rest, bytesRead);
+}
+
+// Lists the log files inside any zips among the chosen files
+export async function expandUploads(files: File[]): Promise<UploadItem[]> {
+  const items: UploadItem[] = [];
+  for (const file of files) {
+    if (!isZipFile(file)) {
+      items.push({ file, name: file.name, size: file.size });
+      continue;
+    }
+    const entries = dataEntries(await listZipEntries(file));
+    if (entries.length === 0) throw new Error(`${file.name} contains no CSV, JSON or log files`);
+    entries.forEach(e => items.push({ file, entry: e.name, name: e.name, size: e.compressedSize }));
+  }
+  return items;
+}
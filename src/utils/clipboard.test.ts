@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createPastedFile, detectPastedFormat } from './clipboard';
+import { createCsvStreamParser } from './csvStream';
+
+// Copied from the Logs blade results grid
+const GRID_ROWS = [
+  'timestamp [UTC]\tmessage\tseverityLevel',
+  '1/15/2024, 10:00:00.000 AM\tCalling /api/orders, attempt 1\t1',
+  '1/15/2024, 10:00:01.000 AM\tTimeout, retrying\t2',
+].join('\r\n');
+
+// =============================================================================
+// detectPastedFormat
+// =============================================================================
+describe('detectPastedFormat', () => {
+  it('should recognise grid rows, CSV and JSON', () => {
+    expect(detectPastedFormat(GRID_ROWS)).toBe('tsv');
+    expect(detectPastedFormat('timestamp,message\n2024-01-15T10:00:00Z,Started')).toBe('csv');
+    expect(detectPastedFormat('  {"tables": [{"name": "PrimaryResult", "columns": [{"name": "message"}], "rows": [["Started"]]}]}\n')).toBe('json');
+  });
+
+  it('should ignore text that is not rows with a header', () => {
+    expect(detectPastedFormat('Timeout calling /api/orders')).toBeNull();
+    expect(detectPastedFormat('a,b')).toBeNull();
+    expect(detectPastedFormat('{ not json')).toBeNull();
+    expect(detectPastedFormat('first line\nsecond line')).toBeNull();
+  });
+
+  it('should ignore JSON that is not a query result', () => {
+    expect(detectPastedFormat('{}')).toBeNull();
+    expect(detectPastedFormat('[1, 2]')).toBeNull();
+    expect(detectPastedFormat('[{"timestamp": "2024-01-15T10:00:00Z", "message": "Started"}]')).toBeNull();
+    expect(detectPastedFormat('{"tables": []}')).toBeNull();
+  });
+});
+
+// =============================================================================
+// createPastedFile
+// =============================================================================
+describe('createPastedFile', () => {
+  it('should name the file by format and time', async () => {
+    const file = createPastedFile(`${GRID_ROWS}\n`, new Date(2024, 0, 15, 9, 5, 7))!;
+
+    expect(file.name).toBe('Pasted rows 09-05-07.tsv');
+    expect(file.type).toBe('text/tab-separated-values');
+    expect(await file.text()).toBe(GRID_ROWS);
+    expect(createPastedFile('hello')).toBeNull();
+  });
+
+  it('should split grid rows on tabs only', () => {
+    const rows: Record<string, string>[] = [];
+    const parser = createCsvStreamParser(batch => rows.push(...batch), '\t');
+    parser.push(GRID_ROWS);
+    parser.finish();
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      'timestamp [UTC]': '1/15/2024, 10:00:00.000 AM',
+      message: 'Calling /api/orders, attempt 1',
+      severityLevel: '1'
+    });
+  });
+});
@@ -0,0 +1,46 @@
+// Rows pasted from the portal results grid (TSV with a header row), a CSV
+// export opened in an editor, or a JSON query result are wrapped in an
+// in-memory file so they load like a dropped one.
+
+import { parseQueryResult } from './jsonParser';
+
+export type PastedFormat = 'tsv' | 'csv' | 'json';
+
+const MIME_TYPES: Record<PastedFormat, string> = {
+  tsv: 'text/tab-separated-values',
+  csv: 'text/csv',
+  json: 'application/json'
+};
+
+export function isTsvFile(file: { name: string; type?: string }): boolean {
+  return file.name.toLowerCase().endsWith('.tsv') || file.type === MIME_TYPES.tsv;
+}
+
+// A header row plus at least one data row is required, so pasting a single
+// word or sentence is ignored. JSON counts only as a query result
+// ({ tables: [...] }); other JSON is ignored instead of failing to load.
+export function detectPastedFormat(text: string): PastedFormat | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      parseQueryResult(trimmed);
+      return 'json';
+    } catch {
+      return null;
+    }
+  }
+
+  const lines = trimmed.split(/\r?\n/);
+  if (lines.length < 2) return null;
+  if (lines[0].includes('\t')) return 'tsv';
+  if (lines[0].includes(',')) return 'csv';
+  return null;
+}
+
+export function createPastedFile(text: string, now = new Date()): File | null {
+  const format = detectPastedFormat(text);
+  if (!format) return null;
+
+  const time = now.toTimeString().slice(0, 8).replace(/:/g, '-');
+  return new File([text.trim()], `Pasted rows ${time}.${format}`, { type: MIME_TYPES[format] });
+}
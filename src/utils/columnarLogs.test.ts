@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createColumnarBuilder,
+  createLogReader,
+  hydrateLogs,
+  getRawValue,
+  getRawText,
+  getTimestampMs,
+  countColumnValues,
+} from './columnarLogs';
+import { decodeSearchIndex, postingsFor } from './searchIndex';
+import { LogEntry } from '../types';
+
+const COLUMNS = ['timestamp', 'severityLevel', 'message', 'customDimensions'];
+
+// =============================================================================
+// Helper: build a small columnar dataset
+// =============================================================================
+function buildSample() {
+  const builder = createColumnarBuilder(COLUMNS, 1);
+  const rows = [
+    { timestamp: '2024-01-15T10:00:00Z', severityLevel: '1', message: 'Older', customDimensions: '{"InstanceName":"app-CM-01"}' },
+    { timestamp: '', severityLevel: '2', message: 'No time', customDimensions: '' },
+    { timestamp: '2024-01-15T11:00:00Z', severityLevel: '3', message: 'Newer – ünïcode', customDimensions: '{"InstanceName":"app-CD-01"}' },
+  ];
+  rows.forEach((row, index) => {
+    builder.add({
+      id: index,
+      timestamp: row.timestamp ? new Date(row.timestamp) : null,
+      severity: Number(row.severityLevel),
+      message: row.message,
+      serverRole: index === 0 ? 'CM' : index === 2 ? 'CD' : undefined,
+      operationId: index === 2 ? 'op-2' : undefined,
+    }, row);
+  });
+  return builder.build();
+}
+
+// =============================================================================
+// createColumnarBuilder
+// =============================================================================
+describe('createColumnarBuilder', () => {
+  it('should sort rows newest first with missing timestamps last', () => {
+    const { data } = buildSample();
+
+    expect(data.count).toBe(3);
+    expect(Array.from(data.ids)).toEqual([2, 0, 1]);
+    expect(isNaN(data.timestamps[2])).toBe(true);
+  });
+
+  it('should return every typed array buffer as a transferable', () => {
+    const { data, transfer } = buildSample();
+
+    expect(transfer).toContain(data.timestamps.buffer);
+    expect(transfer).toContain(data.severities.buffer);
+    expect(transfer).toContain(data.cells.buffer);
+    expect(transfer).toContain(data.strings.bytes.buffer);
+    expect(transfer).toContain(data.search!.rows.buffer);
+  });
+
+  it('should index the tokens of every cell by sorted row', () => {
+    const { data } = buildSample();
+    const postings = decodeSearchIndex(data.search!);
+    const rowsOf = (token: string) => postingsFor(postings, token, false).flatMap(list => Array.from(list));
+
+    expect(postings.terms).toEqual([...postings.terms].sort());
+    expect(rowsOf('ünïcode')).toEqual([0]);
+    expect(rowsOf('instancename')).toEqual([0, 1]);
+    expect(rowsOf('cm')).toEqual([1]);
+  });
+
+  it('should intern repeated strings once', () => {
+    const builder = createColumnarBuilder(['role'], 0);
+    for (let i = 0; i < 100; i++) {
+      builder.add({ id: i, timestamp: null, severity: 1, message: 'same' }, { role: 'CD' });
+    }
+    const { data } = builder.build();
+
+    // '', 'same', 'CD'
+    expect(data.strings.offsets.length - 1).toBe(3);
+  });
+
+  it('should grow past its initial capacity', () => {
+    const builder = createColumnarBuilder(['a'], 0);
+    for (let i = 0; i < 3000; i++) {
+      builder.add({ id: i, timestamp: new Date(i * 1000), severity: i % 5, message: `m${i}` }, { a: String(i) });
+    }
+    const { data } = builder.build();
+    const reader = createLogReader(data);
+
+    expect(data.count).toBe(3000);
+    expect(reader.cell(0, 'a')).toBe('2999');
+    expect(reader.cell(2999, 'a')).toBe('0');
+  });
+});
+
+// =============================================================================
+// createLogReader
+// =============================================================================
+describe('createLogReader', () => {
+  it('should decode cells and raw records', () => {
+    const reader = createLogReader(buildSample().data);
+
+    expect(reader.cell(0, 'message')).toBe('Newer – ünïcode');
+    expect(reader.cell(0, 'missing')).toBe('');
+    expect(reader.raw(1)).toEqual({
+      timestamp: '2024-01-15T10:00:00Z',
+      severityLevel: '1',
+      message: 'Older',
+      customDimensions: '{"InstanceName":"app-CM-01"}',
+    });
+  });
+});
+
+// =============================================================================
+// hydrateLogs
+// =============================================================================
+describe('hydrateLogs', () => {
+  it('should expose columnar rows as LogEntry objects', () => {
+    const logs = hydrateLogs(buildSample().data);
+
+    expect(logs).toHaveLength(3);
+    expect(logs[0]._id).toBe(2);
+    expect(logs[0]._severity).toBe(3);
+    expect(logs[0]._message).toBe('Newer – ünïcode');
+    expect(logs[0]._timestamp?.toISOString()).toBe('2024-01-15T11:00:00.000Z');
+    expect(logs[0]._serverRole).toBe('CD');
+    expect(logs[0]._operationId).toBe('op-2');
+    expect(logs[0]._fileIndex).toBe(1);
+    expect(logs[0]._raw.customDimensions).toBe('{"InstanceName":"app-CD-01"}');
+  });
+
+  it('should map empty optional fields to undefined or null', () => {
+    const logs = hydrateLogs(buildSample().data);
+
+    expect(logs[2]._timestamp).toBeNull();
+    expect(logs[2]._serverRole).toBeUndefined();
+    expect(logs[2]._operationId).toBeUndefined();
+  });
+
+  it('should return a stable Date instance for repeated reads', () => {
+    const logs = hydrateLogs(buildSample().data);
+
+    expect(logs[0]._timestamp).toBe(logs[0]._timestamp);
+  });
+});
+
+// =============================================================================
+// Accessors
+// =============================================================================
+describe('accessors', () => {
+  const plain: LogEntry = {
+    _id: 7,
+    _timestamp: new Date('2024-01-15T12:00:00Z'),
+    _severity: 1,
+    _message: 'plain',
+    _raw: { message: 'plain', level: 'Info' },
+  };
+
+  it('should read raw values from both columnar and plain entries', () => {
+    const [columnar] = hydrateLogs(buildSample().data);
+
+    expect(getRawValue(columnar, 'severityLevel')).toBe('3');
+    expect(getRawValue(plain, 'level')).toBe('Info');
+    expect(getRawValue(plain, 'missing')).toBe('');
+  });
+
+  it('should join all raw values for search', () => {
+    const logs = hydrateLogs(buildSample().data);
+
+    expect(getRawText(logs[2])).toBe(' 2 No time ');
+    expect(getRawText(plain)).toBe('plain Info');
+  });
+
+  it('should return timestamps in epoch ms or NaN', () => {
+    const logs = hydrateLogs(buildSample().data);
+
+    expect(getTimestampMs(logs[0])).toBe(Date.parse('2024-01-15T11:00:00Z'));
+    expect(getTimestampMs(logs[2])).toBeNaN();
+    expect(getTimestampMs(plain)).toBe(Date.parse('2024-01-15T12:00:00Z'));
+  });
+});
+
+describe('countColumnValues', () => {
+  it('should count distinct values of a column', () => {
+    const builder = createColumnarBuilder(['level'], 0);
+    ['Error', 'Notice', 'Error', ''].forEach((level, id) => {
+      builder.add({ id, timestamp: null, severity: 1, message: '' }, { level });
+    });
+    const { data } = builder.build();
+
+    expect(countColumnValues(data, 'level')).toEqual(new Map([['Error', 2], ['Notice', 1], ['', 1]]));
+    expect(countColumnValues(data, 'missing').size).toBe(0);
+  });
+});
@@ -0,0 +1,518 @@
+import { ColumnarLogs, LogEntry, LogItemType, StringTable } from '../types';
+import { compareNewestFirst } from './timestamps';
+import { indexTokens } from './searchIndex';
+import { readRows } from './rowSource';
+
+export interface ColumnarRowFields {
+  id: number;
+  timestamp: Date | null;
+  timestampMs?: number; // Precise epoch ms when the parser kept sub-ms digits
+  severity: number;
+  message: string;
+  serverRole?: string;
+  operationId?: string;
+  itemType?: LogItemType;
+  duration?: number;
+  resultCode?: string;
+  success?: boolean;
+  url?: string;
+  method?: string;
+  subStatus?: string;
+  target?: string;
+  dependencyType?: string;
+  exceptionType?: string;
+  problemId?: string;
+  source?: string;
+  itemCount?: number;
+  byteOffset?: number; // Low-memory mode: the row's record in the file
+  byteLength?: number;
+}
+
+export interface ColumnarBuilder {
+  add(fields: ColumnarRowFields, row: Record<string, string>): void;
+  addColumns(names: string[]): void; // Columns found after the header, e.g. flattened customDimensions keys
+  readonly count: number;
+  build(): { data: ColumnarLogs; transfer: ArrayBuffer[] };
+}
+
+// itemTypes stores the position in this list + 1 (0 = unknown)
+export const ITEM_TYPES: LogItemType[] = ['trace', 'request', 'dependency', 'exception', 'pageView'];
+
+// Columnar arrays holding string-pool indexes, keyed by the row field they store
+const STRING_COLUMNS = {
+  messages: 'message',
+  serverRoles: 'serverRole',
+  operationIds: 'operationId',
+  resultCodes: 'resultCode',
+  urls: 'url',
+  methods: 'method',
+  subStatuses: 'subStatus',
+  targets: 'target',
+  dependencyTypes: 'dependencyType',
+  exceptionTypes: 'exceptionType',
+  problemIds: 'problemId',
+  sources: 'source'
+} as const;
+
+type StringColumn = keyof typeof STRING_COLUMNS;
+const STRING_COLUMN_NAMES = Object.keys(STRING_COLUMNS) as StringColumn[];
+
+function grow<T extends Float64Array | Uint32Array | Uint8Array | Int8Array>(array: T, minLength: number): T {
+  if (array.length >= minLength) return array;
+  const next = new (array.constructor as new (length: number) => T)(Math.max(minLength, array.length * 2));
+  next.set(array);
+  return next;
+}
+
+function encodeStrings(strings: string[]): StringTable {
+  const encoder = new TextEncoder();
+  const encoded = strings.map(s => encoder.encode(s));
+  const offsets = new Uint32Array(strings.length + 1);
+  let total = 0;
+  encoded.forEach((bytes, i) => {
+    offsets[i] = total;
+    total += bytes.length;
+  });
+  offsets[strings.length] = total;
+
+  const bytes = new Uint8Array(total);
+  encoded.forEach((chunk, i) => bytes.set(chunk, offsets[i]));
+  return { bytes, offsets };
+}
+
+// Accumulates rows in the parsing worker. Repeated values (severity labels,
+// role names, cloud_RoleInstance, ...) are interned once in the string pool.
+// Columns added mid-stream are kept column-wise and appended to the header
+// when the data is built; earlier rows read as empty. A low-memory builder
+// keeps no cells, only each row's byte range in the file.
+export function createColumnarBuilder(columns: string[], fileIndex?: number, lowMemory = false): ColumnarBuilder {
+  const width = lowMemory ? 0 : columns.length;
+  const pool = new Map<string, number>([['', 0]]);
+  const strings: string[] = [''];
+  const intern = (value: string | undefined): number => {
+    if (!value) return 0;
+    let index = pool.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      pool.set(value, index);
+      strings.push(value);
+    }
+    return index;
+  };
+
+  let count = 0;
+  let ids = new Uint32Array(1024);
+  let timestamps = new Float64Array(1024);
+  let severities = new Uint8Array(1024);
+  let itemTypes = new Uint8Array(1024);
+  let durations = new Float64Array(1024);
+  let successes = new Int8Array(1024);
+  let itemCounts = new Uint32Array(1024);
+  let byteOffsets = new Float64Array(lowMemory ? 1024 : 0);
+  let byteLengths = new Uint32Array(lowMemory ? 1024 : 0);
+  const stringColumns = {} as Record<StringColumn, Uint32Array>;
+  STRING_COLUMN_NAMES.forEach(name => {
+    stringColumns[name] = new Uint32Array(1024);
+  });
+  let cells = new Uint32Array(1024 * width);
+  const extraColumns: string[] = [];
+  const extraCells: Uint32Array[] = [];
+
+  return {
+    get count() {
+      return count;
+    },
+
+    add(fields, row) {
+      ids = grow(ids, count + 1);
+      timestamps = grow(timestamps, count + 1);
+      severities = grow(severities, count + 1);
+      itemTypes = grow(itemTypes, count + 1);
+      durations = grow(durations, count + 1);
+      successes = grow(successes, count + 1);
+      itemCounts = grow(itemCounts, count + 1);
+      cells = grow(cells, (count + 1) * width);
+
+      ids[count] = fields.id;
+      timestamps[count] = fields.timestampMs ?? (fields.timestamp ? fields.timestamp.getTime() : NaN);
+      severities[count] = fields.severity;
+      itemTypes[count] = fields.itemType ? ITEM_TYPES.indexOf(fields.itemType) + 1 : 0;
+      durations[count] = fields.duration ?? NaN;
+      successes[count] = fields.success === undefined ? -1 : fields.success ? 1 : 0;
+      itemCounts[count] = fields.itemCount ?? 0;
+      if (lowMemory) {
+        byteOffsets = grow(byteOffsets, count + 1);
+        byteLengths = grow(byteLengths, count + 1);
+        byteOffsets[count] = fields.byteOffset ?? 0;
+        byteLengths[count] = fields.byteLength ?? 0;
+      }
+      for (const name of STRING_COLUMN_NAMES) {
+        const array = grow(stringColumns[name], count + 1);
+        stringColumns[name] = array;
+        array[count] = intern(fields[STRING_COLUMNS[name]]);
+      }
+      const base = count * width;
+      for (let c = 0; c < width; c++) {
+        cells[base + c] = intern(row[columns[c]]);
+      }
+      for (let e = 0; e < extraColumns.length && !lowMemory; e++) {
+        const array = grow(extraCells[e], count + 1);
+        extraCells[e] = array;
+        array[count] = intern(row[extraColumns[e]]);
+      }
+      count++;
+    },
+
+    addColumns(names) {
+      for (const name of names) {
+        if (columns.includes(name) || extraColumns.includes(name)) continue;
+        extraColumns.push(name);
+        extraCells.push(new Uint32Array(lowMemory ? 0 : Math.max(1024, count)));
+      }
+    },
+
+    // Rows are emitted newest first (rows without a timestamp last), matching
+    // the order parseCSV produces. The search index is built over the sorted rows.
+    build() {
+      const order = Array.from({ length: count }, (_, i) => i);
+      order.sort((a, b) => compareNewestFirst(timestamps[a], timestamps[b]));
+
+      const sorted = {} as Record<StringColumn, Uint32Array>;
+      STRING_COLUMN_NAMES.forEach(name => {
+        sorted[name] = new Uint32Array(count);
+      });
+
+      const allColumns = extraColumns.length > 0 ? [...columns, ...extraColumns] : columns;
+      const fullWidth = lowMemory ? 0 : allColumns.length;
+
+      const data: ColumnarLogs = {
+        count,
+        columns: lowMemory ? [] : allColumns,
+        fileIndex,
+        ids: new Uint32Array(count),
+        timestamps: new Float64Array(count),
+        severities: new Uint8Array(count),
+        itemTypes: new Uint8Array(count),
+        durations: new Float64Array(count),
+        successes: new Int8Array(count),
+        itemCounts: new Uint32Array(count),
+        ...sorted,
+        cells: new Uint32Array(count * fullWidth),
+        strings: encodeStrings(strings)
+      };
+
+      order.forEach((from, to) => {
+        data.ids[to] = ids[from];
+        data.timestamps[to] = timestamps[from];
+        data.severities[to] = severities[from];
+        data.itemTypes[to] = itemTypes[from];
+        data.durations[to] = durations[from];
+        data.successes[to] = successes[from];
+        data.itemCounts[to] = itemCounts[from];
+        for (const name of STRING_COLUMN_NAMES) {
+          data[name][to] = stringColumns[name][from];
+        }
+        data.cells.set(cells.subarray(from * width, (from + 1) * width), to * fullWidth);
+        for (let e = 0; e < extraColumns.length && !lowMemory; e++) {
+          data.cells[to * fullWidth + width + e] = extraCells[e][from];
+        }
+      });
+
+      if (lowMemory) {
+        data.locations = {
+          header: columns,
+          columns: allColumns,
+          delimiter: ',',
+          offsets: Float64Array.from(order, from => byteOffsets[from]),
+          lengths: Uint32Array.from(order, from => byteLengths[from])
+        };
+      }
+
+      // Without cells, low-memory files search their message patterns
+      const postings = lowMemory
+        ? indexTokens(strings, data.messages, count, 1)
+        : indexTokens(strings, data.cells, count, fullWidth);
+      data.search = { terms: encodeStrings(postings.terms), offsets: postings.offsets, rows: postings.rows };
+
+      const transfer = [
+        data.ids.buffer,
+        data.timestamps.buffer,
+        data.severities.buffer,
+        data.itemTypes.buffer,
+        data.durations.buffer,
+        data.successes.buffer,
+        data.itemCounts.buffer,
+        ...STRING_COLUMN_NAMES.map(name => data[name].buffer),
+        data.cells.buffer,
+        data.strings.bytes.buffer,
+        data.strings.offsets.buffer,
+        data.search.terms.bytes.buffer,
+        data.search.terms.offsets.buffer,
+        data.search.offsets.buffer,
+        data.search.rows.buffer,
+        ...(data.locations ? [data.locations.offsets.buffer, data.locations.lengths.buffer] : [])
+      ] as ArrayBuffer[];
+
+      return { data, transfer };
+    }
+  };
+}
+
+// =============================================================================
+// Main-thread accessor layer
+// =============================================================================
+
+export interface LogReader {
+  readonly data: ColumnarLogs;
+  readonly loaded: Map<number, Record<string, string>>; // Low-memory rows read back from the file, by row
+  string(index: number): string;
+  timestampMs(row: number): number;
+  cell(row: number, column: string): string;
+  raw(row: number): Record<string, string>;
+}
+
+// Strings are decoded on first use, so raw columns nobody looks at never
+// become JS strings on the main thread
+export function createLogReader(data: ColumnarLogs): LogReader {
+  const decoder = new TextDecoder();
+  const decoded: (string | undefined)[] = new Array(data.strings.offsets.length - 1);
+  const columnIndex = new Map(data.columns.map((c, i) => [c, i]));
+  const width = data.columns.length;
+
+  const string = (index: number): string => {
+    if (index === 0) return '';
+    let value = decoded[index];
+    if (value === undefined) {
+      const { bytes, offsets } = data.strings;
+      value = decoder.decode(bytes.subarray(offsets[index], offsets[index + 1]));
+      decoded[index] = value;
+    }
+    return value;
+  };
+
+  const loaded = new Map<number, Record<string, string>>();
+
+  return {
+    data,
+    loaded,
+    string,
+    timestampMs: row => data.timestamps[row],
+    cell(row, column) {
+      if (data.locations) return loaded.get(row)?.[column] ?? '';
+      const c = columnIndex.get(column);
+      return c === undefined ? '' : string(data.cells[row * width + c]);
+    },
+    raw(row) {
+      if (data.locations) return { ...loaded.get(row) };
+      const record: Record<string, string> = {};
+      const base = row * width;
+      data.columns.forEach((col, c) => {
+        record[col] = string(data.cells[base + c]);
+      });
+      return record;
+    }
+  };
+}
+
+// LogEntry view over one columnar row. Fields are read through the reader on
+// access; `_raw` builds a fresh record each time, so hot paths should use
+// getRawValue / getRawText instead.
+class ColumnarLogEntry implements LogEntry {
+  readonly _id: number;
+  readonly _severity: number;
+  readonly _fileIndex?: number;
+  private timestampCache: Date | null | undefined;
+
+  constructor(readonly reader: LogReader, readonly row: number) {
+    this._id = reader.data.ids[row];
+    this._severity = reader.data.severities[row];
+    this._fileIndex = reader.data.fileIndex;
+  }
+
+  get _timestamp(): Date | null {
+    if (this.timestampCache === undefined) {
+      const ms = this.reader.timestampMs(this.row);
+      this.timestampCache = isNaN(ms) ? null : new Date(ms);
+    }
+    return this.timestampCache;
+  }
+
+  // Low-memory rows hold the message pattern until the row is read back
+  get _message(): string {
+    const column = this.reader.data.locations?.messageColumn;
+    const full = column ? this.reader.loaded.get(this.row)?.[column] : undefined;
+    return full || this.reader.string(this.reader.data.messages[this.row]);
+  }
+
+  get _serverRole(): string | undefined {
+    return this.reader.string(this.reader.data.serverRoles[this.row]) || undefined;
+  }
+
+  get _operationId(): string | undefined {
+    return this.reader.string(this.reader.data.operationIds[this.row]) || undefined;
+  }
+
+  get _itemType(): LogItemType | undefined {
+    const index = this.reader.data.itemTypes[this.row];
+    return index ? ITEM_TYPES[index - 1] : undefined;
+  }
+
+  get _duration(): number | undefined {
+    const ms = this.reader.data.durations[this.row];
+    return isNaN(ms) ? undefined : ms;
+  }
+
+  get _success(): boolean | undefined {
+    const value = this.reader.data.successes[this.row];
+    return value < 0 ? undefined : value === 1;
+  }
+
+  get _itemCount(): number | undefined {
+    return this.reader.data.itemCounts[this.row] || undefined;
+  }
+
+  get _resultCode(): string | undefined {
+    return this.reader.string(this.reader.data.resultCodes[this.row]) || undefined;
+  }
+
+  get _url(): string | undefined {
+    return this.reader.string(this.reader.data.urls[this.row]) || undefined;
+  }
+
+  get _method(): string | undefined {
+    return this.reader.string(this.reader.data.methods[this.row]) || undefined;
+  }
+
+  get _subStatus(): string | undefined {
+    return this.reader.string(this.reader.data.subStatuses[this.row]) || undefined;
+  }
+
+  get _target(): string | undefined {
+    return this.reader.string(this.reader.data.targets[this.row]) || undefined;
+  }
+
+  get _dependencyType(): string | undefined {
+    return this.reader.string(this.reader.data.dependencyTypes[this.row]) || undefined;
+  }
+
+  get _exceptionType(): string | undefined {
+    return this.reader.string(this.reader.data.exceptionTypes[this.row]) || undefined;
+  }
+
+  get _problemId(): string | undefined {
+    return this.reader.string(this.reader.data.problemIds[this.row]) || undefined;
+  }
+
+  get _source(): string | undefined {
+    return this.reader.string(this.reader.data.sources[this.row]) || undefined;
+  }
+
+  get _raw(): Record<string, string> {
+    return this.reader.raw(this.row);
+  }
+}
+
+// The derived fields of a stored row, for copying it into another builder
+export function readRowFields(reader: LogReader, row: number): ColumnarRowFields {
+  const { data } = reader;
+  const ms = data.timestamps[row];
+  const text = (column: Uint32Array) => reader.string(column[row]) || undefined;
+  return {
+    id: data.ids[row],
+    timestamp: isNaN(ms) ? null : new Date(ms),
+    timestampMs: isNaN(ms) ? undefined : ms,
+    severity: data.severities[row],
+    message: reader.string(data.messages[row]),
+    serverRole: text(data.serverRoles),
+    operationId: text(data.operationIds),
+    itemType: data.itemTypes[row] ? ITEM_TYPES[data.itemTypes[row] - 1] : undefined,
+    duration: isNaN(data.durations[row]) ? undefined : data.durations[row],
+    resultCode: text(data.resultCodes),
+    success: data.successes[row] < 0 ? undefined : data.successes[row] === 1,
+    url: text(data.urls),
+    method: text(data.methods),
+    subStatus: text(data.subStatuses),
+    target: text(data.targets),
+    dependencyType: text(data.dependencyTypes),
+    exceptionType: text(data.exceptionTypes),
+    problemId: text(data.problemIds),
+    source: text(data.sources),
+    itemCount: data.itemCounts[row] || undefined
+  };
+}
+
+export function hydrateLogs(data: ColumnarLogs): LogEntry[] {
+  const reader = createLogReader(data);
+  const logs: LogEntry[] = new Array(data.count);
+  for (let row = 0; row < data.count; row++) {
+    logs[row] = new ColumnarLogEntry(reader, row);
+  }
+  return logs;
+}
+
+// Rows read back per file; the oldest are dropped past this
+const MAX_LOADED_ROWS = 5000;
+
+// Reads the cells of low-memory rows from their file so _raw, getRawValue and
+// _message return the full row. Other entries are left as they are.
+export async function loadRawRows(logs: LogEntry[], file: Blob): Promise<void> {
+  const pending = new Map<LogReader, number[]>();
+  for (const log of logs) {
+    if (!(log instanceof ColumnarLogEntry) || !log.reader.data.locations || log.reader.loaded.has(log.row)) continue;
+    const rows = pending.get(log.reader) ?? [];
+    rows.push(log.row);
+    pending.set(log.reader, rows);
+  }
+
+  for (const [reader, rows] of pending) {
+    const records = await readRows(file, reader.data.locations!, rows);
+    records.forEach((record, row) => reader.loaded.set(row, record));
+    for (const row of reader.loaded.keys()) {
+      if (reader.loaded.size <= MAX_LOADED_ROWS) break;
+      reader.loaded.delete(row);
+    }
+  }
+}
+
+export function getRawValue(log: LogEntry, column: string): string {
+  if (log instanceof ColumnarLogEntry) return log.reader.cell(log.row, column);
+  return String(log._raw[column] ?? '');
+}
+
+export function getRawText(log: LogEntry): string {
+  if (log instanceof ColumnarLogEntry && log.reader.data.locations) return Object.values(log._raw).join(' ');
+  if (log instanceof ColumnarLogEntry) {
+    const { data } = log.reader;
+    const width = data.columns.length;
+    const parts: string[] = new Array(width);
+    for (let c = 0; c < width; c++) {
+      parts[c] = log.reader.string(data.cells[log.row * width + c]);
+    }
+    return parts.join(' ');
+  }
+  return Object.values(log._raw).join(' ');
+}
+
+export function getTimestampMs(log: LogEntry): number {
+  if (log instanceof ColumnarLogEntry) return log.reader.timestampMs(log.row);
+  return log._timestamp ? log._timestamp.getTime() : NaN;
+}
+
+// Distinct values of one column with their row counts. Counting runs on
+// string-pool indexes, so each distinct value is decoded only once.
+export function countColumnValues(data: ColumnarLogs, column: string): Map<string, number> {
+  const c = data.columns.indexOf(column);
+  const counts = new Map<string, number>();
+  if (c < 0) return counts;
+
+  const byIndex = new Map<number, number>();
+  const width = data.columns.length;
+  for (let row = 0; row < data.count; row++) {
+    const index = data.cells[row * width + c];
+    byIndex.set(index, (byIndex.get(index) || 0) + 1);
+  }
+
+  const reader = createLogReader(data);
+  byIndex.forEach((count, index) => counts.set(reader.string(index), count));
+  return counts;
+}
@@ -193,12 +193,12 @@ describe('parseSeverity', () => {
       expect(parseSeverity('ERROR')).toBe(3);
     });
 
-    it('should map "critical" to 3', () => {
-      expect(parseSeverity('critical')).toBe(3);
+    it('should map "critical" to 4', () => {
+      expect(parseSeverity('critical')).toBe(4);
     });
 
-    it('should map "fatal" to 3', () => {
-      expect(parseSeverity('fatal')).toBe(3);
+    it('should map "fatal" to 4', () => {
+      expect(parseSeverity('fatal')).toBe(4);
     });
 
     it('should map "warning" to 2', () => {
@@ -583,6 +583,22 @@ describe('extractErrorPatterns', () => {
     const patterns = extractErrorPatterns(logs);
     expect(patterns[0].message.length).toBeLessThanOrEqual(200);
   });
+
+  it('should weight counts by itemCount when counting estimated events', () => {
+    const logs: LogEntry[] = [
+      makeLog({ _id: 1, _severity: 3, _message: 'Timeout', _itemCount: 10 }),
+      makeLog({ _id: 2, _severity: 2, _message: 'Timeout' }),
+    ];
+
+    const [rows] = extractErrorPatterns(logs);
+    const [events] = extractErrorPatterns(logs, 'events');
+
+    expect(rows.count).toBe(2);
+    expect(events.count).toBe(11);
+    expect(events.errorCount).toBe(10);
+    expect(events.warningCount).toBe(1);
+    expect(events.ids).toEqual([1, 2]);
+  });
 });
 
 // =============================================================================
@@ -677,6 +693,17 @@ describe('calculateFileStats', () => {
     expect(stats.timeStart).toEqual(ts);
     expect(stats.timeEnd).toEqual(ts);
   });
+
+  it('should estimate events from sampled rows', () => {
+    const logs: LogEntry[] = [
+      makeLog({ _id: 1, _severity: 3, _itemCount: 5 }),
+      makeLog({ _id: 2, _severity: 1, _itemCount: 20 }),
+      makeLog({ _id: 3, _severity: 1 }),
+    ];
+
+    expect(calculateFileStats(logs)).toMatchObject({ total: 3, errors: 1, info: 2 });
+    expect(calculateFileStats(logs, 'events')).toMatchObject({ total: 26, errors: 5, info: 21 });
+  });
 });
 
 // =============================================================================
@@ -942,6 +969,17 @@ describe('compareFiles', () => {
     expect(result.bothFiles[0].file1Count).toBe(3);
     expect(result.bothFiles[0].file2Count).toBe(2);
   });
+
+  it('should compare estimated events when asked', () => {
+    const logs1: LogEntry[] = [makeLog({ _id: 1, _severity: 3, _message: 'Timeout', _itemCount: 4 })];
+    const logs2: LogEntry[] = [makeLog({ _id: 1, _severity: 3, _message: 'Timeout', _itemCount: 8 })];
+
+    const result = compareFiles(logs1, logs2, 'events');
+
+    expect(result.bothFiles[0]).toMatchObject({ file1Count: 4, file2Count: 8, change: 100 });
+    expect(result.summary.file1Errors).toBe(4);
+    expect(result.summary.file2Errors).toBe(8);
+  });
 });
 
 // =============================================================================
@@ -1,95 +1,63 @@
 import Papa from 'papaparse';
-import { LogEntry, ColumnMapping, ParsedData, ErrorPattern, FileStats, ComparisonResult } from '../types';
-
-// Common column name variations for Azure App Insights
-const TIMESTAMP_PATTERNS = [
-  'timestamp', 'time', 'datetime', 'date', 'created', 'logged',
-  'eventtime', 'timegenerated', 'ingestiontime', 'clienttime',
-  'Timestamp', 'Time', 'DateTime', 'Date', 'TimeGenerated'
-];
-
-const SEVERITY_PATTERNS = [
-  'severitylevel', 'severity', 'level', 'loglevel', 'type',
-  'SeverityLevel', 'Severity', 'Level', 'LogLevel', 'Type'
-];
-
-const MESSAGE_PATTERNS = [
-  'message', 'msg', 'description', 'text', 'details', 'content',
-  'renderedmessage', 'innermostmessage', 'outermessage', 'problemid',
-  'Message', 'Msg', 'Description', 'Text', 'Details', 'RenderedMessage'
-];
-
-const OPERATION_PATTERNS = [
-  'operationid', 'operation_id', 'operationId', 'OperationId',
-  'requestid', 'request_id', 'requestId', 'RequestId',
-  'correlationid', 'correlation_id', 'correlationId', 'CorrelationId',
-  'traceid', 'trace_id', 'traceId', 'TraceId'
-];
-
-function findColumn(columns: string[], patterns: string[]): string {
-  for (const pattern of patterns) {
-    const found = columns.find(c => c.toLowerCase() === pattern.toLowerCase());
-    if (found) return found;
-  }
-  for (const pattern of patterns) {
-    const found = columns.find(c => c.toLowerCase().includes(pattern.toLowerCase()));
-    if (found) return found;
+import { LogEntry, ParsedData, ErrorPattern, FileStats, ComparisonResult, CountMode } from '../types';
+import { detectColumnMapping, deriveLogFields } from './logPipeline';
+import { compareNewestFirst, createTimestampAudit } from './timestamps';
+import { createDynamicColumnTracker } from './customDimensions';
+import { logWeight } from './sampling';
+import { createSummaryBuilder, normalizeMessage, summarizeLogs, summaryPatterns, summaryStats } from './logSummary';
+
+export { detectColumnMapping, parseSeverity, parseTimestamp } from './logPipeline';
+export { normalizeMessage } from './logSummary';
+
+export function buildParsedData(rows: Record<string, string>[], columns: string[], fileIndex?: number): ParsedData {
+  const mapping = detectColumnMapping(columns);
+  const dynamic = createDynamicColumnTracker(columns);
+  if (dynamic.active) rows.forEach(row => dynamic.flatten(row));
+  const allColumns = dynamic.columns();
+  // Rows without a key read as empty, as they do in the columnar store
+  if (allColumns.length > columns.length) {
+    rows.forEach(row => allColumns.forEach(col => {
+      if (!(col in row)) row[col] = '';
+    }));
   }
-  return '';
-}
-
-export function detectColumnMapping(columns: string[]): ColumnMapping {
-  return {
-    timestamp: findColumn(columns, TIMESTAMP_PATTERNS),
-    severity: findColumn(columns, SEVERITY_PATTERNS),
-    message: findColumn(columns, MESSAGE_PATTERNS),
-    operationId: findColumn(columns, OPERATION_PATTERNS)
-  };
-}
-
-export function parseSeverity(value: string | number | undefined): number {
-  if (value === undefined || value === null || value === '') return 0;
-
-  const str = String(value).toLowerCase().trim();
-  const num = parseInt(str);
-  if (!isNaN(num) && num >= 0 && num <= 4) return num;
-
-  if (str.includes('error') || str.includes('critical') || str.includes('fatal')) return 3;
-  if (str.includes('warn')) return 2;
-  if (str.includes('info') || str.includes('information')) return 1;
-  if (str.includes('verbose') || str.includes('debug') || str.includes('trace')) return 0;
-
-  return 1;
-}
-
-export function parseTimestamp(value: string | undefined): Date | null {
-  if (!value) return null;
-  const date = new Date(value);
-  if (!isNaN(date.getTime())) return date;
-  return null;
-}
-
-function extractServerRole(row: Record<string, string>, columns: string[]): string | undefined {
-  // Find customDimensions column (case-insensitive)
-  const customDimCol = columns.find(c =>
-    c.toLowerCase() === 'customdimensions' || c.toLowerCase() === 'custom_dimensions'
-  );
-
-  if (!customDimCol || !row[customDimCol]) return undefined;
-
-  try {
-    const dims = JSON.parse(row[customDimCol]);
-    const instanceName = dims.InstanceName || dims.instanceName || '';
+  const audit = createTimestampAudit();
+  const summary = createSummaryBuilder();
+  // Sort on the parsed value, which keeps sub-millisecond digits a Date drops
+  const sortKeys = new Float64Array(rows.length);
+
+  const logs: LogEntry[] = rows.map((row, index) => {
+    const fields = deriveLogFields(row, index, columns, mapping, audit);
+    sortKeys[index] = fields.timestampMs ?? NaN;
+    summary.add(fields);
+    return {
+      _id: fields.id,
+      _timestamp: fields.timestamp,
+      _severity: fields.severity,
+      _message: fields.message,
+      _raw: row,
+      _fileIndex: fileIndex,
+      _serverRole: fields.serverRole,
+      _operationId: fields.operationId,
+      _itemType: fields.itemType,
+      _duration: fields.duration,
+      _resultCode: fields.resultCode,
+      _success: fields.success,
+      _url: fields.url,
+      _method: fields.method,
+      _subStatus: fields.subStatus,
+      _target: fields.target,
+      _dependencyType: fields.dependencyType,
+      _exceptionType: fields.exceptionType,
+      _problemId: fields.problemId,
+      _source: fields.source,
+      _itemCount: fields.itemCount
+    };
+  });
 
-    if (instanceName.includes('-CM')) return 'CM';
-    if (instanceName.includes('-CD')) return 'CD';
-    if (instanceName.includes('-XP')) return 'XP';
-    if (instanceName) return 'Other';
+  logs.sort((a, b) => compareNewestFirst(sortKeys[a._id], sortKeys[b._id]));
 
-    return undefined;
-  } catch {
-    return undefined;
-  }
+  const warnings = mapping.timestamp ? audit.warnings(mapping.timestamp) : [];
+  return { logs, columns: allColumns, detectedMapping: mapping, warnings, summary: summary.summary() };
 }
 
 export function parseCSV(file: File, fileIndex?: number): Promise<ParsedData> {
@@ -103,40 +71,7 @@ export function parseCSV(file: File, fileIndex?: number): Promise<ParsedData> {
         }
 
         const columns = parseResult.meta.fields || [];
-        const mapping = detectColumnMapping(columns);
-
-        const logs: LogEntry[] = (parseResult.data as Record<string, string>[]).map((row, index) => {
-          const timestamp = mapping.timestamp ? parseTimestamp(row[mapping.timestamp]) : null;
-          const severity = mapping.severity ? parseSeverity(row[mapping.severity]) : 1;
-          const message = mapping.message ? String(row[mapping.message] || '') :
-            Object.values(row).find(v => typeof v === 'string' && String(v).length > 50) as string || '';
-
-          // Pre-compute server role from customDimensions
-          const serverRole = extractServerRole(row, columns);
-
-          // Extract operation ID for correlation
-          const operationId = mapping.operationId ? row[mapping.operationId] : undefined;
-
-          return {
-            _id: index,
-            _timestamp: timestamp,
-            _severity: severity,
-            _message: message,
-            _raw: row,
-            _fileIndex: fileIndex,
-            _serverRole: serverRole,
-            _operationId: operationId || undefined
-          };
-        });
-
-        logs.sort((a, b) => {
-          if (!a._timestamp && !b._timestamp) return 0;
-          if (!a._timestamp) return 1;
-          if (!b._timestamp) return -1;
-          return b._timestamp.getTime() - a._timestamp.getTime();
-        });
-
-        resolve({ logs, columns, detectedMapping: mapping });
+        resolve(buildParsedData(parseResult.data as Record<string, string>[], columns, fileIndex));
       },
       error: (error) => {
         reject(error);
@@ -145,78 +80,18 @@ export function parseCSV(file: File, fileIndex?: number): Promise<ParsedData> {
   });
 }
 
-export function normalizeMessage(message: string): string {
-  return message
-    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<GUID>')
-    .replace(/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}[^\s]*/g, '<TIMESTAMP>')
-    .replace(/\b\d+\b/g, '<NUM>')
-    .replace(/0x[0-9a-f]+/gi, '<HEX>')
-    .substring(0, 200)
-    .trim();
+// Counts follow the count mode; ids always list every matching row
+// Files parsed by the worker arrive with their summary; these cover logs
+// that were not
+export function extractErrorPatterns(logs: LogEntry[], mode: CountMode = 'rows'): ErrorPattern[] {
+  return summaryPatterns(summarizeLogs(logs), mode);
 }
 
-export function extractErrorPatterns(logs: LogEntry[]): ErrorPattern[] {
-  const patterns = new Map<string, ErrorPattern>();
-
-  logs.forEach(log => {
-    if (log._severity < 2) return;
-
-    const normalized = normalizeMessage(log._message);
-
-    if (!patterns.has(normalized)) {
-      patterns.set(normalized, {
-        message: log._message.substring(0, 200),
-        normalized,
-        count: 0,
-        firstSeen: log._timestamp || new Date(),
-        lastSeen: log._timestamp || new Date(),
-        ids: [],
-        severity: log._severity,
-        errorCount: 0,
-        warningCount: 0
-      });
-    }
-
-    const pattern = patterns.get(normalized)!;
-    pattern.count++;
-    pattern.ids.push(log._id);
-
-    // Track error vs warning counts
-    if (log._severity === 3) {
-      pattern.errorCount++;
-    } else if (log._severity === 2) {
-      pattern.warningCount++;
-    }
-
-    // Set dominant severity (errors take precedence)
-    pattern.severity = pattern.errorCount > 0 ? 3 : 2;
-
-    if (log._timestamp) {
-      if (log._timestamp < pattern.firstSeen) pattern.firstSeen = log._timestamp;
-      if (log._timestamp > pattern.lastSeen) pattern.lastSeen = log._timestamp;
-    }
-  });
-
-  return Array.from(patterns.values())
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 100);
-}
-
-export function calculateFileStats(logs: LogEntry[]): FileStats {
-  const withTime = logs.filter(l => l._timestamp).sort((a, b) => a._timestamp!.getTime() - b._timestamp!.getTime());
-
-  return {
-    total: logs.length,
-    errors: logs.filter(l => l._severity === 3).length,
-    warnings: logs.filter(l => l._severity === 2).length,
-    info: logs.filter(l => l._severity === 1).length,
-    verbose: logs.filter(l => l._severity === 0).length,
-    timeStart: withTime.length > 0 ? withTime[0]._timestamp : null,
-    timeEnd: withTime.length > 0 ? withTime[withTime.length - 1]._timestamp : null
-  };
+export function calculateFileStats(logs: LogEntry[], mode: CountMode = 'rows'): FileStats {
+  return summaryStats(summarizeLogs(logs), mode);
 }
 
-export function compareFiles(logs1: LogEntry[], logs2: LogEntry[]): ComparisonResult {
+export function compareFiles(logs1: LogEntry[], logs2: LogEntry[], mode: CountMode = 'rows'): ComparisonResult {
   const patterns1 = new Map<string, { count: number; ids: number[] }>();
   const patterns2 = new Map<string, { count: number; ids: number[] }>();
   const allPatternMessages = new Map<string, string>();
@@ -231,7 +106,7 @@ export function compareFiles(logs1: LogEntry[], logs2: LogEntry[]): ComparisonRe
         allPatternMessages.set(normalized, log._message.substring(0, 200));
       }
     }
-    patterns1.get(normalized)!.count++;
+    patterns1.get(normalized)!.count += logWeight(log, mode);
     patterns1.get(normalized)!.ids.push(log._id);
   });
 
@@ -245,7 +120,7 @@ export function compareFiles(logs1: LogEntry[], logs2: LogEntry[]): ComparisonRe
         allPatternMessages.set(normalized, log._message.substring(0, 200));
       }
     }
-    patterns2.get(normalized)!.count++;
+    patterns2.get(normalized)!.count += logWeight(log, mode);
     patterns2.get(normalized)!.ids.push(log._id);
   });
 
@@ -311,8 +186,8 @@ export function compareFiles(logs1: LogEntry[], logs2: LogEntry[]): ComparisonRe
   file2Only.sort((a, b) => b.count - a.count);
   bothFiles.sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
 
-  const stats1 = calculateFileStats(logs1);
-  const stats2 = calculateFileStats(logs2);
+  const stats1 = calculateFileStats(logs1, mode);
+  const stats2 = calculateFileStats(logs2, mode);
 
   return {
     file1Only,
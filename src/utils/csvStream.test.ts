@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { createCsvStreamParser } from './csvStream';
+
+// =============================================================================
+// Helper: feed text through the parser in fixed-size chunks
+// =============================================================================
+function parseInChunks(text: string, chunkSize: number) {
+  const rows: Record<string, string>[] = [];
+  let columns: string[] = [];
+  let batches = 0;
+
+  const parser = createCsvStreamParser((batch, header) => {
+    rows.push(...batch);
+    columns = header;
+    batches++;
+  });
+
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.push(text.slice(i, i + chunkSize));
+  }
+  parser.finish();
+
+  return { rows, columns, batches };
+}
+
+const SAMPLE = [
+  'timestamp,severityLevel,message',
+  '2024-01-15T10:00:00Z,3,"Request failed, retrying"',
+  '2024-01-15T10:01:00Z,2,"Multi-line',
+  'stack trace with ""quotes"""',
+  '2024-01-15T10:02:00Z,1,Plain message',
+].join('\n');
+
+// =============================================================================
+// createCsvStreamParser
+// =============================================================================
+describe('createCsvStreamParser', () => {
+  it('should parse a single chunk into header-keyed rows', () => {
+    const { rows, columns } = parseInChunks(SAMPLE, SAMPLE.length);
+
+    expect(columns).toEqual(['timestamp', 'severityLevel', 'message']);
+    expect(rows).toHaveLength(3);
+    expect(rows[0].message).toBe('Request failed, retrying');
+  });
+
+  it('should produce identical rows regardless of chunk boundaries', () => {
+    const whole = parseInChunks(SAMPLE, SAMPLE.length).rows;
+
+    for (const size of [1, 3, 7, 16, 50]) {
+      expect(parseInChunks(SAMPLE, size).rows).toEqual(whole);
+    }
+  });
+
+  it('should keep newlines and escaped quotes inside quoted fields', () => {
+    const { rows } = parseInChunks(SAMPLE, 5);
+
+    expect(rows[1].message).toBe('Multi-line\nstack trace with "quotes"');
+  });
+
+  it('should emit rows before the input is finished', () => {
+    let emitted = 0;
+    const parser = createCsvStreamParser(batch => { emitted += batch.length; });
+
+    parser.push('a,b\n1,2\n3,');
+    expect(emitted).toBe(1);
+
+    parser.push('4\n');
+    expect(emitted).toBe(2);
+  });
+
+  it('should flush a final record without a trailing newline', () => {
+    const { rows } = parseInChunks('a,b\n1,2', 3);
+
+    expect(rows).toEqual([{ a: '1', b: '2' }]);
+  });
+
+  it('should strip a UTF-8 byte order mark from the header', () => {
+    const { columns } = parseInChunks('\uFEFFtimestamp,message\nx,y\n', 4);
+
+    expect(columns).toEqual(['timestamp', 'message']);
+  });
+
+  it('should fill missing trailing values with empty strings', () => {
+    const { rows } = parseInChunks('a,b,c\n1,2\n', 100);
+
+    expect(rows[0]).toEqual({ a: '1', b: '2', c: '' });
+  });
+
+  it('should skip empty lines and handle CRLF line endings', () => {
+    const { rows } = parseInChunks('a,b\r\n1,2\r\n\r\n3,4\r\n', 2);
+
+    expect(rows).toEqual([{ a: '1', b: '2' }, { a: '3', b: '4' }]);
+  });
+
+  it('should keep the delimiter detected in the first chunk', () => {
+    const { rows } = parseInChunks('a;b\n1;2\n3;4\n', 4);
+
+    expect(rows).toEqual([{ a: '1', b: '2' }, { a: '3', b: '4' }]);
+  });
+});
+
+// =============================================================================
+// Byte ranges (low-memory mode)
+// =============================================================================
+describe('createCsvStreamParser row ranges', () => {
+  function rangesOf(text: string, chunkSize: number) {
+    const bytes = new TextEncoder().encode(text);
+    const records: string[] = [];
+    const parser = createCsvStreamParser((_rows, _header, ranges) => {
+      for (const { offset, length } of ranges ?? []) {
+        records.push(new TextDecoder().decode(bytes.subarray(offset, offset + length)));
+      }
+    }, '', true);
+    for (let i = 0; i < text.length; i += chunkSize) {
+      parser.push(text.slice(i, i + chunkSize));
+    }
+    parser.finish();
+    return records;
+  }
+
+  it('should locate each record in the file bytes', () => {
+    expect(rangesOf(SAMPLE, 5)).toEqual([
+      '2024-01-15T10:00:00Z,3,"Request failed, retrying"',
+      '2024-01-15T10:01:00Z,2,"Multi-line\nstack trace with ""quotes"""',
+      '2024-01-15T10:02:00Z,1,Plain message'
+    ]);
+  });
+
+  it('should count multibyte characters, CRLF endings and a byte order mark', () => {
+    const text = '\uFEFFa,b\r\ncafé,😀\r\n\r\nnaïve,x\r\n';
+
+    expect(rangesOf(text, 3)).toEqual(['café,😀', 'naïve,x']);
+  });
+
+  it('should report the detected delimiter', () => {
+    const parser = createCsvStreamParser(() => undefined);
+    parser.push('a;b\n1;2\n');
+    parser.finish();
+
+    expect(parser.delimiter).toBe(';');
+  });
+});
@@ -0,0 +1,139 @@
+import Papa from 'papaparse';
+
+export interface CsvStreamParser {
+  push(text: string): void;
+  finish(): void;
+  readonly delimiter: string; // Detected from the first chunk unless given
+}
+
+// A record's place in the file, without its line break
+export interface RowRange {
+  offset: number;
+  length: number;
+}
+
+type RowsHandler = (rows: Record<string, string>[], columns: string[], ranges?: RowRange[]) => void;
+
+// UTF-8 byte ranges of the non-empty records in a block of whole records,
+// which is how Papa splits it with skipEmptyLines. `base` is the block's
+// byte offset in the file.
+function recordRanges(text: string, base: number): { ranges: RowRange[]; end: number } {
+  const ranges: RowRange[] = [];
+  let inQuotes = false;
+  let bytes = base;
+  let start = base;
+  let contentEnd = base;
+  let empty = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    if (ch === 10 && !inQuotes) {
+      if (!empty) ranges.push({ offset: start, length: contentEnd - start });
+      bytes += 1;
+      start = contentEnd = bytes;
+      empty = true;
+      continue;
+    }
+    if (ch === 34) inQuotes = !inQuotes;
+    // A surrogate pair is 4 bytes, counted on its first half
+    bytes += ch < 0x80 ? 1 : ch < 0x800 ? 2 : ch >= 0xdc00 && ch < 0xe000 ? 0 : ch >= 0xd800 && ch < 0xdc00 ? 4 : 3;
+    if (ch !== 13) {
+      contentEnd = bytes;
+      empty = false;
+    }
+  }
+  if (!empty) ranges.push({ offset: start, length: contentEnd - start });
+  return { ranges, end: bytes };
+}
+
+// Incremental CSV parser for text that arrives in arbitrary chunks.
+// Only complete records are handed to Papa: a newline ends a record when it
+// sits outside a quoted field, which we track with a running quote parity
+// (escaped "" toggles twice, so it never flips the state). Without a
+// delimiter Papa detects one from the first chunk. With trackRanges each
+// batch of rows comes with the byte range of every row in the file.
+export function createCsvStreamParser(onRows: RowsHandler, knownDelimiter = '', trackRanges = false): CsvStreamParser {
+  let buffer = '';
+  let scanned = 0;
+  let inQuotes = false;
+  let lastBoundary = -1;
+  let started = false;
+  let columns: string[] | null = null;
+  let delimiter = knownDelimiter;
+  let bytePosition = 0;
+
+  const emit = (text: string) => {
+    let ranges: RowRange[] | undefined;
+    if (trackRanges) {
+      const block = recordRanges(text, bytePosition);
+      ranges = block.ranges;
+      bytePosition = block.end;
+    }
+
+    const result = Papa.parse<string[]>(text, { skipEmptyLines: true, delimiter });
+    // Lock the delimiter to what the first chunk detected
+    if (!delimiter) delimiter = result.meta.delimiter;
+
+    let data = result.data;
+    let isHeader = false;
+    if (!columns) {
+      if (data.length === 0) return;
+      columns = data[0];
+      data = data.slice(1);
+      ranges = ranges?.slice(1);
+      isHeader = true;
+    }
+    if (ranges && ranges.length !== data.length) {
+      throw new Error('Could not locate every row in the file; load it without low-memory mode');
+    }
+
+    const header = columns;
+    const rows = data.map(values => {
+      const row: Record<string, string> = {};
+      header.forEach((col, i) => {
+        row[col] = values[i] ?? '';
+      });
+      return row;
+    });
+
+    // The header is announced even without rows so empty exports keep their columns
+    if (rows.length > 0 || isHeader) onRows(rows, header, ranges);
+  };
+
+  return {
+    get delimiter() {
+      return delimiter;
+    },
+
+    push(text: string) {
+      if (!started) {
+        started = true;
+        if (text.charCodeAt(0) === 0xfeff) {
+          text = text.slice(1);
+          bytePosition = 3;
+        }
+      }
+
+      buffer += text;
+      for (let i = scanned; i < buffer.length; i++) {
+        const ch = buffer.charCodeAt(i);
+        if (ch === 34) inQuotes = !inQuotes; // "
+        else if (ch === 10 && !inQuotes) lastBoundary = i; // \n
+      }
+      scanned = buffer.length;
+
+      if (lastBoundary >= 0) {
+        emit(buffer.slice(0, lastBoundary + 1));
+        buffer = buffer.slice(lastBoundary + 1);
+        scanned = buffer.length;
+        lastBoundary = -1;
+      }
+    },
+
+    finish() {
+      if (buffer.trim()) emit(buffer);
+      buffer = '';
+      scanned = 0;
+    }
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { createDynamicColumnTracker, dynamicParent, flattenDynamicColumns, isMeasurementColumn, measurementValue } from './customDimensions';
+import { createColumnarIngestor, remapColumnar } from './logPipeline';
+import { getRawValue, hydrateLogs } from './columnarLogs';
+import { buildParsedData } from './csvParser';
+
+const HEADER = ['timestamp', 'message', 'customDimensions', 'customMeasurements'];
+
+function makeRows() {
+  return [
+    {
+      timestamp: '2024-01-15T10:00:00Z',
+      message: 'Rendered item',
+      customDimensions: '{"InstanceName":"web-CD-01","ItemPath":"/sitecore/content/Home","Tags":["a","b"]}',
+      customMeasurements: '{"RenderTime":12.5}',
+    },
+    {
+      timestamp: '2024-01-15T10:01:00Z',
+      message: 'Published',
+      customDimensions: '{"InstanceName":"web-CM-01","Database":"web"}',
+      customMeasurements: '',
+    },
+    {
+      timestamp: '2024-01-15T10:02:00Z',
+      message: 'Not JSON',
+      customDimensions: 'InstanceName=web-XP-01',
+      customMeasurements: '',
+    },
+  ];
+}
+
+// =============================================================================
+// flattenDynamicColumns
+// =============================================================================
+describe('flattenDynamicColumns', () => {
+  it('should add a cell per key and keep nested values as JSON', () => {
+    const row = makeRows()[0] as Record<string, string>;
+    const added = flattenDynamicColumns(row, ['customDimensions', 'customMeasurements']);
+
+    expect(added).toEqual(['customDimensions.InstanceName', 'customDimensions.ItemPath', 'customDimensions.Tags', 'customMeasurements.RenderTime']);
+    expect(row['customDimensions.Tags']).toBe('["a","b"]');
+    expect(row['customMeasurements.RenderTime']).toBe('12.5');
+  });
+
+  it('should not overwrite a real column of the same name', () => {
+    const row: Record<string, string> = { customDimensions: '{"Role":"cd"}', 'customDimensions.Role': 'kept' };
+    expect(flattenDynamicColumns(row, ['customDimensions'], new Set(['customDimensions.Role']))).toEqual([]);
+    expect(row['customDimensions.Role']).toBe('kept');
+  });
+
+  it('should list virtual columns in first-seen order', () => {
+    const tracker = createDynamicColumnTracker(HEADER);
+    makeRows().forEach(row => tracker.flatten(row));
+
+    expect(tracker.columns().slice(HEADER.length)).toEqual([
+      'customDimensions.InstanceName',
+      'customDimensions.ItemPath',
+      'customDimensions.Tags',
+      'customMeasurements.RenderTime',
+      'customDimensions.Database',
+    ]);
+    expect(createDynamicColumnTracker(['timestamp', 'message']).active).toBe(false);
+  });
+
+  it('should tell measurement columns apart and read them as numbers', () => {
+    const columns = [...HEADER, 'customMeasurements.RenderTime', 'customDimensions.ItemPath'];
+
+    expect(dynamicParent('customDimensions.ItemPath', columns)).toBe('customDimensions');
+    expect(dynamicParent('cloud.RoleName', columns)).toBeUndefined();
+    expect(isMeasurementColumn('customMeasurements.RenderTime', columns)).toBe(true);
+    expect(isMeasurementColumn('customDimensions.ItemPath', columns)).toBe(false);
+    expect(measurementValue('12.5')).toBe(12.5);
+    expect(measurementValue('')).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Ingestion
+// =============================================================================
+describe('virtual columns at ingestion', () => {
+  it('should expose each key as a column in the worker and main-thread paths', () => {
+    const ingestor = createColumnarIngestor(0);
+    ingestor.addRows(makeRows().slice(0, 1), HEADER);
+    ingestor.addRows(makeRows().slice(1), HEADER);
+    const { data, columns } = ingestor.finish();
+    const main = buildParsedData(makeRows(), HEADER, 0);
+
+    expect(columns).toEqual(main.columns);
+    expect(columns).toContain('customDimensions.Database');
+
+    const logs = hydrateLogs(data);
+    const published = logs.find(l => l._message === 'Published')!;
+    expect(getRawValue(published, 'customDimensions.Database')).toBe('web');
+    // Rows before the key first appeared read as empty
+    expect(getRawValue(logs.find(l => l._message === 'Rendered item')!, 'customDimensions.Database')).toBe('');
+    expect(logs.map(l => l._serverRole)).toEqual([undefined, 'CM', 'CD']);
+  });
+
+  it('should keep virtual columns through a remap', () => {
+    const { data, mapping } = (() => {
+      const ingestor = createColumnarIngestor(0);
+      ingestor.addRows(makeRows(), HEADER);
+      return ingestor.finish();
+    })();
+
+    const remapped = remapColumnar(data, { ...mapping, message: 'customDimensions.ItemPath' }).data;
+    const logs = hydrateLogs(remapped);
+
+    expect(remapped.columns).toEqual(data.columns);
+    expect(logs.find(l => l._serverRole === 'CD')?._message).toBe('/sitecore/content/Home');
+  });
+});
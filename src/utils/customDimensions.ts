@@ -0,0 +1,103 @@
+// customDimensions / customMeasurements hold a JSON object per row. They are
+// parsed once at ingestion and each key becomes a virtual column named
+// `<column>.<key>` (e.g. customDimensions.ItemPath) next to the real ones.
+
+const DYNAMIC_COLUMNS = ['customdimensions', 'custom_dimensions', 'custommeasurements', 'custom_measurements'];
+
+export function isDynamicColumn(column: string): boolean {
+  return DYNAMIC_COLUMNS.includes(column.toLowerCase());
+}
+
+export function findDynamicColumns(columns: string[]): string[] {
+  return columns.filter(isDynamicColumn);
+}
+
+function formatDimension(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Adds a cell for every key of the row's dynamic-column objects and returns
+// the virtual column names it wrote. Real header columns of the same name
+// are left alone; unparseable values add nothing.
+export function flattenDynamicColumns(
+  row: Record<string, string>,
+  dynamicColumns: string[],
+  header: ReadonlySet<string> = new Set()
+): string[] {
+  const added: string[] = [];
+  for (const column of dynamicColumns) {
+    const text = row[column];
+    if (!text || text.charCodeAt(0) !== 123) continue; // {
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      continue;
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) continue;
+
+    for (const [key, value] of Object.entries(parsed)) {
+      const name = `${column}.${key}`;
+      if (header.has(name)) continue;
+      row[name] = formatDimension(value);
+      added.push(name);
+    }
+  }
+  return added;
+}
+
+export interface DynamicColumnTracker {
+  readonly active: boolean; // The header has a dynamic column
+  flatten(row: Record<string, string>): string[]; // Virtual columns first seen in this row
+  columns(): string[]; // Header plus virtual columns
+}
+
+// Collects virtual columns in first-seen order while rows are flattened
+export function createDynamicColumnTracker(columns: string[]): DynamicColumnTracker {
+  const dynamicColumns = findDynamicColumns(columns);
+  const header = new Set(columns);
+  const known = new Set(columns);
+  const added: string[] = [];
+
+  return {
+    active: dynamicColumns.length > 0,
+    flatten(row) {
+      const fresh: string[] = [];
+      for (const name of flattenDynamicColumns(row, dynamicColumns, header)) {
+        if (known.has(name)) continue;
+        known.add(name);
+        added.push(name);
+        fresh.push(name);
+      }
+      return fresh;
+    },
+    columns: () => [...columns, ...added]
+  };
+}
+
+// The dynamic column a virtual column was flattened from, if any
+export function dynamicParent(column: string, columns: string[]): string | undefined {
+  const dot = column.indexOf('.');
+  if (dot <= 0) return undefined;
+  const parent = column.slice(0, dot);
+  return isDynamicColumn(parent) && columns.includes(parent) ? parent : undefined;
+}
+
+export function virtualColumns(columns: string[], parent: string): string[] {
+  return columns.filter(c => c.startsWith(`${parent}.`));
+}
+
+// customMeasurements values are numbers; their columns sort and filter as such
+export function isMeasurementColumn(column: string, columns: string[]): boolean {
+  const parent = dynamicParent(column, columns);
+  return !!parent && parent.toLowerCase().includes('measurements');
+}
+
+export function measurementValue(cell: string): number | undefined {
+  if (cell === '') return undefined;
+  const value = Number(cell);
+  return isNaN(value) ? undefined : value;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MESSAGE_COLUMN,
+  addNode,
+  compileConditions,
+  countConditions,
+  createConditionGroup,
+  createTimeTest,
+  createValueTest,
+  describeCondition,
+  removeNode,
+  updateGroup,
+  validateCondition
+} from './filterConditions';
+import { ConditionOperator, FilterCondition } from '../types';
+
+function makeCondition(operator: ConditionOperator, values: string[], overrides: Partial<FilterCondition> = {}): FilterCondition {
+  return { type: 'condition', column: 'site', operator, values, negate: false, ...overrides };
+}
+
+// =============================================================================
+// Value tests
+// =============================================================================
+describe('createValueTest', () => {
+  it('should test text ignoring case', () => {
+    expect(createValueTest(makeCondition('equals', ['Web']))('web')).toBe(true);
+    expect(createValueTest(makeCondition('equals', ['Web']))('web-01')).toBe(false);
+    expect(createValueTest(makeCondition('contains', ['EB-0']))('web-01')).toBe(true);
+    expect(createValueTest(makeCondition('regex', ['^web-\\d+$']))('WEB-01')).toBe(true);
+    expect(createValueTest(makeCondition('in', ['api', 'WEB']))('web')).toBe(true);
+  });
+
+  it('should compare numbers, or dates when the value is not a number', () => {
+    expect(createValueTest(makeCondition('>', ['100']))('250')).toBe(true);
+    expect(createValueTest(makeCondition('>', ['100']))('abc')).toBe(false);
+    expect(createValueTest(makeCondition('<=', ['2024-01-15T10:00:00Z']))('2024-01-15T09:59:59Z')).toBe(true);
+    expect(createValueTest(makeCondition('<=', ['2024-01-15T10:00:00Z']))('')).toBe(false);
+  });
+
+  it('should match nothing with an invalid regular expression', () => {
+    expect(createValueTest(makeCondition('regex', ['(']))('(')).toBe(false);
+  });
+});
+
+describe('createTimeTest', () => {
+  it('should compare parsed timestamps and skip rows without one', () => {
+    const after = createTimeTest(makeCondition('>', ['2024-01-15T10:00:00Z']));
+
+    expect(after(Date.parse('2024-01-15T10:00:01Z'))).toBe(true);
+    expect(after(NaN)).toBe(false);
+    expect(createTimeTest(makeCondition('contains', ['T10:']))(Date.parse('2024-01-15T10:30:00Z'))).toBe(true);
+  });
+});
+
+describe('compileConditions', () => {
+  it('should join conditions in AND/OR groups with negation', () => {
+    const root = {
+      ...createConditionGroup('or'),
+      children: [makeCondition('equals', ['a']), { ...createConditionGroup(), negate: true, children: [makeCondition('contains', ['b'])] }]
+    };
+    const test = compileConditions(root, condition => (value: string) => createValueTest(condition)(value))!;
+
+    expect(['a', 'b', 'c', 'ab'].filter(test)).toEqual(['a', 'c']);
+    expect(compileConditions(createConditionGroup(), () => () => false)).toBeNull();
+  });
+});
+
+// =============================================================================
+// Editing and describing
+// =============================================================================
+describe('condition tree edits', () => {
+  it('should add, update and remove nodes without changing the original tree', () => {
+    const root = addNode(addNode(createConditionGroup(), [], makeCondition('equals', ['a'])), [], createConditionGroup('or'));
+    const nested = addNode(root, [1], makeCondition('in', ['x', 'y']));
+    const flipped = updateGroup(nested, [1], group => ({ ...group, negate: true }));
+
+    expect(countConditions(root)).toBe(1);
+    expect(countConditions(nested)).toBe(2);
+    expect(flipped.children[1]).toMatchObject({ negate: true });
+    expect(nested.children[1]).toMatchObject({ negate: false });
+    expect(removeNode(flipped, [1, 0]).children[1]).toMatchObject({ children: [] });
+    expect(removeNode(flipped, [0]).children).toHaveLength(1);
+  });
+
+  it('should describe and validate conditions', () => {
+    expect(describeCondition(makeCondition('in', ['a', 'b'], { negate: true }))).toBe('NOT site in (a, b)');
+    expect(describeCondition(makeCondition('regex', ['timeout'], { column: MESSAGE_COLUMN }))).toBe('Message matches /timeout/');
+    expect(validateCondition(makeCondition('regex', ['(']))).toBe('Invalid regular expression');
+    expect(validateCondition(makeCondition('>', ['soon']))).toBe('Compare with a number or a date');
+    expect(validateCondition(makeCondition('equals', ['']))).toBe('Enter a value');
+    expect(validateCondition(makeCondition('>=', ['2024-01-15']))).toBeNull();
+  });
+});
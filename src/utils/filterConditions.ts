@@ -0,0 +1,185 @@
+import { ConditionOperator, FilterCondition, FilterGroup, FilterNode } from '../types';
+import { parseTimestampValue } from './timestamps';
+
+// Structured filter conditions: column tests joined in AND/OR groups, where
+// any condition or group can be negated. Text tests are case-insensitive.
+// A condition is tested on one value at a time, so callers can keep one
+// verdict per distinct string instead of testing every row.
+
+// Parsed fields, next to the file's own columns
+export const MESSAGE_COLUMN = '_message';
+export const TIMESTAMP_COLUMN = '_timestamp';
+
+export const CONDITION_OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'contains', label: 'contains' },
+  { value: 'regex', label: 'matches' },
+  { value: 'in', label: 'in' },
+  { value: '>', label: '>' },
+  { value: '>=', label: '>=' },
+  { value: '<', label: '<' },
+  { value: '<=', label: '<=' }
+];
+
+export function createConditionGroup(combinator: FilterGroup['combinator'] = 'and'): FilterGroup {
+  return { type: 'group', combinator, negate: false, children: [] };
+}
+
+export function columnLabel(column: string): string {
+  if (column === MESSAGE_COLUMN) return 'Message';
+  if (column === TIMESTAMP_COLUMN) return 'Timestamp';
+  return column;
+}
+
+export function describeCondition(condition: FilterCondition): string {
+  const { column, operator, values, negate } = condition;
+  const value = operator === 'in' ? `(${values.join(', ')})` : operator === 'regex' ? `/${values[0]}/` : values[0];
+  const label = CONDITION_OPERATORS.find(o => o.value === operator)?.label ?? operator;
+  return `${negate ? 'NOT ' : ''}${columnLabel(column)} ${label} ${value}`;
+}
+
+// Why a condition cannot be used, or null when it can
+export function validateCondition(condition: FilterCondition): string | null {
+  const { operator, values } = condition;
+  if (values.length === 0 || (operator !== 'in' && values[0] === '')) return 'Enter a value';
+  if (operator === 'regex') {
+    try {
+      new RegExp(values[0]);
+    } catch {
+      return 'Invalid regular expression';
+    }
+  }
+  if (isComparison(operator) && toNumber(values[0]) === null && !parseTimestampValue(values[0])) {
+    return 'Compare with a number or a date';
+  }
+  return null;
+}
+
+export function countConditions(node: FilterNode | undefined): number {
+  if (!node) return 0;
+  return node.type === 'condition' ? 1 : node.children.reduce((sum, child) => sum + countConditions(child), 0);
+}
+
+// =============================================================================
+// Editing the tree
+// =============================================================================
+
+// Path of child indexes from the root to a node; [] is the root
+export type NodePath = number[];
+
+export function updateGroup(root: FilterGroup, path: NodePath, update: (group: FilterGroup) => FilterGroup): FilterGroup {
+  if (path.length === 0) return update(root);
+  const [index, ...rest] = path;
+  const child = root.children[index];
+  if (!child || child.type !== 'group') return root;
+  const children = [...root.children];
+  children[index] = updateGroup(child, rest, update);
+  return { ...root, children };
+}
+
+export function addNode(root: FilterGroup, path: NodePath, node: FilterNode): FilterGroup {
+  return updateGroup(root, path, group => ({ ...group, children: [...group.children, node] }));
+}
+
+export function removeNode(root: FilterGroup, path: NodePath): FilterGroup {
+  const parent = path.slice(0, -1);
+  const index = path[path.length - 1];
+  return updateGroup(root, parent, group => ({ ...group, children: group.children.filter((_, i) => i !== index) }));
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+function isComparison(operator: ConditionOperator): boolean {
+  return operator === '>' || operator === '>=' || operator === '<' || operator === '<=';
+}
+
+function toNumber(value: string): number | null {
+  if (value.trim() === '') return null;
+  const number = Number(value);
+  return isFinite(number) ? number : null;
+}
+
+function compares(operator: ConditionOperator, order: number): boolean {
+  switch (operator) {
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '<': return order < 0;
+    default: return order <= 0;
+  }
+}
+
+// Test of one cell value, before negation
+export function createValueTest(condition: FilterCondition): (value: string) => boolean {
+  const { operator, values } = condition;
+  const target = (values[0] ?? '').toLowerCase();
+  switch (operator) {
+    case 'equals':
+      return value => value.toLowerCase() === target;
+    case 'contains':
+      return value => value.toLowerCase().includes(target);
+    case 'regex': {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(values[0], 'i');
+      } catch {
+        return () => false;
+      }
+      return value => regex.test(value);
+    }
+    case 'in': {
+      const wanted = new Set(values.map(v => v.toLowerCase()));
+      return value => wanted.has(value.toLowerCase());
+    }
+  }
+
+  const number = toNumber(values[0] ?? '');
+  if (number !== null) {
+    return value => {
+      const cell = toNumber(value);
+      return cell !== null && compares(operator, cell - number);
+    };
+  }
+  const time = parseTimestampValue(values[0]);
+  if (!time) return () => false;
+  return value => {
+    const cell = parseTimestampValue(value);
+    return !!cell && compares(operator, cell.ms - time.ms);
+  };
+}
+
+// Test of a parsed timestamp (epoch ms, NaN when missing), before negation.
+// Values are dates, or epoch milliseconds.
+export function createTimeTest(condition: FilterCondition): (ms: number) => boolean {
+  const { operator, values } = condition;
+  const toMs = (value: string) => toNumber(value) ?? parseTimestampValue(value)?.ms ?? NaN;
+  if (operator === 'equals' || operator === 'in') {
+    const wanted = new Set(values.map(toMs));
+    return ms => wanted.has(ms);
+  }
+  if (isComparison(operator)) {
+    const target = toMs(values[0] ?? '');
+    return ms => !isNaN(ms) && !isNaN(target) && compares(operator, ms - target);
+  }
+  const test = createValueTest(condition);
+  return ms => test(isNaN(ms) ? '' : new Date(ms).toISOString());
+}
+
+// One test for the whole tree, or null when it holds no conditions. Empty
+// groups are left out.
+export function compileConditions<T>(root: FilterGroup | undefined, compileLeaf: (condition: FilterCondition) => (item: T) => boolean): ((item: T) => boolean) | null {
+  if (!root) return null;
+  const compile = (node: FilterNode): ((item: T) => boolean) | null => {
+    if (node.type === 'condition') {
+      const test = compileLeaf(node);
+      return node.negate ? item => !test(item) : test;
+    }
+    const tests = node.children.map(compile).filter((test): test is (item: T) => boolean => test !== null);
+    if (tests.length === 0) return null;
+    const all = node.combinator === 'and';
+    const test = (item: T) => (all ? tests.every(t => t(item)) : tests.some(t => t(item)));
+    return node.negate ? item => !test(item) : test;
+  };
+  return compile(root);
+}
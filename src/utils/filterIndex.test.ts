@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import { createFilterIndex, compileFilter, filterRows, toFilterQuery, FilterQuery } from './filterIndex';
+import { createColumnarIngestor, remapColumnar } from './logPipeline';
+import { getRawText, getRawValue, hydrateLogs } from './columnarLogs';
+import { matchesSearch, parseSearchQuery } from './searchIndex';
+import { MESSAGE_COLUMN, TIMESTAMP_COLUMN } from './filterConditions';
+import { ConditionOperator, FilterCondition, FilterGroup, FilterState, LogEntry, ServerRoleRule } from '../types';
+
+const HEADER = ['timestamp', 'message', 'severityLevel', 'cloud_RoleName', 'operation_Id'];
+const ROLE_RULES: ServerRoleRule[] = [
+  { source: 'cloud_RoleName', pattern: 'api', role: 'API', color: '#facc15' },
+  { source: 'cloud_RoleName', pattern: 'web', role: 'Web', color: '#60a5fa' },
+];
+
+function setup() {
+  const ingestor = createColumnarIngestor(0);
+  ingestor.addRows([
+    { timestamp: '2024-01-15T10:00:00Z', message: 'Request started', severityLevel: '1', cloud_RoleName: 'web', operation_Id: 'op1' },
+    { timestamp: '2024-01-15T10:05:00Z', message: 'Timeout calling SQL', severityLevel: '3', cloud_RoleName: 'api', operation_Id: 'op1' },
+    { timestamp: '2024-01-15T10:10:00Z', message: 'Slow response', severityLevel: '2', cloud_RoleName: 'web', operation_Id: 'op2' },
+    { timestamp: '2024-01-15T10:15:00Z', message: 'TIMEOUT waiting for lock', severityLevel: '3', cloud_RoleName: 'jobs', operation_Id: 'op3' },
+    { timestamp: '', message: 'No time here', severityLevel: '3', cloud_RoleName: 'api', operation_Id: 'op4' },
+  ], HEADER);
+  const { data: parsed, mapping } = ingestor.finish();
+  const { data } = remapColumnar(parsed, { ...mapping, serverRoleRules: ROLE_RULES });
+  const logs = hydrateLogs(data);
+  const messages = (rows: Uint32Array) => Array.from(rows, row => logs[row]._message).sort();
+  return { data, index: createFilterIndex(data), logs, messages };
+}
+
+const ALL: FilterQuery = {
+  timeWindow: null,
+  severities: [0, 1, 2, 3, 4],
+  searchText: '',
+  searchColumn: '_all',
+  patternIds: null,
+  serverRoles: null,
+};
+
+const at = (time: string) => Date.parse(`2024-01-15T${time}Z`);
+
+// The row-by-row filter the indexes stand in for
+function scanLogs(logs: LogEntry[], filters: FilterState, roleFilterActive: boolean): LogEntry[] {
+  return logs.filter(log => {
+    if (!filters.severities.includes(log._severity)) return false;
+    if (filters.timeWindow && log._timestamp) {
+      const ts = log._timestamp.getTime();
+      if (ts < filters.timeWindow.start || ts >= filters.timeWindow.end) return false;
+    }
+    if (filters.patternIds && !filters.patternIds.includes(log._id)) return false;
+    if (roleFilterActive && log._serverRole && !filters.serverRoles.includes(log._serverRole)) return false;
+    if (filters.searchText) {
+      const text = filters.searchColumn === '_all' ? getRawText(log) : getRawValue(log, filters.searchColumn);
+      if (!matchesSearch(text, parseSearchQuery(filters.searchText))) return false;
+    }
+    return true;
+  });
+}
+
+// =============================================================================
+// Index filters
+// =============================================================================
+describe('filterRows', () => {
+  it('should return every row in log order without filters', () => {
+    const { index, logs } = setup();
+    const { chartRows, gridRows } = filterRows(index, ALL);
+
+    expect(Array.from(gridRows)).toEqual(logs.map((_, row) => row));
+    expect(chartRows).toEqual(gridRows);
+  });
+
+  it('should filter by severity and pattern ids', () => {
+    const { index, logs, messages } = setup();
+
+    expect(messages(filterRows(index, { ...ALL, severities: [3] }).gridRows))
+      .toEqual(['No time here', 'TIMEOUT waiting for lock', 'Timeout calling SQL']);
+
+    const ids = logs.filter(l => /^(Request|Slow|TIMEOUT)/.test(l._message)).map(l => l._id);
+    expect(messages(filterRows(index, { ...ALL, severities: [2, 3], patternIds: [...ids, 9999] }).gridRows))
+      .toEqual(['Slow response', 'TIMEOUT waiting for lock']);
+  });
+
+  it('should apply the time window to grid rows only', () => {
+    const { index, messages } = setup();
+    const { chartRows, gridRows } = filterRows(index, { ...ALL, timeWindow: { start: at('10:05:00'), end: at('10:15:00') } });
+
+    // Rows without a timestamp stay in any window
+    expect(messages(gridRows)).toEqual(['No time here', 'Slow response', 'Timeout calling SQL']);
+    expect(chartRows.length).toBe(5);
+  });
+
+  it('should hide rows of hidden roles but keep rows without a role', () => {
+    const { index, messages } = setup();
+
+    expect(messages(filterRows(index, { ...ALL, serverRoles: ['Web'] }).gridRows))
+      .toEqual(['Request started', 'Slow response', 'TIMEOUT waiting for lock']);
+    expect(messages(filterRows(index, { ...ALL, serverRoles: [] }).gridRows)).toEqual(['TIMEOUT waiting for lock']);
+  });
+
+  it('should search all columns with words, phrases, exclusions and prefixes', () => {
+    const { index, messages } = setup();
+
+    expect(messages(filterRows(index, { ...ALL, searchText: 'time*' }).gridRows))
+      .toEqual(['No time here', 'TIMEOUT waiting for lock', 'Timeout calling SQL']);
+    expect(messages(filterRows(index, { ...ALL, searchText: 'time* -lock -"no time"' }).gridRows))
+      .toEqual(['Timeout calling SQL']);
+    expect(messages(filterRows(index, { ...ALL, searchText: '"waiting for" timeout' }).gridRows))
+      .toEqual(['TIMEOUT waiting for lock']);
+    expect(messages(filterRows(index, { ...ALL, searchText: '"for waiting"' }).gridRows)).toEqual([]);
+    expect(messages(filterRows(index, { ...ALL, searchText: '-op1 -op2 -op3' }).gridRows)).toEqual(['No time here']);
+  });
+
+  it('should build the token index for files stored without one', () => {
+    const { data, messages } = setup();
+    const index = createFilterIndex({ ...data, search: undefined });
+
+    expect(messages(filterRows(index, { ...ALL, searchText: 'sql' }).gridRows)).toEqual(['Timeout calling SQL']);
+  });
+
+  it('should search all columns or one column ignoring case', () => {
+    const { index, messages } = setup();
+
+    expect(messages(filterRows(index, { ...ALL, searchText: 'timeout' }).gridRows))
+      .toEqual(['TIMEOUT waiting for lock', 'Timeout calling SQL']);
+    expect(messages(filterRows(index, { ...ALL, searchText: 'OP1', searchColumn: 'operation_Id' }).gridRows))
+      .toEqual(['Request started', 'Timeout calling SQL']);
+    expect(filterRows(index, { ...ALL, searchText: 'op1', searchColumn: 'missing' }).gridRows.length).toBe(0);
+  });
+
+  it('should find bare terms inside words in all columns and one column', () => {
+    const ingestor = createColumnarIngestor(0);
+    ingestor.addRows([
+      { timestamp: '2024-01-15T10:00:00Z', message: 'ConnectionTimeout after 30s', severityLevel: '3', cloud_RoleName: 'web', operation_Id: 'op1' },
+      { timestamp: '2024-01-15T10:01:00Z', message: 'System.NullReferenceException', severityLevel: '3', cloud_RoleName: 'api', operation_Id: 'op2' },
+      { timestamp: '2024-01-15T10:02:00Z', message: 'GET /api/orders/42', severityLevel: '1', cloud_RoleName: 'web', operation_Id: 'op3' },
+    ], HEADER);
+    const { data } = ingestor.finish();
+    const index = createFilterIndex(data);
+    const logs = hydrateLogs(data);
+    const search = (searchText: string, searchColumn = '_all') =>
+      Array.from(filterRows(index, { ...ALL, searchText, searchColumn }).gridRows, row => logs[row]._message).sort();
+
+    expect(search('timeout')).toEqual(['ConnectionTimeout after 30s']);
+    expect(search('exception')).toEqual(['System.NullReferenceException']);
+    expect(search('Exception', 'message')).toEqual(['System.NullReferenceException']);
+    expect(search('pi/ord')).toEqual(['GET /api/orders/42']);
+    expect(search('-timeout -exception')).toEqual(['GET /api/orders/42']);
+    expect(search('"timeout"')).toEqual([]);
+  });
+
+  it('should match a row-by-row scan of the logs', () => {
+    const { index, logs } = setup();
+    const filters: FilterState = {
+      timeWindow: { start: at('10:00:00'), end: at('10:12:00') },
+      severities: [1, 3],
+      searchText: 'time*',
+      searchColumn: '_all',
+      patternIds: null,
+      serverRoles: ['API'],
+    };
+
+    const { gridRows } = filterRows(index, toFilterQuery(filters, true));
+    expect(gridRows.length).toBe(2);
+    expect(Array.from(gridRows, row => logs[row])).toEqual(scanLogs(logs, filters, true));
+  });
+});
+
+describe('conditions', () => {
+  const condition = (column: string, operator: ConditionOperator, values: string[], negate = false): FilterCondition =>
+    ({ type: 'condition', column, operator, values, negate });
+  const group = (combinator: 'and' | 'or', children: FilterGroup['children'], negate = false): FilterGroup =>
+    ({ type: 'group', combinator, negate, children });
+
+  it('should combine column, message and negated conditions', () => {
+    const { index, messages } = setup();
+    const conditions = group('and', [
+      condition('cloud_RoleName', 'in', ['API', 'jobs']),
+      condition(MESSAGE_COLUMN, 'regex', ['time(out)?']),
+      condition('operation_Id', 'equals', ['OP4'], true),
+    ]);
+
+    expect(messages(filterRows(index, { ...ALL, conditions }).gridRows)).toEqual(['TIMEOUT waiting for lock', 'Timeout calling SQL']);
+  });
+
+  it('should apply OR groups, negated groups and date and numeric comparisons', () => {
+    const { index, messages } = setup();
+    const either = group('or', [
+      condition(TIMESTAMP_COLUMN, '>=', ['2024-01-15T10:10:00Z']),
+      condition('severityLevel', '<', ['2']),
+    ]);
+
+    expect(messages(filterRows(index, { ...ALL, conditions: group('and', [either]) }).gridRows))
+      .toEqual(['Request started', 'Slow response', 'TIMEOUT waiting for lock']);
+    expect(messages(filterRows(index, { ...ALL, conditions: group('and', [either], true) }).gridRows))
+      .toEqual(['No time here', 'Timeout calling SQL']);
+  });
+
+  it('should read missing columns as empty and skip empty groups', () => {
+    const { index, logs } = setup();
+
+    expect(filterRows(index, { ...ALL, conditions: group('and', [condition('nope', 'equals', ['x'], true)]) }).gridRows.length).toBe(logs.length);
+    expect(filterRows(index, { ...ALL, conditions: group('or', [group('and', [])]) }).gridRows.length).toBe(logs.length);
+  });
+});
+
+describe('compileFilter', () => {
+  it('should give the same rows when scanned in chunks', () => {
+    const { index } = setup();
+    const filter = compileFilter(index, { ...ALL, severities: [2, 3] });
+    const chunks = [filter.scan(0, 2), filter.scan(2, 4), filter.scan(4, 6)];
+
+    expect(chunks.flatMap(c => Array.from(c.gridRows))).toEqual(Array.from(filterRows(index, { ...ALL, severities: [2, 3] }).gridRows));
+  });
+});
+
+describe('toFilterQuery', () => {
+  it('should drop the role list while no role is hidden', () => {
+    const filters: FilterState = { ...ALL, serverRoles: ['API'] };
+    expect(toFilterQuery(filters, false).serverRoles).toBeNull();
+    expect(toFilterQuery(filters, true).serverRoles).toEqual(['API']);
+  });
+});
@@ -0,0 +1,292 @@
+import { ColumnarLogs, FilterCondition, FilterState } from '../types';
+import { createLogReader, LogReader } from './columnarLogs';
+import { MESSAGE_COLUMN, TIMESTAMP_COLUMN, compileConditions, createTimeTest, createValueTest } from './filterConditions';
+import { SearchTerm, TokenPostings, decodeSearchIndex, indexTokens, matchesSearch, matchesTerm, parseSearchQuery, postingsContaining, postingsFor, tokenize } from './searchIndex';
+
+// Indexes over one columnar file that answer dashboard filters without
+// touching LogEntry objects. Severity, role, time and ID filters become
+// bitsets over row positions, and all-column searches are answered from the
+// file's inverted token index.
+// The filter worker holds one of these per loaded file, and the dashboard
+// falls back to running it in place where workers are unavailable.
+
+// serverRoles lists the roles shown, or null while no role is hidden. Rows
+// without a role always pass it; rows without a timestamp pass the time window.
+export type FilterQuery = Omit<FilterState, 'serverRoles'> & { serverRoles: string[] | null };
+
+// Row positions (indexes into hydrateLogs output), ascending. chartRows ignore
+// the time window so the chart keeps its timeline context.
+export interface FilterMatches {
+  chartRows: Uint32Array;
+  gridRows: Uint32Array;
+}
+
+export interface FilterIndex {
+  readonly data: ColumnarLogs;
+  readonly reader: LogReader;
+  readonly bySeverity: Map<number, Uint32Array>;
+  readonly byRole: Map<string, Uint32Array>;
+  readonly timeOrder: Uint32Array; // Timestamped rows, oldest first
+  readonly sortedTimes: Float64Array; // timestamps[timeOrder[i]]
+  readonly untimed: Uint32Array;
+  readonly rowById: Map<number, number>;
+  readonly postings: TokenPostings;
+}
+
+export interface CompiledFilter {
+  scan(start: number, end: number): FilterMatches;
+}
+
+function groupRows(count: number, keyOf: (row: number) => number): Map<number, Uint32Array> {
+  const lists = new Map<number, number[]>();
+  for (let row = 0; row < count; row++) {
+    const key = keyOf(row);
+    let list = lists.get(key);
+    if (!list) lists.set(key, list = []);
+    list.push(row);
+  }
+  return new Map(Array.from(lists, ([key, rows]) => [key, Uint32Array.from(rows)]));
+}
+
+export function createFilterIndex(data: ColumnarLogs): FilterIndex {
+  const reader = createLogReader(data);
+  const { count, timestamps } = data;
+
+  const bySeverity = groupRows(count, row => data.severities[row]);
+  const byRole = new Map<string, Uint32Array>();
+  groupRows(count, row => data.serverRoles[row]).forEach((rows, index) => {
+    if (index !== 0) byRole.set(reader.string(index), rows);
+  });
+
+  const timed: number[] = [];
+  const untimed: number[] = [];
+  for (let row = 0; row < count; row++) {
+    (isNaN(timestamps[row]) ? untimed : timed).push(row);
+  }
+  timed.sort((a, b) => timestamps[a] - timestamps[b]);
+  const timeOrder = Uint32Array.from(timed);
+  const sortedTimes = Float64Array.from(timed, row => timestamps[row]);
+
+  const rowById = new Map<number, number>();
+  for (let row = 0; row < count; row++) rowById.set(data.ids[row], row);
+
+  // Sessions saved before the token index existed get one built here
+  const postings = data.search
+    ? decodeSearchIndex(data.search)
+    : indexTokens(Array.from({ length: data.strings.offsets.length - 1 }, (_, i) => reader.string(i)), data.cells, count, data.columns.length);
+
+  return {
+    data,
+    reader,
+    bySeverity,
+    byRole,
+    timeOrder,
+    sortedTimes,
+    untimed: Uint32Array.from(untimed),
+    rowById,
+    postings
+  };
+}
+
+// =============================================================================
+// Bitsets over row positions
+// =============================================================================
+
+function createBitset(count: number): Uint32Array {
+  return new Uint32Array((count + 31) >>> 5);
+}
+
+function setBits(bits: Uint32Array, rows: ArrayLike<number>) {
+  for (let i = 0; i < rows.length; i++) bits[rows[i] >>> 5] |= 1 << (rows[i] & 31);
+}
+
+function hasBit(bits: Uint32Array, row: number): boolean {
+  return (bits[row >>> 5] & (1 << (row & 31))) !== 0;
+}
+
+// First position whose time is >= value
+function lowerBound(times: Float64Array, value: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (times[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+// Low-memory files are indexed on their message patterns alone
+function rowText(index: FilterIndex, row: number): string {
+  const { data, reader } = index;
+  if (data.locations) return reader.string(data.messages[row]);
+  const width = data.columns.length;
+  const parts: string[] = new Array(width);
+  for (let c = 0; c < width; c++) parts[c] = reader.string(data.cells[row * width + c]);
+  return parts.join(' ');
+}
+
+// Rows holding every token of a term, or for a bare term a word containing
+// each token. The candidates are then checked for the text itself or, for
+// phrases, the token order; a bare single word needs no check.
+function termRows(index: FilterIndex, term: SearchTerm): Uint32Array {
+  const { count } = index.data;
+  let rows: Uint32Array | null = null;
+  term.tokens.forEach((token, i) => {
+    const bits = createBitset(count);
+    const lists = term.substring
+      ? postingsContaining(index.postings, token)
+      : postingsFor(index.postings, token, term.prefix && i === term.tokens.length - 1);
+    for (const list of lists) setBits(bits, list);
+    if (rows) for (let w = 0; w < bits.length; w++) rows[w] &= bits[w];
+    else rows = bits;
+  });
+  const result = rows!;
+
+  let check: ((row: number) => boolean) | null = null;
+  if (term.substring) {
+    if (term.tokens.length > 1 || term.tokens[0] !== term.text) check = row => rowText(index, row).toLowerCase().includes(term.text);
+  } else if (term.tokens.length > 1) {
+    check = row => matchesTerm(tokenize(rowText(index, row)), term);
+  }
+  if (check) {
+    for (let row = 0; row < count; row++) {
+      if (hasBit(result, row) && !check(row)) {
+        result[row >>> 5] &= ~(1 << (row & 31));
+      }
+    }
+  }
+  return result;
+}
+
+// All-column searches become a bitset; single-column searches test each
+// distinct value of the column once
+function createSearchTest(index: FilterIndex, text: string, column: string): ((row: number) => boolean) | null {
+  const terms = parseSearchQuery(text);
+  if (terms.length === 0) return null;
+  const { data } = index;
+
+  if (column === '_all') {
+    const matches = createBitset(data.count);
+    matches.fill(~0);
+    for (const term of terms) {
+      const rows = termRows(index, term);
+      for (let w = 0; w < matches.length; w++) matches[w] &= term.exclude ? ~rows[w] : rows[w];
+    }
+    return row => hasBit(matches, row);
+  }
+
+  const c = data.columns.indexOf(column);
+  if (c < 0) return () => terms.every(term => term.exclude);
+  const width = data.columns.length;
+  const verdicts = new Int8Array(data.strings.offsets.length - 1); // 0 unknown, 1 match, 2 no match
+  return row => {
+    const cell = data.cells[row * width + c];
+    if (verdicts[cell] === 0) verdicts[cell] = matchesSearch(index.reader.string(cell), terms) ? 1 : 2;
+    return verdicts[cell] === 1;
+  };
+}
+
+// =============================================================================
+// Conditions
+// =============================================================================
+
+// Each distinct cell value is tested once, as in single-column searches
+function createConditionTest(index: FilterIndex, condition: FilterCondition): (row: number) => boolean {
+  const { data, reader } = index;
+  if (condition.column === TIMESTAMP_COLUMN) {
+    const test = createTimeTest(condition);
+    return row => test(data.timestamps[row]);
+  }
+
+  const test = createValueTest(condition);
+  let cellOf: (row: number) => number;
+  if (condition.column === MESSAGE_COLUMN) {
+    cellOf = row => data.messages[row];
+  } else {
+    const c = data.columns.indexOf(condition.column);
+    // Rows without the column hold an empty value
+    if (c < 0) {
+      const verdict = test('');
+      return () => verdict;
+    }
+    const width = data.columns.length;
+    cellOf = row => data.cells[row * width + c];
+  }
+  const verdicts = new Int8Array(data.strings.offsets.length - 1); // 0 unknown, 1 match, 2 no match
+  return row => {
+    const cell = cellOf(row);
+    if (verdicts[cell] === 0) verdicts[cell] = test(reader.string(cell)) ? 1 : 2;
+    return verdicts[cell] === 1;
+  };
+}
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+export function compileFilter(index: FilterIndex, query: FilterQuery): CompiledFilter {
+  const { count } = index.data;
+
+  const base = createBitset(count);
+  for (const severity of query.severities) {
+    const rows = index.bySeverity.get(severity);
+    if (rows) setBits(base, rows);
+  }
+
+  if (query.serverRoles) {
+    const hidden = createBitset(count);
+    index.byRole.forEach((rows, role) => {
+      if (!query.serverRoles!.includes(role)) setBits(hidden, rows);
+    });
+    for (let i = 0; i < base.length; i++) base[i] &= ~hidden[i];
+  }
+
+  if (query.patternIds) {
+    const wanted = createBitset(count);
+    for (const id of query.patternIds) {
+      const row = index.rowById.get(id);
+      if (row !== undefined) wanted[row >>> 5] |= 1 << (row & 31);
+    }
+    for (let i = 0; i < base.length; i++) base[i] &= wanted[i];
+  }
+
+  let inWindow: Uint32Array | null = null;
+  if (query.timeWindow) {
+    inWindow = createBitset(count);
+    const from = lowerBound(index.sortedTimes, query.timeWindow.start);
+    const to = lowerBound(index.sortedTimes, query.timeWindow.end);
+    setBits(inWindow, index.timeOrder.subarray(from, to));
+    setBits(inWindow, index.untimed);
+  }
+
+  const search = createSearchTest(index, query.searchText, query.searchColumn);
+  const conditions = compileConditions(query.conditions, condition => createConditionTest(index, condition));
+
+  return {
+    scan(start, end) {
+      const chart: number[] = [];
+      const grid: number[] = [];
+      for (let row = start; row < Math.min(end, count); row++) {
+        if (!hasBit(base, row)) continue;
+        if (search && !search(row)) continue;
+        if (conditions && !conditions(row)) continue;
+        chart.push(row);
+        if (!inWindow || hasBit(inWindow, row)) grid.push(row);
+      }
+      return { chartRows: Uint32Array.from(chart), gridRows: Uint32Array.from(grid) };
+    }
+  };
+}
+
+export function filterRows(index: FilterIndex, query: FilterQuery): FilterMatches {
+  return compileFilter(index, query).scan(0, index.data.count);
+}
+
+export function toFilterQuery(filters: FilterState, roleFilterActive: boolean): FilterQuery {
+  return { ...filters, serverRoles: roleFilterActive ? filters.serverRoles : null };
+}
@@ -0,0 +1,136 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { isJSONFile, parseQueryResult, parseJSON } from './jsonParser';
+
+// =============================================================================
+// Helper: build an App Insights query result payload
+// =============================================================================
+function makeQueryResult(rows: unknown[][], extraTables: unknown[] = []) {
+  return JSON.stringify({
+    tables: [
+      ...extraTables,
+      {
+        name: 'PrimaryResult',
+        columns: [
+          { name: 'timestamp', type: 'datetime' },
+          { name: 'message', type: 'string' },
+          { name: 'severityLevel', type: 'int' },
+          { name: 'operation_Id', type: 'string' },
+          { name: 'customDimensions', type: 'dynamic' },
+        ],
+        rows,
+      },
+    ],
+  });
+}
+
+// =============================================================================
+// isJSONFile
+// =============================================================================
+describe('isJSONFile', () => {
+  it('should detect .json extension case-insensitively', () => {
+    expect(isJSONFile({ name: 'results.json' })).toBe(true);
+    expect(isJSONFile({ name: 'RESULTS.JSON' })).toBe(true);
+  });
+
+  it('should detect application/json MIME type', () => {
+    expect(isJSONFile({ name: 'download', type: 'application/json' })).toBe(true);
+  });
+
+  it('should not treat CSV files as JSON', () => {
+    expect(isJSONFile({ name: 'export.csv', type: 'text/csv' })).toBe(false);
+  });
+});
+
+// =============================================================================
+// parseQueryResult
+// =============================================================================
+describe('parseQueryResult', () => {
+  it('should convert table rows into column-keyed records', () => {
+    const result = parseQueryResult(makeQueryResult([
+      ['2024-01-15T10:00:00Z', 'Request failed', 3, 'op-1', '{"InstanceName":"app-CD-01"}'],
+    ]));
+
+    expect(result.columns).toEqual(['timestamp', 'message', 'severityLevel', 'operation_Id', 'customDimensions']);
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0].message).toBe('Request failed');
+    expect(result.rows[0].severityLevel).toBe('3');
+    expect(result.rows[0].customDimensions).toBe('{"InstanceName":"app-CD-01"}');
+  });
+
+  it('should skip a leading BOM', () => {
+    const result = parseQueryResult('\ufeff' + makeQueryResult([['2024-01-15T10:00:00Z', 'Started', 1, 'op-1', '']]));
+
+    expect(result.rows[0].message).toBe('Started');
+  });
+
+  it('should stringify dynamic columns returned as objects by the CLI', () => {
+    const result = parseQueryResult(makeQueryResult([
+      ['2024-01-15T10:00:00Z', 'msg', 1, 'op-1', { InstanceName: 'app-CM-01' }],
+    ]));
+
+    expect(JSON.parse(result.rows[0].customDimensions)).toEqual({ InstanceName: 'app-CM-01' });
+  });
+
+  it('should turn null cells into empty strings', () => {
+    const result = parseQueryResult(makeQueryResult([
+      ['2024-01-15T10:00:00Z', null, 1, null, null],
+    ]));
+
+    expect(result.rows[0].message).toBe('');
+    expect(result.rows[0].operation_Id).toBe('');
+  });
+
+  it('should prefer PrimaryResult over other tables', () => {
+    const stats = { name: 'QueryStatus', columns: [{ name: 'Status' }], rows: [['ok']] };
+    const result = parseQueryResult(makeQueryResult([
+      ['2024-01-15T10:00:00Z', 'msg', 1, 'op-1', '{}'],
+    ], [stats]));
+
+    expect(result.columns).toContain('message');
+  });
+
+  it('should fall back to the first table when PrimaryResult is absent', () => {
+    const text = JSON.stringify({
+      tables: [{ name: 'table_0', columns: [{ name: 'message' }], rows: [['hello']] }],
+    });
+
+    expect(parseQueryResult(text).rows[0].message).toBe('hello');
+  });
+
+  it('should throw for invalid JSON', () => {
+    expect(() => parseQueryResult('{not json')).toThrow('File is not valid JSON');
+  });
+
+  it('should throw when there is no tables array', () => {
+    expect(() => parseQueryResult('[{"message":"x"}]')).toThrow(/expected \{ tables/);
+  });
+});
+
+// =============================================================================
+// parseJSON
+// =============================================================================
+describe('parseJSON', () => {
+  it('should produce the same ParsedData shape as parseCSV', async () => {
+    const file = new File([makeQueryResult([
+      ['2024-01-15T10:00:00Z', 'Older', 1, 'op-1', '{"InstanceName":"app-CM-01"}'],
+      ['2024-01-15T11:00:00Z', 'Newer', 3, 'op-2', '{"InstanceName":"app-CD-01"}'],
+    ])], 'results.json', { type: 'application/json' });
+
+    const result = await parseJSON(file, 0);
+
+    expect(result.detectedMapping.timestamp).toBe('timestamp');
+    expect(result.detectedMapping.severity).toBe('severityLevel');
+    expect(result.detectedMapping.message).toBe('message');
+    expect(result.detectedMapping.operationId).toBe('operation_Id');
+    expect(result.logs).toHaveLength(2);
+
+    // Sorted newest first like the CSV path
+    expect(result.logs[0]._message).toBe('Newer');
+    expect(result.logs[0]._severity).toBe(3);
+    expect(result.logs[0]._serverRole).toBe('CD');
+    expect(result.logs[0]._operationId).toBe('op-2');
+    expect(result.logs[0]._fileIndex).toBe(0);
+    expect(result.logs[1]._timestamp?.toISOString()).toBe('2024-01-15T10:00:00.000Z');
+  });
+});
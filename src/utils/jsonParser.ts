@@ -0,0 +1,75 @@
+import { ParsedData } from '../types';
+import { buildParsedData } from './csvParser';
+
+// Shape returned by `az monitor app-insights query` and the App Insights /
+// Log Analytics REST query APIs: { tables: [{ name, columns, rows }] }
+interface QueryResultColumn {
+  name: string;
+  type?: string;
+}
+
+interface QueryResultTable {
+  name?: string;
+  columns: QueryResultColumn[];
+  rows: unknown[][];
+}
+
+export interface QueryResultRows {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export function isJSONFile(file: { name: string; type?: string }): boolean {
+  return file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+}
+
+function isQueryResultTable(value: unknown): value is QueryResultTable {
+  if (!value || typeof value !== 'object') return false;
+  const table = value as Partial<QueryResultTable>;
+  return Array.isArray(table.columns) && Array.isArray(table.rows);
+}
+
+// Dynamic columns (customDimensions etc.) come back as objects from the CLI
+// but as JSON strings from the REST API - normalize both to the CSV form
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function parseQueryResult(text: string): QueryResultRows {
+  let json: unknown;
+  try {
+    json = JSON.parse(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const tables = (json as { tables?: unknown })?.tables;
+  if (!Array.isArray(tables) || tables.length === 0) {
+    throw new Error('JSON does not contain a query result (expected { tables: [...] })');
+  }
+
+  // PrimaryResult holds the query output; other tables are query statistics
+  const candidates = tables.filter(isQueryResultTable);
+  const table = candidates.find(t => t.name === 'PrimaryResult') || candidates[0];
+  if (!table) {
+    throw new Error('JSON query result has no table with columns and rows');
+  }
+
+  const columns = table.columns.map(c => c.name);
+  const rows = table.rows.map(values => {
+    const row: Record<string, string> = {};
+    columns.forEach((col, i) => {
+      row[col] = formatCell(values[i]);
+    });
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+export async function parseJSON(file: File, fileIndex?: number): Promise<ParsedData> {
+  const { columns, rows } = parseQueryResult(await file.text());
+  return buildParsedData(rows, columns, fileIndex);
+}
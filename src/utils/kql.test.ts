@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { QueryError, formatQueryValue, runQuery, toChart } from './kql';
+import { LogEntry } from '../types';
+
+// =============================================================================
+// Helper: create a LogEntry for tests
+// =============================================================================
+function makeLog(overrides: Partial<LogEntry> & { _id: number }): LogEntry {
+  return {
+    _timestamp: null,
+    _severity: 1,
+    _message: '',
+    _raw: {},
+    ...overrides,
+  };
+}
+
+const LOGS: LogEntry[] = [
+  makeLog({ _id: 0, _timestamp: new Date('2024-01-15T10:01:00Z'), _severity: 3, _message: 'Order 17 failed: Timeout', _serverRole: 'CD', _raw: { duration: '1200', site: 'web' } }),
+  makeLog({ _id: 1, _timestamp: new Date('2024-01-15T10:03:00Z'), _severity: 3, _message: 'Order 18 failed: timeout', _serverRole: 'CM', _raw: { duration: '300', site: 'api' } }),
+  makeLog({ _id: 2, _timestamp: new Date('2024-01-15T10:07:00Z'), _severity: 2, _message: 'Cache miss', _serverRole: 'CD', _itemCount: 5, _raw: { duration: '15', site: 'web' } }),
+  makeLog({ _id: 3, _timestamp: new Date('2024-01-15T10:12:00Z'), _severity: 1, _message: 'Started', _raw: { duration: '', site: 'web' } }),
+];
+const COLUMNS = ['duration', 'site'];
+
+const run = (query: string) => runQuery(query, LOGS, COLUMNS);
+
+// =============================================================================
+// Operators
+// =============================================================================
+describe('runQuery', () => {
+  it('should filter with where and keep projected columns in order', () => {
+    const result = run('traces | where severityLevel >= 3 and message contains "TIMEOUT" | project message, role = serverRole');
+
+    expect(result.columns).toEqual([{ name: 'message', type: 'string' }, { name: 'role', type: 'string' }]);
+    expect(result.rows).toEqual([['Order 17 failed: Timeout', 'CD'], ['Order 18 failed: timeout', 'CM']]);
+    expect(result.rowIds).toEqual([[0], [1]]);
+    expect(result.ids).toEqual([0, 1]);
+  });
+
+  it('should compare raw cells as numbers against numbers', () => {
+    expect(run('where duration > 200').ids).toEqual([0, 1]);
+    expect(run('where duration between (10 .. 400)').ids).toEqual([1, 2]);
+    expect(run('where site in ("api") or isempty(duration)').ids).toEqual([1, 3]);
+  });
+
+  it('should summarize into time bins and keep the rows behind each group', () => {
+    const result = run('summarize count(), events = sum(itemCount) by bin(timestamp, 5m) | order by timestamp asc');
+
+    expect(result.columns.map(c => c.name)).toEqual(['timestamp', 'count_', 'events']);
+    expect(result.rows).toEqual([
+      [new Date('2024-01-15T10:00:00Z'), 2, 2],
+      [new Date('2024-01-15T10:05:00Z'), 1, 5],
+      [new Date('2024-01-15T10:10:00Z'), 1, 1]
+    ]);
+    expect(result.rowIds[0]).toEqual([0, 1]);
+  });
+
+  it('should extend, sort and take the top rows', () => {
+    const result = run('extend ms = todouble(duration) | top 2 by ms | project message, ms');
+
+    expect(result.rows).toEqual([['Order 17 failed: Timeout', 1200], ['Order 18 failed: timeout', 300]]);
+    expect(run('order by duration asc | take 1').ids).toEqual([2]);
+  });
+
+  it('should list distinct values and count rows', () => {
+    expect(run('distinct site | order by site asc').rows).toEqual([['api'], ['web']]);
+    expect(run('where severityLevel < 3 | count').rows).toEqual([[2]]);
+    expect(run('summarize dcount(serverRole), avg(todouble(duration)), percentile(todouble(duration), 50)').rows).toEqual([[3, 505, 300]]);
+  });
+
+  it('should apply string and datetime functions', () => {
+    const result = run(`where message has "timeout"
+      | project lower = tolower(message), n = strlen(message), order = toint(extract(@"Order (\\d+)", 1, message)),
+        hour = format_datetime(timestamp, "HH:mm"), late = timestamp > datetime(2024-01-15T10:02:00Z)`);
+
+    expect(result.rows).toEqual([
+      ['order 17 failed: timeout', 24, 17, '10:01', false],
+      ['order 18 failed: timeout', 24, 18, '10:03', true]
+    ]);
+    expect(run('where timestamp > ago(1d)').total).toBe(0);
+    expect(run('where message !has "order" and message !startswith "cache"').ids).toEqual([3]);
+  });
+
+  it('should return null for dates past the representable range', () => {
+    const result = run('take 1 | extend t = timestamp + 100000000000d | project t, text = tostring(t), hour = hourofday(t)');
+
+    expect(result.rows).toEqual([[null, '', null]]);
+    expect(formatQueryValue(new Date(NaN))).toBe('');
+  });
+
+  it('should take the view from render', () => {
+    expect(run('summarize count() by site | render barchart').render).toBe('barchart');
+    expect(run('take 1').render).toBe('table');
+  });
+
+  it('should reject unknown columns, functions and operators', () => {
+    expect(() => run('where nope == 1')).toThrow(new QueryError("Unknown column 'nope'"));
+    expect(() => run('project tolower()')).toThrow(QueryError);
+    expect(() => run('where count() > 1')).toThrow('count() can only be used in summarize');
+    expect(() => run('join kind=inner other')).toThrow("Unsupported operator 'join'");
+    expect(() => run('summarize count() by site | project message')).toThrow("Unknown column 'message'");
+    expect(() => run('where message ==')).toThrow(QueryError);
+  });
+});
+
+// =============================================================================
+// Charts
+// =============================================================================
+describe('toChart', () => {
+  it('should split one numeric column into a series per string value', () => {
+    const chart = toChart(run('summarize count() by bin(timestamp, 5m), site'));
+
+    expect(chart?.time).toBe(true);
+    expect(chart?.series).toEqual(['web', 'api']);
+    expect(chart?.points[0]).toEqual({ x: Date.parse('2024-01-15T10:00:00Z'), values: { web: 1, api: 1 } });
+  });
+
+  it('should chart categories and skip results without numbers', () => {
+    const chart = toChart(run('summarize count() by site'));
+
+    expect(chart).toMatchObject({ time: false, series: ['count_'], points: [{ x: 'web', values: { count_: 3 } }, { x: 'api', values: { count_: 1 } }] });
+    expect(toChart(run('project message'))).toBeNull();
+  });
+});
@@ -0,0 +1,1012 @@
+import { LogEntry, QueryColumn, QueryRender, QueryResult, QueryValue } from '../types';
+import { getRawValue, getTimestampMs } from './columnarLogs';
+import { parseTimestampValue } from './timestamps';
+
+// A subset of KQL run against the loaded rows, for ad-hoc questions without a
+// round trip to Log Analytics. Operators: where, project, project-away,
+// extend, summarize ... by, top, order by / sort by, take / limit, distinct,
+// count and render. Timespan literals such as 5m are numbers of milliseconds.
+// Each result row keeps the ids of the log rows behind it, so it can filter
+// the grid.
+
+// Rows kept in a result; the rest are only counted
+export const MAX_RESULT_ROWS = 10000;
+
+// Raised for queries that do not parse or refer to unknown names
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+// =============================================================================
+// Lexer
+// =============================================================================
+
+interface Token {
+  type: 'number' | 'string' | 'datetime' | 'ident' | 'op' | 'end';
+  text: string;
+  value?: QueryValue;
+}
+
+const SPAN_UNITS: Record<string, number> = {
+  ms: 1, millisecond: 1, milliseconds: 1,
+  s: 1000, second: 1000, seconds: 1000,
+  m: 60000, minute: 60000, minutes: 60000,
+  h: 3600000, hour: 3600000, hours: 3600000,
+  d: 86400000, day: 86400000, days: 86400000
+};
+
+const SKIP = /\s+|\/\/[^\n]*/y;
+const DATETIME = /datetime\(\s*([^)'"]*?)\s*\)/y;
+const NUMBER = /(\d+(?:\.\d+)?)([a-z]+)?/y;
+const STRING = /(@?)(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")/y;
+const BRACKETED = /\[\s*(?:'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]/y;
+const NEGATED = /!(?:contains_cs|contains|has|startswith|endswith|in|between)\b/y;
+const IDENT = /project-away\b|[A-Za-z_$][\w$.]*/y;
+const OP = /==|!=|<=|>=|=~|!~|\.\.|[|(),=<>+\-*/%]/y;
+
+function unescape(text: string): string {
+  return text.replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c === 't' ? '\t' : c));
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  const at = (pattern: RegExp) => {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(query);
+    if (match) pos += match[0].length;
+    return match;
+  };
+
+  while (pos < query.length) {
+    let match: RegExpExecArray | null;
+    if (at(SKIP)) continue;
+    if ((match = at(DATETIME))) {
+      const parsed = parseTimestampValue(match[1]);
+      if (!parsed) throw new QueryError(`Invalid datetime '${match[1]}'`);
+      tokens.push({ type: 'datetime', text: match[0], value: new Date(parsed.ms) });
+    } else if ((match = at(NUMBER))) {
+      const unit = match[2];
+      if (unit && !(unit in SPAN_UNITS)) throw new QueryError(`Invalid timespan '${match[0]}'`);
+      tokens.push({ type: 'number', text: match[0], value: Number(match[1]) * (unit ? SPAN_UNITS[unit] : 1) });
+    } else if ((match = at(STRING))) {
+      const raw = match[2] ?? match[3];
+      tokens.push({ type: 'string', text: match[0], value: match[1] ? raw : unescape(raw) });
+    } else if ((match = at(BRACKETED))) {
+      tokens.push({ type: 'ident', text: unescape(match[1] ?? match[2]) });
+    } else if ((match = at(NEGATED)) || (match = at(OP))) {
+      tokens.push({ type: 'op', text: match[0] });
+    } else if ((match = at(IDENT))) {
+      tokens.push({ type: 'ident', text: match[0] });
+    } else {
+      throw new QueryError(`Unexpected character '${query[pos]}' at position ${pos + 1}`);
+    }
+  }
+  tokens.push({ type: 'end', text: 'end of query' });
+  return tokens;
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+type Expr =
+  | { kind: 'literal'; value: QueryValue }
+  | { kind: 'column'; name: string }
+  | { kind: 'call'; name: string; args: Expr[] }
+  | { kind: 'negate'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'in'; negated: boolean; operand: Expr; list: Expr[] }
+  | { kind: 'between'; negated: boolean; operand: Expr; low: Expr; high: Expr };
+
+interface NamedExpr {
+  name: string;
+  expr: Expr;
+}
+
+interface SortKey {
+  expr: Expr;
+  ascending: boolean;
+}
+
+type Stage =
+  | { kind: 'where'; predicate: Expr }
+  | { kind: 'project'; items: NamedExpr[] }
+  | { kind: 'project-away'; names: string[] }
+  | { kind: 'extend'; items: NamedExpr[] }
+  | { kind: 'summarize'; aggregates: NamedExpr[]; keys: NamedExpr[] }
+  | { kind: 'sort'; keys: SortKey[]; limit?: number }
+  | { kind: 'take'; count: number }
+  | { kind: 'distinct'; items: NamedExpr[] }
+  | { kind: 'count' }
+  | { kind: 'render'; render: QueryRender };
+
+// Operators written as words, compared case-insensitively
+const WORD_OPS = ['contains', 'contains_cs', 'has', 'startswith', 'endswith'];
+
+const RENDERS: Record<string, QueryRender> = {
+  table: 'table',
+  timechart: 'timechart',
+  linechart: 'timechart',
+  areachart: 'timechart',
+  barchart: 'barchart',
+  columnchart: 'barchart',
+  piechart: 'barchart'
+};
+
+function parseQuery(query: string): Stage[] {
+  const tokens = lex(query);
+  let index = 0;
+  const peek = (offset = 0) => tokens[Math.min(index + offset, tokens.length - 1)];
+  const next = () => tokens[index++];
+  const isOp = (text: string, offset = 0) => peek(offset).type === 'op' && peek(offset).text === text;
+  const isWord = (word: string, offset = 0) => peek(offset).type === 'ident' && peek(offset).text.toLowerCase() === word;
+  const fail = (expected: string): never => {
+    throw new QueryError(`Expected ${expected} but found '${peek().text}'`);
+  };
+  const expectOp = (text: string) => (isOp(text) ? next() : fail(`'${text}'`));
+  const expectWord = (word: string) => (isWord(word) ? next() : fail(`'${word}'`));
+  const ident = () => (peek().type === 'ident' ? next().text : fail('a column name'));
+  const rowCount = () => {
+    const token = peek();
+    return token.type === 'number' && Number.isInteger(token.value) ? (next().value as number) : fail('a row count');
+  };
+
+  const list = <T>(item: () => T): T[] => {
+    const items = [item()];
+    while (isOp(',')) {
+      next();
+      items.push(item());
+    }
+    return items;
+  };
+
+  const primary = (): Expr => {
+    const token = peek();
+    if (token.type === 'number' || token.type === 'string' || token.type === 'datetime') {
+      next();
+      return { kind: 'literal', value: token.value ?? null };
+    }
+    if (isOp('(')) {
+      next();
+      const inner = expression();
+      expectOp(')');
+      return inner;
+    }
+    if (token.type === 'ident') {
+      next();
+      const word = token.text.toLowerCase();
+      if (isOp('(')) {
+        next();
+        const args = isOp(')') ? [] : list(expression);
+        expectOp(')');
+        return { kind: 'call', name: word, args };
+      }
+      if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' };
+      if (word === 'null') return { kind: 'literal', value: null };
+      return { kind: 'column', name: token.text };
+    }
+    return fail('a value');
+  };
+
+  const unary = (): Expr => {
+    if (isOp('-')) {
+      next();
+      return { kind: 'negate', operand: unary() };
+    }
+    return primary();
+  };
+
+  const binaryLevel = (operand: () => Expr, ops: string[]) => (): Expr => {
+    let left = operand();
+    while (peek().type === 'op' && ops.includes(peek().text)) {
+      const op = next().text;
+      left = { kind: 'binary', op, left, right: operand() };
+    }
+    return left;
+  };
+  const multiplicative = binaryLevel(unary, ['*', '/', '%']);
+  const additive = binaryLevel(multiplicative, ['+', '-']);
+
+  const comparison = (): Expr => {
+    const left = additive();
+    const token = peek();
+    const text = token.text.toLowerCase();
+    if (token.type === 'op' && ['==', '!=', '<', '<=', '>', '>=', '=~', '!~'].includes(text)) {
+      next();
+      return { kind: 'binary', op: text, left, right: additive() };
+    }
+    if (token.type === 'op' && text.startsWith('!') && WORD_OPS.includes(text.slice(1))) {
+      next();
+      return { kind: 'binary', op: text, left, right: additive() };
+    }
+    if (token.type === 'ident' && WORD_OPS.includes(text)) {
+      next();
+      return { kind: 'binary', op: text, left, right: additive() };
+    }
+    if (isWord('matches') && isWord('regex', 1)) {
+      next();
+      next();
+      return { kind: 'binary', op: 'matches regex', left, right: additive() };
+    }
+    if (isWord('in') || isOp('!in')) {
+      next();
+      expectOp('(');
+      const values = list(expression);
+      expectOp(')');
+      return { kind: 'in', negated: text === '!in', operand: left, list: values };
+    }
+    if (isWord('between') || isOp('!between')) {
+      next();
+      expectOp('(');
+      const low = additive();
+      expectOp('..');
+      const high = additive();
+      expectOp(')');
+      return { kind: 'between', negated: text === '!between', operand: left, low, high };
+    }
+    return left;
+  };
+
+  const logical = (operand: () => Expr, word: string) => (): Expr => {
+    let left = operand();
+    while (isWord(word)) {
+      next();
+      left = { kind: 'binary', op: word, left, right: operand() };
+    }
+    return left;
+  };
+  const conjunction = logical(comparison, 'and');
+  const expression: () => Expr = logical(conjunction, 'or');
+
+  // name = expr, or an expression named after the column it reads
+  const named = (position: () => number) => (): NamedExpr => {
+    if (peek().type === 'ident' && isOp('=', 1)) {
+      const name = next().text;
+      next();
+      return { name, expr: expression() };
+    }
+    const expr = expression();
+    return { name: defaultName(expr, position()), expr };
+  };
+  let unnamed = 0;
+  const namedList = () => {
+    unnamed = 0;
+    return list(named(() => ++unnamed));
+  };
+
+  const sortKeys = () => list((): SortKey => {
+    const expr = expression();
+    let ascending = false;
+    if (isWord('asc') || isWord('desc')) ascending = next().text.toLowerCase() === 'asc';
+    return { expr, ascending };
+  });
+
+  const stage = (): Stage => {
+    const name = ident().toLowerCase();
+    switch (name) {
+      case 'where':
+      case 'filter':
+        return { kind: 'where', predicate: expression() };
+      case 'project':
+        return { kind: 'project', items: namedList() };
+      case 'project-away':
+        return { kind: 'project-away', names: list(ident) };
+      case 'extend':
+        return { kind: 'extend', items: namedList() };
+      case 'summarize': {
+        const aggregates = isWord('by') ? [] : namedList();
+        let keys: NamedExpr[] = [];
+        if (isWord('by')) {
+          next();
+          keys = namedList();
+        }
+        if (aggregates.length === 0 && keys.length === 0) fail('an aggregation');
+        return { kind: 'summarize', aggregates, keys };
+      }
+      case 'order':
+      case 'sort':
+        expectWord('by');
+        return { kind: 'sort', keys: sortKeys() };
+      case 'top': {
+        const limit = rowCount();
+        expectWord('by');
+        return { kind: 'sort', keys: sortKeys(), limit };
+      }
+      case 'take':
+      case 'limit':
+        return { kind: 'take', count: rowCount() };
+      case 'distinct':
+        return { kind: 'distinct', items: namedList() };
+      case 'count':
+        return { kind: 'count' };
+      case 'render': {
+        const chart = ident().toLowerCase();
+        if (!(chart in RENDERS)) throw new QueryError(`Unsupported chart '${chart}'`);
+        return { kind: 'render', render: RENDERS[chart] };
+      }
+      default:
+        throw new QueryError(`Unsupported operator '${name}'`);
+    }
+  };
+
+  // The table name the query starts with is optional: it always reads the loaded rows
+  if (peek().type === 'ident' && (isOp('|', 1) || peek(1).type === 'end')) next();
+  const stages: Stage[] = [];
+  if (peek().type !== 'end') {
+    if (isOp('|')) next();
+    stages.push(stage());
+    while (isOp('|')) {
+      next();
+      stages.push(stage());
+    }
+  }
+  if (peek().type !== 'end') fail("'|'");
+  return stages;
+}
+
+// Names KQL gives unnamed columns: the column read, count_, sum_duration, Column1
+function defaultName(expr: Expr, position: number): string {
+  if (expr.kind === 'column') return expr.name;
+  if (expr.kind === 'call') {
+    const column = expr.args.find(arg => arg.kind === 'column') as { name: string } | undefined;
+    if ((expr.name === 'bin' || expr.name === 'floor') && column) return column.name;
+    if (expr.name in AGGREGATES) return `${expr.name}_${column?.name ?? ''}`;
+  }
+  return `Column${position}`;
+}
+
+// =============================================================================
+// Values
+// =============================================================================
+
+function toNumber(value: QueryValue): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+function mapNumber(value: QueryValue, apply: (n: number) => number): number | null {
+  const number = toNumber(value);
+  return number === null ? null : apply(number);
+}
+
+// Dates past the representable range (about ±275,000 years) become null
+function dateAt(ms: number): Date | null {
+  const date = new Date(ms);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function toDate(value: QueryValue): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string') {
+    const parsed = parseTimestampValue(value);
+    return parsed ? new Date(parsed.ms) : null;
+  }
+  return null;
+}
+
+function toText(value: QueryValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString();
+  return String(value);
+}
+
+function truthy(value: QueryValue): boolean {
+  return value === true || (typeof value === 'string' && value.toLowerCase() === 'true');
+}
+
+// Order of two values, or null when they cannot be compared. Raw cells are
+// strings, so a string meeting a number or date is read as one, and two
+// numeric strings compare as numbers.
+export function compareValues(a: QueryValue, b: QueryValue): number | null {
+  if (a === null || b === null) return null;
+  if (a instanceof Date || b instanceof Date) {
+    const x = toDate(a);
+    const y = toDate(b);
+    return x && y ? x.getTime() - y.getTime() : null;
+  }
+  if (typeof a !== 'string' || typeof b !== 'string') {
+    const x = toNumber(a);
+    const y = toNumber(b);
+    return x !== null && y !== null ? x - y : null;
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== null && y !== null) return x - y;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Group key of a value, keeping 1 and '1' apart
+function valueKey(value: QueryValue): string {
+  if (value instanceof Date) return `d${value.getTime()}`;
+  return `${typeof value === 'object' ? 'z' : typeof value}${value}`;
+}
+
+const regexCache = new Map<string, RegExp>();
+
+function cachedRegex(source: string, flags: string): RegExp {
+  const key = `${flags}/${source}`;
+  let regex = regexCache.get(key);
+  if (!regex) {
+    try {
+      regex = new RegExp(source, flags);
+    } catch {
+      throw new QueryError(`Invalid regular expression '${source}'`);
+    }
+    if (regexCache.size > 100) regexCache.clear();
+    regexCache.set(key, regex);
+  }
+  return regex;
+}
+
+// has: the term appears whole, between non-word characters
+function hasTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return cachedRegex(`(?:^|[^\\p{L}\\p{N}_])${escaped}(?:$|[^\\p{L}\\p{N}_])`, 'iu').test(text);
+}
+
+// Values that cannot be compared fail every ordering
+function ordered(left: QueryValue, right: QueryValue, test: (order: number) => boolean): boolean {
+  const order = compareValues(left, right);
+  return order !== null && test(order);
+}
+
+function applyBinary(op: string, left: QueryValue, right: QueryValue): QueryValue {
+  switch (op) {
+    case '==': return compareValues(left, right) === 0;
+    case '!=': return compareValues(left, right) !== 0;
+    case '<': return ordered(left, right, order => order < 0);
+    case '<=': return ordered(left, right, order => order <= 0);
+    case '>': return ordered(left, right, order => order > 0);
+    case '>=': return ordered(left, right, order => order >= 0);
+    case '=~': return toText(left).toLowerCase() === toText(right).toLowerCase();
+    case '!~': return toText(left).toLowerCase() !== toText(right).toLowerCase();
+    case '+':
+    case '-':
+      return arithmetic(op, left, right);
+    case '*':
+    case '/':
+    case '%': {
+      const x = toNumber(left);
+      const y = toNumber(right);
+      if (x === null || y === null) return null;
+      const result = op === '*' ? x * y : op === '/' ? x / y : x % y;
+      return isFinite(result) ? result : null;
+    }
+    case 'matches regex':
+      return cachedRegex(toText(right), '').test(toText(left));
+  }
+
+  const negated = op.startsWith('!');
+  const name = negated ? op.slice(1) : op;
+  const caseSensitive = name === 'contains_cs';
+  const text = caseSensitive ? toText(left) : toText(left).toLowerCase();
+  const term = caseSensitive ? toText(right) : toText(right).toLowerCase();
+  let match: boolean;
+  switch (name) {
+    case 'contains':
+    case 'contains_cs': match = text.includes(term); break;
+    case 'has': match = hasTerm(text, term); break;
+    case 'startswith': match = text.startsWith(term); break;
+    case 'endswith': match = text.endsWith(term); break;
+    default: throw new QueryError(`Unsupported operator '${op}'`);
+  }
+  return match !== negated;
+}
+
+// + and - on numbers, dates and timespans
+function arithmetic(op: '+' | '-', left: QueryValue, right: QueryValue): QueryValue {
+  if (left instanceof Date) {
+    if (op === '-' && right instanceof Date) return left.getTime() - right.getTime();
+    const span = toNumber(right);
+    return span === null ? null : dateAt(left.getTime() + (op === '+' ? span : -span));
+  }
+  if (right instanceof Date) {
+    const span = toNumber(left);
+    return op === '+' && span !== null ? dateAt(right.getTime() + span) : null;
+  }
+  const x = toNumber(left);
+  const y = toNumber(right);
+  return x === null || y === null ? null : op === '+' ? x + y : x - y;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+interface ScalarFunction {
+  min: number;
+  max: number;
+  apply: (args: QueryValue[]) => QueryValue;
+}
+
+const fn = (min: number, max: number, apply: (args: QueryValue[]) => QueryValue): ScalarFunction => ({ min, max, apply });
+
+const DAY_MS = SPAN_UNITS.d;
+
+function pad(value: number, width = 2): string {
+  return String(value).padStart(width, '0');
+}
+
+// format_datetime with the yyyy, MM, dd, HH, mm, ss and fff specifiers, in UTC
+function formatDate(date: Date, format: string): string {
+  return format.replace(/yyyy|MM|dd|HH|mm|ss|fff/g, part => {
+    switch (part) {
+      case 'yyyy': return pad(date.getUTCFullYear(), 4);
+      case 'MM': return pad(date.getUTCMonth() + 1);
+      case 'dd': return pad(date.getUTCDate());
+      case 'HH': return pad(date.getUTCHours());
+      case 'mm': return pad(date.getUTCMinutes());
+      case 'ss': return pad(date.getUTCSeconds());
+      default: return pad(date.getUTCMilliseconds(), 3);
+    }
+  });
+}
+
+function bin(value: QueryValue, size: QueryValue): QueryValue {
+  const step = toNumber(size);
+  if (step === null || step <= 0) return null;
+  if (value instanceof Date) return dateAt(Math.floor(value.getTime() / step) * step);
+  const number = toNumber(value);
+  return number === null ? null : Math.floor(number / step) * step;
+}
+
+const FUNCTIONS: Record<string, ScalarFunction> = {
+  tolower: fn(1, 1, ([s]) => toText(s).toLowerCase()),
+  toupper: fn(1, 1, ([s]) => toText(s).toUpperCase()),
+  strlen: fn(1, 1, ([s]) => toText(s).length),
+  strcat: fn(1, 64, args => args.map(toText).join('')),
+  substring: fn(2, 3, ([s, start, length]) => {
+    const from = toNumber(start) ?? 0;
+    return length === undefined ? toText(s).slice(from) : toText(s).substr(from, toNumber(length) ?? 0);
+  }),
+  indexof: fn(2, 2, ([s, lookup]) => toText(s).indexOf(toText(lookup))),
+  replace_string: fn(3, 3, ([s, lookup, rewrite]) => toText(s).split(toText(lookup)).join(toText(rewrite))),
+  trim: fn(1, 1, ([s]) => toText(s).trim()),
+  extract: fn(3, 3, ([pattern, group, s]) => {
+    const match = cachedRegex(toText(pattern), '').exec(toText(s));
+    return match?.[toNumber(group) ?? 0] ?? null;
+  }),
+  isempty: fn(1, 1, ([v]) => v === null || v === ''),
+  isnotempty: fn(1, 1, ([v]) => v !== null && v !== ''),
+  isnull: fn(1, 1, ([v]) => v === null),
+  isnotnull: fn(1, 1, ([v]) => v !== null),
+  not: fn(1, 1, ([v]) => !truthy(v)),
+  iff: fn(3, 3, ([condition, then, otherwise]) => (truthy(condition) ? then : otherwise)),
+  iif: fn(3, 3, ([condition, then, otherwise]) => (truthy(condition) ? then : otherwise)),
+  coalesce: fn(1, 64, args => args.find(v => v !== null && v !== '') ?? null),
+  tostring: fn(1, 1, ([v]) => toText(v)),
+  toint: fn(1, 1, ([v]) => mapNumber(v, Math.trunc)),
+  tolong: fn(1, 1, ([v]) => mapNumber(v, Math.trunc)),
+  todouble: fn(1, 1, ([v]) => toNumber(v)),
+  toreal: fn(1, 1, ([v]) => toNumber(v)),
+  todatetime: fn(1, 1, ([v]) => toDate(v)),
+  abs: fn(1, 1, ([v]) => mapNumber(v, Math.abs)),
+  round: fn(1, 2, ([v, digits]) => {
+    const scale = 10 ** (toNumber(digits ?? 0) ?? 0);
+    return mapNumber(v, n => Math.round(n * scale) / scale);
+  }),
+  bin: fn(2, 2, ([v, size]) => bin(v, size)),
+  floor: fn(2, 2, ([v, size]) => bin(v, size)),
+  now: fn(0, 0, () => new Date()),
+  ago: fn(1, 1, ([span]) => {
+    const ms = toNumber(span);
+    return ms === null ? null : dateAt(Date.now() - ms);
+  }),
+  startofday: fn(1, 1, ([d]) => bin(toDate(d), DAY_MS)),
+  startofhour: fn(1, 1, ([d]) => bin(toDate(d), SPAN_UNITS.h)),
+  startofmonth: fn(1, 1, ([d]) => {
+    const date = toDate(d);
+    return date && new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }),
+  hourofday: fn(1, 1, ([d]) => toDate(d)?.getUTCHours() ?? null),
+  dayofmonth: fn(1, 1, ([d]) => toDate(d)?.getUTCDate() ?? null),
+  getyear: fn(1, 1, ([d]) => toDate(d)?.getUTCFullYear() ?? null),
+  getmonth: fn(1, 1, ([d]) => mapNumber(toDate(d)?.getUTCMonth() ?? null, month => month + 1)),
+  format_datetime: fn(2, 2, ([d, format]) => {
+    const date = toDate(d);
+    return date && formatDate(date, toText(format));
+  })
+};
+
+interface Accumulator {
+  add(args: QueryValue[]): void;
+  result(): QueryValue;
+}
+
+interface Aggregate {
+  min: number;
+  max: number;
+  create: (constants: QueryValue[]) => Accumulator;
+}
+
+// Smallest or largest value seen
+function extreme(sign: 1 | -1): Accumulator {
+  let best: QueryValue = null;
+  return {
+    add([v]) {
+      if (v === null || v === '') return;
+      if (best === null || (compareValues(v, best) ?? 0) * sign > 0) best = v;
+    },
+    result: () => best
+  };
+}
+
+const AGGREGATES: Record<string, Aggregate> = {
+  count: { min: 0, max: 0, create: () => {
+    let n = 0;
+    return { add: () => { n++; }, result: () => n };
+  } },
+  countif: { min: 1, max: 1, create: () => {
+    let n = 0;
+    return { add: ([v]) => { if (truthy(v)) n++; }, result: () => n };
+  } },
+  dcount: { min: 1, max: 1, create: () => {
+    const seen = new Set<string>();
+    return { add: ([v]) => { seen.add(valueKey(v)); }, result: () => seen.size };
+  } },
+  sum: { min: 1, max: 1, create: () => {
+    let total = 0;
+    return { add: ([v]) => { total += toNumber(v) ?? 0; }, result: () => total };
+  } },
+  avg: { min: 1, max: 1, create: () => {
+    let total = 0;
+    let n = 0;
+    return {
+      add: ([v]) => {
+        const number = toNumber(v);
+        if (number === null) return;
+        total += number;
+        n++;
+      },
+      result: () => (n > 0 ? total / n : null)
+    };
+  } },
+  min: { min: 1, max: 1, create: () => extreme(-1) },
+  max: { min: 1, max: 1, create: () => extreme(1) },
+  percentile: { min: 2, max: 2, create: ([, p]) => {
+    const values: number[] = [];
+    return {
+      add: ([v]) => {
+        const number = toNumber(v);
+        if (number !== null) values.push(number);
+      },
+      // Nearest rank, as Log Analytics reports it
+      result: () => {
+        if (values.length === 0) return null;
+        values.sort((a, b) => a - b);
+        const rank = Math.ceil(((toNumber(p) ?? 50) / 100) * values.length);
+        return values[Math.min(values.length - 1, Math.max(0, rank - 1))];
+      }
+    };
+  } }
+};
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+// Fields derived at ingestion, under their Application Insights names
+const LOG_FIELDS: Record<string, (log: LogEntry) => QueryValue> = {
+  timestamp: log => {
+    const ms = getTimestampMs(log);
+    return isNaN(ms) ? null : new Date(ms);
+  },
+  severityLevel: log => log._severity,
+  message: log => log._message,
+  itemCount: log => log._itemCount ?? 1,
+  itemType: log => log._itemType ?? null,
+  operation_Id: log => log._operationId ?? null,
+  serverRole: log => log._serverRole ?? null,
+  duration: log => log._duration ?? null,
+  resultCode: log => log._resultCode ?? null,
+  url: log => log._url ?? null
+};
+
+// A row is a log entry plus columns computed by the query; after project or
+// summarize only computed columns remain
+interface Row {
+  log: LogEntry | null;
+  values: Record<string, QueryValue> | null;
+  ids: number[] | null; // Just the log's id when null
+}
+
+interface Table {
+  columns: string[];
+  rows: Row[];
+}
+
+function rowIds(row: Row): number[] {
+  return row.ids ?? (row.log ? [row.log._id] : []);
+}
+
+function lookup(row: Row, name: string): QueryValue {
+  if (row.values && name in row.values) return row.values[name];
+  if (!row.log) return null;
+  // A derived field left empty falls back to the file's own column
+  const value = LOG_FIELDS[name]?.(row.log) ?? null;
+  return value !== null ? value : getRawValue(row.log, name);
+}
+
+// Rejects unknown columns and functions before any row is read
+function check(expr: Expr, columns: Set<string>, aggregates = false) {
+  switch (expr.kind) {
+    case 'column':
+      if (!columns.has(expr.name)) throw new QueryError(`Unknown column '${expr.name}'`);
+      return;
+    case 'call': {
+      const aggregate = AGGREGATES[expr.name];
+      const scalar = FUNCTIONS[expr.name];
+      const spec = aggregate ?? scalar;
+      if (!spec) throw new QueryError(`Unknown function '${expr.name}()'`);
+      if (aggregate && !aggregates) throw new QueryError(`${expr.name}() can only be used in summarize`);
+      if (expr.args.length < spec.min || expr.args.length > spec.max) {
+        throw new QueryError(`${expr.name}() takes ${spec.min === spec.max ? spec.min : `${spec.min} to ${spec.max}`} argument(s)`);
+      }
+      expr.args.forEach(arg => check(arg, columns));
+      return;
+    }
+    case 'negate':
+      return check(expr.operand, columns);
+    case 'binary':
+      check(expr.left, columns);
+      return check(expr.right, columns);
+    case 'in':
+      check(expr.operand, columns);
+      return expr.list.forEach(item => check(item, columns));
+    case 'between':
+      check(expr.operand, columns);
+      check(expr.low, columns);
+      return check(expr.high, columns);
+  }
+}
+
+function evaluate(expr: Expr, row: Row): QueryValue {
+  switch (expr.kind) {
+    case 'literal':
+      return expr.value;
+    case 'column':
+      return lookup(row, expr.name);
+    case 'call':
+      return FUNCTIONS[expr.name].apply(expr.args.map(arg => evaluate(arg, row)));
+    case 'negate':
+      return mapNumber(evaluate(expr.operand, row), n => -n);
+    case 'binary':
+      if (expr.op === 'and') return truthy(evaluate(expr.left, row)) && truthy(evaluate(expr.right, row));
+      if (expr.op === 'or') return truthy(evaluate(expr.left, row)) || truthy(evaluate(expr.right, row));
+      return applyBinary(expr.op, evaluate(expr.left, row), evaluate(expr.right, row));
+    case 'in': {
+      const value = evaluate(expr.operand, row);
+      return expr.list.some(item => compareValues(value, evaluate(item, row)) === 0) !== expr.negated;
+    }
+    case 'between': {
+      const value = evaluate(expr.operand, row);
+      const low = compareValues(value, evaluate(expr.low, row));
+      const high = compareValues(value, evaluate(expr.high, row));
+      return (low !== null && high !== null && low >= 0 && high <= 0) !== expr.negated;
+    }
+  }
+}
+
+function checkItems(items: NamedExpr[], columns: string[]) {
+  const known = new Set(columns);
+  items.forEach(item => check(item.expr, known));
+}
+
+function project(table: Table, items: NamedExpr[], keep: boolean): Table {
+  checkItems(items, table.columns);
+  const rows = table.rows.map(row => {
+    const values: Record<string, QueryValue> = keep ? { ...row.values } : {};
+    for (const item of items) values[item.name] = evaluate(item.expr, row);
+    return { log: keep ? row.log : null, values, ids: keep ? row.ids : rowIds(row) };
+  });
+  const names = items.map(item => item.name);
+  const columns = keep ? [...table.columns.filter(c => !names.includes(c)), ...names] : Array.from(new Set(names));
+  return { columns, rows };
+}
+
+function summarize(table: Table, aggregates: NamedExpr[], keys: NamedExpr[]): Table {
+  const known = new Set(table.columns);
+  keys.forEach(key => check(key.expr, known));
+  aggregates.forEach(item => {
+    if (item.expr.kind !== 'call' || !(item.expr.name in AGGREGATES)) throw new QueryError(`'${item.name}' is not an aggregation such as count()`);
+    check(item.expr, known, true);
+  });
+  const calls = aggregates.map(item => item.expr as { name: string; args: Expr[] });
+  // Arguments after the first (percentile's p) are read once, as constants
+  const constants = calls.map(call => call.args.map(arg => (arg.kind === 'literal' ? arg.value : null)));
+
+  const groups = new Map<string, { keys: QueryValue[]; accumulators: Accumulator[]; ids: number[] }>();
+  const newGroup = (values: QueryValue[]) => ({
+    keys: values,
+    accumulators: calls.map((call, i) => AGGREGATES[call.name].create(constants[i])),
+    ids: [] as number[]
+  });
+  if (keys.length === 0) groups.set('', newGroup([]));
+
+  for (const row of table.rows) {
+    const values = keys.map(key => evaluate(key.expr, row));
+    const id = values.map(valueKey).join('\u0001');
+    let group = groups.get(id);
+    if (!group) groups.set(id, group = newGroup(values));
+    calls.forEach((call, i) => group!.accumulators[i].add(call.args.map(arg => evaluate(arg, row))));
+    for (const logId of rowIds(row)) group.ids.push(logId);
+  }
+
+  const columns = Array.from(new Set([...keys, ...aggregates].map(item => item.name)));
+  const rows = Array.from(groups.values(), group => {
+    const values: Record<string, QueryValue> = {};
+    keys.forEach((key, i) => { values[key.name] = group.keys[i]; });
+    aggregates.forEach((item, i) => { values[item.name] = group.accumulators[i].result(); });
+    return { log: null, values, ids: group.ids };
+  });
+  return { columns, rows };
+}
+
+// Nulls and empty cells sort last in either direction
+function sortRows(table: Table, keys: SortKey[]): Table {
+  const known = new Set(table.columns);
+  keys.forEach(key => check(key.expr, known));
+  const decorated = table.rows.map(row => ({ row, values: keys.map(key => evaluate(key.expr, row)).map(v => (v === '' ? null : v)) }));
+  decorated.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const x = a.values[i];
+      const y = b.values[i];
+      if (x === null || y === null) {
+        if (x !== y) return x === null ? 1 : -1;
+        continue;
+      }
+      const order = compareValues(x, y) ?? 0;
+      if (order !== 0) return keys[i].ascending ? order : -order;
+    }
+    return 0;
+  });
+  return { columns: table.columns, rows: decorated.map(item => item.row) };
+}
+
+function columnType(rows: QueryValue[][], index: number): QueryColumn['type'] {
+  for (const row of rows) {
+    const value = row[index];
+    if (value === null) continue;
+    if (value instanceof Date) return 'datetime';
+    if (typeof value === 'number') return 'number';
+    if (typeof value === 'boolean') return 'bool';
+    return 'string';
+  }
+  return 'string';
+}
+
+// Runs a query over the loaded rows. fileColumns are the file's own columns,
+// readable next to the derived fields (timestamp, severityLevel, message, ...).
+export function runQuery(query: string, logs: LogEntry[], fileColumns: string[]): QueryResult {
+  const stages = parseQuery(query);
+  let table: Table = {
+    columns: Array.from(new Set([...Object.keys(LOG_FIELDS), ...fileColumns])),
+    rows: logs.map(log => ({ log, values: null, ids: null }))
+  };
+  let render: QueryRender = 'table';
+
+  for (const stage of stages) {
+    switch (stage.kind) {
+      case 'where': {
+        check(stage.predicate, new Set(table.columns));
+        table = { columns: table.columns, rows: table.rows.filter(row => truthy(evaluate(stage.predicate, row))) };
+        break;
+      }
+      case 'project':
+        table = project(table, stage.items, false);
+        break;
+      case 'extend':
+        table = project(table, stage.items, true);
+        break;
+      case 'project-away': {
+        for (const name of stage.names) {
+          if (!table.columns.includes(name)) throw new QueryError(`Unknown column '${name}'`);
+        }
+        table = { columns: table.columns.filter(c => !stage.names.includes(c)), rows: table.rows };
+        break;
+      }
+      case 'summarize':
+        table = summarize(table, stage.aggregates, stage.keys);
+        break;
+      case 'distinct':
+        table = summarize(table, [], stage.items);
+        break;
+      case 'sort':
+        table = sortRows(table, stage.keys);
+        if (stage.limit !== undefined) table = { columns: table.columns, rows: table.rows.slice(0, stage.limit) };
+        break;
+      case 'take':
+        table = { columns: table.columns, rows: table.rows.slice(0, stage.count) };
+        break;
+      case 'count':
+        table = summarize(table, [{ name: 'Count', expr: { kind: 'call', name: 'count', args: [] } }], []);
+        break;
+      case 'render':
+        render = stage.render;
+        break;
+    }
+  }
+
+  const shown = table.rows.slice(0, MAX_RESULT_ROWS);
+  const rows = shown.map(row => table.columns.map(name => lookup(row, name)));
+  const ids = new Set<number>();
+  for (const row of table.rows) {
+    for (const id of rowIds(row)) ids.add(id);
+  }
+  return {
+    columns: table.columns.map((name, i) => ({ name, type: columnType(rows, i) })),
+    rows,
+    rowIds: shown.map(rowIds),
+    ids: Array.from(ids),
+    total: table.rows.length,
+    render
+  };
+}
+
+// =============================================================================
+// Charts
+// =============================================================================
+
+// Series drawn for one result
+const MAX_SERIES = 10;
+
+export interface QueryChart {
+  time: boolean; // x values are epoch milliseconds
+  series: string[];
+  points: { x: number | string; values: Record<string, number> }[];
+}
+
+// Chart of a result: the first datetime (else string) column along x, the
+// numeric columns as series. With one numeric column, another string column
+// splits it into a series per value, as `summarize count() by bin(timestamp,
+// 5m), serverRole` renders in Log Analytics. Null when nothing is numeric.
+export function toChart(result: QueryResult): QueryChart | null {
+  const { columns, rows } = result;
+  let x = columns.findIndex(c => c.type === 'datetime');
+  if (x < 0) x = columns.findIndex(c => c.type === 'string');
+  const numeric = columns.map((_, i) => i).filter(i => i !== x && columns[i].type === 'number');
+  if (x < 0 || numeric.length === 0) return null;
+  const time = columns[x].type === 'datetime';
+  const xValue = (row: QueryValue[]) => (time ? toNumber(row[x]) ?? 0 : toText(row[x]));
+
+  const split = numeric.length === 1 ? columns.findIndex((c, i) => i !== x && c.type === 'string') : -1;
+  let series = numeric.map(i => columns[i].name);
+  if (split >= 0) {
+    const totals = new Map<string, number>();
+    for (const row of rows) totals.set(toText(row[split]), (totals.get(toText(row[split])) ?? 0) + (toNumber(row[numeric[0]]) ?? 0));
+    series = Array.from(totals.keys()).sort((a, b) => totals.get(b)! - totals.get(a)!).slice(0, MAX_SERIES);
+  }
+
+  const points = new Map<string | number, QueryChart['points'][number]>();
+  for (const row of rows) {
+    const key = xValue(row);
+    let point = points.get(key);
+    if (!point) points.set(key, point = { x: key, values: {} });
+    const { values } = point;
+    if (split >= 0) {
+      const name = toText(row[split]);
+      if (series.includes(name)) values[name] = (values[name] ?? 0) + (toNumber(row[numeric[0]]) ?? 0);
+    } else {
+      numeric.forEach(i => { values[columns[i].name] = toNumber(row[i]) ?? 0; });
+    }
+  }
+
+  const sorted = Array.from(points.values());
+  if (time) sorted.sort((a, b) => (a.x as number) - (b.x as number));
+  return { time, series, points: sorted };
+}
+
+export function formatQueryValue(value: QueryValue): string {
+  if (typeof value === 'number' && !Number.isInteger(value)) return String(Math.round(value * 1000) / 1000);
+  return toText(value);
+}
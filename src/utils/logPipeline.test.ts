@@ -0,0 +1,518 @@
+import { describe, it, expect } from 'vitest';
+import {
+  deriveLogFields,
+  detectColumnMapping,
+  detectTableKind,
+  deriveSeverity,
+  parseDuration,
+  parseItemCount,
+  createColumnarIngestor,
+  resolveColumnMapping,
+  remapColumnar,
+} from './logPipeline';
+import { parseCSV, buildParsedData } from './csvParser';
+import { parseQueryResult } from './jsonParser';
+import { createCsvStreamParser } from './csvStream';
+import { hydrateLogs } from './columnarLogs';
+import { loadMappingProfiles, saveMappingProfile } from './mappingProfiles';
+import { LogEntry, MappingProfile } from '../types';
+
+// =============================================================================
+// Helpers: run both parsing paths and reduce entries to comparable records
+// =============================================================================
+function snapshot(logs: LogEntry[]) {
+  return logs.map(l => ({
+    id: l._id,
+    timestamp: l._timestamp ? l._timestamp.getTime() : null,
+    severity: l._severity,
+    message: l._message,
+    serverRole: l._serverRole,
+    operationId: l._operationId,
+    fileIndex: l._fileIndex,
+    itemType: l._itemType,
+    duration: l._duration,
+    resultCode: l._resultCode,
+    success: l._success,
+    url: l._url,
+    method: l._method,
+    subStatus: l._subStatus,
+    target: l._target,
+    dependencyType: l._dependencyType,
+    exceptionType: l._exceptionType,
+    problemId: l._problemId,
+    source: l._source,
+    itemCount: l._itemCount,
+    raw: { ...l._raw },
+  }));
+}
+
+// Same steps csvWorker takes: chunked CSV text -> ingestor -> columnar -> hydrate
+function runWorkerCSVPath(text: string, fileIndex: number, chunkSize = 17, profiles: MappingProfile[] = []) {
+  const ingestor = createColumnarIngestor(fileIndex, profiles);
+  const parser = createCsvStreamParser((rows, columns) => ingestor.addRows(rows, columns));
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.push(text.slice(i, i + chunkSize));
+  }
+  parser.finish();
+  const result = ingestor.finish();
+  return { logs: hydrateLogs(result.data), data: result.data, columns: result.columns, mapping: result.mapping, profileName: result.profileName };
+}
+
+const CSV = [
+  'timestamp [UTC],message,severityLevel,operation_Id,customDimensions',
+  '2024-01-15T10:00:00Z,Request started,1,op-1,"{""InstanceName"":""web-CD-01""}"',
+  '2024-01-15T10:00:05Z,"Timeout calling /api/orders, retrying",2,op-1,"{""InstanceName"":""web-CD-01""}"',
+  '2024-01-15T10:00:09Z,Publish failed,3,op-2,"{""InstanceName"":""web-CM-01""}"',
+  ',No timestamp,Critical,,"{""InstanceName"":""proc-XP-01""}"',
+  '2024-01-15T09:59:00Z,Startup,Information,,',
+  '2024-01-15T10:01:00Z,Unknown host,0,op-3,"{""InstanceName"":""worker-01""}"',
+].join('\n');
+
+// =============================================================================
+// deriveLogFields
+// =============================================================================
+describe('deriveLogFields', () => {
+  const columns = ['timestamp', 'severityLevel', 'message', 'operation_Id', 'customDimensions'];
+  const mapping = detectColumnMapping(columns);
+
+  it('should derive every LogEntry field from a row', () => {
+    const fields = deriveLogFields({
+      timestamp: '2024-01-15T10:00:00Z',
+      severityLevel: '3',
+      message: 'Boom',
+      operation_Id: 'abc',
+      customDimensions: '{"InstanceName":"site-CM-01"}',
+      'customDimensions.InstanceName': 'site-CM-01',
+    }, 4, columns, mapping);
+
+    expect(fields).toEqual({
+      id: 4,
+      timestamp: new Date('2024-01-15T10:00:00Z'),
+      timestampMs: Date.parse('2024-01-15T10:00:00Z'),
+      severity: 3,
+      message: 'Boom',
+      serverRole: 'CM',
+      operationId: 'abc',
+    });
+  });
+
+  it('should leave an empty operation ID undefined', () => {
+    const fields = deriveLogFields({ timestamp: '', severityLevel: '1', message: 'x', operation_Id: '', customDimensions: '' }, 0, columns, mapping);
+
+    expect(fields.operationId).toBeUndefined();
+    expect(fields.serverRole).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Parity: parseCSV / parseJSON (main thread) vs csvWorker pipeline
+// =============================================================================
+describe('main thread and worker parsing parity', () => {
+  it('should produce identical entries for CSV input', async () => {
+    const main = await parseCSV(new File([CSV], 'sample.csv', { type: 'text/csv' }), 1);
+    const worker = runWorkerCSVPath(CSV, 1);
+
+    expect(worker.columns).toEqual(main.columns);
+    expect(worker.mapping).toEqual(main.detectedMapping);
+    expect(snapshot(worker.logs)).toEqual(snapshot(main.logs));
+  });
+
+  it('should populate operation IDs on the worker path', () => {
+    const { logs, mapping } = runWorkerCSVPath(CSV, 0);
+
+    expect(mapping.operationId).toBe('operation_Id');
+    expect(logs.filter(l => l._operationId === 'op-1')).toHaveLength(2);
+  });
+
+  it('should classify server roles the same way on both paths', async () => {
+    const main = await parseCSV(new File([CSV], 'sample.csv', { type: 'text/csv' }), 0);
+    const worker = runWorkerCSVPath(CSV, 0);
+
+    const roles = (logs: LogEntry[]) => logs.map(l => [l._message, l._serverRole]);
+    expect(roles(worker.logs)).toEqual(roles(main.logs));
+    expect(new Set(worker.logs.map(l => l._serverRole))).toEqual(new Set(['CD', 'CM', 'XP', 'Other', undefined]));
+  });
+
+  it('should not depend on how the worker chunks the input', () => {
+    const reference = snapshot(runWorkerCSVPath(CSV, 0, CSV.length).logs);
+
+    for (const size of [1, 5, 64]) {
+      expect(snapshot(runWorkerCSVPath(CSV, 0, size).logs)).toEqual(reference);
+    }
+  });
+
+  it('should produce identical entries for JSON query results', () => {
+    const json = JSON.stringify({
+      tables: [{
+        name: 'PrimaryResult',
+        columns: [{ name: 'timestamp' }, { name: 'message' }, { name: 'severityLevel' }, { name: 'operation_Id' }, { name: 'customDimensions' }],
+        rows: [
+          ['2024-01-15T10:00:00Z', 'a', 1, 'op-1', { InstanceName: 'x-CD-1' }],
+          ['2024-01-15T10:05:00Z', 'b', 3, null, null],
+        ],
+      }],
+    });
+    const { columns, rows } = parseQueryResult(json);
+
+    const main = buildParsedData(rows, columns, 0);
+    const ingestor = createColumnarIngestor(0);
+    ingestor.addRows(rows, columns);
+    const worker = hydrateLogs(ingestor.finish().data);
+
+    expect(snapshot(worker)).toEqual(snapshot(main.logs));
+  });
+
+  it('should keep columns for a header-only file', () => {
+    const { logs, columns, mapping } = runWorkerCSVPath('timestamp,message\n', 0);
+
+    expect(logs).toHaveLength(0);
+    expect(columns).toEqual(['timestamp', 'message']);
+    expect(mapping.timestamp).toBe('timestamp');
+  });
+});
+
+// =============================================================================
+// requests / dependencies / exceptions / pageViews exports
+// =============================================================================
+const REQUESTS_CSV = [
+  'timestamp [UTC],id,name,url,success,resultCode,duration,performanceBucket,operation_Id',
+  '2024-01-15T10:00:00Z,r1,GET /api/orders/5,https://shop.example.com/api/orders/5,False,500,1234.5,1sec-3sec,op-1',
+  '2024-01-15T10:00:01Z,r2,GET /api/cart,https://shop.example.com/api/cart,False,404,12,<250ms,op-2',
+  '2024-01-15T10:00:02Z,r3,GET /,https://shop.example.com/,True,200,8,<250ms,op-3',
+].join('\n');
+
+describe('detectTableKind', () => {
+  it('should recognise each App Insights table from its headers', () => {
+    expect(detectTableKind(['timestamp', 'name', 'url', 'success', 'resultCode', 'duration'])).toBe('request');
+    expect(detectTableKind(['timestamp', 'target', 'type', 'name', 'data', 'success', 'resultCode', 'duration'])).toBe('dependency');
+    expect(detectTableKind(['timestamp', 'problemId', 'type', 'outerMessage', 'details', 'severityLevel'])).toBe('exception');
+    expect(detectTableKind(['timestamp', 'name', 'url', 'duration', 'performanceBucket'])).toBe('pageView');
+    expect(detectTableKind(['timestamp', 'message', 'severityLevel'])).toBe('trace');
+  });
+
+  it('should recognise workspace-based column names', () => {
+    expect(detectTableKind(['TimeGenerated', 'Name', 'Url', 'Success', 'ResultCode', 'DurationMs'])).toBe('request');
+    expect(detectTableKind(['TimeGenerated', 'Target', 'DependencyType', 'DurationMs'])).toBe('dependency');
+    expect(detectTableKind(['TimeGenerated', 'ProblemId', 'ExceptionType', 'OuterMessage'])).toBe('exception');
+  });
+
+  it('should treat HTTP server logs as requests', () => {
+    expect(detectTableKind(['timestamp', 'cs-method', 'cs-uri-stem', 'sc-status', 'sc-substatus'])).toBe('request');
+    expect(detectTableKind(['TimeGenerated', 'CsMethod', 'CsUriStem', 'ScStatus', 'ScSubStatus', 'TimeTaken'])).toBe('request');
+  });
+});
+
+describe('detectColumnMapping for telemetry tables', () => {
+  it('should not treat the dependency type column as severity', () => {
+    const mapping = detectColumnMapping(['timestamp', 'target', 'type', 'name', 'success', 'resultCode', 'duration']);
+
+    expect(mapping.tableKind).toBe('dependency');
+    expect(mapping.severity).toBe('');
+    expect(mapping.dependencyType).toBe('type');
+    expect(mapping.target).toBe('target');
+  });
+
+  it('should use outerMessage rather than the details blob for exceptions', () => {
+    const mapping = detectColumnMapping(['timestamp', 'problemId', 'type', 'outerMessage', 'details', 'severityLevel']);
+
+    expect(mapping.message).toBe('outerMessage');
+    expect(mapping.severity).toBe('severityLevel');
+    expect(mapping.exceptionType).toBe('type');
+  });
+
+  it('should not take severity from an itemType column', () => {
+    expect(detectColumnMapping(['timestamp', 'itemType', 'message']).severity).toBe('');
+  });
+
+  it('should leave plain trace exports unchanged', () => {
+    const mapping = detectColumnMapping(['timestamp', 'message', 'severityLevel']);
+
+    expect(mapping).toEqual({ timestamp: 'timestamp', severity: 'severityLevel', message: 'message', operationId: '', tableKind: 'trace' });
+  });
+});
+
+describe('AppServiceHTTPLogs ingestion', () => {
+  it('should map the HTTP columns onto request fields', () => {
+    const columns = ['TimeGenerated', 'CsMethod', 'CsUriStem', 'ScStatus', 'ScSubStatus', 'TimeTaken', 'CsHost'];
+    const parsed = buildParsedData([{
+      TimeGenerated: '2024-01-15T10:00:00Z',
+      CsMethod: 'GET',
+      CsUriStem: '/api/orders/5',
+      ScStatus: '503',
+      ScSubStatus: '0',
+      TimeTaken: '2000',
+      CsHost: 'shop.example.com'
+    }], columns);
+
+    expect(parsed.detectedMapping).toMatchObject({ timestamp: 'TimeGenerated', severity: '', message: '', tableKind: 'request' });
+    expect(parsed.logs[0]).toMatchObject({
+      _method: 'GET',
+      _url: '/api/orders/5',
+      _resultCode: '503',
+      _duration: 2000,
+      _severity: 3,
+      _message: 'GET /api/orders/5 returned 503 in 2000 ms'
+    });
+  });
+});
+
+describe('deriveSeverity', () => {
+  it('should grade failed requests by result code', () => {
+    expect(deriveSeverity('request', false, '500')).toBe(3);
+    expect(deriveSeverity('request', false, '404')).toBe(2);
+    expect(deriveSeverity('request', true, '200')).toBe(1);
+    expect(deriveSeverity('request', undefined, '503')).toBe(3);
+  });
+
+  it('should treat every failed dependency and every exception as an error', () => {
+    expect(deriveSeverity('dependency', false, '404')).toBe(3);
+    expect(deriveSeverity('dependency', true, '200')).toBe(1);
+    expect(deriveSeverity('exception')).toBe(3);
+    expect(deriveSeverity('pageView')).toBe(1);
+  });
+});
+
+describe('parseDuration', () => {
+  it('should read milliseconds and .NET TimeSpans', () => {
+    expect(parseDuration('1234.5')).toBe(1234.5);
+    expect(parseDuration('00:00:01.5')).toBe(1500);
+    expect(parseDuration('1.02:00:00')).toBe(26 * 3600000);
+    expect(parseDuration('')).toBeUndefined();
+    expect(parseDuration('n/a')).toBeUndefined();
+  });
+});
+
+describe('sampling itemCount', () => {
+  it('should parse whole event counts', () => {
+    expect(parseItemCount('12')).toBe(12);
+    expect(parseItemCount('1')).toBe(1);
+    expect(parseItemCount('0')).toBeUndefined();
+    expect(parseItemCount('')).toBeUndefined();
+    expect(parseItemCount('n/a')).toBeUndefined();
+  });
+
+  it('should carry itemCount through the worker and main-thread paths', async () => {
+    const csv = 'timestamp,message,severityLevel,itemCount\n2024-01-15T10:00:00Z,sampled,3,25\n2024-01-15T10:00:01Z,kept,1,\n';
+    const { logs, mapping } = runWorkerCSVPath(csv, 0);
+    const main = await parseCSV(new File([csv], 'sampled.csv', { type: 'text/csv' }), 0);
+
+    expect(mapping.itemCount).toBe('itemCount');
+    expect(Object.fromEntries(logs.map(l => [l._message, l._itemCount]))).toEqual({ sampled: 25, kept: undefined });
+    expect(snapshot(main.logs)).toEqual(snapshot(logs));
+  });
+});
+
+describe('saved mapping profiles', () => {
+  it('should apply a profile saved from a file with customDimensions when it is loaded again', () => {
+    localStorage.clear();
+    const first = runWorkerCSVPath(CSV, 0);
+    expect(first.columns).toContain('customDimensions.InstanceName');
+
+    // What the dashboard saves: the loaded columns, flattened ones included
+    const mapping = { ...first.mapping, operationId: 'customDimensions.InstanceName' };
+    saveMappingProfile({ name: 'Instances', columns: first.columns, mapping, updatedAt: 1 });
+    const again = runWorkerCSVPath(CSV, 0, 17, loadMappingProfiles());
+
+    expect(again.profileName).toBe('Instances');
+    expect(again.mapping.operationId).toBe('customDimensions.InstanceName');
+    expect(again.logs.find(l => l._message === 'Publish failed')?._operationId).toBe('web-CM-01');
+    localStorage.clear();
+  });
+});
+
+describe('partial snapshots', () => {
+  it('should snapshot the rows added so far and keep adding after it', () => {
+    const ingestor = createColumnarIngestor(0);
+    const parser = createCsvStreamParser((rows, columns) => ingestor.addRows(rows, columns));
+    expect(ingestor.snapshot()).toBeNull();
+
+    const half = CSV.indexOf('\n,No timestamp');
+    parser.push(CSV.slice(0, half + 1));
+    const partial = ingestor.snapshot()!;
+    parser.push(CSV.slice(half + 1));
+    parser.finish();
+    const complete = ingestor.finish();
+
+    expect(partial.data.count).toBe(3);
+    expect(partial.mapping.timestamp).toBe('timestamp [UTC]');
+    expect(hydrateLogs(partial.data).map(l => l._id)).toEqual([2, 1, 0]);
+    expect(complete.data.count).toBe(6);
+    expect(ingestor.count).toBe(6);
+    expect(snapshot(hydrateLogs(complete.data))).toEqual(snapshot(runWorkerCSVPath(CSV, 0).logs));
+  });
+});
+
+describe('telemetry table ingestion', () => {
+  it('should derive severity and an API-friendly message for requests', () => {
+    const { logs } = runWorkerCSVPath(REQUESTS_CSV, 0);
+    const [ok, notFound, failed] = logs;
+
+    expect(failed._itemType).toBe('request');
+    expect(failed._severity).toBe(3);
+    expect(failed._success).toBe(false);
+    expect(failed._duration).toBe(1234.5);
+    expect(failed._message).toBe('GET /api/orders/5 returned 500 in 1235 ms');
+    expect(notFound._severity).toBe(2);
+    expect(ok._severity).toBe(1);
+  });
+
+  it('should produce identical request entries on both paths', async () => {
+    const main = await parseCSV(new File([REQUESTS_CSV], 'requests.csv', { type: 'text/csv' }), 0);
+    const worker = runWorkerCSVPath(REQUESTS_CSV, 0);
+
+    expect(snapshot(worker.logs)).toEqual(snapshot(main.logs));
+  });
+
+  it('should describe dependencies by type, target and name', () => {
+    const ingestor = createColumnarIngestor(0);
+    ingestor.addRows([{
+      timestamp: '2024-01-15T10:00:00Z', type: 'HTTP', target: 'api.example.com', name: 'GET /api/stock',
+      success: 'False', resultCode: '503', duration: '2000',
+    }], ['timestamp', 'type', 'target', 'name', 'success', 'resultCode', 'duration']);
+    const [log] = hydrateLogs(ingestor.finish().data);
+
+    expect(log._severity).toBe(3);
+    expect(log._dependencyType).toBe('HTTP');
+    expect(log._target).toBe('api.example.com');
+    expect(log._message).toBe('HTTP api.example.com: GET /api/stock returned 503 in 2000 ms');
+  });
+
+  it('should type each row of a union export by its itemType', () => {
+    const columns = ['timestamp', 'itemType', 'message', 'severityLevel', 'name', 'success', 'resultCode', 'duration', 'url'];
+    const mapping = detectColumnMapping(columns);
+    const trace = deriveLogFields({ timestamp: '', itemType: 'trace', message: 'hi', severityLevel: '2', name: '', success: '', resultCode: '', duration: '', url: '' }, 0, columns, mapping);
+    const request = deriveLogFields({ timestamp: '', itemType: 'request', message: '', severityLevel: '', name: 'POST /api/pay', success: 'False', resultCode: '502', duration: '10', url: '' }, 1, columns, mapping);
+
+    expect(trace).toMatchObject({ itemType: 'trace', severity: 2, message: 'hi' });
+    expect(request).toMatchObject({ itemType: 'request', severity: 3, resultCode: '502', message: 'POST /api/pay returned 502 in 10 ms' });
+  });
+});
+
+// =============================================================================
+// Timestamps
+// =============================================================================
+describe('timestamp handling', () => {
+  const PORTAL_CSV = [
+    'timestamp,message',
+    '"1/15/2024, 10:00:00.000 AM",first',
+    '"1/15/2024, 10:00:00.0005 AM",second',
+    '2024-01-15T09:00:00Z,iso',
+  ].join('\n');
+
+  it('should order rows by sub-millisecond precision on both paths', async () => {
+    const main = await parseCSV(new File([PORTAL_CSV], 'portal.csv', { type: 'text/csv' }), 0);
+    const worker = runWorkerCSVPath(PORTAL_CSV, 0);
+
+    expect(worker.logs.map(l => l._message)).toEqual(['second', 'first', 'iso']);
+    expect(main.logs.map(l => l._message)).toEqual(['second', 'first', 'iso']);
+  });
+
+  it('should report mixed formats from the ingestor and buildParsedData', async () => {
+    const main = await parseCSV(new File([PORTAL_CSV], 'portal.csv', { type: 'text/csv' }), 0);
+    const ingestor = createColumnarIngestor(0);
+    const parser = createCsvStreamParser((rows, columns) => ingestor.addRows(rows, columns));
+    parser.push(PORTAL_CSV);
+    parser.finish();
+    const { warnings } = ingestor.finish();
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('mixes formats');
+    expect(main.warnings).toEqual(warnings);
+  });
+
+  it('should re-read offset-less timestamps in a new source zone on remap', () => {
+    const { data, mapping } = runWorkerCSVPath(PORTAL_CSV, 0);
+    const { data: remapped } = remapColumnar(data, { ...mapping, timeZone: 'America/New_York' });
+
+    const byMessage = new Map(hydrateLogs(remapped).map(l => [l._message, l._timestamp!.toISOString()]));
+    expect(byMessage.get('first')).toBe('2024-01-15T15:00:00.000Z');
+    expect(byMessage.get('iso')).toBe('2024-01-15T09:00:00.000Z');
+  });
+});
+
+// =============================================================================
+// Mapping profiles and remapping
+// =============================================================================
+describe('resolveColumnMapping', () => {
+  const columns = ['EventTime', 'type', 'Level', 'Text'];
+  const profile: MappingProfile = {
+    name: 'Custom',
+    columns,
+    mapping: { timestamp: 'EventTime', severity: 'Level', message: 'Text', operationId: '' },
+    updatedAt: 1,
+  };
+
+  it('should auto-detect when no profile matches', () => {
+    const result = resolveColumnMapping(columns, []);
+
+    expect(result.profileName).toBeUndefined();
+    expect(result.mapping).toEqual(detectColumnMapping(columns));
+  });
+
+  it('should use a profile saved for the same header set', () => {
+    const result = resolveColumnMapping(['Text', 'Level', 'type', 'EventTime'], [profile]);
+
+    expect(result.profileName).toBe('Custom');
+    expect(result.mapping.severity).toBe('Level');
+  });
+
+  it('should apply the profile in the worker ingestor', () => {
+    const ingestor = createColumnarIngestor(0, [profile]);
+    ingestor.addRows([{ EventTime: '2024-01-15T10:00:00Z', type: 'trace', Level: 'Warning', Text: 'hi' }], columns);
+    const result = ingestor.finish();
+
+    expect(result.profileName).toBe('Custom');
+    expect(hydrateLogs(result.data)[0]._severity).toBe(2);
+  });
+
+  it('should apply severity rules saved with the profile', () => {
+    const withRules: MappingProfile = {
+      ...profile,
+      mapping: { ...profile.mapping, severityRules: [{ match: 'range', value: '', min: 50, severity: 4 }] },
+    };
+    const ingestor = createColumnarIngestor(0, [withRules]);
+    ingestor.addRows([
+      { EventTime: '2024-01-15T10:00:00Z', type: 'trace', Level: '60', Text: 'disk full' },
+      { EventTime: '2024-01-15T10:00:01Z', type: 'trace', Level: 'Warning', Text: 'slow' },
+    ], columns);
+
+    expect(hydrateLogs(ingestor.finish().data).map(l => l._severity)).toEqual([2, 4]);
+  });
+});
+
+describe('remapColumnar', () => {
+  it('should re-derive fields from the raw cells without re-reading input', () => {
+    const { logs, data, mapping } = runWorkerCSVPath(CSV, 0);
+
+    // Point message at the operation ID column to prove fields are re-derived
+    const remapped = hydrateLogs(remapColumnar(data, {
+      ...mapping,
+      message: 'operation_Id',
+      severity: '',
+    }).data);
+
+    expect(remapped).toHaveLength(logs.length);
+    const byId = new Map(remapped.map(l => [l._id, l]));
+    logs.forEach(log => {
+      const after = byId.get(log._id)!;
+      expect(after._message).toBe(log._operationId ?? '');
+      expect(after._severity).toBe(1);
+      expect(after._raw).toEqual(log._raw);
+    });
+  });
+
+  it('should re-sort when the timestamp column changes', () => {
+    const ingestor = createColumnarIngestor(0);
+    ingestor.addRows([
+      { a: '2024-01-01T00:00:00Z', b: '2024-06-01T00:00:00Z', message: 'first' },
+      { a: '2024-02-01T00:00:00Z', b: '2024-03-01T00:00:00Z', message: 'second' },
+    ], ['a', 'b', 'message']);
+    const { data } = ingestor.finish();
+
+    const byA = hydrateLogs(remapColumnar(data, { timestamp: 'a', severity: '', message: 'message', operationId: '' }).data);
+    const byB = hydrateLogs(remapColumnar(data, { timestamp: 'b', severity: '', message: 'message', operationId: '' }).data);
+
+    expect(byA.map(l => l._message)).toEqual(['second', 'first']);
+    expect(byB.map(l => l._message)).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,413 @@
+import { ColumnMapping, ColumnarLogs, LogItemType, LogSummary, MappingProfile } from '../types';
+import { ColumnarRowFields, createColumnarBuilder, ColumnarBuilder, createLogReader, ITEM_TYPES } from './columnarLogs';
+import { findProfileForColumns, isMappingValid } from './mappingProfiles';
+import { createTimestampAudit, parseTimestampValue, TimestampAudit } from './timestamps';
+import { resolveSeverity } from './severityRules';
+import { createDynamicColumnTracker, DynamicColumnTracker } from './customDimensions';
+import { resolveServerRole } from './serverRoles';
+import { RowRange } from './csvStream';
+import { createSummaryBuilder, normalizeMessage } from './logSummary';
+
+export { parseSeverity } from './severityRules';
+
+// Shared parsing core. Both the main-thread parsers (parseCSV / parseJSON) and
+// the parsing worker derive LogEntry fields through this module, so new
+// fields only have to be added in one place.
+
+// Common column name variations for Azure App Insights
+const TIMESTAMP_PATTERNS = [
+  'timestamp', 'time', 'datetime', 'date', 'created', 'logged',
+  'eventtime', 'timegenerated', 'ingestiontime', 'clienttime',
+  'Timestamp', 'Time', 'DateTime', 'Date', 'TimeGenerated'
+];
+
+const SEVERITY_PATTERNS = [
+  'severitylevel', 'severity', 'level', 'loglevel', 'type',
+  'SeverityLevel', 'Severity', 'Level', 'LogLevel', 'Type'
+];
+
+const MESSAGE_PATTERNS = [
+  'message', 'msg', 'description', 'text', 'details', 'content',
+  'renderedmessage', 'innermostmessage', 'outermessage', 'problemid',
+  'Message', 'Msg', 'Description', 'Text', 'Details', 'RenderedMessage'
+];
+
+const OPERATION_PATTERNS = [
+  'operationid', 'operation_id', 'operationId', 'OperationId',
+  'requestid', 'request_id', 'requestId', 'RequestId',
+  'correlationid', 'correlation_id', 'correlationId', 'CorrelationId',
+  'traceid', 'trace_id', 'traceId', 'TraceId'
+];
+
+// Typed columns of the requests / dependencies / exceptions / pageViews tables,
+// in both the classic (duration) and workspace-based (DurationMs) spellings.
+// Requests also cover HTTP server logs: IIS W3C fields (time-taken) and
+// AppServiceHTTPLogs (TimeTaken). Matched exactly: names like "type" are far
+// too generic for partial matches.
+type TypedColumn = 'name' | 'duration' | 'resultCode' | 'success' | 'url' | 'method' | 'subStatus' |
+  'target' | 'dependencyType' | 'exceptionType' | 'problemId';
+
+const TYPED_COLUMN_PATTERNS: Record<LogItemType, Partial<Record<TypedColumn, string[]>>> = {
+  trace: {},
+  request: {
+    name: ['name'],
+    duration: ['duration', 'durationms', 'time-taken', 'timetaken'],
+    resultCode: ['resultcode', 'sc-status', 'scstatus'],
+    success: ['success'],
+    url: ['url', 'cs-uri-stem', 'csuristem'],
+    method: ['cs-method', 'csmethod'],
+    subStatus: ['sc-substatus', 'scsubstatus']
+  },
+  dependency: {
+    name: ['name'],
+    duration: ['duration', 'durationms'],
+    resultCode: ['resultcode'],
+    success: ['success'],
+    target: ['target'],
+    dependencyType: ['type', 'dependencytype']
+  },
+  exception: {
+    exceptionType: ['type', 'exceptiontype', 'outertype'],
+    problemId: ['problemid']
+  },
+  pageView: {
+    name: ['name'],
+    duration: ['duration', 'durationms'],
+    url: ['url']
+  }
+};
+
+// Exceptions carry their text in outerMessage; "details" is the parsed stack JSON
+const EXCEPTION_MESSAGE_PATTERNS = ['outermessage', 'innermostmessage', 'message', 'problemid'];
+
+function findColumn(columns: string[], patterns: string[]): string {
+  for (const pattern of patterns) {
+    const found = columns.find(c => c.toLowerCase() === pattern.toLowerCase());
+    if (found) return found;
+  }
+  for (const pattern of patterns) {
+    const found = columns.find(c => c.toLowerCase().includes(pattern.toLowerCase()));
+    if (found) return found;
+  }
+  return '';
+}
+
+function findExactColumn(columns: string[], patterns: string[]): string {
+  for (const pattern of patterns) {
+    const found = columns.find(c => c.toLowerCase() === pattern);
+    if (found) return found;
+  }
+  return '';
+}
+
+// Identify which App Insights table an export came from by its header set
+export function detectTableKind(columns: string[]): LogItemType {
+  const names = new Set(columns.map(c => c.toLowerCase()));
+  const has = (...candidates: string[]) => candidates.some(c => names.has(c));
+  const hasDuration = has('duration', 'durationms');
+
+  if (has('problemid', 'outermessage', 'innermostmessage', 'outertype')) return 'exception';
+  if (hasDuration && has('target')) return 'dependency';
+  if (hasDuration && has('resultcode')) return 'request';
+  if (has('sc-status', 'scstatus') && has('cs-uri-stem', 'csuristem')) return 'request';
+  if (hasDuration && has('url')) return 'pageView';
+  return 'trace';
+}
+
+export function detectColumnMapping(columns: string[]): ColumnMapping {
+  const tableKind = detectTableKind(columns);
+  // itemType holds "trace" / "request" / ..., which the "type" pattern would
+  // otherwise pick up as a severity
+  const severityCandidates = columns.filter(c => c.toLowerCase() !== 'itemtype');
+  const mapping: ColumnMapping = {
+    timestamp: findColumn(columns, TIMESTAMP_PATTERNS),
+    severity: findColumn(severityCandidates, SEVERITY_PATTERNS),
+    message: findColumn(columns, MESSAGE_PATTERNS),
+    operationId: findColumn(columns, OPERATION_PATTERNS),
+    tableKind,
+    // Every App Insights table carries it once sampling is on
+    itemCount: findExactColumn(columns, ['itemcount']) || undefined
+  };
+  if (tableKind === 'trace') return mapping;
+
+  // "type" is the dependency / exception type here, never a severity
+  mapping.severity = findColumn(severityCandidates, SEVERITY_PATTERNS.filter(p => p.toLowerCase() !== 'type'));
+  mapping.message = tableKind === 'exception'
+    ? findExactColumn(columns, EXCEPTION_MESSAGE_PATTERNS)
+    : findExactColumn(columns, ['message']);
+
+  // Union exports carry an itemType per row, so any table's columns may be present
+  mapping.itemType = findExactColumn(columns, ['itemtype']) || undefined;
+  const kinds: LogItemType[] = mapping.itemType ? ITEM_TYPES : [tableKind];
+  for (const kind of kinds) {
+    for (const [field, patterns] of Object.entries(TYPED_COLUMN_PATTERNS[kind]) as [TypedColumn, string[]][]) {
+      const column = findExactColumn(columns, patterns);
+      if (column && !mapping[field]) mapping[field] = column;
+    }
+  }
+  return mapping;
+}
+
+// A saved profile for this header set wins over auto-detection. Profiles saved
+// before typed columns existed only name the core fields, so detection fills
+// in the rest.
+export function resolveColumnMapping(
+  columns: string[],
+  profiles: MappingProfile[] = []
+): { mapping: ColumnMapping; profileName?: string } {
+  const profile = findProfileForColumns(profiles, columns);
+  if (profile && isMappingValid(profile.mapping, columns)) {
+    return { mapping: { ...detectColumnMapping(columns), ...profile.mapping }, profileName: profile.name };
+  }
+  return { mapping: detectColumnMapping(columns) };
+}
+
+export function parseTimestamp(value: string | undefined, timeZone?: string): Date | null {
+  const parsed = parseTimestampValue(value, timeZone);
+  return parsed ? new Date(parsed.ms) : null;
+}
+
+// Durations are milliseconds in both schemas; some exports use a .NET
+// TimeSpan ("00:00:01.2340000") instead
+export function parseDuration(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const span = /^(?:(\d+)\.)?(\d{1,2}):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(trimmed);
+  if (span) {
+    const [, days = '0', hours, minutes, seconds] = span;
+    return ((Number(days) * 24 + Number(hours)) * 60 + Number(minutes)) * 60000 + parseFloat(seconds) * 1000;
+  }
+  const ms = Number(trimmed);
+  return trimmed && !isNaN(ms) ? ms : undefined;
+}
+
+// itemCount is a whole number of events, 1 for rows sampling kept as-is
+export function parseItemCount(value: string | undefined): number | undefined {
+  const count = Math.round(Number((value || '').trim()));
+  return value && count >= 1 ? count : undefined;
+}
+
+function parseSuccess(value: string | undefined): boolean | undefined {
+  const str = (value || '').trim().toLowerCase();
+  if (str === 'true' || str === '1') return true;
+  if (str === 'false' || str === '0') return false;
+  return undefined;
+}
+
+// Without an itemType column, "trace" only means no other table matched, so
+// plain log files are left untyped
+function resolveItemType(row: Record<string, string>, mapping: ColumnMapping): LogItemType | undefined {
+  if (!mapping.itemType) return mapping.tableKind === 'trace' ? undefined : mapping.tableKind;
+  const value = (row[mapping.itemType] || '').trim().toLowerCase();
+  return ITEM_TYPES.find(t => t.toLowerCase() === value);
+}
+
+// Requests and dependencies have no severityLevel: a failed call is an error,
+// except failed requests with a 4xx code, which are client errors (warning)
+export function deriveSeverity(itemType: LogItemType | undefined, success?: boolean, resultCode?: string): number {
+  if (itemType === 'exception') return 3;
+  if (itemType !== 'request' && itemType !== 'dependency') return 1;
+
+  const code = parseInt(resultCode || '', 10);
+  const clientError = code >= 400 && code < 500;
+  if (success === false) return itemType === 'request' && clientError ? 2 : 3;
+  if (success === undefined) {
+    if (code >= 500) return 3;
+    if (clientError) return 2;
+  }
+  return 1;
+}
+
+// Message text for tables without a message column, phrased so the API
+// errors view can pick out the endpoint and status code
+function describeItem(itemType: LogItemType | undefined, name: string, fields: Partial<ColumnarRowFields>): string {
+  const subStatus = fields.subStatus && fields.subStatus !== '0' ? `.${fields.subStatus}` : '';
+  const status = fields.resultCode ? ` returned ${fields.resultCode}${subStatus}` : '';
+  const took = fields.duration !== undefined ? ` in ${Math.round(fields.duration)} ms` : '';
+
+  switch (itemType) {
+    case 'request':
+      return `${name || [fields.method, fields.url].filter(Boolean).join(' ')}${status}${took}`.trim();
+    case 'dependency': {
+      const prefix = [fields.dependencyType, fields.target].filter(Boolean).join(' ');
+      return `${prefix}${prefix && name ? ': ' : ''}${name}${status}${took}`.trim();
+    }
+    case 'exception':
+      return [fields.exceptionType, fields.problemId].filter(Boolean).join(': ');
+    case 'pageView':
+      return `Page view ${[name, fields.url].filter(Boolean).join(' ')}${took}`.trim();
+    default:
+      return '';
+  }
+}
+
+function deriveTypedFields(
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  itemType: LogItemType | undefined
+): Partial<ColumnarRowFields> {
+  if (!itemType || itemType === 'trace') return {};
+  const cell = (column: string | undefined) => (column && row[column]) || undefined;
+  const expects = TYPED_COLUMN_PATTERNS[itemType];
+
+  return {
+    duration: expects.duration ? parseDuration(cell(mapping.duration)) : undefined,
+    resultCode: expects.resultCode ? cell(mapping.resultCode) : undefined,
+    success: expects.success ? parseSuccess(cell(mapping.success)) : undefined,
+    url: expects.url ? cell(mapping.url) : undefined,
+    method: expects.method ? cell(mapping.method) : undefined,
+    subStatus: expects.subStatus ? cell(mapping.subStatus) : undefined,
+    target: expects.target ? cell(mapping.target) : undefined,
+    dependencyType: expects.dependencyType ? cell(mapping.dependencyType) : undefined,
+    exceptionType: expects.exceptionType ? cell(mapping.exceptionType) : undefined,
+    problemId: expects.problemId ? cell(mapping.problemId) : undefined
+  };
+}
+
+export function deriveLogFields(
+  row: Record<string, string>,
+  index: number,
+  columns: string[],
+  mapping: ColumnMapping,
+  audit?: TimestampAudit
+): ColumnarRowFields {
+  const rawTimestamp = mapping.timestamp ? row[mapping.timestamp] : undefined;
+  const parsedTime = parseTimestampValue(rawTimestamp, mapping.timeZone);
+  audit?.record(rawTimestamp, parsedTime);
+  const timestamp = parsedTime ? new Date(parsedTime.ms) : null;
+  const itemType = resolveItemType(row, mapping);
+  const typed = deriveTypedFields(row, mapping, itemType);
+
+  let severity = mapping.severity ? resolveSeverity(row[mapping.severity], mapping.severityRules) : 1;
+  if (itemType && itemType !== 'trace' && !(mapping.severity && row[mapping.severity])) {
+    severity = deriveSeverity(itemType, typed.success, typed.resultCode);
+  }
+
+  let message = mapping.message ? String(row[mapping.message] || '') : '';
+  if (!message && itemType && itemType !== 'trace') {
+    const name = (mapping.name && row[mapping.name]) || '';
+    message = describeItem(itemType, name, typed);
+  }
+  if (!mapping.message && !message) {
+    message = Object.values(row).find(v => typeof v === 'string' && String(v).length > 50) as string || '';
+  }
+
+  // Server role from the mapping's rules; rows arrive with customDimensions flattened
+  const serverRole = resolveServerRole(row, columns, mapping.serverRoleRules);
+
+  // Extract operation ID for correlation
+  const operationId = mapping.operationId ? row[mapping.operationId] : undefined;
+
+  return {
+    id: index,
+    timestamp,
+    timestampMs: parsedTime?.ms,
+    severity,
+    message,
+    serverRole,
+    operationId: operationId || undefined,
+    itemType,
+    itemCount: mapping.itemCount ? parseItemCount(row[mapping.itemCount]) : undefined,
+    ...typed
+  };
+}
+
+export interface ColumnarIngestResult {
+  data: ColumnarLogs;
+  transfer: ArrayBuffer[];
+  columns: string[];
+  mapping: ColumnMapping;
+  profileName?: string;
+  warnings: string[];
+  summary: LogSummary;
+}
+
+export interface ColumnarIngestor {
+  readonly count: number; // Rows added so far
+  addRows(rows: Record<string, string>[], columns: string[], ranges?: RowRange[]): void;
+  snapshot(): ColumnarIngestResult | null; // Rows added so far; null before the header
+  finish(): ColumnarIngestResult;
+}
+
+// Worker-side counterpart of buildParsedData: rows may arrive in batches,
+// and the mapping is detected from the header of the first batch. In
+// low-memory mode rows arrive with their byte ranges, and only the message
+// pattern is kept in place of the message. Stats and patterns are summarized
+// as rows are added.
+export function createColumnarIngestor(fileIndex?: number, profiles: MappingProfile[] = [], lowMemory = false): ColumnarIngestor {
+  let builder: ColumnarBuilder | null = null;
+  let columns: string[] = [];
+  let mapping = detectColumnMapping([]);
+  let profileName: string | undefined;
+  let dynamic: DynamicColumnTracker | null = null;
+  const audit = createTimestampAudit();
+  const summary = createSummaryBuilder();
+
+  const result = (target: ColumnarBuilder): ColumnarIngestResult => {
+    const { data, transfer } = target.build();
+    if (data.locations) data.locations.messageColumn = mapping.message || undefined;
+    const warnings = mapping.timestamp ? audit.warnings(mapping.timestamp) : [];
+    return { data, transfer, columns: data.columns, mapping, profileName, warnings, summary: summary.summary() };
+  };
+
+  return {
+    get count() {
+      return builder?.count ?? 0;
+    },
+
+    addRows(rows, header, ranges) {
+      if (!builder) {
+        columns = header;
+        ({ mapping, profileName } = resolveColumnMapping(columns, profiles));
+        builder = createColumnarBuilder(columns, fileIndex, lowMemory);
+        dynamic = createDynamicColumnTracker(columns);
+      }
+      const target = builder;
+      rows.forEach((row, i) => {
+        // Flattened before deriving fields, which read customDimensions keys
+        if (dynamic?.active) {
+          const added = dynamic.flatten(row);
+          if (added.length > 0) target.addColumns(added);
+        }
+        const fields = deriveLogFields(row, target.count, columns, mapping, audit);
+        summary.add(fields);
+        if (lowMemory) {
+          fields.message = normalizeMessage(fields.message);
+          fields.byteOffset = ranges?.[i].offset;
+          fields.byteLength = ranges?.[i].length;
+        }
+        target.add(fields, row);
+      });
+    },
+
+    snapshot() {
+      return builder ? result(builder) : null;
+    },
+
+    finish() {
+      return result(builder ?? createColumnarBuilder(columns, fileIndex, lowMemory));
+    }
+  };
+}
+
+// Re-derive every entry under a new mapping from the raw cells already in
+// memory. Entry IDs are preserved; order is re-sorted on the new timestamps.
+export function remapColumnar(data: ColumnarLogs, mapping: ColumnMapping): { data: ColumnarLogs; warnings: string[]; summary: LogSummary } {
+  const reader = createLogReader(data);
+  const builder = createColumnarBuilder(data.columns, data.fileIndex);
+  const audit = createTimestampAudit();
+  const summary = createSummaryBuilder();
+  for (let row = 0; row < data.count; row++) {
+    const raw = reader.raw(row);
+    const fields = deriveLogFields(raw, data.ids[row], data.columns, mapping, audit);
+    // Provenance comes from the merge, not from the row's cells
+    fields.source = reader.string(data.sources[row]) || undefined;
+    builder.add(fields, raw);
+    summary.add(fields);
+  }
+  return {
+    data: builder.build().data,
+    warnings: mapping.timestamp ? audit.warnings(mapping.timestamp) : [],
+    summary: summary.summary()
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { createSummaryBuilder, summarizeLogs, summaryPatterns, summaryStats } from './logSummary';
+import { createColumnarIngestor } from './logPipeline';
+import { createCsvStreamParser } from './csvStream';
+import { hydrateLogs } from './columnarLogs';
+import { LogSummary } from '../types';
+
+const CSV = [
+  'timestamp,message,severityLevel,itemCount,customDimensions',
+  '2024-01-15T10:00:00Z,Order 17 failed,3,1,"{""InstanceName"":""web-CD-01""}"',
+  '2024-01-15T10:05:00Z,Order 18 failed,3,1,"{""InstanceName"":""web-CD-01""}"',
+  '2024-01-15T10:02:00Z,Cache miss for key 9,2,50,"{""InstanceName"":""web-CM-01""}"',
+  '2024-01-15T09:58:00Z,Started,1,1,',
+  ',No timestamp,4,2,',
+].join('\n');
+
+function ingest(text: string) {
+  const ingestor = createColumnarIngestor(0);
+  const parser = createCsvStreamParser((rows, columns) => ingestor.addRows(rows, columns));
+  parser.push(text);
+  parser.finish();
+  return ingestor.finish();
+}
+
+// =============================================================================
+// Counting while ingesting
+// =============================================================================
+describe('createSummaryBuilder', () => {
+  it('should count severities, events, time bounds and roles in one pass', () => {
+    const { summary } = ingest(CSV);
+
+    expect(summary.rows).toBe(5);
+    expect(summary.events).toBe(55);
+    expect(summary.sampled).toBe(true);
+    expect(summary.severityRows).toEqual([0, 1, 1, 2, 1]);
+    expect(summary.severityEvents).toEqual([0, 1, 50, 2, 2]);
+    expect(new Date(summary.timeStart).toISOString()).toBe('2024-01-15T09:58:00.000Z');
+    expect(new Date(summary.timeEnd).toISOString()).toBe('2024-01-15T10:05:00.000Z');
+    expect(summary.roles).toEqual([
+      { role: 'CD', rows: 2, events: 2 },
+      { role: 'CM', rows: 1, events: 50 }
+    ]);
+  });
+
+  it('should match a summary of the hydrated rows', () => {
+    const { data, summary } = ingest(CSV);
+    const hydrated = summarizeLogs(hydrateLogs(data));
+    // Rows arrive in file order but hydrate newest first
+    const sortIds = (s: LogSummary) => ({ ...s, patterns: s.patterns.map(p => ({ ...p, ids: [...p.ids].sort() })) });
+
+    expect(sortIds(hydrated)).toEqual(sortIds(summary));
+  });
+
+  it('should return copies that later rows leave alone', () => {
+    const builder = createSummaryBuilder();
+    builder.add({ id: 0, severity: 3, message: 'Failed 1' });
+    const first = builder.summary();
+    builder.add({ id: 1, severity: 3, message: 'Failed 2' });
+
+    expect(first.rows).toBe(1);
+    expect(first.patterns[0].ids).toEqual([0]);
+    expect(builder.summary().patterns[0].ids).toEqual([0, 1]);
+  });
+});
+
+// =============================================================================
+// Patterns and stats per count mode
+// =============================================================================
+describe('summaryPatterns', () => {
+  it('should rank patterns by the chosen count mode', () => {
+    const { summary } = ingest(CSV);
+
+    expect(summaryPatterns(summary, 'rows').map(p => [p.normalized, p.count])).toEqual([
+      ['Order <NUM> failed', 2],
+      ['Cache miss for key <NUM>', 1],
+      ['No timestamp', 1]
+    ]);
+    expect(summaryPatterns(summary, 'events')[0]).toMatchObject({ normalized: 'Cache miss for key <NUM>', count: 50, warningCount: 50 });
+  });
+
+  it('should keep the newest message and the time span of each pattern', () => {
+    const [orders] = summaryPatterns(ingest(CSV).summary);
+
+    expect(orders.message).toBe('Order 18 failed');
+    expect(orders.firstSeen.toISOString()).toBe('2024-01-15T10:00:00.000Z');
+    expect(orders.lastSeen.toISOString()).toBe('2024-01-15T10:05:00.000Z');
+    expect(orders.ids).toEqual([1, 0]);
+    expect(orders.severity).toBe(3);
+  });
+});
+
+describe('summaryStats', () => {
+  it('should give file stats in rows or estimated events', () => {
+    const { summary } = ingest(CSV);
+
+    expect(summaryStats(summary)).toMatchObject({ total: 5, errors: 2, warnings: 1, info: 1, verbose: 0 });
+    expect(summaryStats(summary, 'events')).toMatchObject({ total: 55, errors: 2, warnings: 50 });
+    expect(summaryStats(summarizeLogs([]))).toMatchObject({ total: 0, timeStart: null, timeEnd: null });
+  });
+});
@@ -0,0 +1,180 @@
+import { CountMode, ErrorPattern, FileStats, LogEntry, LogSummary, PatternSummary } from '../types';
+
+// Stats, roles and error patterns of a file, gathered row by row while it is
+// ingested. The parsing worker sends the summary with the columnar data, so
+// the dashboard reads these counts instead of walking every row again.
+
+// Patterns listed per count mode
+const MAX_PATTERNS = 100;
+
+// Message with GUIDs, timestamps, numbers and hex values masked, as used to
+// group error patterns
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<GUID>')
+    .replace(/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}[^\s]*/g, '<TIMESTAMP>')
+    .replace(/\b\d+\b/g, '<NUM>')
+    .replace(/0x[0-9a-f]+/gi, '<HEX>')
+    .substring(0, 200)
+    .trim();
+}
+
+export interface SummaryRow {
+  id: number;
+  timestampMs?: number;
+  severity: number;
+  message: string;
+  serverRole?: string;
+  itemCount?: number;
+}
+
+export interface SummaryBuilder {
+  add(row: SummaryRow): void;
+  summary(): LogSummary; // A copy; rows added later do not change it
+}
+
+export function createSummaryBuilder(): SummaryBuilder {
+  let rows = 0;
+  let events = 0;
+  let sampled = false;
+  const severityRows = [0, 0, 0, 0, 0];
+  const severityEvents = [0, 0, 0, 0, 0];
+  let timeStart = NaN;
+  let timeEnd = NaN;
+  const roles = new Map<string, { role: string; rows: number; events: number }>();
+  const patterns = new Map<string, PatternSummary>();
+
+  return {
+    add({ id, timestampMs = NaN, severity, message, serverRole, itemCount }) {
+      const weight = itemCount ?? 1;
+      rows++;
+      events += weight;
+      if (weight > 1) sampled = true;
+      severityRows[severity]++;
+      severityEvents[severity] += weight;
+      if (!isNaN(timestampMs)) {
+        if (isNaN(timeStart) || timestampMs < timeStart) timeStart = timestampMs;
+        if (isNaN(timeEnd) || timestampMs > timeEnd) timeEnd = timestampMs;
+      }
+
+      if (serverRole) {
+        let role = roles.get(serverRole);
+        if (!role) roles.set(serverRole, role = { role: serverRole, rows: 0, events: 0 });
+        role.rows++;
+        role.events += weight;
+      }
+
+      if (severity < 2) return;
+      const normalized = normalizeMessage(message);
+      let pattern = patterns.get(normalized);
+      if (!pattern) {
+        pattern = {
+          normalized,
+          message: message.substring(0, 200),
+          sampleId: id,
+          firstSeen: NaN,
+          lastSeen: NaN,
+          ids: [],
+          rows: 0,
+          events: 0,
+          errorRows: 0,
+          errorEvents: 0,
+          warningRows: 0,
+          warningEvents: 0
+        };
+        patterns.set(normalized, pattern);
+      }
+      pattern.rows++;
+      pattern.events += weight;
+      pattern.ids.push(id);
+      if (severity === 3) {
+        pattern.errorRows++;
+        pattern.errorEvents += weight;
+      } else if (severity === 2) {
+        pattern.warningRows++;
+        pattern.warningEvents += weight;
+      }
+      if (!isNaN(timestampMs)) {
+        if (isNaN(pattern.firstSeen) || timestampMs < pattern.firstSeen) pattern.firstSeen = timestampMs;
+        // The sample message is the newest row's, as in the grid's order
+        if (isNaN(pattern.lastSeen) || timestampMs > pattern.lastSeen) {
+          pattern.lastSeen = timestampMs;
+          pattern.message = message.substring(0, 200);
+          pattern.sampleId = id;
+        }
+      }
+    },
+
+    summary() {
+      const all = Array.from(patterns.values());
+      const busiest = new Set([
+        ...rankPatterns(all, 'rows').slice(0, MAX_PATTERNS),
+        ...rankPatterns(all, 'events').slice(0, MAX_PATTERNS)
+      ]);
+      return {
+        rows,
+        events,
+        sampled,
+        severityRows: [...severityRows],
+        severityEvents: [...severityEvents],
+        timeStart,
+        timeEnd,
+        roles: Array.from(roles.values(), role => ({ ...role })),
+        patterns: Array.from(busiest, pattern => ({ ...pattern, ids: [...pattern.ids] }))
+      };
+    }
+  };
+}
+
+// Main-thread fallback for files whose rows changed after parsing (merged or
+// remapped) and for sessions saved without a summary
+export function summarizeLogs(logs: LogEntry[]): LogSummary {
+  const builder = createSummaryBuilder();
+  for (const log of logs) {
+    builder.add({
+      id: log._id,
+      timestampMs: log._timestamp?.getTime(),
+      severity: log._severity,
+      message: log._message,
+      serverRole: log._serverRole,
+      itemCount: log._itemCount
+    });
+  }
+  return builder.summary();
+}
+
+// Busiest first; ties go to the pattern seen most recently
+function rankPatterns(patterns: PatternSummary[], mode: CountMode): PatternSummary[] {
+  const count = (pattern: PatternSummary) => (mode === 'events' ? pattern.events : pattern.rows);
+  const recency = (pattern: PatternSummary) => (isNaN(pattern.lastSeen) ? -Infinity : pattern.lastSeen);
+  return [...patterns].sort((a, b) => count(b) - count(a) || (recency(a) < recency(b) ? 1 : recency(a) > recency(b) ? -1 : 0));
+}
+
+export function summaryPatterns(summary: LogSummary, mode: CountMode = 'rows'): ErrorPattern[] {
+  const events = mode === 'events';
+  return rankPatterns(summary.patterns, mode).slice(0, MAX_PATTERNS).map(pattern => ({
+    message: pattern.message,
+    normalized: pattern.normalized,
+    count: events ? pattern.events : pattern.rows,
+    firstSeen: isNaN(pattern.firstSeen) ? new Date() : new Date(pattern.firstSeen),
+    lastSeen: isNaN(pattern.lastSeen) ? new Date() : new Date(pattern.lastSeen),
+    // The sample row leads, as the patterns list opens ids[0]
+    ids: [pattern.sampleId, ...pattern.ids.filter(id => id !== pattern.sampleId)],
+    severity: pattern.errorRows > 0 ? 3 : 2,
+    errorCount: events ? pattern.errorEvents : pattern.errorRows,
+    warningCount: events ? pattern.warningEvents : pattern.warningRows
+  }));
+}
+
+export function summaryStats(summary: LogSummary, mode: CountMode = 'rows'): FileStats {
+  const counts = mode === 'events' ? summary.severityEvents : summary.severityRows;
+  return {
+    total: mode === 'events' ? summary.events : summary.rows,
+    errors: counts[3],
+    warnings: counts[2],
+    info: counts[1],
+    verbose: counts[0],
+    timeStart: isNaN(summary.timeStart) ? null : new Date(summary.timeStart),
+    timeEnd: isNaN(summary.timeEnd) ? null : new Date(summary.timeEnd)
+  };
+}
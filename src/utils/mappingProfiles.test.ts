@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  headerKey,
+  findProfileForColumns,
+  isMappingValid,
+  loadMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+} from './mappingProfiles';
+import { MappingProfile } from '../types';
+
+// =============================================================================
+// Helper: create a MappingProfile for tests
+// =============================================================================
+function makeProfile(overrides: Partial<MappingProfile> = {}): MappingProfile {
+  return {
+    name: 'Sitecore traces',
+    columns: ['EventTime', 'type', 'Level', 'Text'],
+    mapping: { timestamp: 'EventTime', severity: 'Level', message: 'Text', operationId: '' },
+    updatedAt: 1,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+// =============================================================================
+// headerKey / findProfileForColumns
+// =============================================================================
+describe('findProfileForColumns', () => {
+  it('should match header sets regardless of order and case', () => {
+    expect(headerKey(['B', 'a'])).toBe(headerKey(['A', 'b']));
+
+    const profile = makeProfile();
+    expect(findProfileForColumns([profile], ['text', 'LEVEL', 'type', 'EventTime'])).toBe(profile);
+  });
+
+  it('should not match when the header set differs', () => {
+    expect(findProfileForColumns([makeProfile()], ['EventTime', 'Level', 'Text'])).toBeUndefined();
+  });
+
+  it('should match profiles saved with flattened customDimensions columns', () => {
+    const profile = makeProfile({ columns: ['EventTime', 'Level', 'Text', 'customDimensions', 'customDimensions.Site'] });
+
+    expect(findProfileForColumns([profile], ['EventTime', 'Level', 'Text', 'customDimensions'])).toBe(profile);
+  });
+
+  it('should prefer the most recently saved matching profile', () => {
+    const older = makeProfile({ name: 'old', updatedAt: 1 });
+    const newer = makeProfile({ name: 'new', updatedAt: 2 });
+
+    expect(findProfileForColumns([older, newer], older.columns)?.name).toBe('new');
+  });
+});
+
+// =============================================================================
+// isMappingValid
+// =============================================================================
+describe('isMappingValid', () => {
+  it('should accept mappings whose columns all exist', () => {
+    expect(isMappingValid(makeProfile().mapping, ['EventTime', 'Level', 'Text'])).toBe(true);
+  });
+
+  it('should not treat the detected table kind as a column', () => {
+    expect(isMappingValid({ ...makeProfile().mapping, tableKind: 'request' }, ['EventTime', 'Level', 'Text'])).toBe(true);
+  });
+
+  it('should not treat server role rules as a column', () => {
+    const serverRoleRules = [{ source: 'cloud_RoleName', pattern: 'auth', role: 'Auth', color: '#f472b6' }];
+    expect(isMappingValid({ ...makeProfile().mapping, serverRoleRules }, ['EventTime', 'Level', 'Text'])).toBe(true);
+  });
+
+  it('should accept flattened columns of a dynamic column in the file', () => {
+    const mapping = { ...makeProfile().mapping, message: 'customDimensions.Text' };
+
+    expect(isMappingValid(mapping, ['EventTime', 'Level', 'customDimensions'])).toBe(true);
+    expect(isMappingValid(mapping, ['EventTime', 'Level', 'Text'])).toBe(false);
+  });
+
+  it('should reject mappings that name a missing column', () => {
+    expect(isMappingValid(makeProfile().mapping, ['EventTime', 'Level'])).toBe(false);
+  });
+});
+
+// =============================================================================
+// Persistence
+// =============================================================================
+describe('mapping profile storage', () => {
+  it('should return an empty list when nothing is saved', () => {
+    expect(loadMappingProfiles()).toEqual([]);
+  });
+
+  it('should save and reload profiles', () => {
+    saveMappingProfile(makeProfile());
+
+    expect(loadMappingProfiles()).toEqual([makeProfile()]);
+  });
+
+  it('should replace a profile saved under the same name', () => {
+    saveMappingProfile(makeProfile());
+    const profiles = saveMappingProfile(makeProfile({ updatedAt: 5, mapping: { timestamp: 'EventTime', severity: '', message: 'Text', operationId: '' } }));
+
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0].mapping.severity).toBe('');
+  });
+
+  it('should delete profiles by name', () => {
+    saveMappingProfile(makeProfile({ name: 'a' }));
+    saveMappingProfile(makeProfile({ name: 'b' }));
+
+    expect(deleteMappingProfile('a').map(p => p.name)).toEqual(['b']);
+    expect(loadMappingProfiles().map(p => p.name)).toEqual(['b']);
+  });
+
+  it('should ignore corrupt storage', () => {
+    localStorage.setItem('pulse.mappingProfiles', '{oops');
+
+    expect(loadMappingProfiles()).toEqual([]);
+  });
+});
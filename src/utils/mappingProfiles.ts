@@ -0,0 +1,60 @@
+import { ColumnMapping, MappingProfile } from '../types';
+import { dynamicParent } from './customDimensions';
+
+const STORAGE_KEY = 'pulse.mappingProfiles';
+
+// Profiles match on the set of header names, ignoring order and case.
+// Flattened customDimensions columns are left out: files are matched on their
+// header before any rows are read.
+export function headerKey(columns: string[]): string {
+  return columns
+    .filter(c => !dynamicParent(c, columns))
+    .map(c => c.trim().toLowerCase())
+    .sort()
+    .join('\n');
+}
+
+export function findProfileForColumns(profiles: MappingProfile[], columns: string[]): MappingProfile | undefined {
+  const key = headerKey(columns);
+  return profiles
+    .filter(p => headerKey(p.columns) === key)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+}
+
+// Mapping fields that hold settings rather than column names
+const SETTING_FIELDS = new Set(['tableKind', 'timeZone', 'severityRules', 'serverRoleRules']);
+
+// A profile mapping only applies if every column it names exists in the file;
+// a flattened column counts when the file has the column it comes from
+export function isMappingValid(mapping: ColumnMapping, columns: string[]): boolean {
+  return Object.entries(mapping).every(([field, col]) =>
+    SETTING_FIELDS.has(field) || !col || columns.includes(col) || !!dynamicParent(col, columns)
+  );
+}
+
+export function loadMappingProfiles(storage: Storage = localStorage): MappingProfile[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeProfiles(profiles: MappingProfile[], storage: Storage) {
+  storage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+// Saving under an existing name replaces that profile
+export function saveMappingProfile(profile: MappingProfile, storage: Storage = localStorage): MappingProfile[] {
+  const profiles = loadMappingProfiles(storage).filter(p => p.name !== profile.name);
+  profiles.push(profile);
+  writeProfiles(profiles, storage);
+  return profiles;
+}
+
+export function deleteMappingProfile(name: string, storage: Storage = localStorage): MappingProfile[] {
+  const profiles = loadMappingProfiles(storage).filter(p => p.name !== name);
+  writeProfiles(profiles, storage);
+  return profiles;
+}
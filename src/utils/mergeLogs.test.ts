@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mergeColumnar, resolveDedupKey, loadDedupKey, saveDedupKey } from './mergeLogs';
+import { createColumnarIngestor, remapColumnar } from './logPipeline';
+import { hydrateLogs } from './columnarLogs';
+import { createCsvStreamParser } from './csvStream';
+
+// =============================================================================
+// Helper: parse CSV text the way the worker does
+// =============================================================================
+function ingest(csv: string, fileIndex = 0) {
+  const ingestor = createColumnarIngestor(fileIndex);
+  const parser = createCsvStreamParser((rows, columns) => ingestor.addRows(rows, columns));
+  parser.push(csv);
+  parser.finish();
+  return ingestor.finish();
+}
+
+// Two portal exports covering overlapping windows
+const EARLY = [
+  'timestamp,message,severityLevel,operation_Id,itemId',
+  '2024-01-15T10:00:00Z,Started,1,op-1,a',
+  '2024-01-15T10:05:00Z,Timeout calling /api/orders,3,op-2,b',
+].join('\n');
+
+const LATE = [
+  'timestamp,message,severityLevel,operation_Id,itemId',
+  '2024-01-15T10:05:00Z,Timeout calling /api/orders,3,op-2,b',
+  '2024-01-15T10:10:00Z,Recovered,1,op-3,c',
+].join('\n');
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+// =============================================================================
+// mergeColumnar
+// =============================================================================
+describe('mergeColumnar', () => {
+  it('should merge files into one timeline without overlapping rows', () => {
+    const merged = mergeColumnar([
+      { name: 'early.csv', data: ingest(EARLY).data },
+      { name: 'late.csv', data: ingest(LATE).data },
+    ]);
+
+    expect(merged.key).toBe('itemId');
+    expect(merged.duplicates).toBe(1);
+    expect(merged.sources).toEqual([{ name: 'early.csv', rows: 2 }, { name: 'late.csv', rows: 1 }]);
+
+    const logs = hydrateLogs(merged.data);
+    expect(logs.map(l => l._message)).toEqual(['Recovered', 'Timeout calling /api/orders', 'Started']);
+    expect(logs.map(l => l._source)).toEqual(['late.csv', 'early.csv', 'early.csv']);
+    expect(new Set(logs.map(l => l._id)).size).toBe(3);
+  });
+
+  it('should match on timestamp, message and operation without itemId', () => {
+    const strip = (csv: string) => csv.split('\n').map(line => line.slice(0, line.lastIndexOf(','))).join('\n');
+    const parts = [
+      { name: 'early.csv', data: ingest(strip(EARLY)).data },
+      { name: 'late.csv', data: ingest(strip(LATE)).data },
+    ];
+
+    expect(resolveDedupKey('auto', parts)).toBe('content');
+    expect(mergeColumnar(parts).duplicates).toBe(1);
+    expect(mergeColumnar(parts, 'none').data.count).toBe(4);
+  });
+
+  it('should combine different header sets', () => {
+    const merged = mergeColumnar([
+      { name: 'a.csv', data: ingest(EARLY).data },
+      { name: 'b.csv', data: ingest('timestamp,message,cloud_RoleName\n2024-01-15T11:00:00Z,Extra,web').data },
+    ], 'none');
+
+    expect(merged.data.columns).toEqual(['timestamp', 'message', 'severityLevel', 'operation_Id', 'itemId', 'cloud_RoleName']);
+    expect(hydrateLogs(merged.data)[0]._raw).toMatchObject({ message: 'Extra', cloud_RoleName: 'web', itemId: '' });
+  });
+
+  it('should keep provenance when merging again and after a remap', () => {
+    const first = mergeColumnar([
+      { name: 'early.csv', data: ingest(EARLY).data },
+      { name: 'late.csv', data: ingest(LATE).data },
+    ]);
+    const again = mergeColumnar([
+      { name: '2 files merged', data: first.data },
+      { name: 'extra.csv', data: ingest('timestamp,message,itemId\n2024-01-15T12:00:00Z,Later,d').data },
+    ]);
+
+    expect(again.sources.map(s => s.name)).toEqual(['late.csv', 'early.csv', 'extra.csv']);
+
+    const { mapping } = ingest(EARLY);
+    const remapped = hydrateLogs(remapColumnar(again.data, mapping).data);
+    expect(remapped.map(l => l._source)).toEqual(['extra.csv', 'late.csv', 'early.csv', 'early.csv']);
+  });
+});
+
+// =============================================================================
+// Dedup key setting
+// =============================================================================
+describe('dedup key setting', () => {
+  it('should persist the chosen key and default to auto', () => {
+    expect(loadDedupKey()).toBe('auto');
+    saveDedupKey('content');
+    expect(loadDedupKey()).toBe('content');
+
+    localStorage.setItem('pulse.dedupKey', 'bogus');
+    expect(loadDedupKey()).toBe('auto');
+  });
+});
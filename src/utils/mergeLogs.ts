@@ -0,0 +1,95 @@
+import { ColumnarLogs, DedupKey } from '../types';
+import { createColumnarBuilder, createLogReader, readRowFields } from './columnarLogs';
+
+const STORAGE_KEY = 'pulse.dedupKey';
+
+export const DEDUP_KEY_LABELS: Record<DedupKey, string> = {
+  auto: 'Auto',
+  itemId: 'itemId',
+  content: 'Timestamp + message + operation',
+  none: 'Keep all rows'
+};
+
+export interface MergePart {
+  name: string;
+  data: ColumnarLogs;
+}
+
+export interface MergeResult {
+  data: ColumnarLogs;
+  key: Exclude<DedupKey, 'auto'>;
+  duplicates: number;
+  sources: { name: string; rows: number }[]; // Rows kept per source file
+}
+
+function itemIdColumn(columns: string[]): string | undefined {
+  return columns.find(c => c.toLowerCase() === 'itemid' || c.toLowerCase() === '_itemid');
+}
+
+export function resolveDedupKey(key: DedupKey, parts: MergePart[]): Exclude<DedupKey, 'auto'> {
+  if (key !== 'auto') return key;
+  return parts.length > 0 && parts.every(p => itemIdColumn(p.data.columns)) ? 'itemId' : 'content';
+}
+
+// Concatenates parsed files into one dataset, in part order. The first copy
+// of a duplicate row is kept. Rows already carrying a source (an earlier
+// merge) keep it; others are tagged with their part's name.
+export function mergeColumnar(parts: MergePart[], key: DedupKey = 'auto', fileIndex?: number): MergeResult {
+  const resolved = resolveDedupKey(key, parts);
+  const columns: string[] = [];
+  parts.forEach(part => part.data.columns.forEach(col => {
+    if (!columns.includes(col)) columns.push(col);
+  }));
+
+  const builder = createColumnarBuilder(columns, fileIndex);
+  const seen = new Set<string>();
+  const kept = new Map<string, number>();
+  let duplicates = 0;
+
+  parts.forEach(part => {
+    const reader = createLogReader(part.data);
+    const idColumn = itemIdColumn(part.data.columns);
+    // Listed even when every row turns out to be a duplicate
+    if (part.data.count === 0 || !reader.string(part.data.sources[0])) kept.set(part.name, kept.get(part.name) || 0);
+
+    for (let row = 0; row < part.data.count; row++) {
+      const fields = readRowFields(reader, row);
+
+      let dedupValue = '';
+      if (resolved === 'itemId') {
+        dedupValue = idColumn ? reader.cell(row, idColumn) : '';
+      } else if (resolved === 'content') {
+        dedupValue = `${part.data.timestamps[row]}\n${fields.message}\n${fields.operationId ?? ''}`;
+      }
+      // Rows without a key value (e.g. an empty itemId) are never duplicates
+      if (dedupValue) {
+        if (seen.has(dedupValue)) {
+          duplicates++;
+          continue;
+        }
+        seen.add(dedupValue);
+      }
+
+      fields.id = builder.count;
+      fields.source = fields.source || part.name;
+      kept.set(fields.source, (kept.get(fields.source) || 0) + 1);
+      builder.add(fields, reader.raw(row));
+    }
+  });
+
+  return {
+    data: builder.build().data,
+    key: resolved,
+    duplicates,
+    sources: Array.from(kept, ([name, rows]) => ({ name, rows }))
+  };
+}
+
+export function loadDedupKey(storage: Storage = localStorage): DedupKey {
+  const value = storage.getItem(STORAGE_KEY);
+  return value && value in DEDUP_KEY_LABELS ? (value as DedupKey) : 'auto';
+}
+
+export function saveDedupKey(key: DedupKey, storage: Storage = localStorage) {
+  storage.setItem(STORAGE_KEY, key);
+}
@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { exportRows, readRows, supportsLowMemory } from './rowSource';
+import { createCsvStreamParser } from './csvStream';
+import { createColumnarIngestor } from './logPipeline';
+import { getRawValue, hydrateLogs, loadRawRows } from './columnarLogs';
+import { createFilterIndex, filterRows } from './filterIndex';
+import { openInput, readSourceText } from './archive';
+
+const CSV = [
+  'timestamp,severityLevel,message,customDimensions',
+  '2024-01-15T10:00:00Z,3,Order 1234 failed for café,"{""Site"":""web""}"',
+  '2024-01-15T10:01:00Z,1,"Multi-line',
+  'message, quoted",',
+  '2024-01-15T09:59:00Z,3,Order 5678 failed for bob,"{""Site"":""api""}"',
+].join('\r\n') + '\r\n';
+
+// Same path as the parsing worker with low-memory mode on
+function ingestLowMemory(text: string) {
+  const ingestor = createColumnarIngestor(0, [], true);
+  const parser = createCsvStreamParser((rows, columns, ranges) => ingestor.addRows(rows, columns, ranges), '', true);
+  for (let i = 0; i < text.length; i += 7) parser.push(text.slice(i, i + 7));
+  parser.finish();
+  const result = ingestor.finish();
+  result.data.locations!.delimiter = parser.delimiter;
+  return result.data;
+}
+
+// =============================================================================
+// Ingestion
+// =============================================================================
+describe('low-memory ingestion', () => {
+  it('should keep byte ranges and message patterns instead of cells', () => {
+    const data = ingestLowMemory(CSV);
+
+    expect(data.count).toBe(3);
+    expect(data.columns).toEqual([]);
+    expect(data.cells.length).toBe(0);
+    expect(data.locations?.header).toEqual(['timestamp', 'severityLevel', 'message', 'customDimensions']);
+    expect(data.locations?.columns).toContain('customDimensions.Site');
+    expect(data.locations?.messageColumn).toBe('message');
+
+    const messages = hydrateLogs(data).map(log => log._message);
+    expect(messages).toContain('Order <NUM> failed for café');
+    expect(messages).toContain('Multi-line\r\nmessage, quoted');
+  });
+
+  it('should search message patterns', () => {
+    const index = createFilterIndex(ingestLowMemory(CSV));
+    const { gridRows } = filterRows(index, {
+      timeWindow: null,
+      severities: [0, 1, 2, 3, 4],
+      searchText: '"failed for bob"',
+      searchColumn: '_all',
+      patternIds: null,
+      serverRoles: null
+    });
+
+    expect(gridRows.length).toBe(1);
+  });
+});
+
+// =============================================================================
+// Reading rows back
+// =============================================================================
+describe('readRows', () => {
+  it('should read rows back from the file by byte range', async () => {
+    const data = ingestLowMemory(CSV);
+    const file = new Blob([CSV]);
+    const logs = hydrateLogs(data);
+    const rows = await readRows(file, data.locations!, [0, 1, 2]);
+
+    const multiLine = logs.findIndex(log => log._severity === 1);
+    expect(rows.get(multiLine)?.message).toBe('Multi-line\r\nmessage, quoted');
+    expect(Array.from(rows.values()).map(row => row['customDimensions.Site']).filter(Boolean).sort()).toEqual(['api', 'web']);
+  });
+
+  it('should read rows back from a file that starts with a BOM', async () => {
+    // Decoded the way the parsing worker reads files
+    const file = new File(['\ufeff' + CSV], 'export.csv', { type: 'text/csv' });
+    const ingestor = createColumnarIngestor(0, [], true);
+    const parser = createCsvStreamParser((rows, columns, ranges) => ingestor.addRows(rows, columns, ranges), '', true);
+    await readSourceText(await openInput(file), text => parser.push(text));
+    parser.finish();
+    const { data } = ingestor.finish();
+    data.locations!.delimiter = parser.delimiter;
+
+    const rows = await readRows(file, data.locations!, [0, 1, 2]);
+    expect(Array.from(rows.values()).map(row => row.timestamp).sort()).toEqual([
+      '2024-01-15T09:59:00Z',
+      '2024-01-15T10:00:00Z',
+      '2024-01-15T10:01:00Z'
+    ]);
+  });
+
+  it('should fill entries through loadRawRows', async () => {
+    const data = ingestLowMemory(CSV);
+    const logs = hydrateLogs(data);
+    const log = logs.find(l => l._message.includes('café'))!;
+
+    expect(getRawValue(log, 'customDimensions.Site')).toBe('');
+    await loadRawRows([log], new Blob([CSV]));
+
+    expect(log._message).toBe('Order 1234 failed for café');
+    expect(getRawValue(log, 'customDimensions.Site')).toBe('web');
+    expect(log._raw.timestamp).toBe('2024-01-15T10:00:00Z');
+  });
+});
+
+describe('exportRows', () => {
+  it('should copy the chosen records under the header', async () => {
+    const data = ingestLowMemory(CSV);
+    const row = hydrateLogs(data).findIndex(l => l._message.includes('bob'));
+
+    const text = await exportRows(new Blob([CSV]), data.locations!, [row]).text();
+
+    expect(text).toBe('timestamp,severityLevel,message,customDimensions\n2024-01-15T09:59:00Z,3,Order 5678 failed for bob,"{""Site"":""api""}"');
+  });
+});
+
+describe('supportsLowMemory', () => {
+  it('should only support plain CSV files', () => {
+    expect(supportsLowMemory({ name: 'export.csv' })).toBe(true);
+    expect(supportsLowMemory({ name: 'export.csv.gz' })).toBe(false);
+    expect(supportsLowMemory({ name: 'export.zip' }, 'export.csv')).toBe(false);
+    expect(supportsLowMemory({ name: 'traces.json' })).toBe(false);
+  });
+});
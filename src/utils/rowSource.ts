@@ -0,0 +1,73 @@
+import Papa from 'papaparse';
+import { RowLocations } from '../types';
+import { createDynamicColumnTracker } from './customDimensions';
+
+// Low-memory mode keeps the derived fields of each row but not its cells.
+// Full rows are read back from the original file by byte range when the grid
+// shows them or the detail drawer opens one.
+
+const STORAGE_KEY = 'pulse.lowMemory';
+
+// Records closer together than this are read with one slice
+const MAX_GAP = 64 * 1024;
+
+export function loadLowMemoryMode(storage: Storage = localStorage): boolean {
+  return storage.getItem(STORAGE_KEY) === 'true';
+}
+
+export function saveLowMemoryMode(enabled: boolean, storage: Storage = localStorage) {
+  storage.setItem(STORAGE_KEY, String(enabled));
+}
+
+// Only plain CSV files can be read back by byte range
+export function supportsLowMemory(file: { name: string }, entry?: string): boolean {
+  return !entry && /\.(csv|tsv)$/i.test(file.name);
+}
+
+// One record's text as a row keyed by the file's columns, with
+// customDimensions flattened as at ingestion
+export function parseRecord(text: string, locations: RowLocations): Record<string, string> {
+  const values = Papa.parse<string[]>(text, { delimiter: locations.delimiter }).data[0] ?? [];
+  const row: Record<string, string> = {};
+  locations.header.forEach((column, i) => {
+    row[column] = values[i] ?? '';
+  });
+  createDynamicColumnTracker(locations.header).flatten(row);
+  return row;
+}
+
+export async function readRows(file: Blob, locations: RowLocations, rows: number[]): Promise<Map<number, Record<string, string>>> {
+  const { offsets, lengths } = locations;
+  const sorted = [...rows].sort((a, b) => offsets[a] - offsets[b]);
+  const decoder = new TextDecoder();
+  const result = new Map<number, Record<string, string>>();
+
+  let i = 0;
+  while (i < sorted.length) {
+    const start = offsets[sorted[i]];
+    let end = start + lengths[sorted[i]];
+    let j = i + 1;
+    while (j < sorted.length && offsets[sorted[j]] - end <= MAX_GAP) {
+      end = Math.max(end, offsets[sorted[j]] + lengths[sorted[j]]);
+      j++;
+    }
+
+    const bytes = new Uint8Array(await file.slice(start, end).arrayBuffer());
+    for (const row of sorted.slice(i, j)) {
+      const from = offsets[row] - start;
+      result.set(row, parseRecord(decoder.decode(bytes.subarray(from, from + lengths[row])), locations));
+    }
+    i = j;
+  }
+  return result;
+}
+
+// CSV of the given rows, copied byte for byte from the file under its header
+export function exportRows(file: Blob, locations: RowLocations, rows: ArrayLike<number>): Blob {
+  const parts: BlobPart[] = [Papa.unparse([locations.header], { delimiter: locations.delimiter })];
+  for (let i = 0; i < rows.length; i++) {
+    const offset = locations.offsets[rows[i]];
+    parts.push('\n', file.slice(offset, offset + locations.lengths[rows[i]]));
+  }
+  return new Blob(parts, { type: 'text/csv;charset=utf-8;' });
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { countLogs, isSampled, logWeight } from './sampling';
+import { LogEntry } from '../types';
+
+function makeLog(overrides: Partial<LogEntry> = {}): LogEntry {
+  return {
+    _id: 0,
+    _timestamp: null,
+    _severity: 1,
+    _message: '',
+    _raw: {},
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// Sampling weights
+// =============================================================================
+describe('sampling', () => {
+  const logs = [
+    makeLog({ _severity: 3, _itemCount: 10 }),
+    makeLog({ _severity: 3 }),
+    makeLog({ _severity: 1, _itemCount: 4 }),
+  ];
+
+  it('should weigh rows by itemCount only when counting events', () => {
+    expect(logWeight(logs[0])).toBe(1);
+    expect(logWeight(logs[0], 'events')).toBe(10);
+    expect(logWeight(logs[1], 'events')).toBe(1);
+  });
+
+  it('should count rows or estimated events', () => {
+    expect(countLogs(logs)).toBe(3);
+    expect(countLogs(logs, 'events')).toBe(15);
+    expect(countLogs(logs, 'rows', l => l._severity === 3)).toBe(2);
+    expect(countLogs(logs, 'events', l => l._severity === 3)).toBe(11);
+  });
+
+  it('should detect sampled data', () => {
+    expect(isSampled(logs)).toBe(true);
+    expect(isSampled([makeLog(), makeLog({ _itemCount: 1 })])).toBe(false);
+  });
+});
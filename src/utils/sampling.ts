@@ -0,0 +1,24 @@
+import { CountMode, LogEntry } from '../types';
+
+// With adaptive sampling on, App Insights keeps one row per itemCount events.
+// In 'events' mode every count weighs rows by that factor; rows without an
+// itemCount stand for one event.
+export function logWeight(log: LogEntry, mode: CountMode = 'rows'): number {
+  return mode === 'events' ? log._itemCount ?? 1 : 1;
+}
+
+export function countLogs(logs: LogEntry[], mode: CountMode = 'rows', predicate?: (log: LogEntry) => boolean): number {
+  if (mode === 'rows' && !predicate) return logs.length;
+  let total = 0;
+  for (const log of logs) {
+    if (!predicate || predicate(log)) total += logWeight(log, mode);
+  }
+  return total;
+}
+
+// Whether estimated events would differ from row counts at all
+export function isSampled(logs: LogEntry[]): boolean {
+  return logs.some(log => (log._itemCount ?? 1) > 1);
+}
+
+export const SAMPLING_NOTE = 'Counts are estimated events: each sampled row is weighted by its App Insights itemCount.';
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  parseSearchQuery,
+  matchesSearch,
+  indexTokens,
+  postingsFor,
+  highlightPattern,
+  splitHighlights,
+} from './searchIndex';
+
+// =============================================================================
+// Queries
+// =============================================================================
+describe('tokenize', () => {
+  it('should split on punctuation and lower-case', () => {
+    expect(tokenize('GET /api/Orders/42?x=Ünïcode_id')).toEqual(['get', 'api', 'orders', '42', 'x', 'ünïcode_id']);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('should read words, phrases, exclusions and prefixes', () => {
+    expect(parseSearchQuery('Timeout "connection reset" -health time* -"GET /ping" /api/orders')).toEqual([
+      { tokens: ['timeout'], text: 'timeout', substring: true, prefix: false, exclude: false },
+      { tokens: ['connection', 'reset'], text: 'connection reset', substring: false, prefix: false, exclude: false },
+      { tokens: ['health'], text: 'health', substring: true, prefix: false, exclude: true },
+      { tokens: ['time'], text: 'time', substring: false, prefix: true, exclude: false },
+      { tokens: ['get', 'ping'], text: 'get /ping', substring: false, prefix: false, exclude: true },
+      { tokens: ['api', 'orders'], text: '/api/orders', substring: true, prefix: false, exclude: false },
+    ]);
+  });
+
+  it('should ignore terms without any word characters', () => {
+    expect(parseSearchQuery(' - * "" -- ')).toEqual([]);
+  });
+});
+
+describe('matchesSearch', () => {
+  const text = 'SQL timeout: connection reset by peer on /api/orders';
+
+  it('should need every term', () => {
+    expect(matchesSearch(text, parseSearchQuery('sql peer'))).toBe(true);
+    expect(matchesSearch(text, parseSearchQuery('sql redis'))).toBe(false);
+    expect(matchesSearch(text, parseSearchQuery('time*'))).toBe(true);
+  });
+
+  it('should match bare terms inside words', () => {
+    expect(matchesSearch('ConnectionTimeout after 30s', parseSearchQuery('timeout'))).toBe(true);
+    expect(matchesSearch('System.NullReferenceException: oops', parseSearchQuery('exception'))).toBe(true);
+    expect(matchesSearch(text, parseSearchQuery('time'))).toBe(true);
+    expect(matchesSearch(text, parseSearchQuery('i/ord'))).toBe(true);
+    expect(matchesSearch(text, parseSearchQuery('timer'))).toBe(false);
+    expect(matchesSearch(text, parseSearchQuery('"time"'))).toBe(false);
+  });
+
+  it('should keep phrase order and honour exclusions', () => {
+    expect(matchesSearch(text, parseSearchQuery('"connection reset"'))).toBe(true);
+    expect(matchesSearch(text, parseSearchQuery('"reset connection"'))).toBe(false);
+    expect(matchesSearch(text, parseSearchQuery('sql -"by peer"'))).toBe(false);
+    expect(matchesSearch(text, parseSearchQuery('sql -redis'))).toBe(true);
+  });
+});
+
+// =============================================================================
+// Inverted index
+// =============================================================================
+describe('indexTokens', () => {
+  it('should list each row once per term in row order', () => {
+    const strings = ['', 'Timeout timeout', 'api', 'Time zone'];
+    // Two columns per row, as string-pool indexes
+    const cells = Uint32Array.from([1, 2, 3, 0, 2, 2]);
+    const postings = indexTokens(strings, cells, 3, 2);
+
+    expect(postings.terms).toEqual(['api', 'time', 'timeout', 'zone']);
+    const rows = (token: string, prefix = false) => postingsFor(postings, token, prefix).map(list => Array.from(list));
+    expect(rows('api')).toEqual([[0, 2]]);
+    expect(rows('timeout')).toEqual([[0]]);
+    expect(rows('time', true)).toEqual([[1], [0]]);
+    expect(rows('missing')).toEqual([]);
+  });
+});
+
+// =============================================================================
+// Highlighting
+// =============================================================================
+describe('splitHighlights', () => {
+  it('should mark bare terms anywhere, prefixes and phrases', () => {
+    const pattern = highlightPattern(parseSearchQuery('sql conn* "reset by" -peer'));
+    const marked = splitHighlights('MySQL SQL connection reset  by peer', pattern)
+      .filter(part => part.match)
+      .map(part => part.text);
+
+    expect(marked).toEqual(['SQL', 'SQL', 'connection', 'reset  by']);
+  });
+
+  it('should leave text alone without positive terms', () => {
+    expect(highlightPattern(parseSearchQuery('-peer'))).toBeNull();
+    expect(splitHighlights('reset by peer', null)).toEqual([{ text: 'reset by peer', match: false }]);
+  });
+});
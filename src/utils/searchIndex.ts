@@ -0,0 +1,214 @@
+import { SearchIndex } from '../types';
+
+// Word search over log rows. Text is split into lower-cased tokens of
+// letters, digits and underscores; an inverted index built with the columnar
+// data lists the rows holding each token, so queries look rows up by term
+// instead of scanning their text.
+//
+// Query syntax: terms must all appear (AND), -term excludes rows. A bare term
+// matches anywhere in the text, inside longer words too (timeout finds
+// ConnectionTimeout, /api/orders finds /api/orders/42); the index narrows the
+// rows to check. "Quoted phrases" match whole words in order and word*
+// matches words by prefix.
+
+const TOKEN = /[\p{L}\p{N}_]+/gu;
+const WORD_CHAR = '[\\p{L}\\p{N}_]';
+
+export interface SearchTerm {
+  tokens: string[];
+  text: string; // Lower-cased as typed
+  substring: boolean; // Bare term: text matches anywhere, tokens only narrow the rows
+  prefix: boolean; // The last token matches any token it starts
+  exclude: boolean;
+}
+
+// Sorted terms with their rows: rows of terms[i] are rows[offsets[i]..offsets[i + 1]), ascending
+export interface TokenPostings {
+  terms: string[];
+  offsets: Uint32Array;
+  rows: Uint32Array;
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN) ?? [];
+}
+
+export function parseSearchQuery(input: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  for (const match of input.matchAll(/(-?)(?:"([^"]*)"?|(\S+))/g)) {
+    const exclude = match[1] === '-';
+    const quoted = match[2] !== undefined;
+    let text = quoted ? match[2] : match[3];
+    const prefix = !quoted && text.length > 1 && text.endsWith('*');
+    if (prefix) text = text.slice(0, -1);
+    const tokens = tokenize(text);
+    if (tokens.length > 0) terms.push({ tokens, text: text.toLowerCase(), substring: !quoted && !prefix, prefix, exclude });
+  }
+  return terms;
+}
+
+// Whether a row's tokens hold the term's tokens in a run
+export function matchesTerm(rowTokens: string[], term: SearchTerm): boolean {
+  const { tokens, prefix } = term;
+  const last = tokens.length - 1;
+  for (let start = 0; start + last < rowTokens.length; start++) {
+    let i = 0;
+    while (i < last && rowTokens[start + i] === tokens[i]) i++;
+    if (i < last) continue;
+    const token = rowTokens[start + last];
+    if (prefix ? token.startsWith(tokens[last]) : token === tokens[last]) return true;
+  }
+  return false;
+}
+
+export function matchesSearch(text: string, terms: SearchTerm[]): boolean {
+  const lower = text.toLowerCase();
+  const rowTokens = tokenize(lower);
+  return terms.every(term => (term.substring ? lower.includes(term.text) : matchesTerm(rowTokens, term)) !== term.exclude);
+}
+
+// =============================================================================
+// Inverted index
+// =============================================================================
+
+// Two passes over the cells (count, then fill) so no per-occurrence list is
+// held. Each distinct pooled string is tokenized once.
+export function indexTokens(strings: string[], cells: Uint32Array, count: number, width: number): TokenPostings {
+  const termIds = new Map<string, number>();
+  const terms: string[] = [];
+  const poolTerms: (number[] | undefined)[] = new Array(strings.length);
+  const termsOf = (index: number): number[] => {
+    let ids = poolTerms[index];
+    if (!ids) {
+      ids = tokenize(strings[index]).map(token => {
+        let id = termIds.get(token);
+        if (id === undefined) {
+          id = terms.length;
+          termIds.set(token, id);
+          terms.push(token);
+        }
+        return id;
+      });
+      poolTerms[index] = ids;
+    }
+    return ids;
+  };
+
+  // Calls visit once per distinct term of each row
+  const lastRow: number[] = [];
+  const eachRowTerm = (visit: (id: number, row: number) => void) => {
+    lastRow.fill(-1);
+    for (let row = 0; row < count; row++) {
+      for (let c = 0; c < width; c++) {
+        const index = cells[row * width + c];
+        if (index === 0) continue;
+        for (const id of termsOf(index)) {
+          if (lastRow[id] === row) continue;
+          lastRow[id] = row;
+          visit(id, row);
+        }
+      }
+    }
+  };
+
+  const counts: number[] = [];
+  eachRowTerm(id => {
+    counts[id] = (counts[id] ?? 0) + 1;
+  });
+
+  const order = terms.map((_, id) => id).sort((a, b) => (terms[a] < terms[b] ? -1 : 1));
+  const offsets = new Uint32Array(terms.length + 1);
+  const cursor: number[] = new Array(terms.length);
+  order.forEach((id, rank) => {
+    cursor[id] = offsets[rank];
+    offsets[rank + 1] = offsets[rank] + counts[id];
+  });
+
+  const rows = new Uint32Array(offsets[terms.length]);
+  eachRowTerm((id, row) => {
+    rows[cursor[id]++] = row;
+  });
+
+  return { terms: order.map(id => terms[id]), offsets, rows };
+}
+
+export function decodeSearchIndex(search: SearchIndex): TokenPostings {
+  const decoder = new TextDecoder();
+  const { bytes, offsets } = search.terms;
+  const terms: string[] = new Array(offsets.length - 1);
+  for (let i = 0; i < terms.length; i++) {
+    terms[i] = decoder.decode(bytes.subarray(offsets[i], offsets[i + 1]));
+  }
+  return { terms, offsets: search.offsets, rows: search.rows };
+}
+
+// First term position >= value
+function lowerBound(terms: string[], value: string): number {
+  let lo = 0;
+  let hi = terms.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (terms[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Row lists of the terms a token matches: itself, or every term it prefixes
+export function postingsFor(postings: TokenPostings, token: string, prefix: boolean): Uint32Array[] {
+  const { terms, offsets, rows } = postings;
+  const from = lowerBound(terms, token);
+  let to = from;
+  if (prefix) {
+    while (to < terms.length && terms[to].startsWith(token)) to++;
+  } else if (terms[from] === token) {
+    to = from + 1;
+  }
+  const lists: Uint32Array[] = [];
+  for (let i = from; i < to; i++) lists.push(rows.subarray(offsets[i], offsets[i + 1]));
+  return lists;
+}
+
+// Row lists of every term holding the token, for matches inside words
+export function postingsContaining(postings: TokenPostings, token: string): Uint32Array[] {
+  const { terms, offsets, rows } = postings;
+  const lists: Uint32Array[] = [];
+  for (let i = 0; i < terms.length; i++) {
+    if (terms[i].includes(token)) lists.push(rows.subarray(offsets[i], offsets[i + 1]));
+  }
+  return lists;
+}
+
+// =============================================================================
+// Highlighting
+// =============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Matches the text of every non-excluded term, or null when nothing to mark
+export function highlightPattern(terms: SearchTerm[]): RegExp | null {
+  const alternatives = terms
+    .filter(term => !term.exclude)
+    .map(({ tokens, text, substring, prefix }) => {
+      if (substring) return escapeRegExp(text);
+      const body = tokens.map(escapeRegExp).join('[^\\p{L}\\p{N}_]+');
+      return `(?<!${WORD_CHAR})${body}${prefix ? `${WORD_CHAR}*` : `(?!${WORD_CHAR})`}`;
+    });
+  return alternatives.length > 0 ? new RegExp(alternatives.join('|'), 'giu') : null;
+}
+
+export function splitHighlights(text: string, pattern: RegExp | null): { text: string; match: boolean }[] {
+  if (!pattern || !text) return [{ text, match: false }];
+  const parts: { text: string; match: boolean }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SERVER_ROLE_RULES,
+  validateServerRoleRule,
+  resolveServerRole,
+  listServerRoles,
+  previewServerRoles,
+} from './serverRoles';
+import { createColumnarIngestor, remapColumnar } from './logPipeline';
+import { hydrateLogs } from './columnarLogs';
+import { ServerRoleRule } from '../types';
+
+const HEADER = ['timestamp', 'message', 'cloud_RoleName', 'customDimensions'];
+
+function makeRows(): Record<string, string>[] {
+  return [
+    { timestamp: '2024-01-15T10:00:00Z', message: 'a', cloud_RoleName: 'web-auth', customDimensions: '{"InstanceName":"prod-CM-01"}' },
+    { timestamp: '2024-01-15T10:00:01Z', message: 'b', cloud_RoleName: 'web-api', customDimensions: '{"InstanceName":"prod-CD-02"}' },
+    { timestamp: '2024-01-15T10:00:02Z', message: 'c', cloud_RoleName: 'web-api', customDimensions: '{"InstanceName":"prod-CD-03"}' },
+    { timestamp: '2024-01-15T10:00:03Z', message: 'd', cloud_RoleName: '', customDimensions: '' },
+  ];
+}
+
+function ingest() {
+  const ingestor = createColumnarIngestor(0);
+  ingestor.addRows(makeRows(), HEADER);
+  return ingestor.finish();
+}
+
+const APP_RULES: ServerRoleRule[] = [
+  { source: 'cloud_RoleName', pattern: 'auth', role: 'Auth', color: '#f472b6' },
+  { source: 'cloud_RoleName', pattern: '-api$', role: 'API', color: '#facc15' },
+];
+
+// =============================================================================
+// Classification
+// =============================================================================
+describe('resolveServerRole', () => {
+  it('should classify Sitecore instance names with the default rules', () => {
+    const columns = ['customDimensions'];
+    const role = (name: string) =>
+      resolveServerRole({ customDimensions: '{}', 'customDimensions.InstanceName': name }, columns);
+
+    expect(role('prod-CM-01')).toBe('CM');
+    expect(role('prod-cd-02')).toBe('CD');
+    expect(role('prod-XP-01')).toBe('XP');
+    expect(role('worker-7')).toBe('Other');
+    expect(resolveServerRole({ customDimensions: '' }, columns)).toBeUndefined();
+  });
+
+  it('should use the first matching rule on any column', () => {
+    expect(resolveServerRole({ cloud_RoleName: 'web-auth-api' }, ['cloud_RoleName'], APP_RULES)).toBe('Auth');
+    expect(resolveServerRole({ cloud_RoleName: 'web-api' }, ['cloud_RoleName'], APP_RULES)).toBe('API');
+    expect(resolveServerRole({ cloud_RoleName: 'web-jobs' }, ['cloud_RoleName'], APP_RULES)).toBeUndefined();
+  });
+
+  it('should find sources ignoring case', () => {
+    const rules: ServerRoleRule[] = [{ source: 'customdimensions.instancename', pattern: '-CM', role: 'CM', color: '#60a5fa' }];
+
+    expect(resolveServerRole({ CLOUD_ROLENAME: 'x' }, ['CLOUD_ROLENAME'], [{ ...APP_RULES[0], pattern: 'x' }])).toBe('Auth');
+    expect(resolveServerRole(
+      { custom_Dimensions: '{}', 'custom_Dimensions.InstanceName': 'a-CM-1' },
+      ['custom_Dimensions'],
+      [{ ...rules[0], source: 'custom_dimensions.instanceName' }]
+    )).toBe('CM');
+  });
+
+  it('should skip invalid rules', () => {
+    const rules: ServerRoleRule[] = [{ ...APP_RULES[0], pattern: '(' }, APP_RULES[1]];
+    expect(resolveServerRole({ cloud_RoleName: 'auth-api' }, ['cloud_RoleName'], rules)).toBe('API');
+  });
+});
+
+describe('validateServerRoleRule', () => {
+  it('should explain what is missing', () => {
+    const rule = APP_RULES[0];
+    expect(validateServerRoleRule(rule)).toBeNull();
+    expect(validateServerRoleRule({ ...rule, source: ' ' })).toBe('Enter a column');
+    expect(validateServerRoleRule({ ...rule, pattern: '' })).toBe('Enter a pattern');
+    expect(validateServerRoleRule({ ...rule, pattern: '[' })).toBe('Invalid regular expression');
+    expect(validateServerRoleRule({ ...rule, role: '' })).toBe('Enter a role name');
+    expect(validateServerRoleRule({ ...rule, color: 'pink' })).toBe('Pick a colour');
+  });
+});
+
+// =============================================================================
+// Roles in the data
+// =============================================================================
+describe('listServerRoles', () => {
+  it('should count the roles present in rule order', () => {
+    const logs = hydrateLogs(ingest().data);
+
+    expect(listServerRoles(logs)).toEqual([
+      { role: 'CM', color: '#60a5fa', count: 1 },
+      { role: 'CD', color: '#4ade80', count: 2 },
+    ]);
+  });
+});
+
+describe('previewServerRoles', () => {
+  it('should count how draft rules classify the file', () => {
+    const { data } = ingest();
+
+    expect(previewServerRoles(data, APP_RULES)).toEqual([
+      { role: 'Auth', color: '#f472b6', count: 1 },
+      { role: 'API', color: '#facc15', count: 2 },
+    ]);
+    expect(previewServerRoles(data, DEFAULT_SERVER_ROLE_RULES).map(o => o.role)).toEqual(['CM', 'CD']);
+  });
+
+  it('should match the roles a remap with the same rules derives', () => {
+    const { data, mapping } = ingest();
+    const remapped = remapColumnar(data, { ...mapping, serverRoleRules: APP_RULES }).data;
+    const logs = hydrateLogs(remapped);
+    const roles = Object.fromEntries(logs.map(l => [l._message, l._serverRole]));
+
+    expect(roles).toEqual({ a: 'Auth', b: 'API', c: 'API', d: undefined });
+    expect(listServerRoles(logs, APP_RULES)).toEqual(previewServerRoles(data, APP_RULES));
+  });
+});
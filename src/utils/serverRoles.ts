@@ -0,0 +1,168 @@
+import { ColumnarLogs, LogEntry, LogSummary, ServerRoleRule } from '../types';
+import { createLogReader } from './columnarLogs';
+
+const INSTANCE_NAME = 'customDimensions.InstanceName';
+const FALLBACK_COLOR = '#9ca3af';
+
+// Sitecore hosts named <site>-CM-01, <site>-CD-02, ...; any other instance
+// name counts as Other
+export const DEFAULT_SERVER_ROLE_RULES: ServerRoleRule[] = [
+  { source: INSTANCE_NAME, pattern: '-CM', role: 'CM', color: '#60a5fa' },
+  { source: INSTANCE_NAME, pattern: '-CD', role: 'CD', color: '#4ade80' },
+  { source: INSTANCE_NAME, pattern: '-XP', role: 'XP', color: '#c084fc' },
+  { source: INSTANCE_NAME, pattern: '.', role: 'Other', color: FALLBACK_COLOR }
+];
+
+export interface ServerRoleOption {
+  role: string;
+  color: string;
+  count: number;
+}
+
+export function validateServerRoleRule(rule: ServerRoleRule): string | null {
+  if (!rule.source.trim()) return 'Enter a column';
+  if (!rule.pattern) return 'Enter a pattern';
+  try {
+    new RegExp(rule.pattern, 'i');
+  } catch {
+    return 'Invalid regular expression';
+  }
+  if (!rule.role.trim()) return 'Enter a role name';
+  if (!/^#[0-9a-f]{6}$/i.test(rule.color)) return 'Pick a colour';
+  return null;
+}
+
+export type ServerRoleClassifier = (row: Record<string, string>, columns: string[]) => string | undefined;
+
+interface CompiledRule {
+  source: string;
+  parent?: string; // Lower-cased dynamic column of a dotted source
+  key?: string; // Lower-cased key inside it
+  pattern: RegExp;
+  role: string;
+}
+
+const classifiers = new WeakMap<ServerRoleRule[], ServerRoleClassifier>();
+
+// Sources are found ignoring case: a header column first, then a flattened
+// key under a header column (customdimensions.instanceName and the like).
+// Header lookups are cached for the columns array in use.
+function createKeyResolver() {
+  let cachedColumns: string[] | null = null;
+  const headerKeys = new Map<CompiledRule, string | null>();
+
+  return (rule: CompiledRule, row: Record<string, string>, columns: string[]): string | undefined => {
+    if (rule.source in row) return rule.source;
+
+    if (columns !== cachedColumns) {
+      cachedColumns = columns;
+      headerKeys.clear();
+    }
+    let header = headerKeys.get(rule);
+    if (header === undefined) {
+      const lower = rule.source.toLowerCase();
+      header = columns.find(c => c.toLowerCase() === lower)
+        ?? (rule.parent ? columns.find(c => c.toLowerCase() === rule.parent) : undefined)
+        ?? null;
+      headerKeys.set(rule, header);
+    }
+    if (header === null) return undefined;
+    if (!rule.parent || header.toLowerCase() === rule.source.toLowerCase()) return header;
+
+    const prefix = `${header}.`;
+    for (const name in row) {
+      if (name.startsWith(prefix) && name.slice(prefix.length).toLowerCase() === rule.key) return name;
+    }
+    return undefined;
+  };
+}
+
+// First matching rule wins; invalid rules are skipped. Compiled classifiers
+// are cached per rules array.
+export function compileServerRoleRules(rules: ServerRoleRule[]): ServerRoleClassifier {
+  let classifier = classifiers.get(rules);
+  if (classifier) return classifier;
+
+  const compiled: CompiledRule[] = rules
+    .filter(rule => validateServerRoleRule(rule) === null)
+    .map(rule => {
+      const source = rule.source.trim();
+      const dot = source.indexOf('.');
+      return {
+        source,
+        parent: dot > 0 ? source.slice(0, dot).toLowerCase() : undefined,
+        key: dot > 0 ? source.slice(dot + 1).toLowerCase() : undefined,
+        pattern: new RegExp(rule.pattern, 'i'),
+        role: rule.role.trim()
+      };
+    });
+  const resolve = createKeyResolver();
+
+  classifier = (row, columns) => {
+    for (const rule of compiled) {
+      const key = resolve(rule, row, columns);
+      const value = key === undefined ? '' : row[key];
+      if (value && rule.pattern.test(value)) return rule.role;
+    }
+    return undefined;
+  };
+  classifiers.set(rules, classifier);
+  return classifier;
+}
+
+export function resolveServerRole(
+  row: Record<string, string>,
+  columns: string[],
+  rules: ServerRoleRule[] = DEFAULT_SERVER_ROLE_RULES
+): string | undefined {
+  return compileServerRoleRules(rules)(row, columns);
+}
+
+export function roleColor(role: string, rules: ServerRoleRule[] = DEFAULT_SERVER_ROLE_RULES): string {
+  return rules.find(rule => rule.role.trim() === role)?.color ?? FALLBACK_COLOR;
+}
+
+// Roles in rule order, then any others (from an earlier rule set) by name
+function toOptions(counts: Map<string, number>, rules: ServerRoleRule[]): ServerRoleOption[] {
+  const order = rules.map(rule => rule.role.trim());
+  return Array.from(counts, ([role, count]) => ({ role, color: roleColor(role, rules), count }))
+    .sort((a, b) => {
+      const ai = order.indexOf(a.role);
+      const bi = order.indexOf(b.role);
+      if (ai !== bi) return (ai < 0 ? Infinity : ai) - (bi < 0 ? Infinity : bi);
+      return a.role.localeCompare(b.role);
+    });
+}
+
+// The roles the loaded rows actually carry, for the role filter
+export function listServerRoles(logs: LogEntry[], rules: ServerRoleRule[] = DEFAULT_SERVER_ROLE_RULES): ServerRoleOption[] {
+  const counts = new Map<string, number>();
+  for (const log of logs) {
+    const role = log._serverRole;
+    if (role) counts.set(role, (counts.get(role) || 0) + 1);
+  }
+  return toOptions(counts, rules);
+}
+
+// The same list from a file's summary, without reading its rows
+export function listSummaryRoles(summary: LogSummary, rules: ServerRoleRule[] = DEFAULT_SERVER_ROLE_RULES): ServerRoleOption[] {
+  return toOptions(new Map(summary.roles.map(({ role, rows }) => [role, rows])), rules);
+}
+
+// How draft rules would classify a parsed file. Only the rules' source
+// columns are read from each row.
+export function previewServerRoles(data: ColumnarLogs, rules: ServerRoleRule[]): ServerRoleOption[] {
+  const classify = compileServerRoleRules(rules);
+  const reader = createLogReader(data);
+  const lowerSources = new Set(rules.map(rule => rule.source.trim().toLowerCase()));
+  const sourceColumns = data.columns.filter(c => lowerSources.has(c.toLowerCase()));
+
+  const counts = new Map<string, number>();
+  for (let row = 0; row < data.count; row++) {
+    const cells: Record<string, string> = {};
+    for (const column of sourceColumns) cells[column] = reader.cell(row, column);
+    const role = classify(cells, sourceColumns);
+    if (role) counts.set(role, (counts.get(role) || 0) + 1);
+  }
+  return toOptions(counts, rules);
+}
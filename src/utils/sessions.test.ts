@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  columnarBytes,
+  toStoredFile,
+  fromStoredFile,
+  summarizeSession,
+  sessionsToEvict,
+  listSessions,
+  saveSession,
+  saveSessionState,
+  loadSession,
+  deleteSession,
+  SessionQuotaError,
+  MAX_SESSIONS,
+} from './sessions';
+import { createColumnarIngestor } from './logPipeline';
+import { hydrateLogs } from './columnarLogs';
+import { LogFile, SessionState, SessionSummary } from '../types';
+
+function makeFile(name: string): LogFile {
+  const ingestor = createColumnarIngestor(0);
+  ingestor.addRows([
+    { timestamp: '2024-01-15T10:00:00Z', message: 'Started', severityLevel: '1' },
+    { timestamp: '2024-01-15T10:00:01Z', message: 'Failed', severityLevel: '3' },
+  ], ['timestamp', 'message', 'severityLevel']);
+  const { data, columns, mapping } = ingestor.finish();
+  const logs = hydrateLogs(data);
+  return {
+    id: `file-${name}`,
+    name,
+    logs,
+    columns,
+    mapping,
+    stats: { total: 2, errors: 1, warnings: 0, info: 1, verbose: 0, timeStart: null, timeEnd: null },
+    columnar: data,
+  };
+}
+
+function makeSummary(id: string, savedAt: number, bytes: number): SessionSummary {
+  return { id, name: id, savedAt, rows: 1, bytes, fileNames: [id] };
+}
+
+function makeState(searchText = ''): SessionState {
+  return {
+    filters: { timeWindow: null, severities: [], searchText, searchColumn: '_all', patternIds: null, serverRoles: [] },
+    selectedPattern: null,
+    aiResults: {},
+    fileSizes: [],
+  };
+}
+
+// =============================================================================
+// Stored form
+// =============================================================================
+describe('stored files', () => {
+  it('should drop hydrated entries and rebuild them on load', () => {
+    const file = makeFile('traces.csv');
+    const stored = toStoredFile(file)!;
+
+    expect('logs' in stored).toBe(false);
+    const restored = fromStoredFile(structuredClone(stored));
+    expect(restored.logs.map(l => l._message)).toEqual(file.logs.map(l => l._message));
+    expect(restored.mapping).toEqual(file.mapping);
+  });
+
+  it('should skip files without columnar data', () => {
+    expect(toStoredFile({ ...makeFile('a.csv'), columnar: undefined })).toBeNull();
+  });
+
+  it('should summarise rows, size and source files', () => {
+    const merged = { ...toStoredFile(makeFile('2 files merged'))!, sources: [{ name: 'a.csv', rows: 1 }, { name: 'b.csv', rows: 1 }] };
+    const compared = toStoredFile(makeFile('c.csv'))!;
+
+    const summary = summarizeSession('s1', [merged, compared], 1000);
+
+    expect(summary).toMatchObject({ id: 's1', name: '2 files merged vs c.csv', savedAt: 1000, rows: 4 });
+    expect(summary.fileNames).toEqual(['a.csv', 'b.csv', 'c.csv']);
+    expect(summary.bytes).toBe(columnarBytes(merged.columnar) + columnarBytes(compared.columnar));
+    expect(summary.bytes).toBeGreaterThan(0);
+  });
+});
+
+// =============================================================================
+// Quota
+// =============================================================================
+describe('sessionsToEvict', () => {
+  const sessions = [makeSummary('old', 1, 300), makeSummary('mid', 2, 200), makeSummary('new', 3, 100)];
+
+  it('should keep everything while the session fits', () => {
+    expect(sessionsToEvict(sessions, 'next', 100, 500)).toEqual([]);
+  });
+
+  it('should drop the oldest sessions until the new one fits', () => {
+    expect(sessionsToEvict(sessions, 'next', 700, 500)).toEqual(['old']);
+    expect(sessionsToEvict(sessions, 'next', 900, 500)).toEqual(['old', 'mid']);
+  });
+
+  it('should count the bytes of the session being replaced as free', () => {
+    expect(sessionsToEvict(sessions, 'new', 550, 500)).toEqual([]);
+  });
+
+  it('should keep the list under the session limit', () => {
+    expect(sessionsToEvict(sessions, 'next', 1, 500, 2)).toEqual(['old', 'mid']);
+  });
+
+  it('should report when the session cannot fit at all', () => {
+    expect(sessionsToEvict(sessions, 'next', 5000, 500)).toBeNull();
+  });
+});
+
+describe('without IndexedDB', () => {
+  it('should list no sessions and refuse to save', async () => {
+    expect(await listSessions(undefined)).toEqual([]);
+    await expect(saveSession('s1', [makeFile('a.csv')], makeState(), undefined)).rejects.toThrow('IndexedDB');
+  });
+});
+
+// =============================================================================
+// IndexedDB storage
+// =============================================================================
+describe('IndexedDB storage', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  // Each session saved one second after the previous one
+  function tick() {
+    let now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+  }
+
+  it('should save a session and load it back', async () => {
+    const factory = new IDBFactory();
+    const file = makeFile('traces.csv');
+
+    const summary = await saveSession('s1', [file], makeState('timeout'), factory);
+    expect(await listSessions(factory)).toEqual([summary]);
+
+    const loaded = (await loadSession('s1', factory))!;
+    expect(loaded.state.filters.searchText).toBe('timeout');
+    expect(loaded.files[0].name).toBe('traces.csv');
+    expect(loaded.files[0].logs.map(l => l._message)).toEqual(file.logs.map(l => l._message));
+    expect(await loadSession('missing', factory)).toBeNull();
+  });
+
+  it('should update the state and delete sessions', async () => {
+    const factory = new IDBFactory();
+    await saveSession('s1', [makeFile('a.csv')], makeState(), factory);
+
+    await saveSessionState('s1', makeState('lock'), factory);
+    expect((await loadSession('s1', factory))!.state.filters.searchText).toBe('lock');
+
+    await deleteSession('s1', factory);
+    expect(await listSessions(factory)).toEqual([]);
+    expect(await loadSession('s1', factory)).toBeNull();
+  });
+
+  it('should drop the oldest sessions once the list is full', async () => {
+    const factory = new IDBFactory();
+    tick();
+    for (let i = 0; i <= MAX_SESSIONS; i++) {
+      await saveSession(`s${i}`, [makeFile(`${i}.csv`)], makeState(), factory);
+    }
+
+    const ids = (await listSessions(factory)).map(s => s.id);
+    expect(ids).toHaveLength(MAX_SESSIONS);
+    expect(ids[0]).toBe(`s${MAX_SESSIONS}`);
+    expect(ids).not.toContain('s0');
+    expect(await loadSession('s0', factory)).toBeNull();
+  });
+
+  it('should drop the oldest sessions when storage runs short', async () => {
+    const factory = new IDBFactory();
+    tick();
+    await saveSession('old', [makeFile('old.csv')], makeState(), factory);
+    await saveSession('mid', [makeFile('mid.csv')], makeState(), factory);
+    const bytes = (await listSessions(factory))[0].bytes;
+
+    // Room for the new session only once one older session is gone
+    vi.stubGlobal('navigator', { storage: { estimate: async () => ({ usage: 0, quota: bytes / 2 }) } });
+    await saveSession('new', [makeFile('new.csv')], makeState(), factory);
+
+    expect((await listSessions(factory)).map(s => s.id)).toEqual(['new', 'mid']);
+  });
+
+  it('should refuse a session that cannot fit at all', async () => {
+    const factory = new IDBFactory();
+    await saveSession('old', [makeFile('old.csv')], makeState(), factory);
+    vi.stubGlobal('navigator', { storage: { estimate: async () => ({ usage: 100, quota: 100 }) } });
+
+    // Twice the size of everything that could be dropped
+    const files = [makeFile('a.csv'), makeFile('b.csv')];
+    await expect(saveSession('new', files, makeState(), factory)).rejects.toBeInstanceOf(SessionQuotaError);
+    expect((await listSessions(factory)).map(s => s.id)).toEqual(['old']);
+  });
+});
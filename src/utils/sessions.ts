@@ -0,0 +1,230 @@
+import { ColumnarLogs, LogFile, SessionState, SessionSummary } from '../types';
+import { hydrateLogs } from './columnarLogs';
+
+// Parsed files are kept in IndexedDB so a refresh, or a later visit, reopens
+// an investigation without re-reading the export. The recent list and the
+// investigation state live in their own store, so listing sessions and saving
+// filter changes never touch the columnar data.
+
+const DB_NAME = 'pulse';
+const DB_VERSION = 1;
+const SUMMARIES = 'sessions';
+const DATASETS = 'sessionData';
+
+export const MAX_SESSIONS = 8;
+
+// A LogFile without its hydrated entries, which are rebuilt on load
+export type StoredFile = Omit<LogFile, 'logs'> & { columnar: ColumnarLogs };
+
+interface SessionRecord extends SessionSummary {
+  state: SessionState;
+}
+
+interface DatasetRecord {
+  id: string;
+  files: StoredFile[];
+}
+
+// Raised when the browser cannot hold the session even after dropping older ones
+export class SessionQuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionQuotaError';
+  }
+}
+
+export function columnarBytes(data: ColumnarLogs): number {
+  let total = data.strings.bytes.byteLength + data.strings.offsets.byteLength;
+  if (data.search) {
+    total += data.search.terms.bytes.byteLength + data.search.terms.offsets.byteLength
+      + data.search.offsets.byteLength + data.search.rows.byteLength;
+  }
+  for (const value of Object.values(data)) {
+    if (ArrayBuffer.isView(value)) total += value.byteLength;
+  }
+  return total;
+}
+
+// Files parsed before columnar storage existed cannot be saved
+export function toStoredFile(file: LogFile): StoredFile | null {
+  if (!file.columnar) return null;
+  const stored: Partial<LogFile> = { ...file };
+  delete stored.logs;
+  return stored as StoredFile;
+}
+
+export function fromStoredFile(stored: StoredFile): LogFile {
+  return { ...stored, logs: hydrateLogs(stored.columnar) };
+}
+
+export function summarizeSession(id: string, files: StoredFile[], savedAt = Date.now()): SessionSummary {
+  return {
+    id,
+    name: files.map(f => f.name).join(' vs '),
+    savedAt,
+    rows: files.reduce((sum, f) => sum + f.columnar.count, 0),
+    bytes: files.reduce((sum, f) => sum + columnarBytes(f.columnar), 0),
+    fileNames: files.flatMap(f => f.sources?.map(s => s.name) ?? [f.name])
+  };
+}
+
+// Oldest sessions to drop so that a new one of `needed` bytes fits in
+// `available` bytes and the list stays under MAX_SESSIONS. Returns null when
+// dropping every other session is still not enough.
+export function sessionsToEvict(
+  sessions: SessionSummary[],
+  keepId: string,
+  needed: number,
+  available: number,
+  maxSessions = MAX_SESSIONS
+): string[] | null {
+  const others = sessions.filter(s => s.id !== keepId).sort((a, b) => a.savedAt - b.savedAt);
+  const replaced = sessions.find(s => s.id === keepId)?.bytes ?? 0;
+  let free = available + replaced;
+  const evict: string[] = [];
+
+  for (const session of others) {
+    const overLimit = others.length - evict.length >= maxSessions;
+    if (!overLimit && free >= needed) break;
+    evict.push(session.id);
+    free += session.bytes;
+  }
+  return free >= needed ? evict : null;
+}
+
+export async function estimateStorage(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+}
+
+// =============================================================================
+// IndexedDB access
+// =============================================================================
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(factory: IDBFactory | undefined): Promise<IDBDatabase> {
+  if (!factory) return Promise.reject(new Error('Sessions need IndexedDB, which this browser does not allow'));
+  const request = factory.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(DATASETS)) db.createObjectStore(DATASETS, { keyPath: 'id' });
+  };
+  return promisify(request);
+}
+
+async function withDatabase<T>(factory: IDBFactory | undefined, run: (db: IDBDatabase) => Promise<T>): Promise<T> {
+  const db = await openDatabase(factory);
+  try {
+    return await run(db);
+  } finally {
+    db.close();
+  }
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'QuotaExceededError';
+}
+
+// Newest first
+export async function listSessions(factory: IDBFactory | undefined = globalThis.indexedDB): Promise<SessionSummary[]> {
+  if (!factory) return [];
+  return withDatabase(factory, async db => {
+    const records = await promisify(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll()) as SessionRecord[];
+    return records
+      .map(({ id, name, savedAt, rows, bytes, fileNames }) => ({ id, name, savedAt, rows, bytes, fileNames }))
+      .sort((a, b) => b.savedAt - a.savedAt);
+  });
+}
+
+// Saves (or replaces) a session's files and state. Older sessions are dropped
+// when storage runs short or the list is full.
+export async function saveSession(
+  id: string,
+  files: LogFile[],
+  state: SessionState,
+  factory: IDBFactory | undefined = globalThis.indexedDB
+): Promise<SessionSummary> {
+  const stored = files.map(toStoredFile).filter((f): f is StoredFile => f !== null);
+  const summary = summarizeSession(id, stored);
+  const storage = await estimateStorage();
+  const sessions = await listSessions(factory);
+  const available = storage ? storage.quota - storage.usage : Infinity;
+  const evict = sessionsToEvict(sessions, id, summary.bytes, available);
+  if (!evict) {
+    throw new SessionQuotaError(`Not enough browser storage to keep this session (${Math.ceil(summary.bytes / 1048576)} MB needed)`);
+  }
+
+  return withDatabase(factory, async db => {
+    const tx = db.transaction([SUMMARIES, DATASETS], 'readwrite');
+    for (const old of evict) {
+      tx.objectStore(SUMMARIES).delete(old);
+      tx.objectStore(DATASETS).delete(old);
+    }
+    const record: SessionRecord = { ...summary, state };
+    const dataset: DatasetRecord = { id, files: stored };
+    tx.objectStore(SUMMARIES).put(record);
+    tx.objectStore(DATASETS).put(dataset);
+    try {
+      await completion(tx);
+    } catch (err) {
+      if (isQuotaError(err)) throw new SessionQuotaError('Browser storage is full; delete older sessions to keep this one');
+      throw err;
+    }
+    return summary;
+  });
+}
+
+// Updates the investigation state of a saved session; unknown ids are ignored
+export async function saveSessionState(
+  id: string,
+  state: SessionState,
+  factory: IDBFactory | undefined = globalThis.indexedDB
+): Promise<void> {
+  return withDatabase(factory, async db => {
+    const tx = db.transaction(SUMMARIES, 'readwrite');
+    const store = tx.objectStore(SUMMARIES);
+    const record = await promisify(store.get(id)) as SessionRecord | undefined;
+    if (record) store.put({ ...record, state });
+    await completion(tx);
+  });
+}
+
+export async function loadSession(
+  id: string,
+  factory: IDBFactory | undefined = globalThis.indexedDB
+): Promise<{ files: LogFile[]; state: SessionState } | null> {
+  return withDatabase(factory, async db => {
+    const tx = db.transaction([SUMMARIES, DATASETS]);
+    const [record, dataset] = await Promise.all([
+      promisify(tx.objectStore(SUMMARIES).get(id)) as Promise<SessionRecord | undefined>,
+      promisify(tx.objectStore(DATASETS).get(id)) as Promise<DatasetRecord | undefined>
+    ]);
+    if (!record || !dataset) return null;
+    return { files: dataset.files.map(fromStoredFile), state: record.state };
+  });
+}
+
+export async function deleteSession(id: string, factory: IDBFactory | undefined = globalThis.indexedDB): Promise<void> {
+  return withDatabase(factory, async db => {
+    const tx = db.transaction([SUMMARIES, DATASETS], 'readwrite');
+    tx.objectStore(SUMMARIES).delete(id);
+    tx.objectStore(DATASETS).delete(id);
+    await completion(tx);
+  });
+}
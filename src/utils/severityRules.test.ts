@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSeverityLevel,
+  validateSeverityRule,
+  compileSeverityRules,
+  resolveSeverity,
+  previewSeverities,
+} from './severityRules';
+import { SeverityRule } from '../types';
+
+// =============================================================================
+// Built-in level names
+// =============================================================================
+describe('parseSeverityLevel', () => {
+  it('should map logging framework level names', () => {
+    expect(parseSeverityLevel('Fatal')).toBe(4);
+    expect(parseSeverityLevel('Notice')).toBe(1);
+    expect(parseSeverityLevel('Trace')).toBe(0);
+    expect(parseSeverityLevel('Debug')).toBe(0);
+  });
+
+  it('should map Serilog three-letter levels', () => {
+    expect(parseSeverityLevel('FTL')).toBe(4);
+    expect(parseSeverityLevel('WRN')).toBe(2);
+    expect(parseSeverityLevel('VRB')).toBe(0);
+  });
+
+  it('should report unknown text as unrecognized', () => {
+    expect(parseSeverityLevel('Emergency')).toBeUndefined();
+    expect(parseSeverityLevel('7')).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// Rules
+// =============================================================================
+describe('validateSeverityRule', () => {
+  it('should flag incomplete or broken rules', () => {
+    expect(validateSeverityRule({ match: 'exact', value: ' ', severity: 1 })).toBe('Enter a value');
+    expect(validateSeverityRule({ match: 'regex', value: '(', severity: 1 })).toBe('Invalid regular expression');
+    expect(validateSeverityRule({ match: 'range', value: '', severity: 1 })).toBe('Enter a minimum or maximum');
+    expect(validateSeverityRule({ match: 'range', value: '', min: 5, max: 1, severity: 1 })).toBe('Minimum is above maximum');
+    expect(validateSeverityRule({ match: 'exact', value: 'x', severity: 9 })).toBe('Unknown severity level');
+  });
+
+  it('should accept complete rules', () => {
+    expect(validateSeverityRule({ match: 'range', value: '', min: 50, severity: 4 })).toBeNull();
+  });
+});
+
+describe('compileSeverityRules', () => {
+  const rules: SeverityRule[] = [
+    { match: 'exact', value: 'Notice', severity: 2 },
+    { match: 'regex', value: '^(emerg|alert)', severity: 4 },
+    { match: 'range', value: '', min: 40, max: 49, severity: 3 },
+    { match: 'range', value: '', min: 50, severity: 4 },
+  ];
+
+  it('should apply exact, regex and range rules before the built-in names', () => {
+    const classify = compileSeverityRules(rules);
+
+    expect(classify('notice')).toEqual({ severity: 2, source: 'rule' });
+    expect(classify('EMERGENCY')).toEqual({ severity: 4, source: 'rule' });
+    expect(classify('45')).toEqual({ severity: 3, source: 'rule' });
+    expect(classify('60')).toEqual({ severity: 4, source: 'rule' });
+    expect(classify('Warning')).toEqual({ severity: 2, source: 'builtin' });
+    expect(classify('mystery')).toEqual({ severity: 1, source: 'unrecognized' });
+  });
+
+  it('should let the first matching rule win', () => {
+    const classify = compileSeverityRules([
+      { match: 'regex', value: 'err', severity: 2 },
+      { match: 'exact', value: 'error', severity: 4 },
+    ]);
+
+    expect(classify('error').severity).toBe(2);
+  });
+
+  it('should skip invalid rules', () => {
+    expect(resolveSeverity('Error', [{ match: 'regex', value: '(', severity: 0 }])).toBe(3);
+  });
+});
+
+describe('previewSeverities', () => {
+  it('should count rows per level and list unrecognized values', () => {
+    const values = new Map([['Error', 3], ['Notice', 5], ['Emergency', 2], ['Weird', 4]]);
+
+    const preview = previewSeverities(values, [{ match: 'exact', value: 'emergency', severity: 4 }]);
+
+    expect(preview.counts).toEqual([0, 9, 0, 3, 2]);
+    expect(preview.unrecognized).toEqual([{ value: 'Weird', count: 4 }]);
+  });
+});
@@ -0,0 +1,135 @@
+import { SeverityRule } from '../types';
+
+// Severity levels follow App Insights severityLevel
+export const SEVERITY_LEVELS = [0, 1, 2, 3, 4];
+
+// Three-letter levels written by Serilog's text sinks
+const ABBREVIATIONS: Record<string, number> = { ftl: 4, err: 3, wrn: 2, inf: 1, dbg: 0, vrb: 0 };
+
+// Level for a recognised severity value; undefined for text no built-in name
+// covers. Empty values count as Verbose.
+export function parseSeverityLevel(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return 0;
+
+  const str = String(value).toLowerCase().trim();
+  const abbreviated = ABBREVIATIONS[str];
+  if (abbreviated !== undefined) return abbreviated;
+
+  const num = parseInt(str);
+  if (!isNaN(num) && num >= 0 && num <= 4) return num;
+
+  if (str.includes('critical') || str.includes('fatal')) return 4;
+  if (str.includes('error')) return 3;
+  if (str.includes('warn')) return 2;
+  if (str.includes('info') || str.includes('notice')) return 1;
+  if (str.includes('verbose') || str.includes('debug') || str.includes('trace')) return 0;
+
+  return undefined;
+}
+
+export function parseSeverity(value: string | number | undefined): number {
+  return parseSeverityLevel(value) ?? 1;
+}
+
+export function validateSeverityRule(rule: SeverityRule): string | null {
+  if (!SEVERITY_LEVELS.includes(rule.severity)) return 'Unknown severity level';
+
+  switch (rule.match) {
+    case 'exact':
+      return rule.value.trim() ? null : 'Enter a value';
+    case 'regex':
+      if (!rule.value) return 'Enter a pattern';
+      try {
+        new RegExp(rule.value, 'i');
+        return null;
+      } catch {
+        return 'Invalid regular expression';
+      }
+    case 'range':
+      if (rule.min === undefined && rule.max === undefined) return 'Enter a minimum or maximum';
+      if (rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) return 'Minimum is above maximum';
+      return null;
+  }
+}
+
+export type SeveritySource = 'rule' | 'builtin' | 'unrecognized';
+
+export type SeverityClassifier = (value: string | undefined) => { severity: number; source: SeveritySource };
+
+type RuleTest = (text: string, num: number) => boolean;
+
+function compileRule(rule: SeverityRule): RuleTest {
+  switch (rule.match) {
+    case 'exact': {
+      const expected = rule.value.trim().toLowerCase();
+      return text => text.toLowerCase() === expected;
+    }
+    case 'regex': {
+      const pattern = new RegExp(rule.value, 'i');
+      return text => pattern.test(text);
+    }
+    case 'range': {
+      const min = rule.min ?? -Infinity;
+      const max = rule.max ?? Infinity;
+      return (_text, num) => !isNaN(num) && num >= min && num <= max;
+    }
+  }
+}
+
+// Compiled classifiers are cached per rules array; a parse reuses one array
+// for every row
+const classifiers = new WeakMap<SeverityRule[], SeverityClassifier>();
+
+// First matching rule wins; invalid rules are skipped; values no rule matches
+// fall back to the built-in level names
+export function compileSeverityRules(rules: SeverityRule[]): SeverityClassifier {
+  let classifier = classifiers.get(rules);
+  if (classifier) return classifier;
+
+  const compiled = rules
+    .filter(rule => validateSeverityRule(rule) === null)
+    .map(rule => ({ test: compileRule(rule), severity: rule.severity }));
+
+  classifier = value => {
+    const text = (value ?? '').trim();
+    if (text) {
+      const num = Number(text);
+      for (const rule of compiled) {
+        if (rule.test(text, num)) return { severity: rule.severity, source: 'rule' };
+      }
+    }
+    const builtin = parseSeverityLevel(text);
+    return builtin === undefined
+      ? { severity: 1, source: 'unrecognized' }
+      : { severity: builtin, source: 'builtin' };
+  };
+  classifiers.set(rules, classifier);
+  return classifier;
+}
+
+export function resolveSeverity(value: string | undefined, rules?: SeverityRule[]): number {
+  if (!rules || rules.length === 0) return parseSeverity(value);
+  return compileSeverityRules(rules)(value).severity;
+}
+
+export interface SeverityPreview {
+  counts: number[]; // Rows per level, indexed by severity
+  unrecognized: { value: string; count: number }[]; // Values that defaulted to Info
+}
+
+// How the rows of a file would be classified, from the distinct values of
+// its severity column
+export function previewSeverities(valueCounts: Map<string, number>, rules: SeverityRule[]): SeverityPreview {
+  const classify = compileSeverityRules(rules);
+  const counts = SEVERITY_LEVELS.map(() => 0);
+  const unrecognized: { value: string; count: number }[] = [];
+
+  valueCounts.forEach((count, value) => {
+    const { severity, source } = classify(value);
+    counts[severity] += count;
+    if (source === 'unrecognized') unrecognized.push({ value, count });
+  });
+
+  unrecognized.sort((a, b) => b.count - a.count);
+  return { counts, unrecognized };
+}
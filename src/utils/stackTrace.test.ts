@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseExceptionDetails,
+  parseStackTraceText,
+  normalizeFrame,
+  stackFingerprint,
+  extractException,
+  extractExceptionGroups,
+} from './stackTrace';
+import { LogEntry } from '../types';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+function makeLog(overrides: Partial<LogEntry> & { _id: number }): LogEntry {
+  return {
+    _timestamp: null,
+    _severity: 3,
+    _message: '',
+    _raw: {},
+    ...overrides,
+  };
+}
+
+const NRE_TRACE = [
+  'Checkout failed: System.NullReferenceException: Object reference not set to an instance of an object.',
+  '   at Contoso.Cart.CartService.GetCart(String id) in C:\\src\\Cart\\CartService.cs:line 42',
+  '   at Contoso.Cart.CartController.Index() in C:\\src\\Cart\\CartController.cs:line 17',
+  '   at System.Web.Mvc.ActionMethodDispatcher.Execute(ControllerBase controller, Object[] parameters)',
+].join('\r\n');
+
+const NRE_DETAILS = JSON.stringify([{
+  outerId: '0',
+  type: 'System.NullReferenceException',
+  message: 'Cart was null for user 123',
+  parsedStack: [
+    { level: 0, method: 'Contoso.Cart.CartService.GetCart', assembly: 'Contoso.Cart, Version=1.0.0.0', line: 44, fileName: 'CartService.cs' },
+    { level: 1, method: 'Contoso.Cart.CartController.Index', assembly: 'Contoso.Cart, Version=1.0.0.0', line: 17 },
+    { level: 2, method: 'System.Web.Mvc.ActionMethodDispatcher.Execute', assembly: 'System.Web.Mvc' },
+  ],
+}]);
+
+// =============================================================================
+// Parsing
+// =============================================================================
+describe('parseStackTraceText', () => {
+  it('should extract type, message and frames from a .NET stack trace', () => {
+    const parsed = parseStackTraceText(NRE_TRACE)!;
+
+    expect(parsed.type).toBe('System.NullReferenceException');
+    expect(parsed.message).toBe('Object reference not set to an instance of an object.');
+    expect(parsed.frames).toHaveLength(3);
+    expect(parsed.frames[0]).toEqual({ method: 'Contoso.Cart.CartService.GetCart', fileName: 'C:\\src\\Cart\\CartService.cs', line: 42 });
+    expect(parsed.frames[2].method).toBe('System.Web.Mvc.ActionMethodDispatcher.Execute');
+  });
+
+  it('should return null when no exception type is present', () => {
+    expect(parseStackTraceText('Something went wrong')).toBeNull();
+  });
+});
+
+describe('parseExceptionDetails', () => {
+  it('should read parsedStack frames from the details column', () => {
+    const parsed = parseExceptionDetails(NRE_DETAILS)!;
+
+    expect(parsed.type).toBe('System.NullReferenceException');
+    expect(parsed.frames.map(f => f.method)).toEqual([
+      'Contoso.Cart.CartService.GetCart',
+      'Contoso.Cart.CartController.Index',
+      'System.Web.Mvc.ActionMethodDispatcher.Execute',
+    ]);
+    expect(parsed.frames[0].line).toBe(44);
+  });
+
+  it('should put inner exception frames first and fall back to rawStack', () => {
+    const parsed = parseExceptionDetails(JSON.stringify([
+      { type: 'System.AggregateException', message: 'outer', parsedStack: [{ method: 'Contoso.Jobs.Runner.Run' }] },
+      { type: 'System.TimeoutException', message: 'inner', rawStack: '   at Contoso.Jobs.Client.Fetch(Uri uri)' },
+    ]))!;
+
+    expect(parsed.type).toBe('System.AggregateException');
+    expect(parsed.frames.map(f => f.method)).toEqual(['Contoso.Jobs.Client.Fetch', 'Contoso.Jobs.Runner.Run']);
+  });
+
+  it('should return null for malformed JSON', () => {
+    expect(parseExceptionDetails('{not json')).toBeNull();
+  });
+});
+
+// =============================================================================
+// Fingerprinting
+// =============================================================================
+describe('stackFingerprint', () => {
+  it('should collapse compiler-generated async and lambda names', () => {
+    expect(normalizeFrame('Contoso.Web.HomeController+<Index>d__3.MoveNext')).toBe('Contoso.Web.HomeController.Index');
+    expect(normalizeFrame('Contoso.Web.Cache+<>c__DisplayClass5_0.<Get>b__0')).toBe('Contoso.Web.Cache.Get');
+    expect(normalizeFrame('Contoso.Repo`1.Find')).toBe('Contoso.Repo.Find');
+  });
+
+  it('should build the fingerprint from in-app frames only', () => {
+    const { fingerprint, frames } = stackFingerprint(parseStackTraceText(NRE_TRACE)!);
+
+    expect(frames).toEqual(['Contoso.Cart.CartService.GetCart', 'Contoso.Cart.CartController.Index']);
+    expect(fingerprint).toBe('System.NullReferenceException @ Contoso.Cart.CartService.GetCart < Contoso.Cart.CartController.Index');
+  });
+
+  it('should fall back to the normalized message without frames', () => {
+    const { fingerprint } = stackFingerprint({ type: 'System.TimeoutException', message: 'Timed out after 30 seconds', frames: [] });
+
+    expect(fingerprint).toBe('System.TimeoutException @ Timed out after <NUM> seconds');
+  });
+});
+
+// =============================================================================
+// extractException / extractExceptionGroups
+// =============================================================================
+describe('extractException', () => {
+  it('should ignore trace messages without a stack trace', () => {
+    expect(extractException(makeLog({ _id: 1, _message: 'Retrying after TimeoutException' }))).toBeNull();
+  });
+
+  it('should use problemId when an exceptions row has no details', () => {
+    const parsed = extractException(makeLog({
+      _id: 1,
+      _itemType: 'exception',
+      _exceptionType: 'System.InvalidOperationException',
+      _problemId: 'System.InvalidOperationException at Contoso.Orders.Submit',
+    }))!;
+
+    expect(parsed.frames).toEqual([{ method: 'Contoso.Orders.Submit' }]);
+  });
+});
+
+describe('extractExceptionGroups', () => {
+  it('should group exceptions with the same throw site despite different messages', () => {
+    const groups = extractExceptionGroups([
+      makeLog({ _id: 1, _message: NRE_TRACE, _timestamp: new Date('2024-01-15T10:00:00Z') }),
+      makeLog({ _id: 2, _itemType: 'exception', _message: 'Cart was null', _raw: { details: NRE_DETAILS }, _timestamp: new Date('2024-01-15T11:00:00Z') }),
+      makeLog({ _id: 3, _message: NRE_TRACE.replace('GetCart', 'SaveCart') }),
+      makeLog({ _id: 4, _message: 'plain info line', _severity: 1 }),
+    ]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[0].ids).toEqual([1, 2]);
+    expect(groups[0].messages).toEqual(['Object reference not set to an instance of an object.', 'Cart was null for user 123']);
+    expect(groups[0].firstSeen).toEqual(new Date('2024-01-15T10:00:00Z'));
+    expect(groups[0].lastSeen).toEqual(new Date('2024-01-15T11:00:00Z'));
+    expect(groups[1].ids).toEqual([3]);
+  });
+});
@@ -0,0 +1,179 @@
+import { ExceptionGroup, LogEntry, ParsedException, StackFrame } from '../types';
+import { getRawValue } from './columnarLogs';
+import { normalizeMessage } from './csvParser';
+
+// Frames from these namespaces belong to the runtime or platform, not the app
+const FRAMEWORK_PREFIXES = [
+  'System.', 'Microsoft.', 'Sitecore.', 'Newtonsoft.', 'Owin.', 'Autofac.',
+  'Castle.', 'Glass.Mapper.', 'lambda_method', 'DynamicClass.'
+];
+
+// How many in-app frames identify a throw site
+const FINGERPRINT_FRAMES = 3;
+
+// Exception type names: optional namespace, ending in Exception
+const EXCEPTION_TYPE = /\b((?:[A-Za-z_]\w*\.)*[A-Za-z_]\w*Exception)\b(?::[ \t]*([^\r\n]*))?/;
+
+// "   at Namespace.Type.Method(Args) in C:\path\File.cs:line 42"
+const FRAME_LINE = /^[ \t]*at[ \t]+(.+?)(?:[ \t]+in[ \t]+(.+?):line[ \t]+(\d+))?[ \t]*$/gm;
+const HAS_FRAME = /^[ \t]*at[ \t]+\S/m;
+
+interface ParsedStackEntry {
+  type?: string;
+  message?: string;
+  parsedStack?: { method?: string; assembly?: string; fileName?: string; line?: number }[];
+  rawStack?: string;
+}
+
+function stripParameters(method: string): string {
+  const paren = method.indexOf('(');
+  return (paren >= 0 ? method.slice(0, paren) : method).trim();
+}
+
+function parseFrameLines(text: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  for (const match of text.matchAll(FRAME_LINE)) {
+    frames.push({
+      method: stripParameters(match[1]),
+      fileName: match[2],
+      line: match[3] ? parseInt(match[3], 10) : undefined
+    });
+  }
+  return frames;
+}
+
+// The `details` column of an exceptions export: a JSON array with the outer
+// exception first and each inner exception after it
+export function parseExceptionDetails(details: string): ParsedException | null {
+  let entries: ParsedStackEntry[];
+  try {
+    const parsed = JSON.parse(details);
+    entries = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return null;
+  }
+  entries = entries.filter(e => e && typeof e === 'object');
+  if (entries.length === 0) return null;
+
+  // Innermost exception's frames first, matching the .NET text layout
+  const frames: StackFrame[] = [];
+  for (const entry of [...entries].reverse()) {
+    if (Array.isArray(entry.parsedStack)) {
+      entry.parsedStack.forEach(frame => {
+        if (!frame?.method) return;
+        frames.push({
+          method: stripParameters(frame.method),
+          assembly: frame.assembly,
+          fileName: frame.fileName,
+          line: frame.line
+        });
+      });
+    } else if (entry.rawStack) {
+      frames.push(...parseFrameLines(entry.rawStack));
+    }
+  }
+
+  return {
+    type: entries[0].type || '',
+    message: entries[0].message || '',
+    frames
+  };
+}
+
+// A .NET stack trace embedded in free text (typically a trace message)
+export function parseStackTraceText(text: string): ParsedException | null {
+  const header = EXCEPTION_TYPE.exec(text);
+  if (!header) return null;
+
+  return {
+    type: header[1],
+    message: (header[2] || '').trim(),
+    frames: parseFrameLines(text)
+  };
+}
+
+export function isInAppFrame(frame: StackFrame): boolean {
+  return !FRAMEWORK_PREFIXES.some(prefix => frame.method.startsWith(prefix));
+}
+
+// Compiler-generated names differ between builds; reduce them to the source method
+export function normalizeFrame(method: string): string {
+  return method
+    .replace(/\+<(\w+)>d__\d+\.MoveNext$/, '.$1') // async state machines
+    .replace(/\+<>c(?:__DisplayClass[\d_]+)?\.<(\w+)>b__[\w]+$/, '.$1') // lambdas
+    .replace(/`\d+/g, '') // generic arity
+    .replace(/\[[^\]]*\]/g, ''); // generic arguments
+}
+
+// Type plus the top in-app frames. Line numbers are left out so the same
+// throw site still matches after unrelated edits shift the file.
+export function stackFingerprint(exception: ParsedException): { fingerprint: string; frames: string[] } {
+  const inApp = exception.frames.filter(isInAppFrame);
+  const frames = (inApp.length > 0 ? inApp : exception.frames)
+    .slice(0, FINGERPRINT_FRAMES)
+    .map(f => normalizeFrame(f.method));
+
+  const site = frames.length > 0 ? frames.join(' < ') : normalizeMessage(exception.message);
+  return { fingerprint: `${exception.type} @ ${site}`, frames };
+}
+
+// Exceptions rows use the details JSON; other rows only count when their
+// message carries a stack trace
+export function extractException(log: LogEntry): ParsedException | null {
+  if (log._itemType === 'exception') {
+    const details = getRawValue(log, 'details') || getRawValue(log, 'Details');
+    const parsed = details ? parseExceptionDetails(details) : null;
+    if (parsed) {
+      return { ...parsed, type: parsed.type || log._exceptionType || '', message: parsed.message || log._message };
+    }
+    if (!log._exceptionType) return null;
+
+    // problemId is "<type> at <throwing method>"
+    const site = log._problemId?.split(' at ')[1]?.trim();
+    return { type: log._exceptionType, message: log._message, frames: site ? [{ method: site }] : [] };
+  }
+
+  if (!log._message.includes('Exception') || !HAS_FRAME.test(log._message)) return null;
+  const parsed = parseStackTraceText(log._message);
+  return parsed && parsed.frames.length > 0 ? parsed : null;
+}
+
+export function extractExceptionGroups(logs: LogEntry[]): ExceptionGroup[] {
+  const groups = new Map<string, ExceptionGroup>();
+
+  logs.forEach(log => {
+    const exception = extractException(log);
+    if (!exception) return;
+
+    const { fingerprint, frames } = stackFingerprint(exception);
+    let group = groups.get(fingerprint);
+    if (!group) {
+      group = {
+        fingerprint,
+        type: exception.type,
+        frames,
+        messages: [],
+        count: 0,
+        firstSeen: log._timestamp || new Date(),
+        lastSeen: log._timestamp || new Date(),
+        ids: []
+      };
+      groups.set(fingerprint, group);
+    }
+
+    group.count++;
+    group.ids.push(log._id);
+    if (exception.message && group.messages.length < 5 && !group.messages.includes(exception.message)) {
+      group.messages.push(exception.message);
+    }
+
+    if (log._timestamp) {
+      if (log._timestamp < group.firstSeen) group.firstSeen = log._timestamp;
+      if (log._timestamp > group.lastSeen) group.lastSeen = log._timestamp;
+    }
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 100);
+}
@@ -0,0 +1,217 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  BUILTIN_LINE_GRAMMARS,
+  createTextLogParser,
+  dateFromFileName,
+  detectLineGrammar,
+  grammarGroups,
+  isTextLogFile,
+  parseTextLog,
+  parseTextLogRows,
+  validateLineGrammar,
+  loadLineGrammars,
+  saveLineGrammar,
+  deleteLineGrammar,
+} from './textLog';
+import { createColumnarIngestor } from './logPipeline';
+import { hydrateLogs } from './columnarLogs';
+import { extractErrorPatterns } from './csvParser';
+import { extractExceptionGroups } from './stackTrace';
+import { LineGrammar } from '../types';
+
+const SITECORE_LOG = [
+  '4812 23:59:58 INFO  Sitecore started',
+  'ManagedPoolThread #3 23:59:59 ERROR Publish failed',
+  'Exception: System.InvalidOperationException',
+  'Message: Item is locked',
+  '   at Shop.Publishing.Publisher.Run()',
+  '',
+  'Heartbeat 00:00:01 WARN  Memory usage exceeded the threshold',
+  '4812 00:00:02 AUDIT (sitecore\\admin): Login',
+].join('\r\n');
+
+// Same steps csvWorker takes for text logs: chunked text -> ingestor
+function runWorkerTextPath(text: string, fileName: string, chunkSize = 13) {
+  const ingestor = createColumnarIngestor(0);
+  const parser = createTextLogParser(BUILTIN_LINE_GRAMMARS, (rows, columns) => ingestor.addRows(rows, columns), fileName);
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.push(text.slice(i, i + chunkSize));
+  }
+  parser.finish();
+  return { ...ingestor.finish(), grammar: parser.grammar() };
+}
+
+// In-memory Storage; this suite runs in node for File.text()
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: key => items.get(key) ?? null,
+    key: index => Array.from(items.keys())[index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); }
+  };
+}
+
+// =============================================================================
+// Grammars
+// =============================================================================
+describe('line grammars', () => {
+  it('should list named groups but not lookbehinds', () => {
+    expect(grammarGroups(String.raw`^(?<=x)(?<level>\w+) (?<!y)(?<message>.*)$`)).toEqual(['level', 'message']);
+  });
+
+  it('should require a name, a valid pattern and a message group', () => {
+    expect(validateLineGrammar({ name: '', pattern: '(?<message>.*)' })).toBe('Enter a name');
+    expect(validateLineGrammar({ name: 'x', pattern: '(?<message>.*' })).toBe('Invalid regular expression');
+    expect(validateLineGrammar({ name: 'x', pattern: '(?<text>.*)' })).toBe('The pattern needs a (?<message>...) group');
+    expect(validateLineGrammar({ name: 'Sitecore', pattern: '(?<message>.*)' })).toBe('A built-in format already uses this name');
+    expect(validateLineGrammar({ name: 'x', pattern: '(?<message>.*)' })).toBeNull();
+  });
+
+  it('should pick the built-in grammar matching the most lines', () => {
+    const lines = SITECORE_LOG.split('\r\n');
+    expect(detectLineGrammar(lines, BUILTIN_LINE_GRAMMARS)?.name).toBe('Sitecore');
+    expect(detectLineGrammar(['2024-01-15 10:00:00,123 [12] ERROR Shop.Cart - Failed'], BUILTIN_LINE_GRAMMARS)?.name).toBe('log4net');
+    expect(detectLineGrammar(['2024-01-15 10:00:00.123 +01:00 [ERR] Failed'], BUILTIN_LINE_GRAMMARS)?.name).toBe('Serilog');
+    expect(detectLineGrammar(['just some text'], BUILTIN_LINE_GRAMMARS)).toBeNull();
+  });
+
+  it('should recognise text log file names', () => {
+    expect(isTextLogFile({ name: 'log.20240115.101533.txt' })).toBe(true);
+    expect(isTextLogFile({ name: 'app.log.3' })).toBe(true);
+    expect(isTextLogFile({ name: 'export.csv' })).toBe(false);
+  });
+
+  it('should prefer the file extension over a text/plain type', () => {
+    expect(isTextLogFile({ name: 'export.csv', type: 'text/plain' })).toBe(false);
+    expect(isTextLogFile({ name: 'query.json', type: 'text/plain' })).toBe(false);
+    expect(isTextLogFile({ name: 'output', type: 'text/plain' })).toBe(true);
+  });
+
+  it('should read the day from Sitecore file names', () => {
+    expect(dateFromFileName('log.20240115.101533.txt')).toBe('2024-01-15');
+    expect(dateFromFileName('Publishing.log.2024-01-15.txt')).toBe('2024-01-15');
+    expect(dateFromFileName('log.txt')).toBeUndefined();
+    expect(dateFromFileName('log.20241315.txt')).toBeUndefined();
+  });
+});
+
+// =============================================================================
+// createTextLogParser
+// =============================================================================
+describe('createTextLogParser', () => {
+  it('should append continuation lines to the previous message', () => {
+    const { columns, rows } = parseTextLogRows(SITECORE_LOG, BUILTIN_LINE_GRAMMARS, 'log.20240115.235958.txt');
+
+    expect(columns).toEqual(['timestamp', 'thread', 'level', 'message']);
+    expect(rows).toHaveLength(4);
+    expect(rows[1]).toEqual({
+      timestamp: '2024-01-15T23:59:59',
+      thread: 'ManagedPoolThread #3',
+      level: 'ERROR',
+      message: 'Publish failed\nException: System.InvalidOperationException\nMessage: Item is locked\n   at Shop.Publishing.Publisher.Run()'
+    });
+  });
+
+  it('should move to the next day when a time-only log passes midnight', () => {
+    const { rows } = parseTextLogRows(SITECORE_LOG, BUILTIN_LINE_GRAMMARS, 'log.20240115.235958.txt');
+    expect(rows.map(r => r.timestamp)).toEqual([
+      '2024-01-15T23:59:58', '2024-01-15T23:59:59', '2024-01-16T00:00:01', '2024-01-16T00:00:02'
+    ]);
+  });
+
+  it('should keep the time alone when the file name has no date', () => {
+    const { rows } = parseTextLogRows(SITECORE_LOG, BUILTIN_LINE_GRAMMARS, 'log.txt');
+    expect(rows[0].timestamp).toBe('23:59:58');
+  });
+
+  it('should combine date, time and offset groups', () => {
+    const { columns, rows } = parseTextLogRows('2024-01-15 10:00:00.123 +01:00 [WRN] Slow query', BUILTIN_LINE_GRAMMARS);
+    expect(columns).toEqual(['timestamp', 'level', 'message']);
+    expect(rows[0].timestamp).toBe('2024-01-15T10:00:00.123+01:00');
+  });
+
+  it('should prefer custom grammars listed first', () => {
+    const custom: LineGrammar = { name: 'Pipe', pattern: String.raw`^(?<timestamp>[^|]+)\|(?<level>\w+)\|(?<message>.*)$` };
+    const { rows, grammar } = parseTextLogRows('2024-01-15T10:00:00Z|Error|Boom', [custom, ...BUILTIN_LINE_GRAMMARS]);
+    expect(grammar.name).toBe('Pipe');
+    expect(rows[0]).toEqual({ timestamp: '2024-01-15T10:00:00Z', level: 'Error', message: 'Boom' });
+  });
+
+  it('should fail when no grammar matches', () => {
+    expect(() => parseTextLogRows('plain text\nwithout structure', BUILTIN_LINE_GRAMMARS)).toThrow(/No log format matches/);
+  });
+
+  it('should not depend on how the input is chunked', () => {
+    const reference = runWorkerTextPath(SITECORE_LOG, 'log.20240115.txt', SITECORE_LOG.length);
+
+    for (const size of [1, 7, 64]) {
+      const chunked = runWorkerTextPath(SITECORE_LOG, 'log.20240115.txt', size);
+      expect(hydrateLogs(chunked.data).map(l => l._raw)).toEqual(hydrateLogs(reference.data).map(l => l._raw));
+    }
+  });
+});
+
+// =============================================================================
+// Ingestion: text logs feed the same views as CSV exports
+// =============================================================================
+describe('text log ingestion', () => {
+  it('should map the named groups onto log entries', async () => {
+    const parsed = await parseTextLog(new File([SITECORE_LOG], 'log.20240115.235958.txt'));
+
+    expect(parsed.detectedMapping).toMatchObject({ timestamp: 'timestamp', severity: 'level', message: 'message' });
+    expect(parsed.logs.map(l => l._severity)).toEqual([1, 2, 3, 1]);
+    expect(parsed.logs[0]._timestamp?.toISOString()).toBe('2024-01-16T00:00:02.000Z');
+    expect(parsed.warnings).toEqual([]);
+  });
+
+  it('should read Serilog level abbreviations', async () => {
+    const text = '2024-01-15 10:00:00 [FTL] Crash\n2024-01-15 10:00:01 [DBG] Noise';
+    const parsed = await parseTextLog(new File([text], 'app.log'));
+    expect(parsed.logs.map(l => l._severity).sort()).toEqual([0, 4]);
+  });
+
+  it('should produce the same entries in the worker', async () => {
+    const main = await parseTextLog(new File([SITECORE_LOG], 'log.20240115.txt'), [], 0);
+    const worker = runWorkerTextPath(SITECORE_LOG, 'log.20240115.txt');
+    const logs = hydrateLogs(worker.data);
+
+    expect(worker.grammar?.name).toBe('Sitecore');
+    expect(worker.columns).toEqual(main.columns);
+    expect(logs.map(l => [l._timestamp?.getTime(), l._severity, l._message])).toEqual(
+      main.logs.map(l => [l._timestamp?.getTime(), l._severity, l._message])
+    );
+  });
+
+  it('should feed error patterns and exception groups', async () => {
+    const parsed = await parseTextLog(new File([SITECORE_LOG], 'log.20240115.txt'));
+
+    expect(extractErrorPatterns(parsed.logs).map(p => p.count)).toEqual([1, 1]);
+    const groups = extractExceptionGroups(parsed.logs);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].type).toBe('System.InvalidOperationException');
+  });
+});
+
+// =============================================================================
+// Storage
+// =============================================================================
+describe('line grammar storage', () => {
+  it('should save, replace and delete custom grammars', () => {
+    const storage = memoryStorage();
+    saveLineGrammar({ name: 'Pipe', pattern: '(?<message>.*)' }, storage);
+    saveLineGrammar({ name: 'Pipe', pattern: '^(?<message>.*)$' }, storage);
+    expect(loadLineGrammars(storage)).toEqual([{ name: 'Pipe', pattern: '^(?<message>.*)$' }]);
+
+    expect(deleteLineGrammar('Pipe', storage)).toEqual([]);
+  });
+
+  it('should ignore corrupt storage', () => {
+    const storage = memoryStorage();
+    storage.setItem('pulse.lineGrammars', '{not json');
+    expect(loadLineGrammars(storage)).toEqual([]);
+  });
+});
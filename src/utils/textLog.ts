@@ -0,0 +1,306 @@
+import { LineGrammar, ParsedData } from '../types';
+import { buildParsedData } from './csvParser';
+import { createW3CLogParser, isW3CLog } from './w3cLog';
+
+const STORAGE_KEY = 'pulse.lineGrammars';
+
+export const BUILTIN_LINE_GRAMMARS: LineGrammar[] = [
+  {
+    // Sitecore log.20240115.101533.txt: "ManagedPoolThread #3 12:00:01 INFO  message"
+    name: 'Sitecore',
+    pattern: String.raw`^(?<thread>\S+(?: #\d+)?)\s+(?<time>\d{1,2}:\d{2}:\d{2})\s+(?<level>[A-Z]+)\s+(?<message>.*)$`,
+    builtin: true
+  },
+  {
+    // log4net PatternLayout used by Sitecore 9+ and most .NET apps:
+    // "2024-01-15 10:00:00,123 [12] ERROR Some.Logger - message"
+    name: 'log4net',
+    pattern: String.raw`^(?<date>\d{4}-\d{2}-\d{2})[ T](?<time>\d{2}:\d{2}:\d{2}(?:[.,]\d+)?)\s+\[(?<thread>[^\]]*)\]\s+(?<level>[A-Z]+)\s+(?<logger>\S+)\s+-\s+(?<message>.*)$`,
+    builtin: true
+  },
+  {
+    // Serilog file sink default: "2024-01-15 10:00:00.123 +01:00 [ERR] message"
+    name: 'Serilog',
+    pattern: String.raw`^(?<date>\d{4}-\d{2}-\d{2})[ T](?<time>\d{2}:\d{2}:\d{2}(?:\.\d+)?)\s*(?<offset>Z|[+-]\d{2}:\d{2})?\s+\[(?<level>[A-Z]{3})\]\s+(?<message>.*)$`,
+    builtin: true
+  }
+];
+
+// Groups that are combined into the timestamp column instead of kept as columns
+const TIMESTAMP_GROUPS = new Set(['timestamp', 'date', 'time', 'offset']);
+
+// Lines read before picking a grammar
+const DETECT_LINES = 50;
+
+// A backwards jump this large in a time-only log means midnight passed
+const DAY_ROLLOVER_SECONDS = 12 * 3600;
+
+// Extensions that pick another parser, whatever type the OS reports
+const OTHER_EXTENSIONS = /\.(csv|json)$/i;
+
+// The name decides first; text/plain only counts for names without a known
+// extension, since CSV files are often reported as text/plain too
+export function isTextLogFile(file: { name: string; type?: string }): boolean {
+  if (/\.(txt|log)(\.\d+)?$/i.test(file.name)) return true;
+  return !OTHER_EXTENSIONS.test(file.name) && file.type === 'text/plain';
+}
+
+// Named groups in pattern order; lookbehinds ((?<= / (?<!) are not groups
+export function grammarGroups(pattern: string): string[] {
+  return Array.from(pattern.matchAll(/\(\?<([A-Za-z_$][\w$]*)>/g), m => m[1]);
+}
+
+export function validateLineGrammar(grammar: LineGrammar): string | null {
+  if (!grammar.name.trim()) return 'Enter a name';
+  if (!grammar.builtin && BUILTIN_LINE_GRAMMARS.some(g => g.name === grammar.name.trim())) {
+    return 'A built-in format already uses this name';
+  }
+  if (!grammar.pattern) return 'Enter a pattern';
+  try {
+    new RegExp(grammar.pattern);
+  } catch {
+    return 'Invalid regular expression';
+  }
+  if (!grammarGroups(grammar.pattern).includes('message')) return 'The pattern needs a (?<message>...) group';
+  return null;
+}
+
+// Sitecore and most rolling appenders put the day in the file name
+export function dateFromFileName(fileName: string): string | undefined {
+  const match = /(?:^|\D)(\d{4})-?(\d{2})-?(\d{2})(?!\d)/.exec(fileName);
+  if (!match) return undefined;
+  const [, year, month, day] = match;
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return undefined;
+  return `${year}-${month}-${day}`;
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function secondsOfDay(time: string): number {
+  const [h, m, s] = time.split(':').map(part => parseFloat(part.replace(',', '.')));
+  return h * 3600 + m * 60 + (s || 0);
+}
+
+interface CompiledGrammar {
+  grammar: LineGrammar;
+  regex: RegExp;
+  fields: string[]; // Non-timestamp groups, kept as columns
+  columns: string[];
+}
+
+function compileGrammar(grammar: LineGrammar): CompiledGrammar {
+  const groups = grammarGroups(grammar.pattern);
+  const fields = groups.filter(g => !TIMESTAMP_GROUPS.has(g));
+  const hasTimestamp = groups.some(g => TIMESTAMP_GROUPS.has(g));
+  return {
+    grammar,
+    regex: new RegExp(grammar.pattern),
+    fields,
+    columns: hasTimestamp ? ['timestamp', ...fields] : fields
+  };
+}
+
+// The grammar matching the most lines; continuation lines match none, so a
+// clear majority is not required. Earlier grammars win ties.
+export function detectLineGrammar(lines: string[], grammars: LineGrammar[]): LineGrammar | null {
+  let best: LineGrammar | null = null;
+  let bestCount = 0;
+
+  for (const grammar of grammars) {
+    if (validateLineGrammar(grammar) !== null) continue;
+    const regex = new RegExp(grammar.pattern);
+    const count = lines.filter(line => regex.test(line)).length;
+    if (count > bestCount) {
+      best = grammar;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+export interface TextLogParser {
+  push(text: string): void;
+  finish(): void;
+  grammar(): LineGrammar | null;
+}
+
+type RowsHandler = (rows: Record<string, string>[], columns: string[]) => void;
+
+// Incremental line parser. Each line matching the grammar starts an entry;
+// other lines (stack traces, wrapped messages) are appended to the previous
+// entry's message. An entry is only emitted once the next one starts, so
+// continuation lines split across chunks stay with their entry.
+export function createTextLogParser(grammars: LineGrammar[], onRows: RowsHandler, fileName = ''): TextLogParser {
+  const fileDate = dateFromFileName(fileName);
+  let partial = '';
+  let started = false;
+  let held: string[] = []; // Lines read before a grammar is chosen
+  let compiled: CompiledGrammar | null = null;
+  let current: Record<string, string> | null = null;
+  let announced = false;
+  let dayOffset = 0;
+  let lastSeconds = -1;
+
+  const composeTimestamp = (groups: Record<string, string | undefined>): string => {
+    if (groups.timestamp) return groups.timestamp;
+    const time = groups.time;
+    if (!time) return groups.date || '';
+
+    let date = groups.date;
+    if (!date && fileDate) {
+      const seconds = secondsOfDay(time);
+      if (lastSeconds - seconds > DAY_ROLLOVER_SECONDS) dayOffset++;
+      lastSeconds = seconds;
+      date = addDays(fileDate, dayOffset);
+    }
+    return date ? `${date}T${time}${groups.offset || ''}` : time;
+  };
+
+  const processLines = (lines: string[]) => {
+    const grammar = compiled as CompiledGrammar;
+    const rows: Record<string, string>[] = [];
+
+    lines.forEach(line => {
+      const match = grammar.regex.exec(line);
+      if (match) {
+        if (current) rows.push(current);
+        const groups = match.groups || {};
+        const row: Record<string, string> = {};
+        if (grammar.columns[0] === 'timestamp') row.timestamp = composeTimestamp(groups);
+        grammar.fields.forEach(field => {
+          row[field] = groups[field] ?? '';
+        });
+        current = row;
+      } else if (current && line.trim()) {
+        current.message += `\n${line}`;
+      }
+    });
+
+    // The columns are announced even without rows so empty logs keep them
+    if (rows.length > 0 || !announced) {
+      announced = true;
+      onRows(rows, grammar.columns);
+    }
+  };
+
+  const choose = () => {
+    const grammar = detectLineGrammar(held.filter(line => line.trim()).slice(0, DETECT_LINES), grammars);
+    if (!grammar) {
+      throw new Error('No log format matches this file. Add a custom line format with a (?<message>...) group.');
+    }
+    compiled = compileGrammar(grammar);
+    const lines = held;
+    held = [];
+    processLines(lines);
+  };
+
+  const addLines = (lines: string[]) => {
+    if (compiled) {
+      processLines(lines);
+      return;
+    }
+    held.push(...lines);
+    if (held.filter(line => line.trim()).length >= DETECT_LINES) choose();
+  };
+
+  return {
+    push(text: string) {
+      if (!started) {
+        started = true;
+        if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      }
+
+      const lines = (partial + text).split(/\r?\n/);
+      partial = lines.pop() ?? '';
+      if (lines.length > 0) addLines(lines);
+    },
+
+    finish() {
+      const lines = partial ? [partial.replace(/\r$/, '')] : [];
+      partial = '';
+      if (compiled) {
+        processLines(lines);
+      } else {
+        held.push(...lines);
+        choose();
+      }
+
+      if (current) {
+        const grammar = compiled as CompiledGrammar;
+        onRows([current], grammar.columns);
+        current = null;
+      }
+    },
+
+    grammar: () => compiled?.grammar ?? null
+  };
+}
+
+export interface TextLogRows {
+  columns: string[];
+  rows: Record<string, string>[];
+  grammar: LineGrammar;
+}
+
+export function parseTextLogRows(text: string, grammars: LineGrammar[], fileName = ''): TextLogRows {
+  let columns: string[] = [];
+  const rows: Record<string, string>[] = [];
+  const parser = createTextLogParser(grammars, (batch, cols) => {
+    columns = cols;
+    rows.push(...batch);
+  }, fileName);
+  parser.push(text);
+  parser.finish();
+  return { columns, rows, grammar: parser.grammar() as LineGrammar };
+}
+
+// IIS W3C logs are recognised by their directives; other text goes through
+// the line grammars, custom ones first
+export async function parseTextLog(file: File, grammars: LineGrammar[] = [], fileIndex?: number): Promise<ParsedData> {
+  const text = await file.text();
+  if (isW3CLog(text)) {
+    let columns: string[] = [];
+    const rows: Record<string, string>[] = [];
+    const parser = createW3CLogParser((batch, cols) => {
+      columns = cols;
+      rows.push(...batch);
+    });
+    parser.push(text);
+    parser.finish();
+    return buildParsedData(rows, columns, fileIndex);
+  }
+
+  const { columns, rows } = parseTextLogRows(text, [...grammars, ...BUILTIN_LINE_GRAMMARS], file.name);
+  return buildParsedData(rows, columns, fileIndex);
+}
+
+export function loadLineGrammars(storage: Storage = localStorage): LineGrammar[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeGrammars(grammars: LineGrammar[], storage: Storage) {
+  storage.setItem(STORAGE_KEY, JSON.stringify(grammars));
+}
+
+// Saving under an existing name replaces that grammar
+export function saveLineGrammar(grammar: LineGrammar, storage: Storage = localStorage): LineGrammar[] {
+  const grammars = loadLineGrammars(storage).filter(g => g.name !== grammar.name);
+  grammars.push(grammar);
+  writeGrammars(grammars, storage);
+  return grammars;
+}
+
+export function deleteLineGrammar(name: string, storage: Storage = localStorage): LineGrammar[] {
+  const grammars = loadLineGrammars(storage).filter(g => g.name !== name);
+  writeGrammars(grammars, storage);
+  return grammars;
+}
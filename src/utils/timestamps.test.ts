@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimestampValue, compareNewestFirst, createTimestampAudit, isValidTimeZone } from './timestamps';
+
+// =============================================================================
+// parseTimestampValue
+// =============================================================================
+describe('parseTimestampValue', () => {
+  it('should parse ISO timestamps with offsets regardless of the source zone', () => {
+    const utc = parseTimestampValue('2024-01-15T10:30:00Z', 'America/New_York')!;
+    const offset = parseTimestampValue('2024-01-15T16:00:00+05:30')!;
+
+    expect(utc).toEqual({ ms: Date.parse('2024-01-15T10:30:00Z'), format: 'iso' });
+    expect(offset.ms).toBe(Date.parse('2024-01-15T10:30:00Z'));
+  });
+
+  it('should keep sub-millisecond digits of 7-digit .NET fractions', () => {
+    const parsed = parseTimestampValue('2024-01-15T10:30:00.1234567Z')!;
+
+    expect(parsed.ms - Date.parse('2024-01-15T10:30:00Z')).toBeCloseTo(123.4567, 3);
+  });
+
+  it('should parse portal exports as UTC by default', () => {
+    const parsed = parseTimestampValue('10/19/2026, 3:04:05.123 PM')!;
+
+    expect(parsed.format).toBe('portal');
+    expect(parsed.ms).toBe(Date.parse('2026-10-19T15:04:05.123Z'));
+  });
+
+  it('should handle 12 AM / 12 PM and 24-hour portal times', () => {
+    expect(parseTimestampValue('1/2/2024, 12:00:00 AM')!.ms).toBe(Date.parse('2024-01-02T00:00:00Z'));
+    expect(parseTimestampValue('1/2/2024, 12:30:00 PM')!.ms).toBe(Date.parse('2024-01-02T12:30:00Z'));
+    expect(parseTimestampValue('1/2/2024 23:15:00')!.ms).toBe(Date.parse('2024-01-02T23:15:00Z'));
+  });
+
+  it('should interpret offset-less timestamps in the declared source zone', () => {
+    // Amsterdam is UTC+2 in summer and UTC+1 in winter
+    expect(parseTimestampValue('7/1/2024, 12:00:00 PM', 'Europe/Amsterdam')!.ms).toBe(Date.parse('2024-07-01T10:00:00Z'));
+    expect(parseTimestampValue('2024-01-15 12:00:00', 'Europe/Amsterdam')!.ms).toBe(Date.parse('2024-01-15T11:00:00Z'));
+  });
+
+  it('should read epoch seconds and milliseconds', () => {
+    expect(parseTimestampValue('1705314600')).toEqual({ ms: 1705314600000, format: 'epoch' });
+    expect(parseTimestampValue('1705314600123')).toEqual({ ms: 1705314600123, format: 'epoch' });
+  });
+
+  it('should reject impossible dates instead of rolling them over', () => {
+    expect(parseTimestampValue('2/30/2024, 1:00:00 PM')).toBeNull();
+    expect(parseTimestampValue('2024-01-15T25:00:00Z')).toBeNull();
+    expect(parseTimestampValue('13:00:00 PM')).toBeNull();
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('should accept UTC, local and IANA names', () => {
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('local')).toBe(true);
+    expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+});
+
+describe('compareNewestFirst', () => {
+  it('should order newest first with missing values last', () => {
+    expect([1, NaN, 3, 2].sort(compareNewestFirst)).toEqual([3, 2, 1, NaN]);
+  });
+});
+
+// =============================================================================
+// createTimestampAudit
+// =============================================================================
+describe('createTimestampAudit', () => {
+  it('should stay quiet for a consistent column', () => {
+    const audit = createTimestampAudit();
+    ['2024-01-15T10:00:00Z', '2024-01-15T11:00:00Z', ''].forEach(v => audit.record(v, parseTimestampValue(v)));
+
+    expect(audit.warnings('timestamp')).toEqual([]);
+  });
+
+  it('should warn about mixed formats and unparseable values', () => {
+    const audit = createTimestampAudit();
+    ['2024-01-15T10:00:00Z', '2024-01-15T11:00:00Z', '1/15/2024, 1:00:00 PM', 'yesterday'].forEach(v => audit.record(v, parseTimestampValue(v)));
+
+    const warnings = audit.warnings('timestamp');
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain('2 ISO 8601, 1 portal');
+    expect(warnings[1]).toContain('1 values in timestamp column "timestamp" could not be parsed');
+  });
+});
@@ -0,0 +1,189 @@
+// Timestamp parsing for App Insights exports. Formats are matched explicitly
+// instead of handing strings to `new Date()`, whose handling of non-ISO input
+// differs between browsers and always assumes the browser's own zone.
+
+export type TimestampFormat = 'iso' | 'portal' | 'epoch' | 'other';
+
+export interface ParsedTimestamp {
+  ms: number; // Epoch milliseconds; the fraction keeps sub-millisecond precision
+  format: TimestampFormat;
+}
+
+// Source zone for timestamps without an offset: 'UTC', 'local' (the
+// browser's zone) or an IANA name such as 'Europe/Amsterdam'
+export const DEFAULT_TIME_ZONE = 'UTC';
+export const LOCAL_TIME_ZONE = 'local';
+
+export const TIMESTAMP_FORMAT_LABELS: Record<TimestampFormat, string> = {
+  iso: 'ISO 8601',
+  portal: 'portal (M/D/YYYY h:mm:ss AM/PM)',
+  epoch: 'epoch',
+  other: 'free-form'
+};
+
+// 2024-01-15T10:30:00.1234567Z, 2024-01-15 10:30:00, 2024-01-15T10:30:00+05:30
+const ISO = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?[ \t]*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+// 10/19/2026, 3:04:05.123 PM (portal CSV export), also 24-hour without AM/PM
+const PORTAL = /^(\d{1,2})\/(\d{1,2})\/(\d{4}),?[ \t]+(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?[ \t]*([AP]M)?$/i;
+
+// Seconds (10 digits) or milliseconds (13 digits) since the epoch
+const EPOCH = /^(\d{10}|\d{13})(\.\d+)?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsetCache = new Map<string, number>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (timeZone === DEFAULT_TIME_ZONE || timeZone === LOCAL_TIME_ZONE) return true;
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of `timeZone` from UTC at an instant, in ms. Offsets only change on
+// hour boundaries in practice, so results are cached per hour.
+function zoneOffsetMs(epochMs: number, timeZone: string): number {
+  if (timeZone === DEFAULT_TIME_ZONE) return 0;
+  if (timeZone === LOCAL_TIME_ZONE) return -new Date(epochMs).getTimezoneOffset() * 60000;
+
+  const key = `${timeZone}|${Math.floor(epochMs / 3600000)}`;
+  let offset = offsetCache.get(key);
+  if (offset === undefined) {
+    const parts: Record<string, number> = {};
+    zoneFormatter(timeZone).formatToParts(new Date(epochMs)).forEach(p => {
+      if (p.type !== 'literal') parts[p.type] = Number(p.value);
+    });
+    const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    offset = wall - Math.floor(epochMs / 1000) * 1000;
+    if (offsetCache.size > 10000) offsetCache.clear();
+    offsetCache.set(key, offset);
+  }
+  return offset;
+}
+
+// Wall-clock time (expressed as if it were UTC) in `timeZone` -> epoch ms.
+// The second lookup settles times that sit next to a DST transition.
+function wallClockToEpoch(wallMs: number, timeZone: string): number {
+  const guess = wallMs - zoneOffsetMs(wallMs, timeZone);
+  const offset = zoneOffsetMs(guess, timeZone);
+  return wallMs - offset;
+}
+
+function fractionMs(digits: string | undefined): number {
+  return digits ? parseFloat(`0.${digits}`) * 1000 : 0;
+}
+
+function explicitOffsetMs(offset: string): number {
+  if (offset.toUpperCase() === 'Z') return 0;
+  const sign = offset[0] === '-' ? -1 : 1;
+  const digits = offset.slice(1).replace(':', '');
+  return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * 60000;
+}
+
+// Rejects values Date.UTC would silently roll over, such as 02/30 or 25:00
+function isValidDate(year: number, month: number, day: number, hour: number, minute: number, second: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day && hour <= 23 && minute <= 59 && second <= 59;
+}
+
+export function parseTimestampValue(value: string | undefined, timeZone: string = DEFAULT_TIME_ZONE): ParsedTimestamp | null {
+  if (!value) return null;
+  const str = value.trim();
+  if (!str) return null;
+
+  const iso = ISO.exec(str);
+  if (iso) {
+    const [, y, mo, d, h = '0', mi = '0', s = '0', frac, offset] = iso;
+    const nums = [y, mo, d, h, mi, s].map(Number);
+    if (!isValidDate(nums[0], nums[1], nums[2], nums[3], nums[4], nums[5])) return null;
+    const wall = Date.UTC(nums[0], nums[1] - 1, nums[2], nums[3], nums[4], nums[5]) + fractionMs(frac);
+    const ms = offset ? wall - explicitOffsetMs(offset) : wallClockToEpoch(wall, timeZone);
+    return { ms, format: 'iso' };
+  }
+
+  const portal = PORTAL.exec(str);
+  if (portal) {
+    const [, mo, d, y, h, mi, s = '0', frac, meridiem] = portal;
+    let hour = Number(h);
+    if (meridiem) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+    }
+    if (!isValidDate(Number(y), Number(mo), Number(d), hour, Number(mi), Number(s))) return null;
+    const wall = Date.UTC(Number(y), Number(mo) - 1, Number(d), hour, Number(mi), Number(s)) + fractionMs(frac);
+    return { ms: wallClockToEpoch(wall, timeZone), format: 'portal' };
+  }
+
+  const epoch = EPOCH.exec(str);
+  if (epoch) {
+    const n = parseFloat(str);
+    return { ms: epoch[1].length === 10 ? n * 1000 : n, format: 'epoch' };
+  }
+
+  // Anything else is left to the engine (e.g. "January 15, 2024 10:30:00")
+  const fallback = new Date(str).getTime();
+  return isNaN(fallback) ? null : { ms: fallback, format: 'other' };
+}
+
+// Newest first, missing timestamps (NaN) last
+export function compareNewestFirst(a: number, b: number): number {
+  if (isNaN(a) && isNaN(b)) return 0;
+  if (isNaN(a)) return 1;
+  if (isNaN(b)) return -1;
+  return b - a;
+}
+
+export interface TimestampAudit {
+  record(value: string | undefined, parsed: ParsedTimestamp | null): void;
+  warnings(column: string): string[];
+}
+
+// Tallies the formats seen in a timestamp column so mixed or unreadable
+// values can be reported once per file instead of per row
+export function createTimestampAudit(): TimestampAudit {
+  const counts = new Map<TimestampFormat, number>();
+  let unparsed = 0;
+
+  return {
+    record(value, parsed) {
+      if (parsed) counts.set(parsed.format, (counts.get(parsed.format) || 0) + 1);
+      else if (value && value.trim()) unparsed++;
+    },
+
+    warnings(column) {
+      const warnings: string[] = [];
+      if (counts.size > 1) {
+        const mix = Array.from(counts.entries())
+          .sort((a, b) => b[1] - a[1])
+          .map(([format, count]) => `${count.toLocaleString()} ${TIMESTAMP_FORMAT_LABELS[format]}`)
+          .join(', ');
+        warnings.push(`Timestamp column "${column}" mixes formats (${mix}). Check the rows are from the same export and timezone.`);
+      }
+      if (unparsed > 0) {
+        warnings.push(`${unparsed.toLocaleString()} values in timestamp column "${column}" could not be parsed.`);
+      }
+      return warnings;
+    }
+  };
+}
@@ -0,0 +1,90 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createW3CLogParser, isW3CLog } from './w3cLog';
+import { parseTextLog } from './textLog';
+
+const IIS_LOG = [
+  '#Software: Microsoft Internet Information Services 10.0',
+  '#Version: 1.0',
+  '#Date: 2024-01-15 10:00:00',
+  '#Fields: date time s-ip cs-method cs-uri-stem cs-uri-query s-port cs-username c-ip cs(User-Agent) cs(Referer) sc-status sc-substatus sc-win32-status time-taken',
+  '2024-01-15 10:00:01 10.0.0.4 GET /api/orders/42 - 443 - 10.0.0.9 Mozilla/5.0 - 200 0 0 31',
+  '2024-01-15 10:00:02 10.0.0.4 POST /api/orders - 443 - 10.0.0.9 Mozilla/5.0 - 500 19 5 1235',
+  '2024-01-15 10:00:03 10.0.0.4 GET /styles/site.css - 443 - 10.0.0.9 Mozilla/5.0 - 404 0 2 4',
+].join('\r\n');
+
+function parseRows(text: string, chunkSize = text.length) {
+  let columns: string[] = [];
+  const rows: Record<string, string>[] = [];
+  const parser = createW3CLogParser((batch, cols) => {
+    columns = cols;
+    rows.push(...batch);
+  });
+  for (let i = 0; i < text.length; i += chunkSize) {
+    parser.push(text.slice(i, i + chunkSize));
+  }
+  parser.finish();
+  return { columns, rows };
+}
+
+// =============================================================================
+// createW3CLogParser
+// =============================================================================
+describe('createW3CLogParser', () => {
+  it('should recognise IIS logs by their directives', () => {
+    expect(isW3CLog(IIS_LOG)).toBe(true);
+    expect(isW3CLog('4812 10:00:00 INFO started')).toBe(false);
+  });
+
+  it('should name columns from the Fields directive and combine date and time', () => {
+    const { columns, rows } = parseRows(IIS_LOG);
+
+    expect(columns[0]).toBe('timestamp');
+    expect(columns).not.toContain('date');
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toMatchObject({
+      timestamp: '2024-01-15T10:00:02Z',
+      'cs-method': 'POST',
+      'cs-uri-stem': '/api/orders',
+      'cs-uri-query': '',
+      'sc-status': '500',
+      'sc-substatus': '19',
+      'time-taken': '1235'
+    });
+  });
+
+  it('should keep the first header block when the field list changes', () => {
+    const text = `${IIS_LOG}\n#Fields: date time cs-method cs-uri-stem sc-status\n2024-01-15 11:00:00 DELETE /api/orders/7 204`;
+    const { columns, rows } = parseRows(text);
+
+    expect(columns).toContain('time-taken');
+    expect(rows[3]).toMatchObject({ 'cs-method': 'DELETE', 'sc-status': '204', 'time-taken': '' });
+  });
+
+  it('should not depend on how the input is chunked', () => {
+    const reference = parseRows(IIS_LOG);
+    for (const size of [1, 9, 100]) {
+      expect(parseRows(IIS_LOG, size)).toEqual(reference);
+    }
+  });
+
+  it('should load as request telemetry', async () => {
+    const parsed = await parseTextLog(new File([IIS_LOG], 'u_ex240115.log'));
+
+    expect(parsed.detectedMapping).toMatchObject({
+      timestamp: 'timestamp',
+      tableKind: 'request',
+      method: 'cs-method',
+      url: 'cs-uri-stem',
+      resultCode: 'sc-status',
+      subStatus: 'sc-substatus',
+      duration: 'time-taken'
+    });
+
+    const failed = parsed.logs.find(l => l._resultCode === '500')!;
+    expect(failed._severity).toBe(3);
+    expect(failed._message).toBe('POST /api/orders returned 500.19 in 1235 ms');
+    expect(failed._timestamp?.toISOString()).toBe('2024-01-15T10:00:02.000Z');
+    expect(parsed.logs.find(l => l._resultCode === '404')?._severity).toBe(2);
+  });
+});
@@ -0,0 +1,92 @@
+// IIS W3C extended log files (u_ex240115.log): '#' directives, then one
+// space-separated line per request in the order given by '#Fields:'.
+// Times are always UTC; '-' marks an empty field.
+
+export const W3C_FORMAT_NAME = 'IIS W3C';
+
+export interface W3CLogParser {
+  push(text: string): void;
+  finish(): void;
+}
+
+type RowsHandler = (rows: Record<string, string>[], columns: string[]) => void;
+
+// The fields IIS writes when logging is left at its defaults
+const DEFAULT_FIELDS = [
+  'date', 'time', 's-ip', 'cs-method', 'cs-uri-stem', 'cs-uri-query', 's-port', 'cs-username',
+  'c-ip', 'cs(User-Agent)', 'cs(Referer)', 'sc-status', 'sc-substatus', 'sc-win32-status', 'time-taken'
+];
+
+export function isW3CLog(text: string): boolean {
+  return /^\uFEFF?#(Software|Version|Date|Fields):/.test(text);
+}
+
+// date and time are combined into one timestamp column
+function columnsFor(fields: string[]): string[] {
+  const rest = fields.filter(f => f !== 'date' && f !== 'time');
+  return fields.includes('time') ? ['timestamp', ...rest] : rest;
+}
+
+// IIS starts a new header block (and may change the field list) whenever the
+// site restarts. Rows keep the columns of the first block; fields added later
+// are dropped and missing ones are left empty.
+export function createW3CLogParser(onRows: RowsHandler): W3CLogParser {
+  let partial = '';
+  let started = false;
+  let fields: string[] = DEFAULT_FIELDS;
+  let columns: string[] | null = null;
+  let announced = false;
+
+  const parseLines = (lines: string[]) => {
+    const rows: Record<string, string>[] = [];
+
+    lines.forEach(line => {
+      if (!line.trim()) return;
+      if (line.startsWith('#')) {
+        const directive = /^#Fields:\s*(.*)$/.exec(line);
+        if (directive) {
+          fields = directive[1].trim().split(/\s+/);
+          if (!columns) columns = columnsFor(fields);
+        }
+        return;
+      }
+
+      const header = columns ?? (columns = columnsFor(fields));
+      const values: Record<string, string> = {};
+      line.trim().split(/\s+/).forEach((value, i) => {
+        if (fields[i]) values[fields[i]] = value === '-' ? '' : value;
+      });
+      if (values.time) values.timestamp = `${values.date ? `${values.date}T` : ''}${values.time}${values.date ? 'Z' : ''}`;
+
+      const row: Record<string, string> = {};
+      header.forEach(col => {
+        row[col] = values[col] ?? '';
+      });
+      rows.push(row);
+    });
+
+    // The columns are announced even without rows so empty logs keep them
+    if (columns && (rows.length > 0 || !announced)) {
+      announced = true;
+      onRows(rows, columns);
+    }
+  };
+
+  return {
+    push(text: string) {
+      if (!started) {
+        started = true;
+        if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      }
+
+      const lines = (partial + text).split(/\r?\n/);
+      partial = lines.pop() ?? '';
+      if (lines.length > 0) parseLines(lines);
+    },
+
+    finish() {
+      parseLines(partial ? [partial.replace(/\r$/, '')] : []);
+      partial = '';
+    }
+  };
+}
@@ -1,4 +1,6 @@
 import { describe, it, expect } from 'vitest';
+import { ColumnarLogs, ColumnMapping } from '../types';
+import { createColumnarBuilder } from '../utils/columnarLogs';
 
 // Note: Testing Web Workers in Vitest is complex because they run in a different context.
 // This test file demonstrates the expected message protocol, but full integration testing
@@ -11,14 +13,16 @@ describe('csvWorker message protocol', () => {
     type ProgressMessage = {
       type: 'progress';
       percent: number;
+      bytesRead: number;
+      totalBytes: number;
     };
 
     type CompleteMessage = {
       type: 'complete';
       data: {
-        logs: any[];
+        columnar: ColumnarLogs;
         columns: string[];
-        detectedMapping: any;
+        detectedMapping: ColumnMapping;
       };
     };
 
@@ -28,10 +32,14 @@ describe('csvWorker message protocol', () => {
     };
 
     // Verify types are well-formed
-    const progressMsg: ProgressMessage = { type: 'progress', percent: 50 };
+    const progressMsg: ProgressMessage = { type: 'progress', percent: 50, bytesRead: 512, totalBytes: 1024 };
     const completeMsg: CompleteMessage = {
       type: 'complete',
-      data: { logs: [], columns: [], detectedMapping: {} }
+      data: {
+        columnar: createColumnarBuilder([]).build().data,
+        columns: [],
+        detectedMapping: { timestamp: '', severity: '', message: '', operationId: '' }
+      }
     };
     const errorMsg: ErrorMessage = { type: 'error', message: 'test' };
 
@@ -1,186 +1,171 @@
-import Papa from 'papaparse';
-
-// Types
-interface LogEntry {
-  _id: number;
-  _timestamp: Date | null;
-  _severity: number;
-  _message: string;
-  _raw: Record<string, string>;
-  _fileIndex?: number;
-  _serverRole?: string;
-}
-
-interface ColumnMapping {
-  timestamp: string;
-  severity: string;
-  message: string;
-}
+import { isJSONFile, parseQueryResult } from '../utils/jsonParser';
+import { createCsvStreamParser } from '../utils/csvStream';
+import { ColumnarIngestResult, ColumnarIngestor, createColumnarIngestor } from '../utils/logPipeline';
+import { BUILTIN_LINE_GRAMMARS, TextLogParser, createTextLogParser, isTextLogFile } from '../utils/textLog';
+import { W3CLogParser, W3C_FORMAT_NAME, createW3CLogParser, isW3CLog } from '../utils/w3cLog';
+import { InputSource, openInput, readSourceText } from '../utils/archive';
+import { isTsvFile } from '../utils/clipboard';
+import { supportsLowMemory } from '../utils/rowSource';
+import { LineGrammar, MappingProfile } from '../types';
+
+// Parsing worker. Field derivation lives in utils/logPipeline so this path
+// stays identical to parseCSV / parseJSON; the worker only does I/O.
 
 interface ParseMessage {
   type: 'parse';
   file: File;
+  entry?: string; // File to read inside a zip archive
   fileIndex?: number;
+  profiles?: MappingProfile[];
+  grammars?: LineGrammar[]; // Custom line formats for text logs
+  lowMemory?: boolean; // Keep byte ranges instead of cells; plain CSV files only
+  partials?: boolean; // Post snapshots of the rows parsed so far
 }
 
-// Column detection patterns
-const TIMESTAMP_PATTERNS = [
-  'timestamp', 'time', 'datetime', 'date', 'created', 'logged',
-  'eventtime', 'timegenerated', 'ingestiontime', 'clienttime',
-  'Timestamp', 'Time', 'DateTime', 'Date', 'TimeGenerated'
-];
-
-const SEVERITY_PATTERNS = [
-  'severitylevel', 'severity', 'level', 'loglevel', 'type',
-  'SeverityLevel', 'Severity', 'Level', 'LogLevel', 'Type'
-];
-
-const MESSAGE_PATTERNS = [
-  'message', 'msg', 'description', 'text', 'details', 'content',
-  'renderedmessage', 'innermostmessage', 'outermessage', 'problemid',
-  'Message', 'Msg', 'Description', 'Text', 'Details', 'RenderedMessage'
-];
-
-function findColumn(columns: string[], patterns: string[]): string {
-  for (const pattern of patterns) {
-    const found = columns.find(c => c.toLowerCase() === pattern.toLowerCase());
-    if (found) return found;
-  }
-  for (const pattern of patterns) {
-    const found = columns.find(c => c.toLowerCase().includes(pattern.toLowerCase()));
-    if (found) return found;
-  }
-  return '';
+// Each snapshot copies every row parsed so far, so they are spaced out in
+// time and by growth to keep their total cost linear in the file size
+const PARTIAL_INTERVAL_MS = 1000;
+const PARTIAL_GROWTH = 1.5;
+
+// Hand the columnar arrays over as transferables instead of structured-cloning
+// one object per row
+function postResult(type: 'partial' | 'complete', result: ColumnarIngestResult, lineFormat?: string, delimiter?: string) {
+  const { data, transfer, columns, mapping, profileName, warnings, summary } = result;
+  if (data.locations && delimiter) data.locations.delimiter = delimiter;
+
+  self.postMessage({
+    type,
+    data: {
+      columnar: data,
+      columns,
+      detectedMapping: mapping,
+      profileName,
+      warnings,
+      lineFormat,
+      summary
+    }
+  }, { transfer });
 }
 
-function detectColumnMapping(columns: string[]): ColumnMapping {
-  return {
-    timestamp: findColumn(columns, TIMESTAMP_PATTERNS),
-    severity: findColumn(columns, SEVERITY_PATTERNS),
-    message: findColumn(columns, MESSAGE_PATTERNS)
-  };
+function postComplete(ingestor: ColumnarIngestor, lineFormat?: string, delimiter?: string) {
+  postResult('complete', ingestor.finish(), lineFormat, delimiter);
 }
 
-function parseSeverity(value: string | number | undefined): number {
-  if (value === undefined || value === null || value === '') return 0;
+// Called after each chunk; posts a snapshot when one is due
+function createPartialPoster(ingestor: ColumnarIngestor, enabled: boolean, lineFormat: () => string | undefined, delimiter: () => string) {
+  let lastTime = Date.now();
+  let lastCount = 0;
+  return () => {
+    if (!enabled) return;
+    const now = Date.now();
+    if (now - lastTime < PARTIAL_INTERVAL_MS || ingestor.count < Math.max(1, lastCount * PARTIAL_GROWTH)) return;
+    const snapshot = ingestor.snapshot();
+    if (!snapshot) return;
+    lastTime = now;
+    lastCount = snapshot.data.count;
+    postResult('partial', snapshot, lineFormat(), delimiter());
+  };
+}
 
-  const str = String(value).toLowerCase().trim();
-  const num = parseInt(str);
-  if (!isNaN(num) && num >= 0 && num <= 4) return num;
+// Read the file as a stream so progress reflects bytes actually consumed.
+// For compressed files these are the compressed bytes, not the output size.
+async function readFileText(source: InputSource, onText: (text: string) => void) {
+  let lastPercent = -1;
 
-  if (str.includes('error') || str.includes('critical') || str.includes('fatal')) return 3;
-  if (str.includes('warn')) return 2;
-  if (str.includes('info') || str.includes('information')) return 1;
-  if (str.includes('verbose') || str.includes('debug') || str.includes('trace')) return 0;
+  await readSourceText(source, (text, bytesRead) => {
+    onText(text);
 
-  return 1;
+    const percent = source.size > 0 ? Math.min(100, Math.floor((bytesRead / source.size) * 100)) : 100;
+    if (percent !== lastPercent) {
+      self.postMessage({
+        type: 'progress',
+        percent,
+        bytesRead,
+        totalBytes: source.size
+      });
+      lastPercent = percent;
+    }
+  });
 }
 
-function parseTimestamp(value: string | undefined): Date | null {
-  if (!value) return null;
-  const date = new Date(value);
-  if (!isNaN(date.getTime())) return date;
-  return null;
-}
+async function parseCSVStream(source: InputSource, fileIndex?: number, profiles?: MappingProfile[], lowMemory = false, partials = false) {
+  const ingestor = createColumnarIngestor(fileIndex, profiles, lowMemory);
 
-function extractServerRole(row: Record<string, string>, columns: string[]): string | undefined {
-  const customDimCol = columns.find(c =>
-    c.toLowerCase() === 'customdimensions' || c.toLowerCase() === 'custom_dimensions'
+  // Rows are converted as each chunk arrives instead of after the whole read
+  const parser = createCsvStreamParser(
+    (rows, columns, ranges) => ingestor.addRows(rows, columns, ranges),
+    isTsvFile(source) ? '\t' : '',
+    lowMemory
   );
+  const postPartial = createPartialPoster(ingestor, partials, () => undefined, () => parser.delimiter);
 
-  if (!customDimCol || !row[customDimCol]) return undefined;
+  await readFileText(source, text => {
+    parser.push(text);
+    postPartial();
+  });
+  parser.finish();
 
-  try {
-    const dims = JSON.parse(row[customDimCol]);
-    const instanceName = dims.InstanceName || dims.instanceName || '';
+  postComplete(ingestor, undefined, parser.delimiter);
+}
 
-    if (instanceName.includes('-CM')) return 'CM';
-    if (instanceName.includes('-CD')) return 'CD';
-    if (instanceName.includes('-XP')) return 'XP';
-    if (instanceName) return 'Other';
+async function parseJSONFile(source: InputSource, fileIndex?: number, profiles?: MappingProfile[]) {
+  let text = '';
+  await readFileText(source, chunk => { text += chunk; });
 
-    return undefined;
-  } catch {
-    return undefined;
-  }
+  const { columns, rows } = parseQueryResult(text);
+  const ingestor = createColumnarIngestor(fileIndex, profiles);
+  ingestor.addRows(rows, columns);
+
+  postComplete(ingestor);
 }
 
-self.onmessage = (e: MessageEvent<ParseMessage>) => {
-  const { file, fileIndex } = e.data;
-
-  // Track progress
-  let rowsProcessed = 0;
-  let totalRows = 0;
-  let lastProgressUpdate = 0;
-
-  Papa.parse(file, {
-    header: true,
-    skipEmptyLines: true,
-    worker: false, // We're already in a worker
-    complete: (parseResult) => {
-      if (parseResult.errors.length > 0) {
-        console.warn('Parse warnings:', parseResult.errors);
+// IIS W3C logs are recognised from their first directive; other text logs go
+// through the line grammars, custom formats before the built-in ones
+async function parseTextLogStream(source: InputSource, fileIndex?: number, profiles?: MappingProfile[], grammars: LineGrammar[] = [], partials = false) {
+  const ingestor = createColumnarIngestor(fileIndex, profiles);
+  const onRows = (rows: Record<string, string>[], columns: string[]) => ingestor.addRows(rows, columns);
+  let parser: W3CLogParser | TextLogParser | null = null;
+  let lineFormat: string | undefined;
+  const postPartial = createPartialPoster(ingestor, partials, () => {
+    const active = parser as W3CLogParser | TextLogParser | null;
+    return active && 'grammar' in active ? active.grammar()?.name : lineFormat;
+  }, () => '');
+
+  await readFileText(source, text => {
+    if (!parser) {
+      if (isW3CLog(text)) {
+        parser = createW3CLogParser(onRows);
+        lineFormat = W3C_FORMAT_NAME;
+      } else {
+        parser = createTextLogParser([...grammars, ...BUILTIN_LINE_GRAMMARS], onRows, source.name);
       }
+    }
+    parser.push(text);
+    postPartial();
+  });
 
-      const columns = parseResult.meta.fields || [];
-      const mapping = detectColumnMapping(columns);
-      totalRows = (parseResult.data as Record<string, string>[]).length;
-
-      // Process all rows
-      const logs: LogEntry[] = (parseResult.data as Record<string, string>[]).map((row, index) => {
-        rowsProcessed++;
-
-        // Send progress updates every 10% or every 1000 rows
-        const progress = Math.floor((rowsProcessed / totalRows) * 100);
-        if (progress - lastProgressUpdate >= 10 || rowsProcessed % 1000 === 0) {
-          self.postMessage({
-            type: 'progress',
-            percent: progress
-          });
-          lastProgressUpdate = progress;
-        }
-
-        const timestamp = mapping.timestamp ? parseTimestamp(row[mapping.timestamp]) : null;
-        const severity = mapping.severity ? parseSeverity(row[mapping.severity]) : 1;
-        const message = mapping.message ? String(row[mapping.message] || '') :
-          Object.values(row).find(v => typeof v === 'string' && String(v).length > 50) as string || '';
-
-        const serverRole = extractServerRole(row, columns);
-
-        return {
-          _id: index,
-          _timestamp: timestamp,
-          _severity: severity,
-          _message: message,
-          _raw: row,
-          _fileIndex: fileIndex,
-          _serverRole: serverRole
-        };
-      });
+  const active = parser as W3CLogParser | TextLogParser | null;
+  if (!active) throw new Error('File is empty');
+  active.finish();
+  if ('grammar' in active) lineFormat = active.grammar()?.name;
 
-      // Sort by timestamp (newest first)
-      logs.sort((a, b) => {
-        if (!a._timestamp && !b._timestamp) return 0;
-        if (!a._timestamp) return 1;
-        if (!b._timestamp) return -1;
-        return b._timestamp.getTime() - a._timestamp.getTime();
-      });
+  postComplete(ingestor, lineFormat);
+}
 
-      // Send completion with data
-      self.postMessage({
-        type: 'complete',
-        data: {
-          logs,
-          columns,
-          detectedMapping: mapping
-        }
-      });
-    },
-    error: (error) => {
-      self.postMessage({
-        type: 'error',
-        message: error.message,
-      });
-    },
+// Cancellation is handled by the main thread terminating this worker
+// Compressed files are dispatched on the name inside, e.g. export.json.gz
+self.onmessage = (e: MessageEvent<ParseMessage>) => {
+  const { file, entry, fileIndex, profiles, grammars, lowMemory, partials } = e.data;
+
+  openInput(file, entry).then(source => {
+    const inner = { name: source.name };
+    if (isJSONFile(inner)) return parseJSONFile(source, fileIndex, profiles);
+    if (isTextLogFile(inner)) return parseTextLogStream(source, fileIndex, profiles, grammars, partials);
+    return parseCSVStream(source, fileIndex, profiles, !!lowMemory && supportsLowMemory(file, entry), partials);
+  }).catch((error: Error) => {
+    self.postMessage({
+      type: 'error',
+      message: error.message,
+    });
   });
 };
@@ -0,0 +1,51 @@
+import { ColumnarLogs } from '../types';
+import { CompiledFilter, FilterIndex, FilterQuery, compileFilter, createFilterIndex } from '../utils/filterIndex';
+
+// Filter worker. Holds the indexes for the dashboard's current file and
+// answers each query in chunks, so the first matches reach the grid before
+// the whole file is scanned. A newer query stops the one in flight.
+
+type FilterMessage =
+  | { type: 'load'; data: ColumnarLogs }
+  | { type: 'query'; queryId: number; query: FilterQuery };
+
+const CHUNK_ROWS = 50000;
+
+let index: FilterIndex | null = null;
+let currentQuery = 0;
+
+function postError(error: unknown, queryId?: number) {
+  self.postMessage({ type: 'error', queryId, message: error instanceof Error ? error.message : 'Filtering failed' });
+}
+
+// Later chunks run from a timer, outside onmessage, so each chunk reports its
+// own errors
+function scanChunks(queryId: number, filter: CompiledFilter, start: number) {
+  if (queryId !== currentQuery || !index) return;
+  try {
+    const end = start + CHUNK_ROWS;
+    const { chartRows, gridRows } = filter.scan(start, end);
+    const done = end >= index.data.count;
+
+    self.postMessage({ type: 'matches', queryId, chartRows, gridRows, done }, { transfer: [chartRows.buffer, gridRows.buffer] });
+    // Yield so a newer query can arrive before the next chunk
+    if (!done) setTimeout(() => scanChunks(queryId, filter, end), 0);
+  } catch (error) {
+    postError(error, queryId);
+  }
+}
+
+self.onmessage = (e: MessageEvent<FilterMessage>) => {
+  const message = e.data;
+  try {
+    if (message.type === 'load') {
+      currentQuery = 0;
+      index = createFilterIndex(message.data);
+    } else if (index) {
+      currentQuery = message.queryId;
+      scanChunks(message.queryId, compileFilter(index, message.query), 0);
+    }
+  } catch (error) {
+    postError(error, message.type === 'query' ? message.queryId : undefined);
+  }
+};